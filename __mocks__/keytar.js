@@ -0,0 +1,22 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+// In-memory keychain
+const passwords = new Map();
+
+function key(service, account) {
+  return `${service}/${account}`;
+}
+
+const keytar = {
+  getPassword: jest.fn(async (service, account) => {
+    const password = passwords.get(key(service, account));
+    return password === undefined ? null : password;
+  }),
+  setPassword: jest.fn(async (service, account, password) => {
+    passwords.set(key(service, account), password);
+  }),
+  deletePassword: jest.fn(async (service, account) => passwords.delete(key(service, account)))
+};
+
+module.exports = keytar;
@@ -1,6 +1,8 @@
 const INTERFACE = "Interface";
 const CAPABILITY_MODEL = "CapabilityModel";
 const IS_PUBLIC_URL = "?public";
+const IS_LOCAL_URL = "?local";
+const LOCAL_REPOSITORY = "Local repository";
 const VALUE = "value";
 const ALL = "All";
 
@@ -10,6 +12,8 @@ const repository = new Vue({
     companyName:
       _location.search === IS_PUBLIC_URL
         ? "Public repository"
+        : _location.search === IS_LOCAL_URL
+        ? LOCAL_REPOSITORY
         : "Company repository",
     selectedInterfaces: {
       value: []
@@ -64,7 +68,12 @@ const repository = new Vue({
     },
     filterTagsKeywords: "",
     nextPageLoadingCounter: null,
-    publicRepository: _location.search === IS_PUBLIC_URL
+    publicRepository: _location.search === IS_PUBLIC_URL,
+    // repository passed to commands, true for public and false for company repository
+    repository:
+      _location.search === IS_LOCAL_URL
+        ? LOCAL_REPOSITORY
+        : _location.search === IS_PUBLIC_URL
   },
   methods: {
     command,
@@ -118,7 +127,7 @@ function deleteDigitalTwinFiles() {
       : this.selectedCapabilityModels.value;
   command(
     "azure-digital-twins.deleteModels",
-    this.publicRepository,
+    this.repository,
     fileIds,
     refreshDigitalTwinFileList.bind(this)
   );
@@ -131,7 +140,7 @@ function editDigitalTwinFiles() {
       : this.selectedCapabilityModels.value;
   command(
     "azure-digital-twins.downloadModels",
-    this.publicRepository,
+    this.repository,
     fileIds,
     refreshDigitalTwinFileList.bind(this)
   );
@@ -166,7 +175,7 @@ function getNextPageDigitalTwinFiles(fileType) {
   loadingDigitalTwinFiles.value = true;
   command(
     commandName,
-    this.publicRepository,
+    this.repository,
     this.searchKeywords,
     50,
     nextToken.value,
@@ -0,0 +1,77 @@
+const GET_MODEL_TREE = "azure-digital-twins.getModelTree";
+const REVEAL_MODEL_SOURCE = "azure-digital-twins.revealModelSource";
+// interfaces and contents are expanded at first
+const EXPANDED_DEPTH = 2;
+
+Vue.component("tree-node", {
+  template: "#tree-node-template",
+  props: ["node", "depth"],
+  computed: {
+    kindClass: function() {
+      return this.node.kind.toLowerCase().replace(/\s+/g, "-");
+    }
+  },
+  methods: {
+    toggle: function() {
+      this.node.expanded = !this.node.expanded;
+    },
+    reveal: function() {
+      command(REVEAL_MODEL_SOURCE, this.node.filePath, this.node.offset, this.node.length);
+    }
+  }
+});
+
+const visualizer = new Vue({
+  el: "#main",
+  data: {
+    // file path is passed as query of url
+    filePath: decodeURIComponent((_location.search || "").substr(1)),
+    tree: null,
+    loading: false,
+    error: ""
+  },
+  computed: {
+    fileName: function() {
+      return this.filePath.split(/[\\/]/).pop();
+    }
+  },
+  methods: {
+    refresh,
+    expandAll
+  },
+  created: function() {
+    refresh.call(this);
+  }
+});
+
+function refresh() {
+  this.loading = true;
+  this.error = "";
+  command(GET_MODEL_TREE, this.filePath, res => {
+    this.loading = false;
+    if (!res.result) {
+      this.tree = null;
+      this.error = res.message || `Fail to load ${this.fileName}`;
+      return;
+    }
+    initExpanded(res.result, 0);
+    this.tree = res.result;
+  });
+}
+
+function expandAll(expanded) {
+  setExpanded(this.tree, expanded);
+}
+
+function initExpanded(node, depth) {
+  node.expanded = depth < EXPANDED_DEPTH;
+  node.children.forEach(child => initExpanded(child, depth + 1));
+}
+
+function setExpanded(node, expanded) {
+  if (!node) {
+    return;
+  }
+  node.expanded = expanded;
+  node.children.forEach(child => setExpanded(child, expanded));
+}
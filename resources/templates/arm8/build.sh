@@ -4,5 +4,7 @@ set -x
 rm -rf cmake
 mkdir cmake
 cd cmake
-cmake .. -DCMAKE_TOOLCHAIN_FILE=/work/vcpkg/scripts/buildsystems/vcpkg.cmake -DVCPKG_TARGET_TRIPLET=aarch64-linux-custom -Duse_prov_client=ON -Dhsm_type_symm_key:BOOL=ON
+# Query code model of CMake file API to find files to deploy
+mkdir -p .cmake/api/v1/query && touch .cmake/api/v1/query/codemodel-v2
+cmake .. -DCMAKE_TOOLCHAIN_FILE=/work/vcpkg/scripts/buildsystems/vcpkg.cmake -DVCPKG_TARGET_TRIPLET=aarch64-linux-custom -Duse_prov_client=ON -Dhsm_type_symm_key:BOOL=ON ${3:+-DCMAKE_BUILD_TYPE=$3}
 cmake --build .
\ No newline at end of file
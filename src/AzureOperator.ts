@@ -21,6 +21,32 @@ export class AzureOperator {
     }
   }
 
+  async planProvision(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext
+  ): Promise<void> {
+    const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
+    if (iotProject) {
+      await iotProject.planProvision();
+    }
+  }
+
+  async deprovision(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext
+  ): Promise<void> {
+    const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
+    if (!iotProject) {
+      return;
+    }
+    const status = await iotProject.deprovision();
+    if (status) {
+      vscode.window.showInformationMessage("Azure deprovision succeeded.");
+    }
+  }
+
   async deploy(
     context: vscode.ExtensionContext,
     channel: vscode.OutputChannel,
@@ -34,4 +60,15 @@ export class AzureOperator {
       await iotProject.deploy();
     }
   }
+
+  async switchEnvironment(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext
+  ): Promise<void> {
+    const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
+    if (iotProject) {
+      await iotProject.switchEnvironment();
+    }
+  }
 }
@@ -5,6 +5,7 @@
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
 
+import { BuildResult } from "./Models/BuildResult";
 import { TelemetryContext } from "./telemetry";
 import { constructAndLoadIoTProject } from "./utils";
 
@@ -13,12 +14,12 @@ export class DeviceOperator {
     context: vscode.ExtensionContext,
     channel: vscode.OutputChannel,
     telemetryContext: TelemetryContext
-  ): Promise<void> {
+  ): Promise<BuildResult | undefined> {
     const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
     if (!iotProject) {
       return;
     }
-    await iotProject.compile();
+    return iotProject.compile();
   }
 
   async upload(
@@ -33,6 +34,46 @@ export class DeviceOperator {
     await iotProject.upload();
   }
 
+  async run(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext
+  ): Promise<void> {
+    const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
+    if (!iotProject) {
+      return;
+    }
+    await iotProject.run();
+  }
+
+  async stop(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext
+  ): Promise<void> {
+    const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
+    if (!iotProject) {
+      return;
+    }
+    await iotProject.stop();
+  }
+
+  /**
+   * Start gdbserver on target for debug configuration.
+   * @returns address of gdbserver, undefined if debugging is not supported
+   */
+  async startGdbServer(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext
+  ): Promise<string | undefined> {
+    const iotProject = await constructAndLoadIoTProject(context, channel, telemetryContext);
+    if (!iotProject) {
+      return;
+    }
+    return iotProject.startGdbServer();
+  }
+
   async configDeviceSettings(
     context: vscode.ExtensionContext,
     channel: vscode.OutputChannel,
@@ -33,6 +33,7 @@ import { OperationFailedError } from "../common/Error/OperationFailedErrors/Oper
 import { SystemResourceNotFoundError } from "../common/Error/SystemErrors/SystemResourceNotFoundError";
 import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
 import { WorkspaceNotOpenError } from "../common/Error/OperationFailedErrors/WorkspaceNotOpenError";
+import { AzureConfigFileHandler } from "../Models/AzureComponentConfig";
 
 interface CodeGeneratorDownloadLocation {
   win32Md5: string;
@@ -152,7 +153,8 @@ export class CodeGeneratorCore {
       languageLabel: CodeGenLanguage.ANSIC,
       codeGenProjectType,
       deviceSdkReferenceType: sdkReferenceType,
-      deviceConnectionType: connectionType
+      deviceConnectionType: connectionType,
+      environment: AzureConfigFileHandler.getActiveEnvironment()
     };
 
     const scaffoldType = ScaffoldType.Local;
@@ -218,6 +220,10 @@ export class CodeGeneratorCore {
           return ReGenResult.Skipped;
         }
 
+        // Regenerate code for the active environment
+        codeGenExecutionItem.environment = AzureConfigFileHandler.getActiveEnvironment();
+        await this.saveCodeGenConfig(ScaffoldType.Local, rootPath, capabilityModelFilePath, codeGenExecutionItem);
+
         utils.channelShowAndAppendLine(
           channel,
           `${DigitalTwinConstants.dtPrefix} Regenerate device code using an existing CodeGen configure:`
@@ -3,6 +3,7 @@
 
 import * as utils from "../../utils";
 import * as vscode from "vscode";
+import { defaultEnvironment } from "../../Models/ProjectEnvironment";
 import { CodeGenExecutionItem } from "./Interfaces/CodeGenerator";
 
 export class CodeGenUtility {
@@ -14,6 +15,7 @@ export class CodeGenUtility {
     utils.channelShowAndAppendLine(channel, `Project name: ${codeGenExecutionItem.projectName}`);
     utils.channelShowAndAppendLine(channel, `Language: ${codeGenExecutionItem.languageLabel}`);
     utils.channelShowAndAppendLine(channel, `Device connection type: ${codeGenExecutionItem.deviceConnectionType}`);
+    utils.channelShowAndAppendLine(channel, `Environment: ${codeGenExecutionItem.environment || defaultEnvironment}`);
     utils.channelShowAndAppendLine(channel, `Project type: ${codeGenExecutionItem.codeGenProjectType}`);
     utils.channelShowAndAppendLine(
       channel,
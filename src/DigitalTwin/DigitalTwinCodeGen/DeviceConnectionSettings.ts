@@ -0,0 +1,90 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as path from "path";
+
+import { OperationFailedError } from "../../common/Error/OperationFailedErrors/OperationFailedError";
+import { AzureComponentsStorage, FileNames, ScaffoldType } from "../../constants";
+import { FileUtility } from "../../FileUtility";
+import { AzureConfigFileHandler } from "../../Models/AzureComponentConfig";
+import { ComponentType } from "../../Models/Interfaces/Component";
+import { SecretStore } from "../../Models/SecretStore";
+import { DeviceConnectionType } from "./Interfaces/CodeGenerator";
+
+/**
+ * Connection settings of generated device code. CMake projects take the
+ * connection as program arguments, which are set to the debug configuration
+ * of CMake Tools in the settings of generated project.
+ */
+export class DeviceConnectionSettings {
+  static readonly cmakeDebugConfigKey = "cmake.debugConfig";
+
+  /**
+   * Get program arguments for device code to connect to the IoT Hub device
+   * provisioned in the environment. Only device connection string is
+   * provisioned by workbench, so other connection types have no argument.
+   * @param projectRootPath root path of the project with azure config file
+   * @param environment environment name
+   * @param connectionType device connection type of generated code
+   */
+  static async getConnectionArguments(
+    projectRootPath: string,
+    environment: string,
+    connectionType: DeviceConnectionType
+  ): Promise<string[]> {
+    const azureConfigFilePath = path.join(
+      projectRootPath,
+      AzureComponentsStorage.folderName,
+      AzureComponentsStorage.fileName
+    );
+    if (
+      connectionType !== DeviceConnectionType.ConnectionString ||
+      !(await FileUtility.fileExists(ScaffoldType.Workspace, azureConfigFilePath))
+    ) {
+      return [];
+    }
+
+    const azureConfigFileHandler = new AzureConfigFileHandler(projectRootPath, environment);
+    const componentConfig = await azureConfigFileHandler.getComponentByType(
+      ScaffoldType.Workspace,
+      ComponentType.IoTHubDevice
+    );
+    if (!componentConfig || !componentConfig.componentInfo) {
+      return [];
+    }
+    const { iotHubDeviceConnectionString } = (
+      await SecretStore.resolveComponentInfo(componentConfig.componentInfo)
+    ).values;
+    return iotHubDeviceConnectionString ? [iotHubDeviceConnectionString] : [];
+  }
+
+  /**
+   * Save program arguments to the settings of generated project, other
+   * settings are kept.
+   * @param projectPath generated project path
+   * @param args program arguments
+   */
+  static async save(projectPath: string, args: string[]): Promise<void> {
+    const settingsPath = path.join(projectPath, FileNames.vscodeSettingsFolderName, FileNames.settingsJsonFileName);
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    let settings: any = {};
+    if (await FileUtility.fileExists(ScaffoldType.Workspace, settingsPath)) {
+      try {
+        settings = JSON.parse((await FileUtility.readFile(ScaffoldType.Workspace, settingsPath, "utf8")) as string);
+      } catch (error) {
+        throw new OperationFailedError(
+          "save device connection settings",
+          `${settingsPath} is not a valid JSON file.`,
+          "Please fix the file and generate device code again."
+        );
+      }
+    }
+    settings[DeviceConnectionSettings.cmakeDebugConfigKey] = {
+      ...settings[DeviceConnectionSettings.cmakeDebugConfigKey],
+      args
+    };
+    await FileUtility.writeJsonFile(ScaffoldType.Workspace, settingsPath, settings);
+  }
+
+  private constructor() {}
+}
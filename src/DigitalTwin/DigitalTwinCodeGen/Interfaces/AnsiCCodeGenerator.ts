@@ -6,10 +6,12 @@ import { VscodeCommands } from "../../../common/Commands";
 import { OSPlatform, ScaffoldType } from "../../../constants";
 import { OpenScenario } from "../../../Models/IoTWorkbenchProjectBase";
 import { IoTWorkspaceProject } from "../../../Models/IoTWorkspaceProject";
+import { defaultEnvironment } from "../../../Models/ProjectEnvironment";
 import { TelemetryContext } from "../../../telemetry";
 import * as utils from "../../../utils";
 import { DigitalTwinConstants } from "../../DigitalTwinConstants";
 
+import { DeviceConnectionSettings } from "../DeviceConnectionSettings";
 import { CodeGenerator, CodeGenExecutionItem, CodeGenProjectType } from "./CodeGenerator";
 
 export class AnsiCCodeGenerator implements CodeGenerator {
@@ -33,6 +35,12 @@ export class AnsiCCodeGenerator implements CodeGenerator {
         );
         project.openProject(ScaffoldType.Local, true, OpenScenario.createNewProject);
       } else {
+        if (
+          codegenInfo.codeGenProjectType === CodeGenProjectType.CMakeLinux ||
+          codegenInfo.codeGenProjectType === CodeGenProjectType.CMakeWindows
+        ) {
+          await this.saveConnectionSettings(codegenInfo);
+        }
         await vscode.commands.executeCommand(
           VscodeCommands.VscodeOpenFolder,
           vscode.Uri.file(codegenInfo.outputDirectory),
@@ -47,6 +55,32 @@ export class AnsiCCodeGenerator implements CodeGenerator {
     }
   }
 
+  /**
+   * Connect generated device code to the environment it is generated for.
+   * @param codegenInfo code generation info
+   */
+  private async saveConnectionSettings(codegenInfo: CodeGenExecutionItem): Promise<void> {
+    const environment = codegenInfo.environment || defaultEnvironment;
+    const args = await DeviceConnectionSettings.getConnectionArguments(
+      path.join(utils.getProjectDeviceRootPath(), ".."),
+      environment,
+      codegenInfo.deviceConnectionType
+    );
+    if (args.length === 0) {
+      utils.channelShowAndAppendLine(
+        this.channel,
+        `${DigitalTwinConstants.dtPrefix} No device connection is provisioned in environment ${environment}, ` +
+          `please pass it as program arguments of device code.`
+      );
+      return;
+    }
+    await DeviceConnectionSettings.save(codegenInfo.outputDirectory, args);
+    utils.channelShowAndAppendLine(
+      this.channel,
+      `${DigitalTwinConstants.dtPrefix} Device code connects to IoT Hub device of environment ${environment}.`
+    );
+  }
+
   async generateAnsiCCodeCore(codegenInfo: CodeGenExecutionItem): Promise<boolean> {
     // Invoke DigitalTwinCodeGen toolset to generate the code
     const projectTypeValue = codegenInfo.codeGenProjectType.toString();
@@ -36,6 +36,8 @@ export interface CodeGenExecutionItem {
   codeGenProjectType: CodeGenProjectType;
   deviceSdkReferenceType: DeviceSdkReferenceType;
   deviceConnectionType: DeviceConnectionType;
+  // Environment of the Azure resources the device connects to
+  environment?: string;
 }
 
 export interface CodeGenerator {
@@ -13,5 +13,15 @@ export enum Command {
   SearchCapabilityModel = "azure-digital-twins.searchCapabilityModel",
   SubmitFiles = "azure-digital-twins.submitFiles",
   DeleteModels = "azure-digital-twins.deleteModels",
-  DownloadModels = "azure-digital-twins.downloadModels"
+  DownloadModels = "azure-digital-twins.downloadModels",
+  DownloadDependentInterface = "azure-digital-twins.downloadDependentInterface",
+  ShowModelCache = "azure-digital-twins.showModelCache",
+  ClearModelCache = "azure-digital-twins.clearModelCache",
+  CompareInterfaces = "azure-digital-twins.compareInterfaces",
+  StartTelemetrySimulator = "azure-digital-twins.startTelemetrySimulator",
+  StopTelemetrySimulator = "azure-digital-twins.stopTelemetrySimulator",
+  InvokeSimulatorCommand = "azure-digital-twins.invokeSimulatorCommand",
+  VisualizeCapabilityModel = "azure-digital-twins.visualizeCapabilityModel",
+  GetModelTree = "azure-digital-twins.getModelTree",
+  RevealModelSource = "azure-digital-twins.revealModelSource"
 }
@@ -16,19 +16,27 @@ export class Constants {
   static readonly COMPLETION_TRIGGER = '"';
   static readonly LINE_FEED = "\n";
   static readonly JSON_SPACE = 2;
+  static readonly OK_CODE = 200;
   static readonly NOT_FOUND_CODE = 404;
+  static readonly NOT_MODIFIED_CODE = 304;
+  static readonly PRECONDITION_FAILED_CODE = 412;
   static readonly DEFAULT_PAGE_SIZE = 50;
   static readonly DEFAULT_TIMER_MS = 1000;
+  static readonly REPOSITORY_RETRY_INTERVAL_MS = 5 * 60 * 1000;
   static readonly RESOURCE_FOLDER = "resources/pnp";
   static readonly TEMPLATE_FOLDER = "templates";
   static readonly DEFINITION_FOLDER = "definitions";
   static readonly SAMPLE_FILE_NAME = "sample";
+  static readonly DEFINITION_INDEX_FILE_NAME = "definitions.json";
   static readonly GRAPH_FILE_NAME = "graph.json";
   static readonly CONTEXT_FILE_NAME = "context.json";
   static readonly CONSTRAINT_FILE_NAME = "constraint.json";
+  static readonly MODEL_CACHE_FOLDER = "modelCache";
+  static readonly MODEL_BASE_FOLDER = "modelBase";
 
   static readonly DEVICE_MODEL_COMPONENT = "Device Model";
   static readonly MODEL_REPOSITORY_COMPONENT = "Model Repository";
+  static readonly TELEMETRY_SIMULATOR_COMPONENT = "Telemetry Simulator";
   static readonly MODEL_REPOSITORY_CONNECTION_KEY = "ModelRepositoryConnectionKey";
   static readonly MODEL_REPOSITORY_API_VERSION = "2019-07-01-Preview";
   static readonly URL_PROTOCAL_REGEX = new RegExp("^[a-zA-Z]+://");
@@ -42,12 +50,24 @@ export class Constants {
   static readonly CONNECTION_STRING_NOT_FOUND_MSG =
     "Company repository connection string is not found. Please sign out and sign in with a valid connection string";
   static readonly PUBLIC_REPOSITORY_URL_NOT_FOUND_MSG = "Public repository url is not found";
+  static readonly LOCAL_REPOSITORY_PATH_NOT_FOUND_MSG =
+    "Local repository folder is not found. Please open local repository and select the folder of model files";
   static readonly CONNECTION_STRING_INVALID_FORMAT_MSG = "Invalid connection string format";
   static readonly NEED_OPEN_COMPANY_REPOSITORY_MSG = "Please open company repository and try again";
+  static readonly SIMULATOR_BROKER_URL_NOT_FOUND_MSG =
+    "MQTT broker url of telemetry simulator is not found. Please set azure-digital-twins.simulatorBrokerUrl";
 
   static readonly NSAT_SURVEY_URL = "https://aka.ms/vscode-iot-workbench-survey";
   static readonly WEB_VIEW_PATH = "assets/modelRepository";
   static readonly COMPANY_REPOSITORY_PAGE = "index.html";
   static readonly PUBLIC_REPOSITORY_PAGE = "index.html?public";
+  static readonly LOCAL_REPOSITORY_PAGE = "index.html?local";
+  static readonly MODEL_VISUALIZER_WEB_VIEW_PATH = "assets/modelVisualizer";
+  static readonly MODEL_VISUALIZER_PAGE = "index.html";
   static readonly PUBLIC_REPOSITORY_URL = "publicRepositoryUrl";
+  static readonly LOCAL_REPOSITORY_PATH = "localRepositoryPath";
+  static readonly BLOCK_BREAKING_CHANGES = "blockBreakingChangesOnSubmit";
+  static readonly SIMULATOR_BROKER_URL = "simulatorBrokerUrl";
+  static readonly SIMULATOR_TOPIC_PREFIX = "simulatorTopicPrefix";
+  static readonly SIMULATOR_INTERVAL = "simulatorIntervalInSeconds";
 }
@@ -0,0 +1,15 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { Constants } from "./constants";
+
+/**
+ * Error for model changed in repository since the given etag, with the status code of http repository
+ */
+export class ModelConflictError extends Error {
+  readonly statusCode: number = Constants.PRECONDITION_FAILED_CODE;
+  constructor(modelId: string) {
+    super(`Model ${modelId} has been changed in repository`);
+    this.name = "ModelConflictError";
+  }
+}
@@ -0,0 +1,15 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { Constants } from "./constants";
+
+/**
+ * Error for model not found in repository, with the status code of http repository
+ */
+export class ModelNotFoundError extends Error {
+  readonly statusCode: number = Constants.NOT_FOUND_CODE;
+  constructor(modelId: string) {
+    super(`Model ${modelId} is not found`);
+    this.name = "ModelNotFoundError";
+  }
+}
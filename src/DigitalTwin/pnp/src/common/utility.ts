@@ -91,7 +91,7 @@ export class Utility {
   }
 
   /**
-   * create DigitalTwin model file
+   * create DigitalTwin model file, return the file path
    * @param folder target folder
    * @param modelId model id
    * @param content model content
@@ -101,7 +101,7 @@ export class Utility {
     modelId: string,
     // eslint-disable-next-line  @typescript-eslint/no-explicit-any
     content: any
-  ): Promise<void> {
+  ): Promise<string> {
     const type: ModelType = DeviceModelManager.convertToModelType(content[DigitalTwinConstants.TYPE]);
     if (!type) {
       throw new PnPModelTypeInvalidError("create model file", type);
@@ -119,10 +119,12 @@ export class Utility {
       counter++;
       candidate = DeviceModelManager.generateModelFileName(`${modelName}_${counter}`, type);
     }
-    await fs.writeJson(path.join(folder, candidate), content, {
+    const filePath: string = path.join(folder, candidate);
+    await fs.writeJson(filePath, content, {
       spaces: Constants.JSON_SPACE,
       encoding: Constants.UTF8
     });
+    return filePath;
   }
 
   /**
@@ -0,0 +1,380 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { Constants } from "../common/constants";
+import { DigitalTwinConstants } from "../intelliSense/digitalTwinConstants";
+
+/**
+ * Severity of model change
+ */
+export enum ChangeSeverity {
+  Compatible = "Compatible",
+  Breaking = "Breaking"
+}
+
+/**
+ * Change between two versions of interface
+ */
+export interface ModelChange {
+  severity: ChangeSeverity;
+  target: string;
+  message: string;
+}
+
+/**
+ * Semantic comparer of DigitalTwin interface, classify changes of contents and schemas
+ * as compatible or breaking for device and service which use the old version
+ */
+export class ModelComparer {
+  /**
+   * compare two versions of interface
+   * @param oldModel content of old interface
+   * @param newModel content of new interface
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  static compare(oldModel: any, newModel: any): ModelChange[] {
+    const changes: ModelChange[] = [];
+    const oldContents = ModelComparer.indexBy(oldModel[DigitalTwinConstants.CONTENTS], DigitalTwinConstants.NAME);
+    const newContents = ModelComparer.indexBy(newModel[DigitalTwinConstants.CONTENTS], DigitalTwinConstants.NAME);
+    for (const [name, oldContent] of oldContents) {
+      const target = `${ModelComparer.getContentType(oldContent)} "${name}"`;
+      const newContent = newContents.get(name);
+      if (newContent) {
+        ModelComparer.compareContent(changes, target, oldContent, newContent);
+      } else {
+        changes.push({ severity: ChangeSeverity.Breaking, target, message: "is removed" });
+      }
+    }
+    for (const [name, newContent] of newContents) {
+      if (!oldContents.has(name)) {
+        const target = `${ModelComparer.getContentType(newContent)} "${name}"`;
+        changes.push({ severity: ChangeSeverity.Compatible, target, message: "is added" });
+      }
+    }
+
+    const oldSchemas = ModelComparer.indexBy(oldModel[ModelComparer.SCHEMAS], DigitalTwinConstants.ID);
+    const newSchemas = ModelComparer.indexBy(newModel[ModelComparer.SCHEMAS], DigitalTwinConstants.ID);
+    for (const [id, oldSchema] of oldSchemas) {
+      const target = `Schema "${id}"`;
+      const newSchema = newSchemas.get(id);
+      if (newSchema) {
+        ModelComparer.compareSchema(changes, target, oldSchema, newSchema);
+      } else {
+        changes.push({ severity: ChangeSeverity.Breaking, target, message: "is removed" });
+      }
+    }
+    for (const id of newSchemas.keys()) {
+      if (!oldSchemas.has(id)) {
+        changes.push({ severity: ChangeSeverity.Compatible, target: `Schema "${id}"`, message: "is added" });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * format changes as markdown report
+   * @param oldId id of old interface
+   * @param newId id of new interface
+   * @param changes model changes
+   */
+  static formatReport(oldId: string, newId: string, changes: ModelChange[]): string {
+    const breaking: ModelChange[] = changes.filter(c => c.severity === ChangeSeverity.Breaking);
+    const compatible: ModelChange[] = changes.filter(c => c.severity === ChangeSeverity.Compatible);
+    const lines: string[] = [
+      `# Compare ${oldId} with ${newId}`,
+      "",
+      `${breaking.length} breaking change(s), ${compatible.length} compatible change(s).`
+    ];
+    if (breaking.length > 0 && oldId === newId) {
+      lines.push("", "Breaking changes should be submitted with a new version of interface id.");
+    }
+    for (const [title, group] of [
+      ["Breaking changes", breaking],
+      ["Compatible changes", compatible]
+    ] as Array<[string, ModelChange[]]>) {
+      if (group.length > 0) {
+        lines.push("", `## ${title}`, "");
+        lines.push(...group.map(c => `- ${c.target} ${c.message}`));
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  private static readonly SCHEMAS = "schemas";
+  private static readonly CONTENT_TYPES = ["Telemetry", "Property", "Command"];
+  private static readonly METADATA = ["displayName", "description", "comment", "displayUnit"];
+
+  /**
+   * compare content of interface
+   * @param changes model changes
+   * @param target target of change
+   * @param oldContent old content
+   * @param newContent new content
+   */
+  private static compareContent(
+    changes: ModelChange[],
+    target: string,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    oldContent: any,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    newContent: any
+  ): void {
+    const oldType: string = ModelComparer.getContentType(oldContent);
+    const newType: string = ModelComparer.getContentType(newContent);
+    if (oldType !== newType) {
+      changes.push({
+        severity: ChangeSeverity.Breaking,
+        target,
+        message: `type is changed from ${oldType} to ${newType}`
+      });
+      return;
+    }
+    // semantic type only changes the meaning of value
+    if (!ModelComparer.equals(ModelComparer.getTypes(oldContent), ModelComparer.getTypes(newContent))) {
+      changes.push({ severity: ChangeSeverity.Compatible, target, message: "semantic type is changed" });
+    }
+    if (!ModelComparer.equals(oldContent.unit, newContent.unit)) {
+      changes.push({
+        severity: ChangeSeverity.Breaking,
+        target,
+        message: `unit is changed from ${oldContent.unit} to ${newContent.unit}`
+      });
+    }
+    for (const key of ModelComparer.METADATA) {
+      if (!ModelComparer.equals(oldContent[key], newContent[key])) {
+        changes.push({ severity: ChangeSeverity.Compatible, target, message: `${key} is changed` });
+      }
+    }
+
+    if (oldType === "Command") {
+      ModelComparer.compareCommand(changes, target, oldContent, newContent);
+      return;
+    }
+    if (oldType === "Property") {
+      const oldWritable: boolean = oldContent.writable === true;
+      const newWritable: boolean = newContent.writable === true;
+      if (oldWritable && !newWritable) {
+        changes.push({ severity: ChangeSeverity.Breaking, target, message: "is no longer writable" });
+      } else if (!oldWritable && newWritable) {
+        changes.push({ severity: ChangeSeverity.Compatible, target, message: "becomes writable" });
+      }
+    }
+    ModelComparer.compareSchema(
+      changes,
+      target,
+      oldContent[DigitalTwinConstants.SCHEMA],
+      newContent[DigitalTwinConstants.SCHEMA]
+    );
+  }
+
+  /**
+   * compare command, adding request breaks caller, removing response breaks the one who waits for it
+   * @param changes model changes
+   * @param target target of change
+   * @param oldCommand old command
+   * @param newCommand new command
+   */
+  private static compareCommand(
+    changes: ModelChange[],
+    target: string,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    oldCommand: any,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    newCommand: any
+  ): void {
+    if (!ModelComparer.equals(oldCommand.commandType, newCommand.commandType)) {
+      changes.push({
+        severity: ChangeSeverity.Breaking,
+        target,
+        message: `commandType is changed from ${oldCommand.commandType} to ${newCommand.commandType}`
+      });
+    }
+    for (const payload of ["request", "response"]) {
+      const oldPayload = oldCommand[payload];
+      const newPayload = newCommand[payload];
+      if (oldPayload && newPayload) {
+        ModelComparer.compareSchema(
+          changes,
+          `${target} ${payload}`,
+          oldPayload[DigitalTwinConstants.SCHEMA],
+          newPayload[DigitalTwinConstants.SCHEMA]
+        );
+      } else if (oldPayload) {
+        changes.push({ severity: ChangeSeverity.Breaking, target, message: `${payload} is removed` });
+      } else if (newPayload) {
+        const severity: ChangeSeverity = payload === "request" ? ChangeSeverity.Breaking : ChangeSeverity.Compatible;
+        changes.push({ severity, target, message: `${payload} is added` });
+      }
+    }
+  }
+
+  /**
+   * compare schema, schema is either a primitive type, an id of interface schema, or a complex schema
+   * @param changes model changes
+   * @param target target of change
+   * @param oldSchema old schema
+   * @param newSchema new schema
+   */
+  private static compareSchema(
+    changes: ModelChange[],
+    target: string,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    oldSchema: any,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    newSchema: any
+  ): void {
+    const oldName: string = ModelComparer.getSchemaName(oldSchema);
+    const newName: string = ModelComparer.getSchemaName(newSchema);
+    if (oldName !== newName || typeof oldSchema !== "object" || typeof newSchema !== "object") {
+      if (oldName !== newName) {
+        changes.push({
+          severity: ChangeSeverity.Breaking,
+          target,
+          message: `schema is changed from ${oldName} to ${newName}`
+        });
+      }
+      return;
+    }
+    switch (oldName) {
+      case "Object":
+        ModelComparer.compareItems(changes, `${target} field`, oldSchema.fields, newSchema.fields, (t, o, n) =>
+          ModelComparer.compareSchema(changes, t, o[DigitalTwinConstants.SCHEMA], n[DigitalTwinConstants.SCHEMA])
+        );
+        break;
+      case "Enum":
+        ModelComparer.compareSchema(changes, `${target} valueSchema`, oldSchema.valueSchema, newSchema.valueSchema);
+        ModelComparer.compareItems(
+          changes,
+          `${target} enum value`,
+          oldSchema.enumValues,
+          newSchema.enumValues,
+          (t, o, n) => {
+            if (!ModelComparer.equals(o.enumValue, n.enumValue)) {
+              changes.push({
+                severity: ChangeSeverity.Breaking,
+                target: t,
+                message: `is changed from ${o.enumValue} to ${n.enumValue}`
+              });
+            }
+          }
+        );
+        break;
+      case "Map":
+        for (const key of ["mapKey", "mapValue"]) {
+          ModelComparer.compareSchema(
+            changes,
+            `${target} ${key}`,
+            (oldSchema[key] || {})[DigitalTwinConstants.SCHEMA],
+            (newSchema[key] || {})[DigitalTwinConstants.SCHEMA]
+          );
+        }
+        break;
+      case "Array":
+        ModelComparer.compareSchema(changes, `${target} element`, oldSchema.elementSchema, newSchema.elementSchema);
+        break;
+      default:
+        if (!ModelComparer.equals(oldSchema, newSchema)) {
+          changes.push({ severity: ChangeSeverity.Breaking, target, message: "schema is changed" });
+        }
+    }
+  }
+
+  /**
+   * compare named items of complex schema, removed item is breaking and added item is compatible
+   * @param changes model changes
+   * @param target target of change
+   * @param oldItems old items
+   * @param newItems new items
+   * @param compareItem callback to compare item exists in both versions
+   */
+  private static compareItems(
+    changes: ModelChange[],
+    target: string,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    oldItems: any,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    newItems: any,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    compareItem: (target: string, oldItem: any, newItem: any) => void
+  ): void {
+    const oldIndex = ModelComparer.indexBy(oldItems, DigitalTwinConstants.NAME);
+    const newIndex = ModelComparer.indexBy(newItems, DigitalTwinConstants.NAME);
+    for (const [name, oldItem] of oldIndex) {
+      const newItem = newIndex.get(name);
+      if (newItem) {
+        compareItem(`${target} "${name}"`, oldItem, newItem);
+      } else {
+        changes.push({ severity: ChangeSeverity.Breaking, target: `${target} "${name}"`, message: "is removed" });
+      }
+    }
+    for (const name of newIndex.keys()) {
+      if (!oldIndex.has(name)) {
+        changes.push({ severity: ChangeSeverity.Compatible, target: `${target} "${name}"`, message: "is added" });
+      }
+    }
+  }
+
+  /**
+   * index items by key, skip item without key
+   * @param items items
+   * @param key key of item
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static indexBy(items: any, key: string): Map<string, any> {
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    const index = new Map<string, any>();
+    if (Array.isArray(items)) {
+      for (const item of items) {
+        if (item && typeof item[key] === "string") {
+          index.set(item[key], item);
+        }
+      }
+    }
+    return index;
+  }
+
+  /**
+   * get sorted types of content
+   * @param content content
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static getTypes(content: any): string[] {
+    const type = content[DigitalTwinConstants.TYPE];
+    const types: string[] = Array.isArray(type) ? type : [type];
+    return types.filter(t => typeof t === "string").sort();
+  }
+
+  /**
+   * get content type, which is one of Telemetry, Property and Command
+   * @param content content
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static getContentType(content: any): string {
+    const types: string[] = ModelComparer.getTypes(content);
+    return types.find(t => ModelComparer.CONTENT_TYPES.includes(t)) || types.join(Constants.DEFAULT_SEPARATOR);
+  }
+
+  /**
+   * get schema name, which is primitive type, schema id or type of complex schema
+   * @param schema schema
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static getSchemaName(schema: any): string {
+    if (schema && typeof schema === "object") {
+      return String(schema[DigitalTwinConstants.TYPE]);
+    }
+    return String(schema);
+  }
+
+  /**
+   * check if two values are deep equal
+   * @param a value
+   * @param b value
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static equals(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  private constructor() {}
+}
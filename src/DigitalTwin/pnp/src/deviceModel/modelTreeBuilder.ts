@@ -0,0 +1,345 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import { DigitalTwinConstants } from "../intelliSense/digitalTwinConstants";
+import { JsonNodeType } from "../intelliSense/intelliSenseUtility";
+
+/**
+ * Node of model tree, which locates its source range in model file
+ */
+export interface ModelTreeNode {
+  kind: string;
+  label: string;
+  schema?: string;
+  unresolved?: boolean;
+  filePath: string;
+  offset: number;
+  length: number;
+  children: ModelTreeNode[];
+}
+
+/**
+ * Source text of model file
+ */
+export interface ModelSource {
+  filePath: string;
+  text: string;
+}
+
+/**
+ * Schema summary and child nodes of schema
+ */
+interface SchemaTree {
+  summary: string;
+  children: ModelTreeNode[];
+}
+
+/**
+ * Builder of model tree, capability model has implemented interfaces as children,
+ * and interface has telemetry, properties and commands with their schemas as children
+ */
+export class ModelTreeBuilder {
+  /**
+   * build tree of capability model or interface, return undefined if it is neither of them
+   * @param source source of model file
+   * @param interfaces sources of interface files, key is interface id
+   */
+  static build(source: ModelSource, interfaces: Map<string, ModelSource>): ModelTreeNode | undefined {
+    const root: parser.Node | undefined = parser.parseTree(source.text);
+    if (!root || root.type !== JsonNodeType.Object) {
+      return undefined;
+    }
+    const id: string = ModelTreeBuilder.getString(root, DigitalTwinConstants.ID);
+    switch (ModelTreeBuilder.getString(root, DigitalTwinConstants.TYPE)) {
+      case DigitalTwinConstants.INTERFACE_NODE:
+        return ModelTreeBuilder.buildInterface(source.filePath, root, id);
+      case DigitalTwinConstants.CAPABILITY_MODEL_NODE: {
+        const node: ModelTreeNode = ModelTreeBuilder.createNode(
+          DigitalTwinConstants.CAPABILITY_MODEL_NODE,
+          id,
+          source.filePath,
+          root
+        );
+        const implementations: parser.Node | undefined = parser.findNodeAtLocation(root, [
+          DigitalTwinConstants.IMPLEMENTS
+        ]);
+        for (const implementation of ModelTreeBuilder.getObjects(implementations)) {
+          node.children.push(ModelTreeBuilder.buildImplementation(source.filePath, implementation, interfaces));
+        }
+        return node;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private static readonly SCHEMAS = "schemas";
+  private static readonly CONTENT_TYPES = ["Telemetry", "Property", "Command"];
+
+  /**
+   * build node of implemented interface, interface is resolved by id or inline definition
+   * @param filePath file path of capability model
+   * @param implementation json node of implementation
+   * @param interfaces sources of interface files, key is interface id
+   */
+  private static buildImplementation(
+    filePath: string,
+    implementation: parser.Node,
+    interfaces: Map<string, ModelSource>
+  ): ModelTreeNode {
+    const name: string = ModelTreeBuilder.getString(implementation, DigitalTwinConstants.NAME);
+    const schema: parser.Node | undefined = parser.findNodeAtLocation(implementation, [DigitalTwinConstants.SCHEMA]);
+    if (schema && schema.type === JsonNodeType.Object) {
+      return ModelTreeBuilder.buildInterface(filePath, schema, name);
+    }
+    const interfaceId: string = schema && schema.type === JsonNodeType.String ? schema.value : "";
+    const source: ModelSource | undefined = interfaces.get(interfaceId);
+    const interfaceRoot: parser.Node | undefined = source ? parser.parseTree(source.text) : undefined;
+    if (source && interfaceRoot && interfaceRoot.type === JsonNodeType.Object) {
+      return ModelTreeBuilder.buildInterface(source.filePath, interfaceRoot, name);
+    }
+    // locate to implementation since interface is not found in workspace
+    const node: ModelTreeNode = ModelTreeBuilder.createNode(
+      DigitalTwinConstants.INTERFACE_NODE,
+      name,
+      filePath,
+      implementation
+    );
+    node.schema = interfaceId;
+    node.unresolved = true;
+    return node;
+  }
+
+  /**
+   * build node of interface
+   * @param filePath file path of interface
+   * @param interfaceNode json node of interface
+   * @param label label of node
+   */
+  private static buildInterface(filePath: string, interfaceNode: parser.Node, label: string): ModelTreeNode {
+    const node: ModelTreeNode = ModelTreeBuilder.createNode(
+      DigitalTwinConstants.INTERFACE_NODE,
+      label,
+      filePath,
+      interfaceNode
+    );
+    node.schema = ModelTreeBuilder.getString(interfaceNode, DigitalTwinConstants.ID);
+    const schemas = new Map<string, parser.Node>();
+    const schemasNode = parser.findNodeAtLocation(interfaceNode, [ModelTreeBuilder.SCHEMAS]);
+    for (const schema of ModelTreeBuilder.getObjects(schemasNode)) {
+      schemas.set(ModelTreeBuilder.getString(schema, DigitalTwinConstants.ID), schema);
+    }
+    const contents = parser.findNodeAtLocation(interfaceNode, [DigitalTwinConstants.CONTENTS]);
+    for (const content of ModelTreeBuilder.getObjects(contents)) {
+      node.children.push(ModelTreeBuilder.buildContent(filePath, content, schemas));
+    }
+    return node;
+  }
+
+  /**
+   * build node of telemetry, property or command
+   * @param filePath file path of interface
+   * @param content json node of content
+   * @param schemas schemas defined in interface, key is schema id
+   */
+  private static buildContent(
+    filePath: string,
+    content: parser.Node,
+    schemas: Map<string, parser.Node>
+  ): ModelTreeNode {
+    const typeNode: parser.Node | undefined = parser.findNodeAtLocation(content, [DigitalTwinConstants.TYPE]);
+    const type = typeNode ? parser.getNodeValue(typeNode) : [];
+    // support semantic type array
+    const types: string[] = Array.isArray(type) ? type : [type];
+    const kind: string = ModelTreeBuilder.CONTENT_TYPES.find(t => types.includes(t)) || types.join(", ");
+    const node: ModelTreeNode = ModelTreeBuilder.createNode(
+      kind,
+      ModelTreeBuilder.getString(content, DigitalTwinConstants.NAME),
+      filePath,
+      content
+    );
+    if (kind === "Command") {
+      for (const [property, childKind] of [
+        ["request", "Request"],
+        ["response", "Response"]
+      ]) {
+        const payload: parser.Node | undefined = parser.findNodeAtLocation(content, [property]);
+        if (payload && payload.type === JsonNodeType.Object) {
+          node.children.push(
+            ModelTreeBuilder.buildSchemaField(filePath, payload, childKind, schemas, new Set<string>())
+          );
+        }
+      }
+      return node;
+    }
+    ModelTreeBuilder.setSchema(node, filePath, content, schemas, new Set<string>());
+    return node;
+  }
+
+  /**
+   * build node of json object which has name and schema, e.g. field of object or request of command
+   * @param filePath file path of interface
+   * @param field json node of field
+   * @param kind kind of node
+   * @param schemas schemas defined in interface, key is schema id
+   * @param visited visited schema ids to stop at recursive schema
+   */
+  private static buildSchemaField(
+    filePath: string,
+    field: parser.Node,
+    kind: string,
+    schemas: Map<string, parser.Node>,
+    visited: Set<string>
+  ): ModelTreeNode {
+    const node: ModelTreeNode = ModelTreeBuilder.createNode(
+      kind,
+      ModelTreeBuilder.getString(field, DigitalTwinConstants.NAME),
+      filePath,
+      field
+    );
+    ModelTreeBuilder.setSchema(node, filePath, field, schemas, visited);
+    return node;
+  }
+
+  /**
+   * set schema summary and children of node by schema property of json object
+   * @param node model tree node
+   * @param filePath file path of interface
+   * @param jsonNode json object which has schema property
+   * @param schemas schemas defined in interface, key is schema id
+   * @param visited visited schema ids to stop at recursive schema
+   */
+  private static setSchema(
+    node: ModelTreeNode,
+    filePath: string,
+    jsonNode: parser.Node,
+    schemas: Map<string, parser.Node>,
+    visited: Set<string>
+  ): void {
+    const schema: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, [DigitalTwinConstants.SCHEMA]);
+    if (!schema) {
+      return;
+    }
+    const schemaTree: SchemaTree = ModelTreeBuilder.buildSchema(filePath, schema, schemas, visited);
+    node.schema = schemaTree.summary;
+    node.children.push(...schemaTree.children);
+  }
+
+  /**
+   * build summary and child nodes of schema
+   * @param filePath file path of interface
+   * @param schema json node of schema
+   * @param schemas schemas defined in interface, key is schema id
+   * @param visited visited schema ids to stop at recursive schema
+   */
+  private static buildSchema(
+    filePath: string,
+    schema: parser.Node,
+    schemas: Map<string, parser.Node>,
+    visited: Set<string>
+  ): SchemaTree {
+    if (schema.type === JsonNodeType.String) {
+      const id: string = schema.value;
+      const defined: parser.Node | undefined = schemas.get(id);
+      if (!defined || visited.has(id)) {
+        return { summary: id, children: [] };
+      }
+      const schemaTree: SchemaTree = ModelTreeBuilder.buildSchema(filePath, defined, schemas, new Set(visited).add(id));
+      return { summary: id, children: schemaTree.children };
+    }
+    if (schema.type !== JsonNodeType.Object) {
+      return { summary: "", children: [] };
+    }
+    const id: string = ModelTreeBuilder.getString(schema, DigitalTwinConstants.ID);
+    if (id) {
+      visited = new Set(visited).add(id);
+    }
+    const type: string = ModelTreeBuilder.getString(schema, DigitalTwinConstants.TYPE);
+    const children: ModelTreeNode[] = [];
+    switch (type) {
+      case "Object":
+        for (const field of ModelTreeBuilder.getObjects(parser.findNodeAtLocation(schema, ["fields"]))) {
+          children.push(ModelTreeBuilder.buildSchemaField(filePath, field, "Field", schemas, visited));
+        }
+        return { summary: type, children };
+      case "Enum":
+        for (const enumValue of ModelTreeBuilder.getObjects(parser.findNodeAtLocation(schema, ["enumValues"]))) {
+          const node: ModelTreeNode = ModelTreeBuilder.createNode(
+            "Enum value",
+            ModelTreeBuilder.getString(enumValue, DigitalTwinConstants.NAME),
+            filePath,
+            enumValue
+          );
+          const value: parser.Node | undefined = parser.findNodeAtLocation(enumValue, ["enumValue"]);
+          node.schema = value ? String(value.value) : undefined;
+          children.push(node);
+        }
+        return { summary: `Enum<${ModelTreeBuilder.getString(schema, "valueSchema")}>`, children };
+      case "Map": {
+        const summaries: string[] = [];
+        for (const [property, kind] of [
+          ["mapKey", "Map key"],
+          ["mapValue", "Map value"]
+        ]) {
+          const field: parser.Node | undefined = parser.findNodeAtLocation(schema, [property]);
+          if (field && field.type === JsonNodeType.Object) {
+            const node: ModelTreeNode = ModelTreeBuilder.buildSchemaField(filePath, field, kind, schemas, visited);
+            children.push(node);
+            summaries.push(node.schema || "");
+          }
+        }
+        return { summary: `Map<${summaries.join(", ")}>`, children };
+      }
+      case "Array": {
+        const element: parser.Node | undefined = parser.findNodeAtLocation(schema, ["elementSchema"]);
+        const schemaTree: SchemaTree | undefined = element
+          ? ModelTreeBuilder.buildSchema(filePath, element, schemas, visited)
+          : undefined;
+        return schemaTree
+          ? { summary: `Array<${schemaTree.summary}>`, children: schemaTree.children }
+          : { summary: type, children };
+      }
+      default:
+        return { summary: type, children };
+    }
+  }
+
+  /**
+   * create node which locates to name of json object, or json object itself if it has no name
+   * @param kind kind of node
+   * @param label label of node
+   * @param filePath file path
+   * @param jsonNode json object
+   */
+  private static createNode(kind: string, label: string, filePath: string, jsonNode: parser.Node): ModelTreeNode {
+    const target: parser.Node =
+      parser.findNodeAtLocation(jsonNode, [DigitalTwinConstants.NAME]) ||
+      parser.findNodeAtLocation(jsonNode, [DigitalTwinConstants.ID]) ||
+      jsonNode;
+    return { kind, label, filePath, offset: target.offset, length: target.length, children: [] };
+  }
+
+  /**
+   * get json objects of array node
+   * @param jsonNode json node of array
+   */
+  private static getObjects(jsonNode: parser.Node | undefined): parser.Node[] {
+    if (!jsonNode || jsonNode.type !== JsonNodeType.Array || !jsonNode.children) {
+      return [];
+    }
+    return jsonNode.children.filter(c => c.type === JsonNodeType.Object);
+  }
+
+  /**
+   * get string value of property, return empty string if it is not string
+   * @param jsonNode json object
+   * @param name property name
+   */
+  private static getString(jsonNode: parser.Node, name: string): string {
+    const child: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, [name]);
+    return child && child.type === JsonNodeType.String ? child.value : "";
+  }
+
+  private constructor() {}
+}
@@ -0,0 +1,108 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { VSCExpress } from "vscode-express";
+import { BadRequestError } from "../common/badRequestError";
+import { Constants } from "../common/constants";
+import { Utility } from "../common/utility";
+import { ModelFileInfo } from "../modelRepository/modelRepositoryManager";
+import { UI } from "../view/ui";
+import { UIConstants } from "../view/uiConstants";
+import { ModelType } from "./deviceModelManager";
+import { ModelSource, ModelTreeBuilder, ModelTreeNode } from "./modelTreeBuilder";
+
+/**
+ * Visualizer of capability model, which shows model tree in web view
+ */
+export class ModelVisualizer {
+  /**
+   * get source text of model file, unsaved change is included
+   * @param filePath file path
+   */
+  private static async getSource(filePath: string): Promise<ModelSource> {
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument(filePath);
+    return { filePath, text: document.getText() };
+  }
+
+  /**
+   * get file path of capability model in active editor
+   */
+  private static async getActiveCapabilityModel(): Promise<string | undefined> {
+    const editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+    if (!editor || editor.document.isUntitled) {
+      return undefined;
+    }
+    let fileInfo: ModelFileInfo | undefined;
+    try {
+      fileInfo = await Utility.getModelFileInfo(editor.document.fileName);
+    } catch {
+      // skip if file is not a valid json
+      return undefined;
+    }
+    return fileInfo && fileInfo.type === ModelType.CapabilityModel ? fileInfo.filePath : undefined;
+  }
+
+  private readonly express: VSCExpress;
+  constructor(context: vscode.ExtensionContext, filePath: string) {
+    this.express = new VSCExpress(context, filePath);
+  }
+
+  /**
+   * open web view of capability model, use the model in active editor if file is not specified
+   * @param filePath file path of capability model
+   */
+  async visualize(filePath?: string): Promise<void> {
+    if (!filePath) {
+      filePath =
+        (await ModelVisualizer.getActiveCapabilityModel()) ||
+        (await UI.selectOneModelFile(UIConstants.SELECT_CAPABILITY_MODEL_LABEL, ModelType.CapabilityModel));
+    }
+    if (!filePath) {
+      return;
+    }
+    // page reads file path from query of url
+    this.express.open(
+      `${Constants.MODEL_VISUALIZER_PAGE}?${encodeURIComponent(filePath)}`,
+      `${UIConstants.MODEL_VISUALIZER_TITLE}: ${path.basename(filePath)}`,
+      vscode.ViewColumn.Two,
+      {
+        retainContextWhenHidden: true,
+        enableScripts: true
+      }
+    );
+  }
+
+  /**
+   * get model tree of capability model or interface, interfaces are resolved from workspace
+   * @param filePath file path of model
+   */
+  async getModelTree(filePath: string): Promise<ModelTreeNode> {
+    const interfaces = new Map<string, ModelSource>();
+    const fileInfos: ModelFileInfo[] = await UI.findModelFiles(ModelType.Interface);
+    for (const fileInfo of fileInfos) {
+      interfaces.set(fileInfo.id, await ModelVisualizer.getSource(fileInfo.filePath));
+    }
+    const tree: ModelTreeNode | undefined = ModelTreeBuilder.build(
+      await ModelVisualizer.getSource(filePath),
+      interfaces
+    );
+    if (!tree) {
+      throw new BadRequestError(`${path.basename(filePath)} is not a capability model or interface`);
+    }
+    return tree;
+  }
+
+  /**
+   * open model file and select source range of node
+   * @param filePath file path of model
+   * @param offset offset of source range
+   * @param length length of source range
+   */
+  async revealSource(filePath: string, offset: number, length: number): Promise<void> {
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument(filePath);
+    const selection = new vscode.Range(document.positionAt(offset), document.positionAt(offset + length));
+    await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.One, selection });
+  }
+}
@@ -0,0 +1,335 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Command } from "../common/command";
+import { Constants } from "../common/constants";
+import { DiagnosticCode, DiagnosticMessage, DigitalTwinConstants } from "./digitalTwinConstants";
+import { DigitalTwinFormatter, FormatOptions } from "./digitalTwinFormatter";
+import { ClassNode, DigitalTwinGraph, PropertyNode, ValueSchema } from "./digitalTwinGraph";
+import { DigitalTwinModel, IntelliSenseUtility, JsonNodeType, PropertyPair } from "./intelliSenseUtility";
+
+/**
+ * Code action provider for DigitalTwin IntelliSense
+ */
+export class DigitalTwinCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds: vscode.CodeActionKind[] = [vscode.CodeActionKind.QuickFix];
+
+  /**
+   * check if diagnostic could be fixed by downloading interface from model repository
+   * @param diagnostic diagnostic
+   */
+  private static isMissingInterface(diagnostic: vscode.Diagnostic): boolean {
+    return (
+      diagnostic.code === DiagnosticCode.UnresolvedInterface ||
+      diagnostic.code === DiagnosticCode.InterfaceOnlyInRepository
+    );
+  }
+
+  /**
+   * get format options of document
+   * @param document text document
+   */
+  private static getFormatOptions(document: vscode.TextDocument): FormatOptions {
+    return {
+      tabSize: Constants.JSON_SPACE,
+      insertSpaces: true,
+      eol: document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n"
+    };
+  }
+
+  /**
+   * create quick fix from json edits
+   * @param document text document
+   * @param title title of quick fix
+   * @param edits json edits
+   * @param diagnostic diagnostic to fix
+   */
+  private static createQuickFix(
+    document: vscode.TextDocument,
+    title: string,
+    edits: parser.Edit[],
+    diagnostic?: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    if (edits.length === 0) {
+      return undefined;
+    }
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    action.edit = new vscode.WorkspaceEdit();
+    for (const edit of edits) {
+      const range = new vscode.Range(document.positionAt(edit.offset), document.positionAt(edit.offset + edit.length));
+      action.edit.replace(document.uri, range, edit.content);
+    }
+    if (diagnostic) {
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+    }
+    return action;
+  }
+
+  /**
+   * get the DigitalTwin class of json object node
+   * @param graph DigitalTwin graph of the model
+   * @param jsonNode json object node
+   */
+  private static getObjectClass(graph: DigitalTwinGraph, jsonNode: parser.Node): ClassNode | undefined {
+    const propertyPair: PropertyPair | undefined = IntelliSenseUtility.getOuterPropertyPair(jsonNode);
+    const propertyNode: PropertyNode | undefined = propertyPair
+      ? graph.getPropertyNode(IntelliSenseUtility.resolvePropertyName(propertyPair))
+      : IntelliSenseUtility.getEntryNode(graph);
+    if (!propertyNode) {
+      return undefined;
+    }
+    const classes: ClassNode[] = IntelliSenseUtility.getObjectClasses(propertyNode);
+    const typeNode: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, [DigitalTwinConstants.TYPE]);
+    if (!typeNode) {
+      return classes.length === 1 ? classes[0] : undefined;
+    }
+    // support semantic type array
+    const types: string[] = (typeNode.type === JsonNodeType.Array && typeNode.children
+      ? typeNode.children.map(c => c.value)
+      : [typeNode.value]
+    ).filter(t => typeof t === "string");
+    return classes.find(c => types.includes(DigitalTwinGraph.getClassType(c)));
+  }
+
+  /**
+   * get placeholder value of property, which is valid in type but need to be edited by user
+   * @param graph DigitalTwin graph of the model
+   * @param classNode class node of json object
+   * @param name property name
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static getPlaceholderValue(graph: DigitalTwinGraph, classNode: ClassNode | undefined, name: string): any {
+    switch (name) {
+      case DigitalTwinConstants.TYPE:
+        return classNode ? DigitalTwinGraph.getClassType(classNode) : Constants.EMPTY_STRING;
+      case DigitalTwinConstants.CONTEXT:
+        return graph.definitionSet.contexts[0];
+      default:
+    }
+    const propertyNode: PropertyNode | undefined =
+      classNode && classNode.properties ? classNode.properties.find(p => p.label === name) : undefined;
+    if (!propertyNode) {
+      return Constants.EMPTY_STRING;
+    }
+    if (propertyNode.isArray) {
+      return [];
+    }
+    const enums: string[] = IntelliSenseUtility.getEnums(propertyNode);
+    if (enums.length > 0) {
+      return enums[0];
+    }
+    if (propertyNode.range && propertyNode.range.length === 1) {
+      const valueClass: ClassNode = propertyNode.range[0];
+      if (DigitalTwinGraph.isObjectClass(valueClass)) {
+        return {};
+      }
+      switch (valueClass.id) {
+        case ValueSchema.Int:
+          return 0;
+        case ValueSchema.Boolean:
+          return false;
+        default:
+      }
+    }
+    return Constants.EMPTY_STRING;
+  }
+
+  /**
+   * provide code actions
+   * @param document text document
+   * @param range range
+   * @param context code action context
+   */
+  provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const downloadAction: vscode.CodeAction | undefined = this.provideDownloadAction(document, context);
+    if (downloadAction) {
+      actions.push(downloadAction);
+    }
+    const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
+    if (!model) {
+      // invalid @context of model is not diagnosed since the document is not recognized as DigitalTwin model
+      actions.push(...this.provideFixModelContextActions(document, range));
+      return actions;
+    }
+    for (const diagnostic of context.diagnostics) {
+      let action: vscode.CodeAction | undefined;
+      switch (diagnostic.code) {
+        case DiagnosticCode.MissingRequiredProperties:
+          action = this.provideAddRequiredPropertiesAction(document, model.graph, diagnostic);
+          break;
+        case DiagnosticCode.UnexpectedProperty:
+          action = this.provideRemovePropertyAction(document, diagnostic);
+          break;
+        case DiagnosticCode.InvalidContext:
+          action = this.provideFixContextAction(
+            document,
+            document.offsetAt(diagnostic.range.start),
+            model.graph.definitionSet.contexts[0],
+            diagnostic
+          );
+          break;
+        default:
+      }
+      if (action) {
+        actions.push(action);
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * provide code action to download missing interfaces
+   * @param document text document
+   * @param context code action context
+   */
+  private provideDownloadAction(
+    document: vscode.TextDocument,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction | undefined {
+    const diagnostics: vscode.Diagnostic[] = context.diagnostics.filter(d =>
+      DigitalTwinCodeActionProvider.isMissingInterface(d)
+    );
+    if (diagnostics.length === 0) {
+      return undefined;
+    }
+    const title = "Download dependent interfaces from model repository";
+    const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+    // download to the folder of capability model
+    action.command = {
+      command: Command.DownloadDependentInterface,
+      title,
+      arguments: [path.dirname(document.uri.fsPath), document.uri.fsPath]
+    };
+    action.diagnostics = diagnostics;
+    action.isPreferred = true;
+    return action;
+  }
+
+  /**
+   * provide code action to add missing required properties with placeholder value
+   * @param document text document
+   * @param graph DigitalTwin graph of the model
+   * @param diagnostic diagnostic
+   */
+  private provideAddRequiredPropertiesAction(
+    document: vscode.TextDocument,
+    graph: DigitalTwinGraph,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const text: string = document.getText();
+    const offset: number = document.offsetAt(diagnostic.range.start);
+    const root: parser.Node | undefined = parser.parseTree(text);
+    const jsonNode: parser.Node | undefined = root ? parser.findNodeAtOffset(root, offset) : undefined;
+    if (!jsonNode || jsonNode.type !== JsonNodeType.Object) {
+      return undefined;
+    }
+    // message is in format of [MissingRequiredProperties, ...properties]
+    const [, ...names] = diagnostic.message.split(Constants.LINE_FEED);
+    if (!diagnostic.message.startsWith(DiagnosticMessage.MissingRequiredProperties) || names.length === 0) {
+      return undefined;
+    }
+    const classNode: ClassNode | undefined = DigitalTwinCodeActionProvider.getObjectClass(graph, jsonNode);
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    const properties = new Map<string, any>();
+    for (const name of names) {
+      properties.set(name, DigitalTwinCodeActionProvider.getPlaceholderValue(graph, classNode, name));
+    }
+    const edits: parser.Edit[] = DigitalTwinFormatter.addProperties(
+      text,
+      jsonNode.offset,
+      properties,
+      DigitalTwinCodeActionProvider.getFormatOptions(document)
+    );
+    return DigitalTwinCodeActionProvider.createQuickFix(document, "Add missing required properties", edits, diagnostic);
+  }
+
+  /**
+   * provide code action to remove unexpected property
+   * @param document text document
+   * @param diagnostic diagnostic
+   */
+  private provideRemovePropertyAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const edits: parser.Edit[] = DigitalTwinFormatter.removeProperty(
+      document.getText(),
+      document.offsetAt(diagnostic.range.start),
+      DigitalTwinCodeActionProvider.getFormatOptions(document)
+    );
+    const title = `Remove property ${document.getText(diagnostic.range)}`;
+    return DigitalTwinCodeActionProvider.createQuickFix(document, title, edits, diagnostic);
+  }
+
+  /**
+   * provide code action to set @context to DigitalTwin context
+   * @param document text document
+   * @param offset offset of @context value
+   * @param contextValue DigitalTwin context
+   * @param diagnostic diagnostic
+   */
+  private provideFixContextAction(
+    document: vscode.TextDocument,
+    offset: number,
+    contextValue: string,
+    diagnostic?: vscode.Diagnostic
+  ): vscode.CodeAction | undefined {
+    const edits: parser.Edit[] = DigitalTwinFormatter.setValue(
+      document.getText(),
+      offset,
+      contextValue,
+      DigitalTwinCodeActionProvider.getFormatOptions(document)
+    );
+    const title = `Set ${DigitalTwinConstants.CONTEXT} to ${contextValue}`;
+    return DigitalTwinCodeActionProvider.createQuickFix(document, title, edits, diagnostic);
+  }
+
+  /**
+   * provide code actions to fix @context of Interface or CapabilityModel when range is on it,
+   * one for each definition set. The @context is not supported by any definition set.
+   * @param document text document
+   * @param range range
+   */
+  private provideFixModelContextActions(document: vscode.TextDocument, range: vscode.Range): vscode.CodeAction[] {
+    const text: string = document.getText();
+    const root: parser.Node | undefined = parser.parseTree(text);
+    if (!root || root.type !== JsonNodeType.Object) {
+      return [];
+    }
+    const typeNode: parser.Node | undefined = parser.findNodeAtLocation(root, [DigitalTwinConstants.TYPE]);
+    const contextNode: parser.Node | undefined = parser.findNodeAtLocation(root, [DigitalTwinConstants.CONTEXT]);
+    if (
+      !typeNode ||
+      !contextNode ||
+      !contextNode.parent ||
+      (typeNode.value !== DigitalTwinConstants.INTERFACE_NODE &&
+        typeNode.value !== DigitalTwinConstants.CAPABILITY_MODEL_NODE)
+    ) {
+      return [];
+    }
+    if (!IntelliSenseUtility.getNodeRange(document, contextNode.parent).intersection(range)) {
+      return [];
+    }
+    const actions: vscode.CodeAction[] = [];
+    for (const definitionSet of IntelliSenseUtility.getDefinitionSets()) {
+      const action: vscode.CodeAction | undefined = this.provideFixContextAction(
+        document,
+        contextNode.offset,
+        definitionSet.contexts[0]
+      );
+      if (action) {
+        actions.push(action);
+      }
+    }
+    return actions;
+  }
+}
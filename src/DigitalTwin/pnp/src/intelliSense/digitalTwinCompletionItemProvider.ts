@@ -6,7 +6,7 @@ import * as vscode from "vscode";
 import { Constants } from "../common/constants";
 import { DigitalTwinConstants } from "./digitalTwinConstants";
 import { ClassNode, DigitalTwinGraph, PropertyNode, ValueSchema } from "./digitalTwinGraph";
-import { IntelliSenseUtility, JsonNodeType, PropertyPair } from "./intelliSenseUtility";
+import { DigitalTwinModel, IntelliSenseUtility, JsonNodeType, PropertyPair } from "./intelliSenseUtility";
 import { LANGUAGE_CODE } from "./languageCode";
 
 /**
@@ -118,6 +118,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
 
   /**
    * suggest completion item for property
+   * @param graph DigitalTwin graph of the model
    * @param node json node
    * @param position position
    * @param range overwrite range
@@ -125,6 +126,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
    * @param separator separator after completion text
    */
   private static suggestProperty(
+    graph: DigitalTwinGraph,
     node: parser.Node,
     position: vscode.Position,
     range: vscode.Range,
@@ -133,7 +135,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
   ): vscode.CompletionItem[] {
     const completionItems: vscode.CompletionItem[] = [];
     const exist = new Set<string>();
-    const classNode: ClassNode | undefined = DigitalTwinCompletionItemProvider.getObjectType(node, exist);
+    const classNode: ClassNode | undefined = DigitalTwinCompletionItemProvider.getObjectType(graph, node, exist);
     let dummyNode: PropertyNode;
     if (!classNode) {
       // there are two cases when classNode is not defined
@@ -189,6 +191,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
         );
       }
       const suggestion: vscode.CompletionItem[] = DigitalTwinCompletionItemProvider.suggestReservedProperty(
+        graph,
         position,
         range,
         includeValue,
@@ -203,10 +206,11 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
 
   /**
    * get the type of json object node and record existing properties
+   * @param graph DigitalTwin graph of the model
    * @param node json node
    * @param exist existing properties
    */
-  private static getObjectType(node: parser.Node, exist: Set<string>): ClassNode | undefined {
+  private static getObjectType(graph: DigitalTwinGraph, node: parser.Node, exist: Set<string>): ClassNode | undefined {
     const parent: parser.Node | undefined = node.parent;
     if (!parent || parent.type !== JsonNodeType.Object || !parent.children) {
       return undefined;
@@ -228,14 +232,14 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
       if (propertyName === DigitalTwinConstants.TYPE) {
         const propertyValue: parser.Node = propertyPair.value;
         if (propertyValue.type === JsonNodeType.String) {
-          objectType = IntelliSenseUtility.getClasNode(propertyValue.value as string);
+          objectType = graph.getClassNode(propertyValue.value as string);
         } else if (propertyValue.type === JsonNodeType.Array && propertyValue.children) {
           // support semantic type array
           for (const element of propertyValue.children) {
             if (element.type === JsonNodeType.String) {
               const type: string = element.value as string;
               if (type && DigitalTwinConstants.SUPPORT_SEMANTIC_TYPES.has(type)) {
-                objectType = IntelliSenseUtility.getClasNode(type);
+                objectType = graph.getClassNode(type);
               }
             }
           }
@@ -244,7 +248,10 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
     }
     // infer from outer property
     if (!objectType) {
-      const propertyNode: PropertyNode | undefined = DigitalTwinCompletionItemProvider.getOuterPropertyNode(parent);
+      const propertyNode: PropertyNode | undefined = DigitalTwinCompletionItemProvider.getOuterPropertyNode(
+        graph,
+        parent
+      );
       if (propertyNode) {
         const classes: ClassNode[] = IntelliSenseUtility.getObjectClasses(propertyNode);
         if (classes.length === 1) {
@@ -257,15 +264,16 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
 
   /**
    * get outer DigitalTwin property node from current node
+   * @param graph DigitalTwin graph of the model
    * @param node json node
    */
-  private static getOuterPropertyNode(node: parser.Node): PropertyNode | undefined {
+  private static getOuterPropertyNode(graph: DigitalTwinGraph, node: parser.Node): PropertyNode | undefined {
     const propertyPair: PropertyPair | undefined = IntelliSenseUtility.getOuterPropertyPair(node);
     if (!propertyPair) {
       return undefined;
     }
     const propertyName: string = IntelliSenseUtility.resolvePropertyName(propertyPair);
-    return IntelliSenseUtility.getPropertyNode(propertyName);
+    return graph.getPropertyNode(propertyName);
   }
 
   /**
@@ -279,6 +287,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
 
   /**
    * suggest completion item for reserved property
+   * @param graph DigitalTwin graph of the model
    * @param position position
    * @param range overwrite range
    * @param includeValue identifiy if includes property value
@@ -287,6 +296,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
    * @param required required properties
    */
   private static suggestReservedProperty(
+    graph: DigitalTwinGraph,
     position: vscode.Position,
     range: vscode.Range,
     includeValue: boolean,
@@ -296,7 +306,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
   ): vscode.CompletionItem[] {
     const completionItems: vscode.CompletionItem[] = [];
     const properties: PropertyNode[] = [];
-    const propertyNode: PropertyNode | undefined = IntelliSenseUtility.getPropertyNode(DigitalTwinConstants.ID);
+    const propertyNode: PropertyNode | undefined = graph.getPropertyNode(DigitalTwinConstants.ID);
     if (propertyNode) {
       properties.push(propertyNode);
     }
@@ -364,12 +374,14 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
 
   /**
    * suggest completion item for property value
+   * @param graph DigitalTwin graph of the model
    * @param node json node
    * @param position position
    * @param range overwrite range
    * @param separator separator after completion text
    */
   private static suggestValue(
+    graph: DigitalTwinGraph,
     node: parser.Node,
     position: vscode.Position,
     range: vscode.Range,
@@ -383,22 +395,25 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
     let propertyNode: PropertyNode | undefined;
     let propertyName: string = propertyPair.name.value as string;
     if (propertyName === DigitalTwinConstants.CONTEXT) {
-      // suggest value of @context property
-      completionItems.push(
-        DigitalTwinCompletionItemProvider.createCompletionItem(
-          DigitalTwinConstants.IOT_MODEL_LABEL,
-          false,
-          DigitalTwinCompletionItemProvider.getInsertTextForValue(DigitalTwinConstants.CONTEXT_TEMPLATE, separator),
-          position,
-          range
-        )
-      );
+      // suggest value of @context property by definition sets
+      for (const definitionSet of IntelliSenseUtility.getDefinitionSets()) {
+        completionItems.push(
+          DigitalTwinCompletionItemProvider.createCompletionItem(
+            definitionSet.name,
+            false,
+            DigitalTwinCompletionItemProvider.getInsertTextForValue(definitionSet.contexts[0], separator),
+            position,
+            range
+          )
+        );
+      }
     } else if (propertyName === DigitalTwinConstants.TYPE) {
       // suggest value of @type property
       if (node.parent) {
         // assign to entry node if the json object node is the top node
         propertyNode =
-          DigitalTwinCompletionItemProvider.getOuterPropertyNode(node.parent) || IntelliSenseUtility.getEntryNode();
+          DigitalTwinCompletionItemProvider.getOuterPropertyNode(graph, node.parent) ||
+          IntelliSenseUtility.getEntryNode(graph);
         if (propertyNode) {
           const classes: ClassNode[] = IntelliSenseUtility.getObjectClasses(propertyNode);
           for (const classNode of classes) {
@@ -418,7 +433,7 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
     } else {
       // suggest property value
       propertyName = IntelliSenseUtility.resolvePropertyName(propertyPair);
-      propertyNode = IntelliSenseUtility.getPropertyNode(propertyName);
+      propertyNode = graph.getPropertyNode(propertyName);
       if (propertyNode) {
         const enums = IntelliSenseUtility.getEnums(propertyNode);
         for (const value of enums) {
@@ -462,14 +477,14 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
     _context: vscode.CompletionContext
   ): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
     const text: string = DigitalTwinCompletionItemProvider.getTextForParse(document, position);
-    const jsonNode: parser.Node | undefined = IntelliSenseUtility.parseDigitalTwinModel(text);
-    if (!jsonNode) {
+    const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(text);
+    if (!model) {
       return undefined;
     }
-    if (!IntelliSenseUtility.enabled()) {
+    if (!model.graph.initialized()) {
       return undefined;
     }
-    const node: parser.Node | undefined = parser.findNodeAtOffset(jsonNode, document.offsetAt(position));
+    const node: parser.Node | undefined = parser.findNodeAtOffset(model.jsonNode, document.offsetAt(position));
     if (!node || node.type !== JsonNodeType.String) {
       return undefined;
     }
@@ -484,9 +499,16 @@ export class DigitalTwinCompletionItemProvider implements vscode.CompletionItemP
     }
     if (node === parent.children[0]) {
       const includeValue: boolean = parent.children.length < 2;
-      return DigitalTwinCompletionItemProvider.suggestProperty(parent, position, range, includeValue, separator);
+      return DigitalTwinCompletionItemProvider.suggestProperty(
+        model.graph,
+        parent,
+        position,
+        range,
+        includeValue,
+        separator
+      );
     } else {
-      return DigitalTwinCompletionItemProvider.suggestValue(parent, position, range, separator);
+      return DigitalTwinCompletionItemProvider.suggestValue(model.graph, parent, position, range, separator);
     }
   }
 }
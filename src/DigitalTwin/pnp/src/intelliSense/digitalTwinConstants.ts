@@ -22,7 +22,22 @@ export enum DiagnosticMessage {
   InvalidEnum = "Invalid value. Valid values:",
   InvalidContext = "Invalid context of DigitalTwin.",
   ConflictType = "Conflict type:",
-  ValueNotString = "Value is not string."
+  ValueNotString = "Value is not string.",
+  UnresolvedInterface = "is not found in workspace or model repository.",
+  InterfaceOnlyInRepository = "is not found in workspace but exists in model repository.",
+  DuplicateNameAcrossInterfaces = "is also defined by implemented interface"
+}
+
+/**
+ * Code of diagnostic result which needs other model files or could be fixed by code action
+ */
+export enum DiagnosticCode {
+  UnresolvedInterface = "unresolvedInterface",
+  InterfaceOnlyInRepository = "interfaceOnlyInRepository",
+  DuplicateNameAcrossInterfaces = "duplicateNameAcrossInterfaces",
+  MissingRequiredProperties = "missingRequiredProperties",
+  UnexpectedProperty = "unexpectedProperty",
+  InvalidContext = "invalidContext"
 }
 
 /**
@@ -54,7 +69,5 @@ export class DigitalTwinConstants {
   static readonly INTERFACE_SCHEMA_NODE = "InterfaceInstance/schema";
   static readonly WORD_STOP = ' \t\n\r\v":{[,';
   static readonly REQUIRED_PROPERTY_LABEL = "(required)";
-  static readonly IOT_MODEL_LABEL = "IoTModel";
-  static readonly CONTEXT_TEMPLATE = "http://azureiot.com/v1/contexts/IoTModel.json";
   static readonly SUPPORT_SEMANTIC_TYPES = new Set<string>(["Telemetry", "Property"]);
 }
@@ -4,18 +4,20 @@
 import * as parser from "jsonc-parser";
 import * as vscode from "vscode";
 import { Constants } from "../common/constants";
-import { DiagnosticMessage, DigitalTwinConstants } from "./digitalTwinConstants";
+import { DiagnosticCode, DiagnosticMessage, DigitalTwinConstants } from "./digitalTwinConstants";
 import { ClassNode, DigitalTwinGraph, PropertyNode, ValueSchema } from "./digitalTwinGraph";
-import { IntelliSenseUtility, JsonNodeType, PropertyPair } from "./intelliSenseUtility";
+import { DigitalTwinInterfaceResolver, InterfaceInfo } from "./digitalTwinInterfaceResolver";
+import { DigitalTwinModel, IntelliSenseUtility, JsonNodeType, PropertyPair } from "./intelliSenseUtility";
 import { LANGUAGE_CODE } from "./languageCode";
 
 /**
  * Diagnostic problem
  */
-interface Problem {
+export interface Problem {
   offset: number;
   length: number;
   message: string;
+  code?: DiagnosticCode;
 }
 
 /**
@@ -78,7 +80,7 @@ export class DigitalTwinDiagnosticProvider {
    */
   private static addProblemOfUnexpectedProperty(jsonNode: parser.Node, problems: Problem[]): void {
     const message = `${jsonNode.value as string} ${DiagnosticMessage.UnexpectedProperty}`;
-    DigitalTwinDiagnosticProvider.addProblem(jsonNode, problems, message);
+    DigitalTwinDiagnosticProvider.addProblem(jsonNode, problems, message, false, DiagnosticCode.UnexpectedProperty);
   }
 
   /**
@@ -87,26 +89,39 @@ export class DigitalTwinDiagnosticProvider {
    * @param problems problem collection
    * @param message diagnostic message
    * @param isContainer identify if json node is a container (e.g. object or array)
+   * @param code diagnostic code
    */
-  private static addProblem(jsonNode: parser.Node, problems: Problem[], message: string, isContainer?: boolean): void {
+  private static addProblem(
+    jsonNode: parser.Node,
+    problems: Problem[],
+    message: string,
+    isContainer?: boolean,
+    code?: DiagnosticCode
+  ): void {
     const length: number = isContainer ? 0 : jsonNode.length;
-    problems.push({ offset: jsonNode.offset, length, message });
+    problems.push({ offset: jsonNode.offset, length, message, code });
   }
 
   /**
    * validate json node by DigitalTwin graph, add problem in problem collection
+   * @param graph DigitalTwin graph of the model
    * @param jsonNode json node
    * @param digitalTwinNode DigitalTwin property node
    * @param problems problem collection
    */
-  private static validateNode(jsonNode: parser.Node, digitalTwinNode: PropertyNode, problems: Problem[]): void {
+  private static validateNode(
+    graph: DigitalTwinGraph,
+    jsonNode: parser.Node,
+    digitalTwinNode: PropertyNode,
+    problems: Problem[]
+  ): void {
     const nodeType: parser.NodeType = jsonNode.type;
     switch (nodeType) {
       case JsonNodeType.Object:
-        DigitalTwinDiagnosticProvider.validateObjectNode(jsonNode, digitalTwinNode, problems);
+        DigitalTwinDiagnosticProvider.validateObjectNode(graph, jsonNode, digitalTwinNode, problems);
         break;
       case JsonNodeType.Array:
-        DigitalTwinDiagnosticProvider.validateArrayNode(jsonNode, digitalTwinNode, problems);
+        DigitalTwinDiagnosticProvider.validateArrayNode(graph, jsonNode, digitalTwinNode, problems);
         break;
       case JsonNodeType.String:
         DigitalTwinDiagnosticProvider.validateStringNode(jsonNode, digitalTwinNode, problems);
@@ -123,11 +138,17 @@ export class DigitalTwinDiagnosticProvider {
 
   /**
    * validate json object node
+   * @param graph DigitalTwin graph of the model
    * @param jsonNode json node
    * @param digitalTwinNode DigitalTwin property node
    * @param problems problem collection
    */
-  private static validateObjectNode(jsonNode: parser.Node, digitalTwinNode: PropertyNode, problems: Problem[]): void {
+  private static validateObjectNode(
+    graph: DigitalTwinGraph,
+    jsonNode: parser.Node,
+    digitalTwinNode: PropertyNode,
+    problems: Problem[]
+  ): void {
     const classes: ClassNode[] = IntelliSenseUtility.getObjectClasses(digitalTwinNode);
     if (classes.length === 0) {
       DigitalTwinDiagnosticProvider.addProblem(jsonNode, problems, DiagnosticMessage.NotObjectType);
@@ -161,7 +182,7 @@ export class DigitalTwinDiagnosticProvider {
     }
     // validate other properties
     const exist = new Set<string>();
-    DigitalTwinDiagnosticProvider.validateProperties(jsonNode, classNode, problems, exist);
+    DigitalTwinDiagnosticProvider.validateProperties(graph, jsonNode, classNode, problems, exist);
     // validate required property
     if (classNode.constraint && classNode.constraint.required) {
       const requiredProperty: string[] = classNode.constraint.required.filter(p => {
@@ -174,7 +195,13 @@ export class DigitalTwinDiagnosticProvider {
         const message: string = [DiagnosticMessage.MissingRequiredProperties, ...requiredProperty].join(
           Constants.LINE_FEED
         );
-        DigitalTwinDiagnosticProvider.addProblem(jsonNode, problems, message, true);
+        DigitalTwinDiagnosticProvider.addProblem(
+          jsonNode,
+          problems,
+          message,
+          true,
+          DiagnosticCode.MissingRequiredProperties
+        );
       }
     }
   }
@@ -228,12 +255,14 @@ export class DigitalTwinDiagnosticProvider {
 
   /**
    * validate properties of json object node
+   * @param graph DigitalTwin graph of the model
    * @param jsonNode json node
    * @param classNode class node
    * @param problems problem colletion
    * @param exist existing properties
    */
   private static validateProperties(
+    graph: DigitalTwinGraph,
     jsonNode: parser.Node,
     classNode: ClassNode,
     problems: Problem[],
@@ -264,9 +293,9 @@ export class DigitalTwinDiagnosticProvider {
       switch (propertyName) {
         case DigitalTwinConstants.ID:
           // @id is available for each class
-          propertyNode = IntelliSenseUtility.getPropertyNode(propertyName);
+          propertyNode = graph.getPropertyNode(propertyName);
           if (propertyNode) {
-            DigitalTwinDiagnosticProvider.validateNode(propertyPair.value, propertyNode, problems);
+            DigitalTwinDiagnosticProvider.validateNode(graph, propertyPair.value, propertyNode, problems);
           }
           break;
         case DigitalTwinConstants.CONTEXT:
@@ -276,8 +305,14 @@ export class DigitalTwinDiagnosticProvider {
             classNode.constraint.required &&
             classNode.constraint.required.includes(propertyName)
           ) {
-            if (!IntelliSenseUtility.isDigitalTwinContext(propertyPair.value)) {
-              DigitalTwinDiagnosticProvider.addProblem(propertyPair.value, problems, DiagnosticMessage.InvalidContext);
+            if (!IntelliSenseUtility.isDigitalTwinContext(propertyPair.value, graph)) {
+              DigitalTwinDiagnosticProvider.addProblem(
+                propertyPair.value,
+                problems,
+                DiagnosticMessage.InvalidContext,
+                false,
+                DiagnosticCode.InvalidContext
+              );
             }
           } else {
             DigitalTwinDiagnosticProvider.addProblemOfUnexpectedProperty(propertyPair.name, problems);
@@ -292,7 +327,7 @@ export class DigitalTwinDiagnosticProvider {
           if (!propertyNode) {
             DigitalTwinDiagnosticProvider.addProblemOfUnexpectedProperty(propertyPair.name, problems);
           } else {
-            DigitalTwinDiagnosticProvider.validateNode(propertyPair.value, propertyNode, problems);
+            DigitalTwinDiagnosticProvider.validateNode(graph, propertyPair.value, propertyNode, problems);
           }
       }
     }
@@ -300,11 +335,17 @@ export class DigitalTwinDiagnosticProvider {
 
   /**
    * validate json array node
+   * @param graph DigitalTwin graph of the model
    * @param jsonNode json node
    * @param digitalTwinNode DigitalTwin property node
    * @param problems problem collection
    */
-  private static validateArrayNode(jsonNode: parser.Node, digitalTwinNode: PropertyNode, problems: Problem[]): void {
+  private static validateArrayNode(
+    graph: DigitalTwinGraph,
+    jsonNode: parser.Node,
+    digitalTwinNode: PropertyNode,
+    problems: Problem[]
+  ): void {
     if (!digitalTwinNode.isArray) {
       DigitalTwinDiagnosticProvider.addProblemOfInvalidType(jsonNode, digitalTwinNode, problems);
       return;
@@ -340,7 +381,7 @@ export class DigitalTwinDiagnosticProvider {
           exist.add(objectName);
         }
       }
-      DigitalTwinDiagnosticProvider.validateNode(child, digitalTwinNode, problems);
+      DigitalTwinDiagnosticProvider.validateNode(graph, child, digitalTwinNode, problems);
     }
   }
 
@@ -466,46 +507,177 @@ export class DigitalTwinDiagnosticProvider {
     }
   }
 
+  /**
+   * get schema nodes of implemented interfaces which are referred by id
+   * @param jsonNode json node of capability model
+   */
+  static getImplementedInterfaceNodes(jsonNode: parser.Node): parser.Node[] {
+    const typeNode: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, [DigitalTwinConstants.TYPE]);
+    if (!typeNode || typeNode.value !== DigitalTwinConstants.CAPABILITY_MODEL_NODE) {
+      return [];
+    }
+    const implementsNode: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, [
+      DigitalTwinConstants.IMPLEMENTS
+    ]);
+    if (!implementsNode || implementsNode.type !== JsonNodeType.Array || !implementsNode.children) {
+      return [];
+    }
+    const schemaNodes: parser.Node[] = [];
+    for (const child of implementsNode.children) {
+      const schemaNode: parser.Node | undefined = parser.findNodeAtLocation(child, [DigitalTwinConstants.SCHEMA]);
+      // inline interface is validated by DigitalTwin graph
+      if (schemaNode && schemaNode.type === JsonNodeType.String && schemaNode.value) {
+        schemaNodes.push(schemaNode);
+      }
+    }
+    return schemaNodes;
+  }
+
+  /**
+   * validate implemented interfaces of capability model against interface files
+   * @param schemaNodes schema nodes of implemented interfaces
+   * @param interfaces interface files in workspace, key is interface id
+   * @param repositoryIds ids of interfaces which only exist in model repository
+   */
+  static validateImplementedInterfaces(
+    schemaNodes: parser.Node[],
+    interfaces: Map<string, InterfaceInfo>,
+    repositoryIds: Set<string>
+  ): Problem[] {
+    const problems: Problem[] = [];
+    // content name and id of the interface which defines it
+    const definedBy = new Map<string, string>();
+    for (const schemaNode of schemaNodes) {
+      const interfaceId = schemaNode.value as string;
+      const interfaceInfo: InterfaceInfo | undefined = interfaces.get(interfaceId);
+      if (!interfaceInfo) {
+        const inRepository: boolean = repositoryIds.has(interfaceId);
+        problems.push({
+          offset: schemaNode.offset,
+          length: schemaNode.length,
+          message: `${interfaceId} ${
+            inRepository ? DiagnosticMessage.InterfaceOnlyInRepository : DiagnosticMessage.UnresolvedInterface
+          }`,
+          code: inRepository ? DiagnosticCode.InterfaceOnlyInRepository : DiagnosticCode.UnresolvedInterface
+        });
+        continue;
+      }
+      for (const name of interfaceInfo.contentNames) {
+        const otherId: string | undefined = definedBy.get(name);
+        if (otherId === undefined) {
+          definedBy.set(name, interfaceId);
+        } else if (otherId !== interfaceId) {
+          problems.push({
+            offset: schemaNode.offset,
+            length: schemaNode.length,
+            message: `${name} ${DiagnosticMessage.DuplicateNameAcrossInterfaces} ${otherId}.`,
+            code: DiagnosticCode.DuplicateNameAcrossInterfaces
+          });
+        }
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * @param interfaceResolver resolver of implemented interfaces, cross-file validation is skipped if undefined
+   */
+  constructor(private readonly interfaceResolver?: DigitalTwinInterfaceResolver) {}
+
   /**
    * update diagnostics
    * @param document text document
    * @param collection diagnostic collection
    */
-  updateDiagnostics(document: vscode.TextDocument, collection: vscode.DiagnosticCollection): void {
+  async updateDiagnostics(document: vscode.TextDocument, collection: vscode.DiagnosticCollection): Promise<void> {
     // clean diagnostic cache
     collection.delete(document.uri);
-    const jsonNode: parser.Node | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
-    if (!jsonNode) {
+    const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
+    if (!model) {
       return;
     }
-    if (!IntelliSenseUtility.enabled()) {
+    if (!model.graph.initialized()) {
       return;
     }
-    const diagnostics: vscode.Diagnostic[] = this.provideDiagnostics(document, jsonNode);
+    const jsonNode: parser.Node = model.jsonNode;
+    const diagnostics: vscode.Diagnostic[] = this.provideDiagnostics(document, model);
     collection.set(document.uri, diagnostics);
+
+    // validate against interface files, skip the result if document has changed in the meantime
+    const version: number = document.version;
+    const crossFileDiagnostics: vscode.Diagnostic[] = await this.provideCrossFileDiagnostics(document, jsonNode);
+    if (crossFileDiagnostics.length > 0 && !document.isClosed && document.version === version) {
+      collection.set(document.uri, [...diagnostics, ...crossFileDiagnostics]);
+    }
   }
 
   /**
    * provide diagnostics
    * @param document text document
-   * @param jsonNode json node
+   * @param model DigitalTwin model of document
    */
-  private provideDiagnostics(document: vscode.TextDocument, jsonNode: parser.Node): vscode.Diagnostic[] {
-    let diagnostics: vscode.Diagnostic[] = [];
-    const digitalTwinNode: PropertyNode | undefined = IntelliSenseUtility.getEntryNode();
+  private provideDiagnostics(document: vscode.TextDocument, model: DigitalTwinModel): vscode.Diagnostic[] {
+    const digitalTwinNode: PropertyNode | undefined = IntelliSenseUtility.getEntryNode(model.graph);
     if (!digitalTwinNode) {
-      return diagnostics;
+      return [];
     }
     const problems: Problem[] = [];
-    DigitalTwinDiagnosticProvider.validateNode(jsonNode, digitalTwinNode, problems);
-    diagnostics = problems.map(
-      p =>
-        new vscode.Diagnostic(
-          new vscode.Range(document.positionAt(p.offset), document.positionAt(p.offset + p.length)),
-          p.message,
-          vscode.DiagnosticSeverity.Error
-        )
+    DigitalTwinDiagnosticProvider.validateNode(model.graph, model.jsonNode, digitalTwinNode, problems);
+    return this.toDiagnostics(document, problems);
+  }
+
+  /**
+   * provide diagnostics of capability model which need interface files
+   * @param document text document
+   * @param jsonNode json node
+   */
+  private async provideCrossFileDiagnostics(
+    document: vscode.TextDocument,
+    jsonNode: parser.Node
+  ): Promise<vscode.Diagnostic[]> {
+    if (!this.interfaceResolver) {
+      return [];
+    }
+    const schemaNodes: parser.Node[] = DigitalTwinDiagnosticProvider.getImplementedInterfaceNodes(jsonNode);
+    if (schemaNodes.length === 0) {
+      return [];
+    }
+    const interfaces: Map<string, InterfaceInfo> = await this.interfaceResolver.findWorkspaceInterfaces();
+    const repositoryIds = new Set<string>();
+    for (const schemaNode of schemaNodes) {
+      const interfaceId = schemaNode.value as string;
+      if (!interfaces.has(interfaceId) && (await this.interfaceResolver.existsInRepository(interfaceId))) {
+        repositoryIds.add(interfaceId);
+      }
+    }
+    const problems: Problem[] = DigitalTwinDiagnosticProvider.validateImplementedInterfaces(
+      schemaNodes,
+      interfaces,
+      repositoryIds
     );
-    return diagnostics;
+    return this.toDiagnostics(document, problems);
+  }
+
+  /**
+   * convert problems to diagnostics
+   * @param document text document
+   * @param problems problem collection
+   */
+  private toDiagnostics(document: vscode.TextDocument, problems: Problem[]): vscode.Diagnostic[] {
+    return problems.map(p => {
+      const severity: vscode.DiagnosticSeverity =
+        p.code === DiagnosticCode.DuplicateNameAcrossInterfaces || p.code === DiagnosticCode.InterfaceOnlyInRepository
+          ? vscode.DiagnosticSeverity.Warning
+          : vscode.DiagnosticSeverity.Error;
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(document.positionAt(p.offset), document.positionAt(p.offset + p.length)),
+        p.message,
+        severity
+      );
+      if (p.code) {
+        diagnostic.code = p.code;
+      }
+      return diagnostic;
+    });
   }
 }
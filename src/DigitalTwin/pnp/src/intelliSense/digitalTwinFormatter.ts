@@ -0,0 +1,241 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import { DigitalTwinConstants } from "./digitalTwinConstants";
+import { JsonNodeType } from "./intelliSenseUtility";
+
+/**
+ * Options of formatting DigitalTwin model
+ */
+export interface FormatOptions {
+  tabSize: number;
+  insertSpaces: boolean;
+  eol: string;
+}
+
+/**
+ * Formatter of DigitalTwin model, which orders properties canonically and edits properties in place
+ */
+export class DigitalTwinFormatter {
+  /**
+   * format model text with canonical property order, return undefined if text is not a valid json.
+   * Value of primitive type is kept as it is written.
+   * @param text model text
+   * @param options format options
+   */
+  static format(text: string, options: FormatOptions): string | undefined {
+    const errors: parser.ParseError[] = [];
+    // comment would be lost when reordering properties
+    const jsonNode: parser.Node | undefined = parser.parseTree(text, errors, { disallowComments: true });
+    if (!jsonNode || errors.length > 0) {
+      return undefined;
+    }
+    const indent: string = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+    const formatted: string = DigitalTwinFormatter.print(text, jsonNode, indent, options.eol, 0);
+    return /\r?\n$/.test(text) ? formatted + options.eol : formatted;
+  }
+
+  /**
+   * get edits to add properties to json object, properties are inserted in canonical order
+   * @param text model text
+   * @param offset offset of json object
+   * @param properties properties to add
+   * @param options format options
+   */
+  static addProperties(
+    text: string,
+    offset: number,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    properties: Map<string, any>,
+    options: FormatOptions
+  ): parser.Edit[] {
+    const jsonNode: parser.Node | undefined = DigitalTwinFormatter.findNode(text, offset, JsonNodeType.Object);
+    if (!jsonNode) {
+      return [];
+    }
+    const path: parser.JSONPath = parser.getNodePath(jsonNode);
+    let result: string = text;
+    for (const [name, value] of properties) {
+      const edits: parser.Edit[] = parser.modify(result, [...path, name], value, {
+        formattingOptions: options,
+        getInsertionIndex: (names: string[]) => DigitalTwinFormatter.getInsertionIndex(names, name)
+      });
+      result = parser.applyEdits(result, edits);
+    }
+    // edits are inside json object, so it starts at the same offset
+    const newNode: parser.Node | undefined = DigitalTwinFormatter.findNode(
+      result,
+      jsonNode.offset,
+      JsonNodeType.Object
+    );
+    if (!newNode) {
+      return [];
+    }
+    return [
+      {
+        offset: jsonNode.offset,
+        length: jsonNode.length,
+        content: result.substr(newNode.offset, newNode.length)
+      }
+    ];
+  }
+
+  /**
+   * get edits to remove property
+   * @param text model text
+   * @param offset offset of property name
+   * @param options format options
+   */
+  static removeProperty(text: string, offset: number, options: FormatOptions): parser.Edit[] {
+    const jsonNode: parser.Node | undefined = DigitalTwinFormatter.findNode(text, offset, JsonNodeType.Property);
+    if (!jsonNode || !jsonNode.children || jsonNode.children.length !== 2) {
+      return [];
+    }
+    // path of property is the path of its value
+    const path: parser.JSONPath = parser.getNodePath(jsonNode.children[1]);
+    return parser.modify(text, path, undefined, { formattingOptions: options });
+  }
+
+  /**
+   * get edits to set value of property
+   * @param text model text
+   * @param offset offset of property value
+   * @param value value to set
+   * @param options format options
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  static setValue(text: string, offset: number, value: any, options: FormatOptions): parser.Edit[] {
+    const root: parser.Node | undefined = parser.parseTree(text);
+    const jsonNode: parser.Node | undefined = root ? parser.findNodeAtOffset(root, offset) : undefined;
+    if (!jsonNode || !jsonNode.parent || jsonNode.parent.type !== JsonNodeType.Property) {
+      return [];
+    }
+    return parser.modify(text, parser.getNodePath(jsonNode), value, { formattingOptions: options });
+  }
+
+  // canonical order of properties, other properties keep their order and @context is always the last
+  private static readonly PROPERTY_ORDER: string[] = [
+    DigitalTwinConstants.ID,
+    DigitalTwinConstants.TYPE,
+    "displayName",
+    DigitalTwinConstants.NAME,
+    "description",
+    "comment",
+    "unit",
+    "displayUnit",
+    "writable",
+    "commandType",
+    DigitalTwinConstants.SCHEMA,
+    "request",
+    "response",
+    "valueSchema",
+    "enumValue",
+    "enumValues",
+    "fields",
+    "mapKey",
+    "mapValue",
+    "elementSchema",
+    DigitalTwinConstants.IMPLEMENTS,
+    DigitalTwinConstants.CONTENTS,
+    "schemas"
+  ];
+
+  /**
+   * get rank of property name in canonical order
+   * @param name property name
+   */
+  private static getRank(name: string): number {
+    if (name === DigitalTwinConstants.CONTEXT) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    const index: number = DigitalTwinFormatter.PROPERTY_ORDER.indexOf(name);
+    return index === -1 ? DigitalTwinFormatter.PROPERTY_ORDER.length : index;
+  }
+
+  /**
+   * get insertion index of new property, which is after properties with the same or lower rank
+   * @param names existing property names
+   * @param name new property name
+   */
+  private static getInsertionIndex(names: string[], name: string): number {
+    const rank: number = DigitalTwinFormatter.getRank(name);
+    let index: number = names.length;
+    while (index > 0 && DigitalTwinFormatter.getRank(names[index - 1]) > rank) {
+      index--;
+    }
+    return index;
+  }
+
+  /**
+   * find json node of type at offset, return the closest one which contains the offset
+   * @param text model text
+   * @param offset offset
+   * @param type json node type
+   */
+  private static findNode(text: string, offset: number, type: string): parser.Node | undefined {
+    const root: parser.Node | undefined = parser.parseTree(text);
+    let jsonNode: parser.Node | undefined = root ? parser.findNodeAtOffset(root, offset) : undefined;
+    while (jsonNode && jsonNode.type !== type) {
+      jsonNode = jsonNode.parent;
+    }
+    return jsonNode;
+  }
+
+  /**
+   * print json node
+   * @param text model text
+   * @param jsonNode json node
+   * @param indent indent of one level
+   * @param eol end of line
+   * @param level indent level
+   */
+  private static print(text: string, jsonNode: parser.Node, indent: string, eol: string, level: number): string {
+    const children: parser.Node[] = jsonNode.children || [];
+    const outer: string = indent.repeat(level);
+    const inner: string = indent.repeat(level + 1);
+    switch (jsonNode.type) {
+      case JsonNodeType.Object: {
+        if (children.length === 0) {
+          return "{}";
+        }
+        const properties: parser.Node[] = children
+          .map((child, index) => ({ child, index }))
+          .sort((a, b) => {
+            const diff: number =
+              DigitalTwinFormatter.getRank(DigitalTwinFormatter.getName(a.child)) -
+              DigitalTwinFormatter.getRank(DigitalTwinFormatter.getName(b.child));
+            return diff || a.index - b.index;
+          })
+          .map(p => p.child);
+        const lines: string[] = properties.map(p => {
+          const [name, value] = p.children as parser.Node[];
+          const printedName: string = text.substr(name.offset, name.length);
+          return `${inner}${printedName}: ${DigitalTwinFormatter.print(text, value, indent, eol, level + 1)}`;
+        });
+        return `{${eol}${lines.join(`,${eol}`)}${eol}${outer}}`;
+      }
+      case JsonNodeType.Array: {
+        if (children.length === 0) {
+          return "[]";
+        }
+        const lines: string[] = children.map(
+          child => `${inner}${DigitalTwinFormatter.print(text, child, indent, eol, level + 1)}`
+        );
+        return `[${eol}${lines.join(`,${eol}`)}${eol}${outer}]`;
+      }
+      default:
+        return text.substr(jsonNode.offset, jsonNode.length);
+    }
+  }
+
+  /**
+   * get name of json property node
+   * @param jsonNode json property node
+   */
+  private static getName(jsonNode: parser.Node): string {
+    return jsonNode.children && jsonNode.children.length > 0 ? (jsonNode.children[0].value as string) : "";
+  }
+
+  private constructor() {}
+}
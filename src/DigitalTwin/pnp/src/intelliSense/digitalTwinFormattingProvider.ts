@@ -0,0 +1,33 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { DigitalTwinFormatter } from "./digitalTwinFormatter";
+import { IntelliSenseUtility } from "./intelliSenseUtility";
+
+/**
+ * Formatting provider for DigitalTwin IntelliSense
+ */
+export class DigitalTwinFormattingProvider implements vscode.DocumentFormattingEditProvider {
+  /**
+   * provide formatting edits
+   * @param document text document
+   * @param options formatting options
+   */
+  provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions): vscode.TextEdit[] {
+    const text: string = document.getText();
+    if (!IntelliSenseUtility.parseDigitalTwinModel(text)) {
+      return [];
+    }
+    const formatted: string | undefined = DigitalTwinFormatter.format(text, {
+      tabSize: options.tabSize,
+      insertSpaces: options.insertSpaces,
+      eol: document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n"
+    });
+    if (!formatted || formatted === text) {
+      return [];
+    }
+    const range = new vscode.Range(document.positionAt(0), document.positionAt(text.length));
+    return [vscode.TextEdit.replace(range, formatted)];
+  }
+}
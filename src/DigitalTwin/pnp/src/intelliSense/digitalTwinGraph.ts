@@ -44,6 +44,16 @@ export interface ConstraintNode {
   required?: string[];
 }
 
+/**
+ * Definition set of DigitalTwin graph, which is a folder of graph, context and constraint definitions.
+ * It is used by model whose @context is one of the contexts.
+ */
+export interface DefinitionSet {
+  name: string;
+  folder: string;
+  contexts: string[];
+}
+
 /**
  * Context node of DigitalTwin graph
  */
@@ -95,15 +105,29 @@ enum ContainerType {
  */
 export class DigitalTwinGraph {
   /**
-   * get singleton instance of DigitalTwin graph
+   * get singleton instances of DigitalTwin graph, one for each definition set.
+   * Definition set which fails to load is skipped, and the first one is the default.
    * @param context extension context
    */
-  static async getInstance(context: vscode.ExtensionContext): Promise<DigitalTwinGraph> {
-    if (!DigitalTwinGraph.instance) {
-      DigitalTwinGraph.instance = new DigitalTwinGraph();
-      await DigitalTwinGraph.instance.init(context);
+  static async getInstances(context: vscode.ExtensionContext): Promise<DigitalTwinGraph[]> {
+    if (!DigitalTwinGraph.instances) {
+      let definitionSets: DefinitionSet[];
+      try {
+        definitionSets = await DigitalTwinGraph.resolveDefinition(context, Constants.DEFINITION_INDEX_FILE_NAME);
+      } catch (error) {
+        definitionSets = [];
+      }
+      const instances: DigitalTwinGraph[] = [];
+      for (const definitionSet of definitionSets) {
+        const instance = new DigitalTwinGraph(definitionSet);
+        await instance.init(context);
+        if (instance.initialized()) {
+          instances.push(instance);
+        }
+      }
+      DigitalTwinGraph.instances = instances;
     }
-    return DigitalTwinGraph.instance;
+    return DigitalTwinGraph.instances;
   }
 
   /**
@@ -147,7 +171,7 @@ export class DigitalTwinGraph {
     return true;
   }
 
-  private static instance: DigitalTwinGraph;
+  private static instances: DigitalTwinGraph[] | undefined;
 
   /**
    * check if json object is a valid constraint node
@@ -201,15 +225,15 @@ export class DigitalTwinGraph {
   /**
    * resolve definition
    * @param context extension context
-   * @param fileName file name
+   * @param paths path segments relative to definition folder
    */
   private static async resolveDefinition(
     context: vscode.ExtensionContext,
-    fileName: string
-    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  ): Promise<any> {
+    ...paths: string[]
+  ): // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  Promise<any> {
     const filePath: string = context.asAbsolutePath(
-      path.join(Constants.RESOURCE_FOLDER, Constants.DEFINITION_FOLDER, fileName)
+      path.join(Constants.RESOURCE_FOLDER, Constants.DEFINITION_FOLDER, ...paths)
     );
     return await Utility.getJsonContent(filePath);
   }
@@ -220,7 +244,7 @@ export class DigitalTwinGraph {
   private constraintNodes: Map<string, ConstraintNode>;
   private reversedIndex: Map<string, string>;
   private vocabulary: string;
-  private constructor() {
+  private constructor(readonly definitionSet: DefinitionSet) {
     this.classNodes = new Map<string, ClassNode>();
     this.propertyNodes = new Map<string, PropertyNode>();
     this.contextNodes = new Map<string, ContextNode>();
@@ -236,6 +260,14 @@ export class DigitalTwinGraph {
     return this.vocabulary !== Constants.EMPTY_STRING;
   }
 
+  /**
+   * check if DigitalTwin graph supports the context of model
+   * @param context context of model
+   */
+  supportsContext(context: string): boolean {
+    return this.definitionSet.contexts.includes(context);
+  }
+
   /**
    * get property node by name
    * @param name name
@@ -255,18 +287,19 @@ export class DigitalTwinGraph {
   }
 
   /**
-   * inititalize DigitalTwin graph
+   * inititalize DigitalTwin graph by definition set
    * @param context extension context
    */
   private async init(context: vscode.ExtensionContext): Promise<void> {
+    const folder: string = this.definitionSet.folder;
     let contextJson;
     let constraintJson;
     let graphJson;
     // load definition file
     try {
-      contextJson = await DigitalTwinGraph.resolveDefinition(context, Constants.CONTEXT_FILE_NAME);
-      constraintJson = await DigitalTwinGraph.resolveDefinition(context, Constants.CONSTRAINT_FILE_NAME);
-      graphJson = await DigitalTwinGraph.resolveDefinition(context, Constants.GRAPH_FILE_NAME);
+      contextJson = await DigitalTwinGraph.resolveDefinition(context, folder, Constants.CONTEXT_FILE_NAME);
+      constraintJson = await DigitalTwinGraph.resolveDefinition(context, folder, Constants.CONSTRAINT_FILE_NAME);
+      graphJson = await DigitalTwinGraph.resolveDefinition(context, folder, Constants.GRAPH_FILE_NAME);
     } catch (error) {
       return;
     }
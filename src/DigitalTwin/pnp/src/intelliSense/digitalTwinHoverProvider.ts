@@ -5,8 +5,8 @@ import * as parser from "jsonc-parser";
 import * as vscode from "vscode";
 import { Constants } from "../common/constants";
 import { DigitalTwinConstants } from "./digitalTwinConstants";
-import { PropertyNode } from "./digitalTwinGraph";
-import { IntelliSenseUtility, PropertyPair } from "./intelliSenseUtility";
+import { DigitalTwinGraph, PropertyNode } from "./digitalTwinGraph";
+import { DigitalTwinModel, IntelliSenseUtility, PropertyPair } from "./intelliSenseUtility";
 
 /**
  * Hover provider for DigitalTwin IntelliSense
@@ -14,9 +14,10 @@ import { IntelliSenseUtility, PropertyPair } from "./intelliSenseUtility";
 export class DigitalTwinHoverProvider implements vscode.HoverProvider {
   /**
    * get hover content
+   * @param graph DigitalTwin graph of the model
    * @param propertyName property name
    */
-  private static getContent(propertyName: string): string {
+  private static getContent(graph: DigitalTwinGraph, propertyName: string): string {
     if (!propertyName) {
       return Constants.EMPTY_STRING;
     }
@@ -28,7 +29,7 @@ export class DigitalTwinHoverProvider implements vscode.HoverProvider {
       case DigitalTwinConstants.CONTEXT:
         return `The context for ${Constants.CHANNEL_NAME} Capability Model or interface`;
       default: {
-        const propertyNode: PropertyNode | undefined = IntelliSenseUtility.getPropertyNode(propertyName);
+        const propertyNode: PropertyNode | undefined = graph.getPropertyNode(propertyName);
         return propertyNode && propertyNode.comment ? propertyNode.comment : Constants.EMPTY_STRING;
       }
     }
@@ -46,14 +47,14 @@ export class DigitalTwinHoverProvider implements vscode.HoverProvider {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     _token: vscode.CancellationToken
   ): vscode.ProviderResult<vscode.Hover> {
-    const jsonNode: parser.Node | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
-    if (!jsonNode) {
+    const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
+    if (!model) {
       return undefined;
     }
-    if (!IntelliSenseUtility.enabled()) {
+    if (!model.graph.initialized()) {
       return undefined;
     }
-    const node: parser.Node | undefined = parser.findNodeAtOffset(jsonNode, document.offsetAt(position));
+    const node: parser.Node | undefined = parser.findNodeAtOffset(model.jsonNode, document.offsetAt(position));
     if (!node || !node.parent) {
       return undefined;
     }
@@ -62,7 +63,7 @@ export class DigitalTwinHoverProvider implements vscode.HoverProvider {
       return undefined;
     }
     const propertyName: string = IntelliSenseUtility.resolvePropertyName(propertyPair);
-    const content: string = DigitalTwinHoverProvider.getContent(propertyName);
+    const content: string = DigitalTwinHoverProvider.getContent(model.graph, propertyName);
     return content ? new vscode.Hover(content, IntelliSenseUtility.getNodeRange(document, node.parent)) : undefined;
   }
 }
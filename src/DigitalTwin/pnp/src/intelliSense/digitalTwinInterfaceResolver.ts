@@ -0,0 +1,150 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { Utility } from "../common/utility";
+import { DeviceModelManager, ModelType } from "../deviceModel/deviceModelManager";
+import { ModelRepositoryManager } from "../modelRepository/modelRepositoryManager";
+import { UIConstants } from "../view/uiConstants";
+import { DigitalTwinConstants } from "./digitalTwinConstants";
+
+/**
+ * Interface file in workspace
+ */
+export interface InterfaceInfo {
+  id: string;
+  filePath: string;
+  contentNames: string[];
+}
+
+/**
+ * Resolve interface id to interface file in workspace or model in repository
+ */
+export class DigitalTwinInterfaceResolver {
+  /**
+   * get name of contents from interface
+   * @param content interface content
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static getContentNames(content: any): string[] {
+    const contents = content[DigitalTwinConstants.CONTENTS];
+    if (!Array.isArray(contents)) {
+      return [];
+    }
+    return contents
+      .map(item => item && item[DigitalTwinConstants.NAME])
+      .filter((name): name is string => typeof name === "string");
+  }
+
+  /**
+   * read interface from model file, return undefined if it is not an interface or not a valid json
+   * @param filePath file path
+   */
+  private static async readInterface(filePath: string): Promise<InterfaceInfo | undefined> {
+    let content;
+    try {
+      content = await Utility.getJsonContent(filePath);
+    } catch {
+      // skip if file is deleted or changed to invalid json
+      return undefined;
+    }
+    const id = content[DigitalTwinConstants.ID];
+    if (
+      typeof id !== "string" ||
+      !content[DigitalTwinConstants.CONTEXT] ||
+      DeviceModelManager.convertToModelType(content[DigitalTwinConstants.TYPE]) !== ModelType.Interface
+    ) {
+      return undefined;
+    }
+    return { id, filePath, contentNames: DigitalTwinInterfaceResolver.getContentNames(content) };
+  }
+
+  // interface of each model file in workspace, undefined if the file is not an interface
+  private fileIndex: Map<string, InterfaceInfo | undefined> | undefined;
+  private readonly staleFiles = new Set<string>();
+  // cache of repository lookup, since it is a remote call
+  private readonly repositoryCache = new Map<string, boolean>();
+  // time of failed repository lookup, which is retried after an interval
+  private readonly failedLookups = new Map<string, number>();
+  constructor(private readonly modelRepositoryManager: ModelRepositoryManager) {}
+
+  /**
+   * find interface files in workspace, key is interface id.
+   * Workspace is scanned once, then only the files invalidated since last call are read again.
+   */
+  async findWorkspaceInterfaces(): Promise<Map<string, InterfaceInfo>> {
+    let fileIndex: Map<string, InterfaceInfo | undefined> | undefined = this.fileIndex;
+    if (!fileIndex) {
+      this.staleFiles.clear();
+      fileIndex = new Map<string, InterfaceInfo | undefined>();
+      const files: vscode.Uri[] = await vscode.workspace.findFiles(UIConstants.MODEL_FILE_GLOB);
+      for (const file of files) {
+        fileIndex.set(file.fsPath, await DigitalTwinInterfaceResolver.readInterface(file.fsPath));
+      }
+      this.fileIndex = fileIndex;
+    } else {
+      const staleFiles: string[] = Array.from(this.staleFiles);
+      this.staleFiles.clear();
+      for (const filePath of staleFiles) {
+        const interfaceInfo: InterfaceInfo | undefined = await DigitalTwinInterfaceResolver.readInterface(filePath);
+        if (interfaceInfo) {
+          fileIndex.set(filePath, interfaceInfo);
+        } else {
+          fileIndex.delete(filePath);
+        }
+      }
+    }
+    const interfaces = new Map<string, InterfaceInfo>();
+    for (const interfaceInfo of fileIndex.values()) {
+      if (interfaceInfo) {
+        interfaces.set(interfaceInfo.id, interfaceInfo);
+      }
+    }
+    return interfaces;
+  }
+
+  /**
+   * mark model file as created, changed or deleted, it is read again on next lookup
+   * @param filePath file path
+   */
+  invalidate(filePath: string): void {
+    if (this.fileIndex) {
+      this.staleFiles.add(filePath);
+    }
+  }
+
+  /**
+   * check if interface exists in model repository, return false when repository is not available
+   * @param interfaceId interface id
+   */
+  async existsInRepository(interfaceId: string): Promise<boolean> {
+    const cached: boolean | undefined = this.repositoryCache.get(interfaceId);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const failedTime: number | undefined = this.failedLookups.get(interfaceId);
+    if (failedTime !== undefined && Date.now() - failedTime < Constants.REPOSITORY_RETRY_INTERVAL_MS) {
+      return false;
+    }
+    let exist: boolean;
+    try {
+      exist = await this.modelRepositoryManager.modelExists(interfaceId);
+    } catch {
+      // don't retry on each validation, e.g. network is not available
+      this.failedLookups.set(interfaceId, Date.now());
+      return false;
+    }
+    this.failedLookups.delete(interfaceId);
+    this.repositoryCache.set(interfaceId, exist);
+    return exist;
+  }
+
+  /**
+   * clear cache of repository lookup
+   */
+  clearCache(): void {
+    this.repositoryCache.clear();
+    this.failedLookups.clear();
+  }
+}
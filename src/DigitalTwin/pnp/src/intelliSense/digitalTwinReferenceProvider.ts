@@ -0,0 +1,255 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import * as vscode from "vscode";
+import { ModelFileInfo } from "../modelRepository/modelRepositoryManager";
+import { UI } from "../view/ui";
+import { DigitalTwinConstants } from "./digitalTwinConstants";
+import { DigitalTwinDiagnosticProvider } from "./digitalTwinDiagnosticProvider";
+import { DigitalTwinModel, IntelliSenseUtility, JsonNodeType } from "./intelliSenseUtility";
+
+/**
+ * Occurrence of model id in model file
+ */
+interface Occurrence {
+  document: vscode.TextDocument;
+  node: parser.Node;
+  isDefinition: boolean;
+}
+
+/**
+ * Definition, reference and rename provider of model id for DigitalTwin IntelliSense
+ */
+export class DigitalTwinReferenceProvider
+  implements vscode.DefinitionProvider, vscode.ReferenceProvider, vscode.RenameProvider {
+  /**
+   * get json node of model id which defines the model
+   * @param jsonNode json node
+   */
+  static getDefinitionNode(jsonNode: parser.Node): parser.Node | undefined {
+    const idNode: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, [DigitalTwinConstants.ID]);
+    return idNode && idNode.type === JsonNodeType.String ? idNode : undefined;
+  }
+
+  /**
+   * get json nodes of interfaceSchema which are referred by id
+   * @param jsonNode json node
+   */
+  static getInterfaceSchemaNodes(jsonNode: parser.Node): parser.Node[] {
+    const schemaNodes: parser.Node[] = [];
+    if (
+      jsonNode.type === JsonNodeType.Property &&
+      jsonNode.children &&
+      jsonNode.children.length === 2 &&
+      jsonNode.children[0].value === DigitalTwinConstants.INTERFACE_SCHEMA
+    ) {
+      const valueNode: parser.Node = jsonNode.children[1];
+      // inline interface is validated by DigitalTwin graph
+      if (valueNode.type === JsonNodeType.String && valueNode.value) {
+        schemaNodes.push(valueNode);
+      }
+    }
+    for (const child of jsonNode.children || []) {
+      schemaNodes.push(...DigitalTwinReferenceProvider.getInterfaceSchemaNodes(child));
+    }
+    return schemaNodes;
+  }
+
+  /**
+   * find json nodes which define or refer to the model id
+   * @param jsonNode json node
+   * @param modelId model id
+   */
+  static findIdNodes(jsonNode: parser.Node, modelId: string): parser.Node[] {
+    const idNodes: parser.Node[] = [];
+    const definitionNode: parser.Node | undefined = DigitalTwinReferenceProvider.getDefinitionNode(jsonNode);
+    if (definitionNode && definitionNode.value === modelId) {
+      idNodes.push(definitionNode);
+    }
+    const schemaNodes: parser.Node[] = [
+      ...DigitalTwinDiagnosticProvider.getImplementedInterfaceNodes(jsonNode),
+      ...DigitalTwinReferenceProvider.getInterfaceSchemaNodes(jsonNode)
+    ];
+    for (const schemaNode of schemaNodes) {
+      if (schemaNode.value === modelId) {
+        idNodes.push(schemaNode);
+      }
+    }
+    return idNodes;
+  }
+
+  /**
+   * get json node of model id at offset, either definition or reference of interface
+   * @param jsonNode json node
+   * @param offset offset
+   */
+  static getIdNodeAtOffset(jsonNode: parser.Node, offset: number): parser.Node | undefined {
+    const node: parser.Node | undefined = parser.findNodeAtOffset(jsonNode, offset);
+    if (!node || node.type !== JsonNodeType.String || !node.value) {
+      return undefined;
+    }
+    return DigitalTwinReferenceProvider.findIdNodes(jsonNode, node.value as string).find(n => n === node);
+  }
+
+  /**
+   * get range of string value without quotes
+   * @param document text document
+   * @param node json node of string
+   */
+  private static getValueRange(document: vscode.TextDocument, node: parser.Node): vscode.Range {
+    return new vscode.Range(document.positionAt(node.offset + 1), document.positionAt(node.offset + node.length - 1));
+  }
+
+  /**
+   * get model id at position of document
+   * @param document text document
+   * @param position position
+   */
+  private static getModelIdAtPosition(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
+    if (!model) {
+      return undefined;
+    }
+    const idNode: parser.Node | undefined = DigitalTwinReferenceProvider.getIdNodeAtOffset(
+      model.jsonNode,
+      document.offsetAt(position)
+    );
+    return idNode ? (idNode.value as string) : undefined;
+  }
+
+  /**
+   * find occurrences of model id in workspace model files
+   * @param modelId model id
+   * @param includeReference identify if include references besides definition
+   */
+  private static async findOccurrences(modelId: string, includeReference: boolean): Promise<Occurrence[]> {
+    const fileInfos: ModelFileInfo[] = await UI.findModelFiles();
+    const occurrences: Occurrence[] = [];
+    for (const fileInfo of fileInfos) {
+      if (!includeReference && fileInfo.id !== modelId) {
+        continue;
+      }
+      // open document to use unsaved change in editor
+      const document: vscode.TextDocument = await vscode.workspace.openTextDocument(fileInfo.filePath);
+      const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
+      if (!model) {
+        continue;
+      }
+      const definitionNode: parser.Node | undefined = DigitalTwinReferenceProvider.getDefinitionNode(model.jsonNode);
+      for (const node of DigitalTwinReferenceProvider.findIdNodes(model.jsonNode, modelId)) {
+        const isDefinition: boolean = node === definitionNode;
+        if (includeReference || isDefinition) {
+          occurrences.push({ document, node, isDefinition });
+        }
+      }
+    }
+    return occurrences;
+  }
+
+  /**
+   * convert occurrence to location
+   * @param occurrence occurrence of model id
+   */
+  private static toLocation(occurrence: Occurrence): vscode.Location {
+    return new vscode.Location(
+      occurrence.document.uri,
+      DigitalTwinReferenceProvider.getValueRange(occurrence.document, occurrence.node)
+    );
+  }
+
+  /**
+   * provide definition of model id
+   * @param document text document
+   * @param position position
+   * @param token cancellation token
+   */
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _token: vscode.CancellationToken
+  ): Promise<vscode.Location[] | undefined> {
+    const modelId: string | undefined = DigitalTwinReferenceProvider.getModelIdAtPosition(document, position);
+    if (!modelId) {
+      return undefined;
+    }
+    const occurrences: Occurrence[] = await DigitalTwinReferenceProvider.findOccurrences(modelId, false);
+    return occurrences.map(o => DigitalTwinReferenceProvider.toLocation(o));
+  }
+
+  /**
+   * provide references of model id
+   * @param document text document
+   * @param position position
+   * @param context reference context
+   * @param token cancellation token
+   */
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _token: vscode.CancellationToken
+  ): Promise<vscode.Location[] | undefined> {
+    const modelId: string | undefined = DigitalTwinReferenceProvider.getModelIdAtPosition(document, position);
+    if (!modelId) {
+      return undefined;
+    }
+    const occurrences: Occurrence[] = await DigitalTwinReferenceProvider.findOccurrences(modelId, true);
+    return occurrences
+      .filter(o => context.includeDeclaration || !o.isDefinition)
+      .map(o => DigitalTwinReferenceProvider.toLocation(o));
+  }
+
+  /**
+   * check if model id could be renamed at position
+   * @param document text document
+   * @param position position
+   * @param token cancellation token
+   */
+  prepareRename(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _token: vscode.CancellationToken
+  ): vscode.Range {
+    const model: DigitalTwinModel | undefined = IntelliSenseUtility.parseDigitalTwinModel(document.getText());
+    const idNode: parser.Node | undefined = model
+      ? DigitalTwinReferenceProvider.getIdNodeAtOffset(model.jsonNode, document.offsetAt(position))
+      : undefined;
+    if (!idNode) {
+      throw new Error("Only model id of capability model or interface could be renamed");
+    }
+    return DigitalTwinReferenceProvider.getValueRange(document, idNode);
+  }
+
+  /**
+   * provide edits to rename model id in workspace
+   * @param document text document
+   * @param position position
+   * @param newName new model id
+   * @param token cancellation token
+   */
+  async provideRenameEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    newName: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _token: vscode.CancellationToken
+  ): Promise<vscode.WorkspaceEdit | undefined> {
+    const modelId: string | undefined = DigitalTwinReferenceProvider.getModelIdAtPosition(document, position);
+    if (!modelId) {
+      return undefined;
+    }
+    if (!newName || /["\\\s]/.test(newName)) {
+      throw new Error(`${newName} is not a valid model id`);
+    }
+    const edit = new vscode.WorkspaceEdit();
+    const occurrences: Occurrence[] = await DigitalTwinReferenceProvider.findOccurrences(modelId, true);
+    for (const o of occurrences) {
+      edit.replace(o.document.uri, DigitalTwinReferenceProvider.getValueRange(o.document, o.node), newName);
+    }
+    return edit;
+  }
+}
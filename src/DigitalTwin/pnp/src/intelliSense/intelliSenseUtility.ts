@@ -4,7 +4,7 @@
 import * as parser from "jsonc-parser";
 import * as vscode from "vscode";
 import { DigitalTwinConstants } from "./digitalTwinConstants";
-import { ClassNode, DigitalTwinGraph, PropertyNode } from "./digitalTwinGraph";
+import { ClassNode, DefinitionSet, DigitalTwinGraph, PropertyNode } from "./digitalTwinGraph";
 
 /**
  * Type of json node
@@ -26,79 +26,67 @@ export interface PropertyPair {
   value: parser.Node;
 }
 
+/**
+ * DigitalTwin model parsed from text, with the graph which supports its @context
+ */
+export interface DigitalTwinModel {
+  jsonNode: parser.Node;
+  graph: DigitalTwinGraph;
+}
+
 /**
  * Utility for IntelliSense
  */
 export class IntelliSenseUtility {
   /**
-   * init DigitalTwin graph
+   * init DigitalTwin graphs of all definition sets
    * @param context extension context
    */
   static async initGraph(context: vscode.ExtensionContext): Promise<void> {
-    IntelliSenseUtility.graph = await DigitalTwinGraph.getInstance(context);
+    IntelliSenseUtility.graphs = await DigitalTwinGraph.getInstances(context);
   }
 
   /**
-   * check if IntelliSense has been enabled
+   * get definition sets of DigitalTwin graphs, the first one is the default
    */
-  static enabled(): boolean {
-    return IntelliSenseUtility.graph && IntelliSenseUtility.graph.initialized();
+  static getDefinitionSets(): DefinitionSet[] {
+    return IntelliSenseUtility.graphs.map(g => g.definitionSet);
   }
 
   /**
    * get entry node of DigitalTwin model
+   * @param graph DigitalTwin graph of the model
    */
-  static getEntryNode(): PropertyNode | undefined {
-    return IntelliSenseUtility.graph.getPropertyNode(DigitalTwinConstants.ENTRY_NODE);
-  }
-
-  /**
-   * get property node of DigitalTwin model by name
-   * @param name property name
-   */
-  static getPropertyNode(name: string): PropertyNode | undefined {
-    return IntelliSenseUtility.graph.getPropertyNode(name);
+  static getEntryNode(graph: DigitalTwinGraph): PropertyNode | undefined {
+    return graph.getPropertyNode(DigitalTwinConstants.ENTRY_NODE);
   }
 
   /**
-   * get class node of DigitalTwin model by name
-   * @param name class name
-   */
-  static getClasNode(name: string): ClassNode | undefined {
-    return IntelliSenseUtility.graph.getClassNode(name);
-  }
-
-  /**
-   * parse the text, return json node if it is DigitalTwin model
+   * parse the text, return json node and the graph which supports its @context if it is DigitalTwin model
    * @param text text
    */
-  static parseDigitalTwinModel(text: string): parser.Node | undefined {
+  static parseDigitalTwinModel(text: string): DigitalTwinModel | undefined {
     // skip checking errors in order to do IntelliSense at best effort
     const jsonNode: parser.Node = parser.parseTree(text);
     const contextPath: string[] = [DigitalTwinConstants.CONTEXT];
     const contextNode: parser.Node | undefined = parser.findNodeAtLocation(jsonNode, contextPath);
-    if (contextNode && IntelliSenseUtility.isDigitalTwinContext(contextNode)) {
-      return jsonNode;
+    if (!contextNode) {
+      return undefined;
     }
-    return undefined;
+    const contexts: string[] = IntelliSenseUtility.getContexts(contextNode);
+    const graph: DigitalTwinGraph | undefined = IntelliSenseUtility.graphs.find(g =>
+      contexts.some(c => g.supportsContext(c))
+    );
+    return graph ? { jsonNode, graph } : undefined;
   }
 
   /**
-   * check if json node has DigitalTwin context
+   * check if json node has DigitalTwin context of the graph
    * @param node json node
+   * @param graph DigitalTwin graph of the model
    */
-  static isDigitalTwinContext(node: parser.Node): boolean {
-    // @context accept both array and string
-    if (node.type === JsonNodeType.String) {
-      return (node.value as string) === DigitalTwinConstants.CONTEXT_TEMPLATE;
-    } else if (node.type === JsonNodeType.Array && node.children) {
-      for (const child of node.children) {
-        if (child.type === JsonNodeType.String && (child.value as string) === DigitalTwinConstants.CONTEXT_TEMPLATE) {
-          return true;
-        }
-      }
-    }
-    return false;
+  static isDigitalTwinContext(node: parser.Node, graph: DigitalTwinGraph): boolean {
+    return IntelliSenseUtility.getContexts(node).some(c => graph.supportsContext(c));
   }
 
   /**
@@ -214,6 +202,20 @@ export class IntelliSenseUtility {
     return outerProperty ? IntelliSenseUtility.parseProperty(outerProperty) : undefined;
   }
 
-  private static graph: DigitalTwinGraph;
+  /**
+   * get contexts from json node of @context
+   * @param node json node
+   */
+  private static getContexts(node: parser.Node): string[] {
+    // @context accept both array and string
+    if (node.type === JsonNodeType.String) {
+      return [node.value as string];
+    } else if (node.type === JsonNodeType.Array && node.children) {
+      return node.children.filter(c => c.type === JsonNodeType.String).map(c => c.value as string);
+    }
+    return [];
+  }
+
+  private static graphs: DigitalTwinGraph[] = [];
   private constructor() {}
 }
@@ -0,0 +1,240 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { ModelConflictError } from "../common/modelConflictError";
+import { ModelNotFoundError } from "../common/modelNotFoundError";
+import { Utility } from "../common/utility";
+import { DeviceModelManager, ModelType } from "../deviceModel/deviceModelManager";
+import { DigitalTwinConstants } from "../intelliSense/digitalTwinConstants";
+import { DigitalTwinModelBase, GetResult, SearchResult } from "./modelRepositoryInterface";
+import { RepositoryInfo } from "./modelRepositoryManager";
+
+/**
+ * Model file in local repository
+ */
+interface LocalModel {
+  filePath: string;
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  content: any;
+  createdOn: Date;
+  updatedOn: Date;
+}
+
+/**
+ * Model in search result of local repository, display name is shown as text
+ */
+export interface LocalModelBase extends Omit<DigitalTwinModelBase, "displayName"> {
+  displayName?: string;
+}
+
+/**
+ * Result of search in local repository
+ */
+export interface LocalSearchResult extends Omit<SearchResult, "results"> {
+  results: LocalModelBase[];
+}
+
+/**
+ * DigitalTwin model repository client of local folder, e.g. a git clone of model files.
+ * It supports the same operations as http repository.
+ */
+export class LocalModelRepositoryClient {
+  /**
+   * get model from repository
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  static async getModel(repoInfo: RepositoryInfo, modelId: string): Promise<GetResult> {
+    const model: LocalModel = await LocalModelRepositoryClient.findModel(repoInfo, modelId);
+    return {
+      etag: LocalModelRepositoryClient.getEtag(model.content),
+      modelId,
+      content: model.content
+    };
+  }
+
+  /**
+   * search model from repository, continuation token is the index of next result
+   * @param repoInfo repository info
+   * @param type model type
+   * @param keyword keyword
+   * @param pageSize page size
+   * @param continuationToken continuation token
+   */
+  static async searchModel(
+    repoInfo: RepositoryInfo,
+    type: ModelType,
+    keyword: string,
+    pageSize: number,
+    continuationToken: string | null
+  ): Promise<LocalSearchResult> {
+    const models: LocalModel[] = await LocalModelRepositoryClient.loadModels(
+      LocalModelRepositoryClient.getFolder(repoInfo)
+    );
+    const lowerKeyword: string = keyword.toLowerCase();
+    const results: LocalModelBase[] = models
+      .filter(m => DeviceModelManager.convertToModelType(m.content[DigitalTwinConstants.TYPE]) === type)
+      .map(m => LocalModelRepositoryClient.toModelBase(m))
+      .filter(
+        m =>
+          !lowerKeyword ||
+          m.urnId.toLowerCase().includes(lowerKeyword) ||
+          (m.displayName || Constants.EMPTY_STRING).toLowerCase().includes(lowerKeyword) ||
+          (m.description || Constants.EMPTY_STRING).toLowerCase().includes(lowerKeyword)
+      )
+      .sort((a, b) => a.urnId.localeCompare(b.urnId));
+    const start: number = continuationToken ? parseInt(continuationToken, 10) : 0;
+    const end: number = start + pageSize;
+    return {
+      continuationToken: end < results.length ? end.toString() : undefined,
+      results: results.slice(start, end)
+    };
+  }
+
+  /**
+   * update model in repository, create model file if not exist
+   * @param repoInfo repository info
+   * @param modelId model id
+   * @param content content to update
+   * @param etag etag of model to update, throw ModelConflictError if model is changed
+   */
+  static async updateModel(
+    repoInfo: RepositoryInfo,
+    modelId: string,
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    content: any,
+    etag?: string
+  ): Promise<string> {
+    let model: LocalModel | undefined;
+    try {
+      model = await LocalModelRepositoryClient.findModel(repoInfo, modelId);
+    } catch (error) {
+      if (!(error instanceof ModelNotFoundError)) {
+        throw error;
+      }
+    }
+    if (etag && (!model || LocalModelRepositoryClient.getEtag(model.content) !== etag)) {
+      throw new ModelConflictError(modelId);
+    }
+    if (model) {
+      await fs.writeJson(model.filePath, content, { spaces: Constants.JSON_SPACE, encoding: Constants.UTF8 });
+    } else {
+      await Utility.createModelFile(LocalModelRepositoryClient.getFolder(repoInfo), modelId, content);
+    }
+    return LocalModelRepositoryClient.getEtag(content);
+  }
+
+  /**
+   * delete model from repository
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  static async deleteModel(repoInfo: RepositoryInfo, modelId: string): Promise<void> {
+    const model: LocalModel = await LocalModelRepositoryClient.findModel(repoInfo, modelId);
+    await fs.remove(model.filePath);
+  }
+
+  // folders which never contain models
+  private static readonly IGNORED_FOLDERS = new Set<string>([".git", "node_modules"]);
+
+  /**
+   * get folder of local repository
+   * @param repoInfo repository info
+   */
+  private static getFolder(repoInfo: RepositoryInfo): string {
+    if (!repoInfo.localPath) {
+      throw new Error(Constants.LOCAL_REPOSITORY_PATH_NOT_FOUND_MSG);
+    }
+    return repoInfo.localPath;
+  }
+
+  /**
+   * find model file by model id
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  private static async findModel(repoInfo: RepositoryInfo, modelId: string): Promise<LocalModel> {
+    const models: LocalModel[] = await LocalModelRepositoryClient.loadModels(
+      LocalModelRepositoryClient.getFolder(repoInfo)
+    );
+    const model: LocalModel | undefined = models.find(m => m.content[DigitalTwinConstants.ID] === modelId);
+    if (!model) {
+      throw new ModelNotFoundError(modelId);
+    }
+    return model;
+  }
+
+  /**
+   * load model files in folder recursively, skip files which are not DigitalTwin model
+   * @param folder folder
+   */
+  private static async loadModels(folder: string): Promise<LocalModel[]> {
+    const models: LocalModel[] = [];
+    for (const name of await fs.readdir(folder)) {
+      const filePath: string = path.join(folder, name);
+      const stat: fs.Stats = await fs.stat(filePath);
+      if (stat.isDirectory()) {
+        if (!LocalModelRepositoryClient.IGNORED_FOLDERS.has(name)) {
+          models.push(...(await LocalModelRepositoryClient.loadModels(filePath)));
+        }
+        continue;
+      }
+      if (path.extname(name).toLowerCase() !== ".json") {
+        continue;
+      }
+      // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+      let content: any;
+      try {
+        content = await Utility.getJsonContent(filePath);
+      } catch {
+        // skip if file is not a valid json
+        continue;
+      }
+      if (content && typeof content[DigitalTwinConstants.ID] === "string" && content[DigitalTwinConstants.TYPE]) {
+        models.push({ filePath, content, createdOn: stat.birthtime, updatedOn: stat.mtime });
+      }
+    }
+    return models;
+  }
+
+  /**
+   * get etag of model content
+   * @param content model content
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static getEtag(content: any): string {
+    return `"${Utility.hash(JSON.stringify(content))}"`;
+  }
+
+  /**
+   * convert model file to search result, model id is in format of urn:{namespace}:{name}:{version}
+   * @param model model file
+   */
+  private static toModelBase(model: LocalModel): LocalModelBase {
+    const modelId: string = model.content[DigitalTwinConstants.ID];
+    const segments: string[] = modelId.split(":");
+    const version: number = parseInt(segments[segments.length - 1], 10);
+    const displayName = model.content.displayName;
+    return {
+      urnId: modelId,
+      modelName: segments.length > 1 ? segments[segments.length - 2] : modelId,
+      version: isNaN(version) ? 0 : version,
+      type: model.content[DigitalTwinConstants.TYPE],
+      // display name could be localized
+      displayName:
+        typeof displayName === "string" ? displayName : displayName ? Object.values(displayName).join(" / ") : modelId,
+      description: typeof model.content.description === "string" ? model.content.description : undefined,
+      comment: model.content.comment,
+      etag: LocalModelRepositoryClient.getEtag(model.content),
+      publisherId: Constants.EMPTY_STRING,
+      publisherName: Constants.EMPTY_STRING,
+      createdOn: model.createdOn.toISOString(),
+      updatedOn: model.updatedOn.toISOString()
+    };
+  }
+
+  private constructor() {}
+}
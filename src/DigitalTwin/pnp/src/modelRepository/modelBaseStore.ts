@@ -0,0 +1,80 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { Utility } from "../common/utility";
+import { ModelRepositoryCache } from "./modelRepositoryCache";
+import { GetResult } from "./modelRepositoryInterface";
+import { RepositoryInfo } from "./modelRepositoryManager";
+
+/**
+ * Base version of local model file, which is the model last downloaded from or submitted to repository
+ */
+export interface ModelBaseEntry {
+  filePath: string;
+  repository: string;
+  modelId: string;
+  etag: string;
+  content: { [key: string]: string };
+}
+
+/**
+ * On-disk store of base version of model files, keyed by repository and file path.
+ * Etag of base version is used to detect concurrent change of model on submit.
+ */
+export class ModelBaseStore {
+  constructor(private readonly folder: string) {}
+
+  /**
+   * get base version of model file, return undefined if not recorded
+   * @param repoInfo repository info
+   * @param filePath model file path
+   */
+  async get(repoInfo: RepositoryInfo, filePath: string): Promise<ModelBaseEntry | undefined> {
+    const storePath: string = this.getStorePath(repoInfo, filePath);
+    if (!(await fs.pathExists(storePath))) {
+      return undefined;
+    }
+    try {
+      return await fs.readJson(storePath, { encoding: Constants.UTF8 });
+    } catch {
+      // treat broken store file as not recorded
+      return undefined;
+    }
+  }
+
+  /**
+   * record base version of model file, skip if repository returns no etag
+   * @param repoInfo repository info
+   * @param filePath model file path
+   * @param result model downloaded from or submitted to repository
+   */
+  async set(repoInfo: RepositoryInfo, filePath: string, result: GetResult): Promise<void> {
+    if (!result.etag) {
+      return;
+    }
+    const entry: ModelBaseEntry = {
+      filePath: path.resolve(filePath),
+      repository: ModelRepositoryCache.getRepositoryKey(repoInfo),
+      modelId: result.modelId,
+      etag: result.etag,
+      content: result.content
+    };
+    await fs.outputJson(this.getStorePath(repoInfo, filePath), entry, {
+      spaces: Constants.JSON_SPACE,
+      encoding: Constants.UTF8
+    });
+  }
+
+  /**
+   * get store file path of model file
+   * @param repoInfo repository info
+   * @param filePath model file path
+   */
+  private getStorePath(repoInfo: RepositoryInfo, filePath: string): string {
+    const key: string = Utility.hash(`${ModelRepositoryCache.getRepositoryKey(repoInfo)}|${path.resolve(filePath)}`);
+    return path.join(this.folder, `${key}.json`);
+  }
+}
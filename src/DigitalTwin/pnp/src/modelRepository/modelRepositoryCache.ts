@@ -0,0 +1,119 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { Utility } from "../common/utility";
+import { GetResult } from "./modelRepositoryInterface";
+import { RepositoryInfo } from "./modelRepositoryManager";
+
+/**
+ * Cached model of repository
+ */
+export interface ModelCacheEntry {
+  repository: string;
+  modelId: string;
+  etag: string;
+  content: { [key: string]: string };
+  cachedOn: string;
+}
+
+/**
+ * On-disk cache of models fetched from repository, keyed by repository and model id
+ */
+export class ModelRepositoryCache {
+  /**
+   * get cache key of repository
+   * @param repoInfo repository info
+   */
+  static getRepositoryKey(repoInfo: RepositoryInfo): string {
+    return repoInfo.repositoryId ? `${repoInfo.hostname}/${repoInfo.repositoryId}` : repoInfo.hostname;
+  }
+
+  constructor(private readonly folder: string) {}
+
+  /**
+   * get cached model, return undefined if not cached
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  async get(repoInfo: RepositoryInfo, modelId: string): Promise<ModelCacheEntry | undefined> {
+    const filePath: string = this.getFilePath(repoInfo, modelId);
+    if (!(await fs.pathExists(filePath))) {
+      return undefined;
+    }
+    try {
+      return await fs.readJson(filePath, { encoding: Constants.UTF8 });
+    } catch {
+      // treat broken cache file as not cached
+      return undefined;
+    }
+  }
+
+  /**
+   * save model to cache, skip if repository returns no etag to revalidate
+   * @param repoInfo repository info
+   * @param result result of get API
+   */
+  async set(repoInfo: RepositoryInfo, result: GetResult): Promise<void> {
+    if (!result.etag) {
+      return;
+    }
+    const entry: ModelCacheEntry = {
+      repository: ModelRepositoryCache.getRepositoryKey(repoInfo),
+      modelId: result.modelId,
+      etag: result.etag,
+      content: result.content,
+      cachedOn: new Date().toISOString()
+    };
+    await fs.outputJson(this.getFilePath(repoInfo, result.modelId), entry, {
+      spaces: Constants.JSON_SPACE,
+      encoding: Constants.UTF8
+    });
+  }
+
+  /**
+   * delete cached model
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  async delete(repoInfo: RepositoryInfo, modelId: string): Promise<void> {
+    await fs.remove(this.getFilePath(repoInfo, modelId));
+  }
+
+  /**
+   * list cached models
+   */
+  async list(): Promise<ModelCacheEntry[]> {
+    if (!(await fs.pathExists(this.folder))) {
+      return [];
+    }
+    const entries: ModelCacheEntry[] = [];
+    for (const name of await fs.readdir(this.folder)) {
+      try {
+        entries.push(await fs.readJson(path.join(this.folder, name), { encoding: Constants.UTF8 }));
+      } catch {
+        // skip broken cache file
+      }
+    }
+    return entries.sort((a, b) => a.modelId.localeCompare(b.modelId));
+  }
+
+  /**
+   * clear all cached models
+   */
+  async clear(): Promise<void> {
+    await fs.remove(this.folder);
+  }
+
+  /**
+   * get cache file path of model
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  private getFilePath(repoInfo: RepositoryInfo, modelId: string): string {
+    const key: string = Utility.hash(`${ModelRepositoryCache.getRepositoryKey(repoInfo)}|${modelId}`);
+    return path.join(this.folder, `${key}.json`);
+  }
+}
@@ -4,6 +4,7 @@
 import * as request from "request-promise";
 import { Constants } from "../common/constants";
 import { ModelType } from "../deviceModel/deviceModelManager";
+import { LocalModelRepositoryClient, LocalSearchResult } from "./localModelRepositoryClient";
 import { GetResult, MetaModelType, SearchOptions, SearchResult } from "./modelRepositoryInterface";
 import { RepositoryInfo } from "./modelRepositoryManager";
 
@@ -18,7 +19,7 @@ enum HttpMethod {
 }
 
 /**
- * DigitalTwin model repository client
+ * DigitalTwin model repository client, requests to local repository are handled by LocalModelRepositoryClient
  */
 export class ModelRepositoryClient {
   /**
@@ -26,12 +27,19 @@ export class ModelRepositoryClient {
    * @param repoInfo repository info
    * @param modelId model id
    * @param expand identify if expand result
+   * @param etag etag of cached model, request fails with 304 status code if model is not modified
    */
-  static async getModel(repoInfo: RepositoryInfo, modelId: string, expand = false): Promise<GetResult> {
+  static async getModel(repoInfo: RepositoryInfo, modelId: string, expand = false, etag?: string): Promise<GetResult> {
+    if (repoInfo.localPath) {
+      return LocalModelRepositoryClient.getModel(repoInfo, modelId);
+    }
     const options: request.OptionsWithUri = ModelRepositoryClient.createOptions(HttpMethod.Get, repoInfo, modelId);
     if (expand) {
       options.qs.expand = "true";
     }
+    if (etag) {
+      options.headers = { ...options.headers, "If-None-Match": etag };
+    }
     return new Promise<GetResult>((resolve, reject) => {
       request(options)
         .then(response => {
@@ -62,7 +70,10 @@ export class ModelRepositoryClient {
     keyword: string,
     pageSize: number,
     continuationToken: string | null
-  ): Promise<SearchResult> {
+  ): Promise<SearchResult | LocalSearchResult> {
+    if (repoInfo.localPath) {
+      return LocalModelRepositoryClient.searchModel(repoInfo, type, keyword, pageSize, continuationToken);
+    }
     const options: request.OptionsWithUri = ModelRepositoryClient.createOptions(HttpMethod.Post, repoInfo);
     const modelFilterType: MetaModelType = ModelRepositoryClient.convertToMetaModelType(type);
     const payload: SearchOptions = {
@@ -89,15 +100,23 @@ export class ModelRepositoryClient {
    * @param repoInfo repository info
    * @param modelId model id
    * @param content content to update
+   * @param etag etag of model to update, request fails with 412 status code if model is changed
    */
   static async updateModel(
     repoInfo: RepositoryInfo,
     modelId: string,
     // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-    content: any
+    content: any,
+    etag?: string
   ): Promise<string> {
+    if (repoInfo.localPath) {
+      return LocalModelRepositoryClient.updateModel(repoInfo, modelId, content, etag);
+    }
     const options: request.OptionsWithUri = ModelRepositoryClient.createOptions(HttpMethod.Put, repoInfo, modelId);
     options.body = content;
+    if (etag) {
+      options.headers = { ...options.headers, "If-Match": etag };
+    }
     return new Promise<string>((resolve, reject) => {
       request(options)
         .then(response => {
@@ -116,6 +135,9 @@ export class ModelRepositoryClient {
    * @param modelId model id
    */
   static async deleteModel(repoInfo: RepositoryInfo, modelId: string): Promise<void> {
+    if (repoInfo.localPath) {
+      return LocalModelRepositoryClient.deleteModel(repoInfo, modelId);
+    }
     const options: request.OptionsWithUri = ModelRepositoryClient.createOptions(HttpMethod.Delete, repoInfo, modelId);
     return new Promise<void>((resolve, reject) => {
       request(options)
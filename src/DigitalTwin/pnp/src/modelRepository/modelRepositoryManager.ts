@@ -1,6 +1,8 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT license.
 
+import * as fs from "fs-extra";
+import * as path from "path";
 import * as vscode from "vscode";
 import { VSCExpress } from "vscode-express";
 import { BadRequestError } from "../common/badRequestError";
@@ -8,13 +10,18 @@ import { ColorizedChannel } from "../common/colorizedChannel";
 import { Configuration } from "../common/configuration";
 import { Constants } from "../common/constants";
 import { CredentialStore } from "../common/credentialStore";
+import { ModelNotFoundError } from "../common/modelNotFoundError";
 import { ProcessError } from "../common/processError";
 import { UserCancelledError } from "../common/userCancelledError";
 import { Utility } from "../common/utility";
 import { DeviceModelManager, ModelType } from "../deviceModel/deviceModelManager";
+import { ChangeSeverity, ModelChange, ModelComparer } from "../deviceModel/modelComparer";
 import { DigitalTwinConstants } from "../intelliSense/digitalTwinConstants";
 import { ChoiceType, MessageType, UI } from "../view/ui";
 import { UIConstants } from "../view/uiConstants";
+import { ModelBaseEntry, ModelBaseStore } from "./modelBaseStore";
+import { LocalSearchResult } from "./localModelRepositoryClient";
+import { ModelCacheEntry, ModelRepositoryCache } from "./modelRepositoryCache";
 import { ModelRepositoryClient } from "./modelRepositoryClient";
 import { ModelRepositoryConnection } from "./modelRepositoryConnection";
 import { GetResult, SearchResult } from "./modelRepositoryInterface";
@@ -25,17 +32,19 @@ import { TelemetryContext } from "../../../../telemetry";
  */
 export enum RepositoryType {
   Public = "Public repository",
-  Company = "Company repository"
+  Company = "Company repository",
+  Local = "Local repository"
 }
 
 /**
- * Repository info
+ * Repository info, local repository is identified by local path
  */
 export interface RepositoryInfo {
   hostname: string;
   apiVersion: string;
   repositoryId?: string;
   accessToken?: string;
+  localPath?: string;
 }
 
 /**
@@ -58,44 +67,95 @@ interface SubmitOptions {
  * Model repository manager
  */
 export class ModelRepositoryManager {
+  /**
+   * convert to repository type, web view identifies public and company repository by boolean
+   * @param repository repository type, or identify if it is public repository
+   */
+  private static toRepositoryType(repository: boolean | RepositoryType): RepositoryType {
+    if (typeof repository === "boolean") {
+      return repository ? RepositoryType.Public : RepositoryType.Company;
+    }
+    return repository;
+  }
+
   /**
    * create repository info
-   * @param publicRepository identify if it is public repository
+   * @param type repository type
    */
-  private static async createRepositoryInfo(publicRepository: boolean): Promise<RepositoryInfo> {
-    if (publicRepository) {
-      // get public repository connection from configuration
-      const url: string | undefined = Configuration.getProperty<string>(Constants.PUBLIC_REPOSITORY_URL);
-      if (!url) {
-        throw new Error(Constants.PUBLIC_REPOSITORY_URL_NOT_FOUND_MSG);
+  private static async createRepositoryInfo(type: RepositoryType): Promise<RepositoryInfo> {
+    switch (type) {
+      case RepositoryType.Public: {
+        // get public repository connection from configuration
+        const url: string | undefined = Configuration.getProperty<string>(Constants.PUBLIC_REPOSITORY_URL);
+        if (!url) {
+          throw new Error(Constants.PUBLIC_REPOSITORY_URL_NOT_FOUND_MSG);
+        }
+        return {
+          hostname: Utility.enforceHttps(url),
+          apiVersion: Constants.MODEL_REPOSITORY_API_VERSION
+        };
       }
-      return {
-        hostname: Utility.enforceHttps(url),
-        apiVersion: Constants.MODEL_REPOSITORY_API_VERSION
-      };
-    } else {
-      // get company repository connection from credential store
-      const connectionString: string | null = await CredentialStore.get(Constants.MODEL_REPOSITORY_CONNECTION_KEY);
-      if (!connectionString) {
-        throw new Error(Constants.CONNECTION_STRING_NOT_FOUND_MSG);
+      case RepositoryType.Local: {
+        // get local repository folder from configuration
+        const localPath: string | undefined = Configuration.getProperty<string>(Constants.LOCAL_REPOSITORY_PATH);
+        if (!localPath) {
+          throw new Error(Constants.LOCAL_REPOSITORY_PATH_NOT_FOUND_MSG);
+        }
+        return ModelRepositoryManager.getLocalRepositoryInfo(localPath);
+      }
+      default: {
+        // get company repository connection from credential store
+        const connectionString: string | null = await CredentialStore.get(Constants.MODEL_REPOSITORY_CONNECTION_KEY);
+        if (!connectionString) {
+          throw new Error(Constants.CONNECTION_STRING_NOT_FOUND_MSG);
+        }
+        return ModelRepositoryManager.getCompanyRepositoryInfo(connectionString);
       }
-      return ModelRepositoryManager.getCompanyRepositoryInfo(connectionString);
     }
   }
 
   /**
-   * get available repository info, company repository is prior to public repository
+   * get available repository info, local repository is prior to company repository,
+   * and company repository is prior to public repository
    */
   private static async getAvailableRepositoryInfo(): Promise<RepositoryInfo[]> {
     const repoInfos: RepositoryInfo[] = [];
+    const localPath: string | undefined = Configuration.getProperty<string>(Constants.LOCAL_REPOSITORY_PATH);
+    if (localPath) {
+      repoInfos.push(ModelRepositoryManager.getLocalRepositoryInfo(localPath));
+    }
     const connectionString: string | null = await CredentialStore.get(Constants.MODEL_REPOSITORY_CONNECTION_KEY);
     if (connectionString) {
       repoInfos.push(ModelRepositoryManager.getCompanyRepositoryInfo(connectionString));
     }
-    repoInfos.push(await ModelRepositoryManager.createRepositoryInfo(true));
+    repoInfos.push(await ModelRepositoryManager.createRepositoryInfo(RepositoryType.Public));
     return repoInfos;
   }
 
+  /**
+   * set up local model repository folder
+   */
+  private static async setupLocalRepository(): Promise<void> {
+    const localPath: string | undefined = Configuration.getProperty<string>(Constants.LOCAL_REPOSITORY_PATH);
+    if (localPath && (await fs.pathExists(localPath))) {
+      return;
+    }
+    const folder: string = await UI.showOpenDialog(UIConstants.SELECT_LOCAL_REPOSITORY_FOLDER_LABEL);
+    await Configuration.setGlobalProperty(Constants.LOCAL_REPOSITORY_PATH, folder);
+  }
+
+  /**
+   * get local repository info
+   * @param localPath folder of local repository
+   */
+  private static getLocalRepositoryInfo(localPath: string): RepositoryInfo {
+    return {
+      hostname: localPath,
+      apiVersion: Constants.EMPTY_STRING,
+      localPath
+    };
+  }
+
   /**
    * set up company model repository connection
    */
@@ -140,23 +200,35 @@ export class ModelRepositoryManager {
 
   private readonly express: VSCExpress;
   private readonly component: string;
+  private readonly cache: ModelRepositoryCache;
+  private readonly baseStore: ModelBaseStore;
   constructor(context: vscode.ExtensionContext, filePath: string, private readonly outputChannel: ColorizedChannel) {
     this.express = new VSCExpress(context, filePath);
     this.component = Constants.MODEL_REPOSITORY_COMPONENT;
+    this.cache = new ModelRepositoryCache(path.join(context.globalStoragePath, Constants.MODEL_CACHE_FOLDER));
+    this.baseStore = new ModelBaseStore(path.join(context.globalStoragePath, Constants.MODEL_BASE_FOLDER));
   }
 
   /**
    * sign in model repository
    */
   async signIn(): Promise<void> {
-    const items: vscode.QuickPickItem[] = [{ label: RepositoryType.Public }, { label: RepositoryType.Company }];
+    const items: vscode.QuickPickItem[] = [
+      { label: RepositoryType.Public },
+      { label: RepositoryType.Company },
+      { label: RepositoryType.Local }
+    ];
     const selected: vscode.QuickPickItem = await UI.showQuickPick(UIConstants.SELECT_REPOSITORY_LABEL, items);
     const operation = `Connect to ${selected.label}`;
     this.outputChannel.start(operation, this.component);
 
-    if (selected.label === RepositoryType.Company) {
+    if (selected.label !== RepositoryType.Public) {
       try {
-        await ModelRepositoryManager.setupConnection();
+        if (selected.label === RepositoryType.Company) {
+          await ModelRepositoryManager.setupConnection();
+        } else {
+          await ModelRepositoryManager.setupLocalRepository();
+        }
       } catch (error) {
         if (error instanceof UserCancelledError) {
           throw error;
@@ -167,8 +239,17 @@ export class ModelRepositoryManager {
     }
 
     // open web view
-    const uri: string =
-      selected.label === RepositoryType.Company ? Constants.COMPANY_REPOSITORY_PAGE : Constants.PUBLIC_REPOSITORY_PAGE;
+    let uri: string;
+    switch (selected.label) {
+      case RepositoryType.Company:
+        uri = Constants.COMPANY_REPOSITORY_PAGE;
+        break;
+      case RepositoryType.Local:
+        uri = Constants.LOCAL_REPOSITORY_PAGE;
+        break;
+      default:
+        uri = Constants.PUBLIC_REPOSITORY_PAGE;
+    }
     this.express.open(uri, UIConstants.MODEL_REPOSITORY_TITLE, vscode.ViewColumn.Two, {
       retainContextWhenHidden: true,
       enableScripts: true
@@ -205,21 +286,30 @@ export class ModelRepositoryManager {
     }
     // check unsaved files and save
     await UI.ensureFilesSaved(UIConstants.SAVE_FILE_CHANGE_LABEL, files);
-    try {
-      await ModelRepositoryManager.setupConnection();
-    } catch (error) {
-      if (error instanceof UserCancelledError) {
-        throw error;
-      } else {
-        throw new ProcessError(`Connect to ${RepositoryType.Company}`, error, this.component);
+    // submit to local repository if it is selected, otherwise company repository
+    let type: RepositoryType = RepositoryType.Company;
+    if (Configuration.getProperty<string>(Constants.LOCAL_REPOSITORY_PATH)) {
+      const items: vscode.QuickPickItem[] = [{ label: RepositoryType.Company }, { label: RepositoryType.Local }];
+      const selected: vscode.QuickPickItem = await UI.showQuickPick(UIConstants.SELECT_REPOSITORY_LABEL, items);
+      type = selected.label as RepositoryType;
+    }
+    if (type === RepositoryType.Company) {
+      try {
+        await ModelRepositoryManager.setupConnection();
+      } catch (error) {
+        if (error instanceof UserCancelledError) {
+          throw error;
+        } else {
+          throw new ProcessError(`Connect to ${RepositoryType.Company}`, error, this.component);
+        }
       }
     }
 
     try {
-      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(false);
+      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(type);
       await this.doSubmitLoopSilently(repoInfo, files, telemetryContext);
     } catch (error) {
-      const operation = `Submit models to ${RepositoryType.Company}`;
+      const operation = `Submit models to ${type}`;
       throw new ProcessError(operation, error, this.component);
     }
   }
@@ -227,34 +317,33 @@ export class ModelRepositoryManager {
   /**
    * search model from repository
    * @param type model type
-   * @param publicRepository identify if it is public repository
+   * @param repository repository type, or identify if it is public repository
    * @param keyword keyword
    * @param pageSize page size
    * @param continuationToken continuation token
    */
   async searchModel(
     type: ModelType,
-    publicRepository: boolean,
+    repository: boolean | RepositoryType,
     keyword: string = Constants.EMPTY_STRING,
     pageSize: number = Constants.DEFAULT_PAGE_SIZE,
     continuationToken: string | null = null
-  ): Promise<SearchResult> {
+  ): Promise<SearchResult | LocalSearchResult> {
     if (pageSize <= 0) {
       throw new BadRequestError("pageSize should be greater than 0");
     }
 
     // only show output when keyword is defined
     const showOutput: boolean = keyword ? true : false;
-    const operation = `Search ${type} by keyword "${keyword}" from ${
-      publicRepository ? RepositoryType.Public : RepositoryType.Company
-    }`;
+    const repositoryType: RepositoryType = ModelRepositoryManager.toRepositoryType(repository);
+    const operation = `Search ${type} by keyword "${keyword}" from ${repositoryType}`;
     if (showOutput) {
       this.outputChannel.start(operation, this.component);
     }
 
-    let result: SearchResult;
+    let result: SearchResult | LocalSearchResult;
     try {
-      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(publicRepository);
+      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(repositoryType);
       result = await ModelRepositoryClient.searchModel(repoInfo, type, keyword, pageSize, continuationToken);
     } catch (error) {
       throw new ProcessError(operation, error, this.component);
@@ -268,39 +357,41 @@ export class ModelRepositoryManager {
 
   /**
    * delete models from repository
-   * @param publicRepository identify if it is public repository
+   * @param repository repository type, or identify if it is public repository
    * @param modelIds model id list
    */
-  async deleteModels(publicRepository: boolean, modelIds: string[]): Promise<void> {
-    if (publicRepository) {
+  async deleteModels(repository: boolean | RepositoryType, modelIds: string[]): Promise<void> {
+    const repositoryType: RepositoryType = ModelRepositoryManager.toRepositoryType(repository);
+    if (repositoryType === RepositoryType.Public) {
       throw new BadRequestError(`${RepositoryType.Public} not support delete operation`);
     }
     ModelRepositoryManager.validateModelIds(modelIds);
 
     try {
-      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(publicRepository);
+      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(repositoryType);
       await this.doDeleteLoopSilently(repoInfo, modelIds);
     } catch (error) {
-      const operation = `Delete models from ${RepositoryType.Company}`;
+      const operation = `Delete models from ${repositoryType}`;
       throw new ProcessError(operation, error, this.component);
     }
   }
 
   /**
    * download models from repository
-   * @param publicRepository identify if it is public repository
+   * @param repository repository type, or identify if it is public repository
    * @param modelIds model id list
    */
-  async downloadModels(publicRepository: boolean, modelIds: string[]): Promise<void> {
+  async downloadModels(repository: boolean | RepositoryType, modelIds: string[]): Promise<void> {
     ModelRepositoryManager.validateModelIds(modelIds);
+    const repositoryType: RepositoryType = ModelRepositoryManager.toRepositoryType(repository);
 
     const folder: string = await UI.selectRootFolder(UIConstants.SELECT_ROOT_FOLDER_LABEL);
 
     try {
-      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(publicRepository);
+      const repoInfo: RepositoryInfo = await ModelRepositoryManager.createRepositoryInfo(repositoryType);
       await this.doDownloadLoopSilently([repoInfo], modelIds, folder);
     } catch (error) {
-      const operation = `Download models from ${publicRepository ? RepositoryType.Public : RepositoryType.Company}`;
+      const operation = `Download models from ${repositoryType}`;
       throw new ProcessError(operation, error, this.component);
     }
   }
@@ -345,6 +436,169 @@ export class ModelRepositoryManager {
     }
   }
 
+  /**
+   * check if model exists in available repository, in order of local, company and public repository
+   * @param modelId model id
+   */
+  async modelExists(modelId: string): Promise<boolean> {
+    return (await this.findModel(modelId)) !== undefined;
+  }
+
+  /**
+   * compare local interface with its old version, which is either in model repository or another file,
+   * and show report of compatible and breaking changes
+   */
+  async compareInterfaces(): Promise<void> {
+    const filePath: string = await UI.selectOneModelFile(UIConstants.SELECT_INTERFACE_LABEL, ModelType.Interface);
+    if (!filePath) {
+      return;
+    }
+    const items: vscode.QuickPickItem[] = [
+      { label: UIConstants.COMPARE_WITH_REPOSITORY_LABEL },
+      { label: UIConstants.COMPARE_WITH_FILE_LABEL }
+    ];
+    const selected: vscode.QuickPickItem = await UI.showQuickPick(UIConstants.SELECT_COMPARE_TARGET_LABEL, items);
+    const newModel = await Utility.getJsonContent(filePath);
+    const newId: string = newModel[DigitalTwinConstants.ID];
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    let oldModel: any;
+    if (selected.label === UIConstants.COMPARE_WITH_FILE_LABEL) {
+      const oldFilePath: string = await UI.selectOneModelFile(
+        UIConstants.SELECT_OLD_INTERFACE_LABEL,
+        ModelType.Interface
+      );
+      if (!oldFilePath) {
+        return;
+      }
+      oldModel = await Utility.getJsonContent(oldFilePath);
+    } else {
+      let result: GetResult | undefined;
+      try {
+        result = await this.findModel(newId);
+      } catch (error) {
+        throw new ProcessError(`Get model ${newId} from repository`, error, this.component);
+      }
+      if (!result) {
+        throw new ModelNotFoundError(newId);
+      }
+      oldModel = result.content;
+    }
+
+    const oldId: string = oldModel[DigitalTwinConstants.ID];
+    const changes: ModelChange[] = ModelComparer.compare(oldModel, newModel);
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument({
+      language: "markdown",
+      content: ModelComparer.formatReport(oldId, newId, changes)
+    });
+    await vscode.window.showTextDocument(document);
+  }
+
+  /**
+   * show cached models of repository, open the selected one
+   */
+  async showCache(): Promise<void> {
+    const entries: ModelCacheEntry[] = await this.cache.list();
+    if (entries.length === 0) {
+      UI.showNotification(MessageType.Info, UIConstants.MODEL_CACHE_EMPTY_MSG);
+      return;
+    }
+    const items: Array<vscode.QuickPickItem & { entry: ModelCacheEntry }> = entries.map(entry => {
+      return {
+        label: entry.modelId,
+        description: entry.repository,
+        detail: `Cached on ${entry.cachedOn}, etag ${entry.etag}`,
+        entry
+      };
+    });
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: UIConstants.SELECT_CACHED_MODEL_LABEL,
+      ignoreFocusOut: true,
+      matchOnDescription: true
+    });
+    if (!selected) {
+      return;
+    }
+    const document: vscode.TextDocument = await vscode.workspace.openTextDocument({
+      language: "json",
+      content: JSON.stringify(selected.entry.content, null, Constants.JSON_SPACE)
+    });
+    await vscode.window.showTextDocument(document);
+  }
+
+  /**
+   * clear cached models of repository
+   */
+  async clearCache(): Promise<void> {
+    const choice: string | undefined = await vscode.window.showWarningMessage(
+      UIConstants.ASK_TO_CLEAR_CACHE_MSG,
+      ChoiceType.Yes,
+      ChoiceType.No
+    );
+    if (choice !== ChoiceType.Yes) {
+      return;
+    }
+    const operation = "Clear model repository cache";
+    this.outputChannel.start(operation, this.component);
+    await this.cache.clear();
+    UI.showNotification(MessageType.Info, ColorizedChannel.formatMessage(operation));
+    this.outputChannel.end(operation, this.component);
+  }
+
+  /**
+   * find model in available repository, return undefined if not found
+   * @param modelId model id
+   */
+  private async findModel(modelId: string): Promise<GetResult | undefined> {
+    const repoInfos: RepositoryInfo[] = await ModelRepositoryManager.getAvailableRepositoryInfo();
+    for (const repoInfo of repoInfos) {
+      try {
+        return await this.fetchModel(repoInfo, modelId);
+      } catch (error) {
+        if (error.statusCode !== Constants.NOT_FOUND_CODE) {
+          throw error;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * get model from repository with cache, revalidate cached model by etag,
+   * and use cached model when repository is not reachable
+   * @param repoInfo repository info
+   * @param modelId model id
+   */
+  private async fetchModel(repoInfo: RepositoryInfo, modelId: string): Promise<GetResult> {
+    // local repository is as fast as cache
+    if (repoInfo.localPath) {
+      return ModelRepositoryClient.getModel(repoInfo, modelId, true);
+    }
+    const cached: ModelCacheEntry | undefined = await this.cache.get(repoInfo, modelId);
+    try {
+      const result: GetResult = await ModelRepositoryClient.getModel(
+        repoInfo,
+        modelId,
+        true,
+        cached ? cached.etag : undefined
+      );
+      await this.cache.set(repoInfo, result);
+      return result;
+    } catch (error) {
+      if (cached && error.statusCode === Constants.NOT_MODIFIED_CODE) {
+        return { etag: cached.etag, modelId: cached.modelId, content: cached.content };
+      }
+      // no status code means repository is not reachable
+      if (cached && !error.statusCode) {
+        this.outputChannel.warn(`Use cached model ${modelId} since ${repoInfo.hostname} is not reachable`);
+        return { etag: cached.etag, modelId: cached.modelId, content: cached.content };
+      }
+      if (error.statusCode === Constants.NOT_FOUND_CODE) {
+        await this.cache.delete(repoInfo, modelId);
+      }
+      throw error;
+    }
+  }
+
   /**
    * download models silently, fault tolerant and don't throw exception
    * @param repoInfos repository info list
@@ -373,9 +627,11 @@ export class ModelRepositoryManager {
    */
   private async doDownloadModel(repoInfos: RepositoryInfo[], modelId: string, folder: string): Promise<boolean> {
     let result: GetResult | undefined;
+    let source: RepositoryInfo | undefined;
     for (const repoInfo of repoInfos) {
       try {
-        result = await ModelRepositoryClient.getModel(repoInfo, modelId, true);
+        result = await this.fetchModel(repoInfo, modelId);
+        source = repoInfo;
         break;
       } catch (error) {
         if (error.statusCode === Constants.NOT_FOUND_CODE) {
@@ -387,8 +643,10 @@ export class ModelRepositoryManager {
         }
       }
     }
-    if (result) {
-      await Utility.createModelFile(folder, result.modelId, result.content);
+    if (result && source) {
+      const filePath: string = await Utility.createModelFile(folder, result.modelId, result.content);
+      // record etag of downloaded model to detect concurrent change on submit
+      await this.baseStore.set(source, filePath, result);
       return true;
     }
     return false;
@@ -406,6 +664,7 @@ export class ModelRepositoryManager {
 
       try {
         await ModelRepositoryClient.deleteModel(repoInfo, modelId);
+        await this.cache.delete(repoInfo, modelId);
         this.outputChannel.end(operation, this.component);
       } catch (error) {
         this.outputChannel.error(operation, this.component, error);
@@ -457,6 +716,10 @@ export class ModelRepositoryManager {
     const content = await Utility.getJsonContent(filePath);
     const modelId: string = content[DigitalTwinConstants.ID];
     const modelType: ModelType = DeviceModelManager.convertToModelType(content[DigitalTwinConstants.TYPE]);
+    let base: ModelBaseEntry | undefined = await this.baseStore.get(repoInfo, filePath);
+    if (base && base.modelId !== modelId) {
+      base = undefined;
+    }
     let result: GetResult | undefined;
     try {
       result = await ModelRepositoryClient.getModel(repoInfo, modelId, true);
@@ -466,8 +729,17 @@ export class ModelRepositoryManager {
         throw error;
       }
     }
-    // ask user to overwrite
-    if (result) {
+    if (result && modelType === ModelType.Interface) {
+      this.checkBreakingChanges(result.content, content);
+    }
+    if (result && base) {
+      // ask user to resolve conflict if model is changed since downloaded, no matter overwrite all or not
+      if (result.etag !== base.etag && !(await this.resolveConflict(filePath, base, result))) {
+        this.outputChannel.warn(`Skip overwrite model ${modelId}`);
+        return;
+      }
+    } else if (result) {
+      // ask user to overwrite
       if (!option.overwrite) {
         const message = `Model ${modelId} already exist, ${UIConstants.ASK_TO_OVERWRITE_MSG}`;
         const choice: string | undefined = await vscode.window.showWarningMessage(
@@ -484,7 +756,23 @@ export class ModelRepositoryManager {
         }
       }
     }
-    await ModelRepositoryClient.updateModel(repoInfo, modelId, content);
+    let etag: string;
+    try {
+      etag = await ModelRepositoryClient.updateModel(repoInfo, modelId, content, result ? result.etag : undefined);
+    } catch (error) {
+      if (error.statusCode !== Constants.PRECONDITION_FAILED_CODE) {
+        throw error;
+      }
+      // model is changed by others between get and update
+      const latest: GetResult = await ModelRepositoryClient.getModel(repoInfo, modelId, true);
+      if (!(await this.resolveConflict(filePath, base, latest))) {
+        this.outputChannel.warn(`Skip overwrite model ${modelId}`);
+        return;
+      }
+      etag = await ModelRepositoryClient.updateModel(repoInfo, modelId, content, latest.etag);
+    }
+    await this.cache.delete(repoInfo, modelId);
+    await this.baseStore.set(repoInfo, filePath, { etag, modelId, content });
 
     // record submitted model id
     let modelIds: string[] | undefined = usageData.get(modelType);
@@ -495,6 +783,75 @@ export class ModelRepositoryManager {
     modelIds.push(modelId);
   }
 
+  /**
+   * check breaking changes against interface in repository, throw error if it is configured to block them
+   * @param oldModel interface in repository
+   * @param newModel interface to submit
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private checkBreakingChanges(oldModel: any, newModel: any): void {
+    const modelId: string = newModel[DigitalTwinConstants.ID];
+    const breakingChanges: ModelChange[] = ModelComparer.compare(oldModel, newModel).filter(
+      c => c.severity === ChangeSeverity.Breaking
+    );
+    if (breakingChanges.length === 0) {
+      return;
+    }
+    if (Configuration.getProperty<boolean>(Constants.BLOCK_BREAKING_CHANGES)) {
+      const details: string = breakingChanges.map(c => `${c.target} ${c.message}`).join("; ");
+      throw new BadRequestError(`breaking changes of ${modelId} need a new version of interface id: ${details}`);
+    }
+    for (const change of breakingChanges) {
+      this.outputChannel.warn(`Breaking change of ${modelId}: ${change.target} ${change.message}`);
+    }
+  }
+
+  /**
+   * show three-way diff of local, base and remote model, then ask user to overwrite remote model.
+   * Diff of remote and local model is shown when base is unknown.
+   * @param filePath local model file path
+   * @param base base version of model
+   * @param remote remote model
+   */
+  private async resolveConflict(
+    filePath: string,
+    base: ModelBaseEntry | undefined,
+    remote: GetResult
+  ): Promise<boolean> {
+    const local: vscode.Uri = vscode.Uri.file(filePath);
+    const remoteDocument: vscode.TextDocument = await vscode.workspace.openTextDocument({
+      language: "json",
+      content: JSON.stringify(remote.content, null, Constants.JSON_SPACE)
+    });
+    if (base) {
+      const baseDocument: vscode.TextDocument = await vscode.workspace.openTextDocument({
+        language: "json",
+        content: JSON.stringify(base.content, null, Constants.JSON_SPACE)
+      });
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        baseDocument.uri,
+        remoteDocument.uri,
+        `${remote.modelId} (base ↔ remote)`,
+        { preview: false }
+      );
+      await vscode.commands.executeCommand("vscode.diff", baseDocument.uri, local, `${remote.modelId} (base ↔ local)`, {
+        preview: false
+      });
+    } else {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        remoteDocument.uri,
+        local,
+        `${remote.modelId} (remote ↔ local)`
+      );
+    }
+    const message = `Model ${remote.modelId} ${UIConstants.MODEL_CHANGED_IN_REPOSITORY_MSG}, \
+${UIConstants.ASK_TO_OVERWRITE_MSG}`;
+    const choice: string | undefined = await vscode.window.showWarningMessage(message, ChoiceType.Yes, ChoiceType.No);
+    return choice === ChoiceType.Yes;
+  }
+
   /**
    * set telemetry context of submit files
    * @param telemetryContext telemetry context
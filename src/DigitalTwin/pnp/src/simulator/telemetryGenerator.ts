@@ -0,0 +1,273 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { BadRequestError } from "../common/badRequestError";
+import { Constants } from "../common/constants";
+import { DigitalTwinConstants } from "../intelliSense/digitalTwinConstants";
+
+/**
+ * Primitive schema of DigitalTwin model
+ */
+export enum PrimitiveSchema {
+  Boolean = "boolean",
+  Date = "date",
+  DateTime = "dateTime",
+  Double = "double",
+  Duration = "duration",
+  Float = "float",
+  Integer = "integer",
+  Long = "long",
+  String = "string",
+  Time = "time"
+}
+
+/**
+ * Result of simulated command
+ */
+export interface CommandResult {
+  status: number;
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  payload?: any;
+}
+
+/**
+ * Value generator of DigitalTwin interface. Numeric value changes gradually between calls
+ * within the range of its unit, so the telemetry looks like a real sensor.
+ */
+export class TelemetryGenerator {
+  /**
+   * get value range of unit, use percent range for unknown unit
+   * @param unit unit of telemetry
+   */
+  static getRange(unit: string | undefined): [number, number] {
+    return (unit && TelemetryGenerator.UNIT_RANGES.get(unit)) || TelemetryGenerator.DEFAULT_RANGE;
+  }
+
+  private static readonly SCHEMAS = "schemas";
+  private static readonly TELEMETRY = "Telemetry";
+  private static readonly COMMAND = "Command";
+  private static readonly ENUM = "Enum";
+  private static readonly OBJECT = "Object";
+  private static readonly MAP = "Map";
+  private static readonly ARRAY = "Array";
+  private static readonly DEFAULT_RANGE: [number, number] = [0, 100];
+  private static readonly UNIT_RANGES = new Map<string, [number, number]>([
+    ["Units/Temperature/celsius", [15, 35]],
+    ["Units/Temperature/fahrenheit", [59, 95]],
+    ["Units/Humidity/percent", [20, 80]],
+    ["Units/Humidity/gramsPerVolume", [5, 20]],
+    ["Units/Pressure/kiloPascal", [95, 105]],
+    ["Units/Pressure/inchesOfMercury", [28, 31]],
+    ["Units/Pressure/inchesOfWater", [380, 420]],
+    ["Units/Pressure/poundsPerSquareInch", [13.8, 15.2]]
+  ]);
+  // max change between two values in ratio of range
+  private static readonly STEP_RATIO = 0.1;
+  private static readonly COLLECTION_SIZE = 2;
+
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private readonly schemas = new Map<string, any>();
+  private readonly lastValues = new Map<string, number>();
+  constructor(
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    private readonly interfaceContent: any,
+    private readonly random: () => number = Math.random
+  ) {
+    const schemas = interfaceContent[TelemetryGenerator.SCHEMAS];
+    if (Array.isArray(schemas)) {
+      for (const schema of schemas) {
+        if (schema && typeof schema[DigitalTwinConstants.ID] === "string") {
+          this.schemas.set(schema[DigitalTwinConstants.ID], schema);
+        }
+      }
+    }
+  }
+
+  /**
+   * get names of commands in interface
+   */
+  getCommandNames(): string[] {
+    return this.getContents(TelemetryGenerator.COMMAND).map(c => c[DigitalTwinConstants.NAME]);
+  }
+
+  /**
+   * generate values of all telemetry in interface, key is telemetry name
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  generateTelemetry(): { [name: string]: any } {
+    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+    const values: { [name: string]: any } = {};
+    for (const telemetry of this.getContents(TelemetryGenerator.TELEMETRY)) {
+      const name: string = telemetry[DigitalTwinConstants.NAME];
+      values[name] = this.generate(telemetry[DigitalTwinConstants.SCHEMA], name, telemetry.unit);
+    }
+    return values;
+  }
+
+  /**
+   * generate request payload of command, return undefined if command has no request
+   * @param commandName command name
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  generateRequest(commandName: string): any {
+    const command = this.getContents(TelemetryGenerator.COMMAND).find(
+      c => c[DigitalTwinConstants.NAME] === commandName
+    );
+    if (!command || !command.request) {
+      return undefined;
+    }
+    return this.generate(command.request[DigitalTwinConstants.SCHEMA], `${commandName}.request`);
+  }
+
+  /**
+   * answer command with response of its schema
+   * @param commandName command name
+   */
+  invokeCommand(commandName: string): CommandResult {
+    const command = this.getContents(TelemetryGenerator.COMMAND).find(
+      c => c[DigitalTwinConstants.NAME] === commandName
+    );
+    if (!command) {
+      return { status: Constants.NOT_FOUND_CODE };
+    }
+    if (!command.response) {
+      return { status: Constants.OK_CODE };
+    }
+    return {
+      status: Constants.OK_CODE,
+      payload: this.generate(command.response[DigitalTwinConstants.SCHEMA], `${commandName}.response`)
+    };
+  }
+
+  /**
+   * generate value of schema
+   * @param schema primitive schema, schema id or complex schema
+   * @param key key to track last value
+   * @param unit unit of value
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  generate(schema: any, key: string, unit?: string): any {
+    if (typeof schema === "string") {
+      const defined = this.schemas.get(schema);
+      return defined ? this.generate(defined, key, unit) : this.generatePrimitive(schema, key, unit);
+    }
+    if (!schema || typeof schema !== "object") {
+      throw new BadRequestError(`schema of ${key} is invalid`);
+    }
+    switch (schema[DigitalTwinConstants.TYPE]) {
+      case TelemetryGenerator.ENUM: {
+        const enumValues = Array.isArray(schema.enumValues) ? schema.enumValues : [];
+        if (enumValues.length === 0) {
+          throw new BadRequestError(`enum of ${key} has no value`);
+        }
+        return enumValues[this.randomIndex(enumValues.length)].enumValue;
+      }
+      case TelemetryGenerator.OBJECT: {
+        // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+        const value: { [name: string]: any } = {};
+        for (const field of Array.isArray(schema.fields) ? schema.fields : []) {
+          const name: string = field[DigitalTwinConstants.NAME];
+          value[name] = this.generate(field[DigitalTwinConstants.SCHEMA], `${key}.${name}`, unit);
+        }
+        return value;
+      }
+      case TelemetryGenerator.MAP: {
+        // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+        const value: { [name: string]: any } = {};
+        const keyName: string = (schema.mapKey && schema.mapKey[DigitalTwinConstants.NAME]) || "key";
+        const mapValue = schema.mapValue || {};
+        for (let i = 1; i <= TelemetryGenerator.COLLECTION_SIZE; i++) {
+          value[`${keyName}${i}`] = this.generate(mapValue[DigitalTwinConstants.SCHEMA], `${key}.${keyName}${i}`, unit);
+        }
+        return value;
+      }
+      case TelemetryGenerator.ARRAY: {
+        // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+        const value: any[] = [];
+        for (let i = 0; i < TelemetryGenerator.COLLECTION_SIZE; i++) {
+          value.push(this.generate(schema.elementSchema, `${key}[${i}]`, unit));
+        }
+        return value;
+      }
+      default:
+        throw new BadRequestError(`schema type ${schema[DigitalTwinConstants.TYPE]} of ${key} is not supported`);
+    }
+  }
+
+  /**
+   * get contents of type, type could be semantic type array
+   * @param type content type
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private getContents(type: string): any[] {
+    const contents = this.interfaceContent[DigitalTwinConstants.CONTENTS];
+    if (!Array.isArray(contents)) {
+      return [];
+    }
+    return contents.filter(c => {
+      if (!c || typeof c[DigitalTwinConstants.NAME] !== "string") {
+        return false;
+      }
+      const types = c[DigitalTwinConstants.TYPE];
+      return Array.isArray(types) ? types.includes(type) : types === type;
+    });
+  }
+
+  /**
+   * generate value of primitive schema
+   * @param schema primitive schema
+   * @param key key to track last value
+   * @param unit unit of value
+   */
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private generatePrimitive(schema: string, key: string, unit?: string): any {
+    const now = new Date();
+    switch (schema) {
+      case PrimitiveSchema.Boolean:
+        return this.random() < 0.5;
+      case PrimitiveSchema.Integer:
+      case PrimitiveSchema.Long:
+        return Math.round(this.generateNumber(key, unit));
+      case PrimitiveSchema.Double:
+      case PrimitiveSchema.Float:
+        return Math.round(this.generateNumber(key, unit) * 100) / 100;
+      case PrimitiveSchema.String:
+        return `${key}-${this.randomIndex(1000)}`;
+      case PrimitiveSchema.Date:
+        return now.toISOString().substr(0, 10);
+      case PrimitiveSchema.DateTime:
+        return now.toISOString();
+      case PrimitiveSchema.Time:
+        return now.toISOString().substr(11, 8);
+      case PrimitiveSchema.Duration:
+        return `PT${this.randomIndex(60) + 1}S`;
+      default:
+        throw new BadRequestError(`schema ${schema} of ${key} is not supported`);
+    }
+  }
+
+  /**
+   * generate number in range of unit, which is close to the last value of the same key
+   * @param key key to track last value
+   * @param unit unit of value
+   */
+  private generateNumber(key: string, unit?: string): number {
+    const [min, max] = TelemetryGenerator.getRange(unit);
+    const span: number = max - min;
+    const last: number | undefined = this.lastValues.get(key);
+    const value: number =
+      last === undefined
+        ? min + this.random() * span
+        : Math.min(max, Math.max(min, last + (this.random() - 0.5) * 2 * span * TelemetryGenerator.STEP_RATIO));
+    this.lastValues.set(key, value);
+    return value;
+  }
+
+  /**
+   * get random index of collection
+   * @param length length of collection
+   */
+  private randomIndex(length: number): number {
+    return Math.min(length - 1, Math.floor(this.random() * length));
+  }
+}
@@ -0,0 +1,336 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { BadRequestError } from "../common/badRequestError";
+import { ColorizedChannel } from "../common/colorizedChannel";
+import { Configuration } from "../common/configuration";
+import { Constants } from "../common/constants";
+import { ProcessError } from "../common/processError";
+import { Utility } from "../common/utility";
+import { DeviceModelManager, ModelType } from "../deviceModel/deviceModelManager";
+import { DigitalTwinConstants } from "../intelliSense/digitalTwinConstants";
+import { ModelFileInfo } from "../modelRepository/modelRepositoryManager";
+import { MessageType, UI } from "../view/ui";
+import { UIConstants } from "../view/uiConstants";
+import { CommandResult, TelemetryGenerator } from "./telemetryGenerator";
+import { FileSink, MqttSink, TelemetrySink } from "./telemetrySink";
+
+/**
+ * Sink type of telemetry simulator
+ */
+export enum SinkType {
+  Mqtt = "MQTT broker",
+  File = "File"
+}
+
+/**
+ * Interface instance of simulated device
+ */
+interface SimulatedInterface {
+  instanceName: string;
+  generator: TelemetryGenerator;
+}
+
+/**
+ * Running session of telemetry simulator
+ */
+interface SimulatorSession {
+  modelFile: string;
+  sink: TelemetrySink;
+  topicPrefix: string;
+  interfaces: Map<string, SimulatedInterface>;
+  timer?: NodeJS.Timer;
+}
+
+/**
+ * Telemetry simulator, which publishes generated telemetry of device model on schedule
+ * and answers command requests with generated response
+ */
+export class TelemetrySimulator {
+  private static readonly TELEMETRY_TOPIC = "telemetry";
+  private static readonly COMMAND_TOPIC = "commands";
+  private static readonly RESPONSE_TOPIC = "response";
+  private static readonly CLIENT_ID_PREFIX = "pnp-simulator-";
+  private static readonly FILE_SUFFIX = ".telemetry.jsonl";
+  private static readonly DEFAULT_TOPIC_PREFIX = "simulator";
+  private static readonly DEFAULT_INTERVAL_SECONDS = 5;
+
+  /**
+   * get instance name of interface file, e.g. sensor of sensor.interface.json
+   * @param filePath file path
+   */
+  private static getInstanceName(filePath: string): string {
+    return path.basename(filePath).split(".")[0];
+  }
+
+  private session: SimulatorSession | undefined;
+  private readonly component: string;
+  constructor(private readonly outputChannel: ColorizedChannel) {
+    this.component = Constants.TELEMETRY_SIMULATOR_COMPONENT;
+  }
+
+  /**
+   * start simulator of device model with UI interaction
+   */
+  async start(): Promise<void> {
+    if (this.session) {
+      throw new BadRequestError(`${UIConstants.SIMULATOR_RUNNING_MSG} ${path.basename(this.session.modelFile)}`);
+    }
+    const modelFile: string = await UI.selectOneModelFile(UIConstants.SELECT_SIMULATED_MODEL_LABEL);
+    if (!modelFile) {
+      return;
+    }
+    const items: vscode.QuickPickItem[] = [
+      {
+        label: SinkType.Mqtt,
+        description: Configuration.getProperty<string>(Constants.SIMULATOR_BROKER_URL)
+      },
+      { label: SinkType.File }
+    ];
+    const selected: vscode.QuickPickItem = await UI.showQuickPick(UIConstants.SELECT_SIMULATOR_SINK_LABEL, items);
+    let sinkFile: string | undefined;
+    if (selected.label === SinkType.File) {
+      const defaultFile: string = path.join(
+        path.dirname(modelFile),
+        `${TelemetrySimulator.getInstanceName(modelFile)}${TelemetrySimulator.FILE_SUFFIX}`
+      );
+      sinkFile = await UI.showSaveDialog(UIConstants.SELECT_SIMULATOR_FILE_LABEL, vscode.Uri.file(defaultFile));
+    }
+
+    const operation = `Start telemetry simulator of ${path.basename(modelFile)}`;
+    this.outputChannel.start(operation, this.component);
+    let session: SimulatorSession;
+    try {
+      session = await this.doStart(modelFile, sinkFile);
+    } catch (error) {
+      throw new ProcessError(operation, error, this.component);
+    }
+    this.outputChannel.end(operation, this.component);
+    UI.showNotification(MessageType.Info, `Telemetry simulator is publishing to ${session.sink.description}`);
+  }
+
+  /**
+   * stop running simulator
+   */
+  async stop(): Promise<void> {
+    const session: SimulatorSession | undefined = this.session;
+    if (!session) {
+      UI.showNotification(MessageType.Warn, UIConstants.SIMULATOR_NOT_RUNNING_MSG);
+      return;
+    }
+    const operation = `Stop telemetry simulator of ${path.basename(session.modelFile)}`;
+    this.outputChannel.start(operation, this.component);
+    await this.closeSession(session);
+    this.outputChannel.end(operation, this.component);
+  }
+
+  /**
+   * invoke command of running simulator with generated request
+   */
+  async invokeCommand(): Promise<void> {
+    const session: SimulatorSession | undefined = this.session;
+    if (!session) {
+      throw new BadRequestError(UIConstants.SIMULATOR_NOT_RUNNING_MSG);
+    }
+    const items: vscode.QuickPickItem[] = [];
+    for (const simulated of session.interfaces.values()) {
+      for (const commandName of simulated.generator.getCommandNames()) {
+        items.push({ label: commandName, description: simulated.instanceName });
+      }
+    }
+    if (items.length === 0) {
+      UI.showNotification(MessageType.Warn, UIConstants.SIMULATOR_NO_COMMAND_MSG);
+      return;
+    }
+    const selected: vscode.QuickPickItem = await UI.showQuickPick(UIConstants.SELECT_SIMULATED_COMMAND_LABEL, items);
+    const simulated = session.interfaces.get(selected.description as string) as SimulatedInterface;
+    const request = simulated.generator.generateRequest(selected.label);
+    const topic: string = [
+      session.topicPrefix,
+      simulated.instanceName,
+      TelemetrySimulator.COMMAND_TOPIC,
+      selected.label
+    ].join("/");
+    await this.handleRequest(session, topic, JSON.stringify(request === undefined ? null : request));
+  }
+
+  /**
+   * stop simulator when extension is deactivated
+   */
+  dispose(): void {
+    if (this.session) {
+      this.closeSession(this.session).catch(error => {
+        this.outputChannel.warn(`Fail to stop telemetry simulator: ${error.message}`, this.component);
+      });
+    }
+  }
+
+  /**
+   * load interfaces, connect sink and start publishing telemetry, the session is running once returned
+   * @param modelFile file of interface or capability model
+   * @param sinkFile file of sink, use MQTT broker if not specified
+   */
+  private async doStart(modelFile: string, sinkFile?: string): Promise<SimulatorSession> {
+    const interfaces: Map<string, SimulatedInterface> = await this.loadInterfaces(modelFile);
+    // validate schemas before publishing
+    for (const simulated of interfaces.values()) {
+      simulated.generator.generateTelemetry();
+    }
+    const topicPrefix: string =
+      Configuration.getProperty<string>(Constants.SIMULATOR_TOPIC_PREFIX) || TelemetrySimulator.DEFAULT_TOPIC_PREFIX;
+    let sink: TelemetrySink;
+    let mqttSink: MqttSink | undefined;
+    if (sinkFile) {
+      sink = new FileSink(sinkFile);
+    } else {
+      const url: string | undefined = Configuration.getProperty<string>(Constants.SIMULATOR_BROKER_URL);
+      if (!url) {
+        throw new BadRequestError(Constants.SIMULATOR_BROKER_URL_NOT_FOUND_MSG);
+      }
+      mqttSink = await MqttSink.connect(url, TelemetrySimulator.CLIENT_ID_PREFIX + Date.now());
+      sink = mqttSink;
+    }
+    // session is running before subscribing, so no request or disconnection is missed
+    const session: SimulatorSession = { modelFile, sink, topicPrefix, interfaces };
+    this.session = session;
+    if (mqttSink) {
+      mqttSink.onClose((error?: Error) => this.handleDisconnect(session, error));
+      try {
+        await mqttSink.subscribe(
+          [topicPrefix, "+", TelemetrySimulator.COMMAND_TOPIC, "+"].join("/"),
+          (topic: string, payload: string) => this.handleRequest(session, topic, payload)
+        );
+      } catch (error) {
+        await this.closeSession(session);
+        throw error;
+      }
+    }
+    const interval: number =
+      Configuration.getProperty<number>(Constants.SIMULATOR_INTERVAL) || TelemetrySimulator.DEFAULT_INTERVAL_SECONDS;
+    session.timer = setInterval(() => this.publishTelemetry(session), interval * 1000);
+    for (const instanceName of interfaces.keys()) {
+      this.outputChannel.info(
+        `Publish telemetry of ${instanceName} to ${[topicPrefix, instanceName, TelemetrySimulator.TELEMETRY_TOPIC].join(
+          "/"
+        )} every ${interval} second(s)`
+      );
+    }
+    return session;
+  }
+
+  /**
+   * load interfaces of model, interfaces of capability model are resolved by id in workspace or inline definition
+   * @param modelFile file of interface or capability model
+   */
+  private async loadInterfaces(modelFile: string): Promise<Map<string, SimulatedInterface>> {
+    const content = await Utility.getJsonContent(modelFile);
+    const interfaces = new Map<string, SimulatedInterface>();
+    const modelType: ModelType = DeviceModelManager.convertToModelType(content[DigitalTwinConstants.TYPE]);
+    if (modelType === ModelType.Interface) {
+      const instanceName: string = TelemetrySimulator.getInstanceName(modelFile);
+      interfaces.set(instanceName, { instanceName, generator: new TelemetryGenerator(content) });
+      return interfaces;
+    }
+    const implementations = content[DigitalTwinConstants.IMPLEMENTS];
+    const files = new Map<string, string>();
+    const fileInfos: ModelFileInfo[] = await UI.findModelFiles(ModelType.Interface);
+    for (const fileInfo of fileInfos) {
+      files.set(fileInfo.id, fileInfo.filePath);
+    }
+    for (const implementation of Array.isArray(implementations) ? implementations : []) {
+      const instanceName: string = implementation[DigitalTwinConstants.NAME];
+      const schema = implementation[DigitalTwinConstants.SCHEMA];
+      let interfaceContent;
+      if (typeof schema === "string") {
+        const filePath: string | undefined = files.get(schema);
+        if (!filePath) {
+          this.outputChannel.warn(`Skip ${instanceName} since interface ${schema} is not found in workspace`);
+          continue;
+        }
+        interfaceContent = await Utility.getJsonContent(filePath);
+      } else {
+        interfaceContent = schema;
+      }
+      if (instanceName && interfaceContent) {
+        interfaces.set(instanceName, { instanceName, generator: new TelemetryGenerator(interfaceContent) });
+      }
+    }
+    if (interfaces.size === 0) {
+      throw new BadRequestError(UIConstants.SIMULATOR_NO_INTERFACE_MSG);
+    }
+    return interfaces;
+  }
+
+  /**
+   * publish telemetry of all interfaces
+   * @param session simulator session
+   */
+  private async publishTelemetry(session: SimulatorSession): Promise<void> {
+    for (const simulated of session.interfaces.values()) {
+      const values = simulated.generator.generateTelemetry();
+      if (Object.keys(values).length === 0) {
+        continue;
+      }
+      const topic: string = [session.topicPrefix, simulated.instanceName, TelemetrySimulator.TELEMETRY_TOPIC].join("/");
+      try {
+        await session.sink.publish(topic, JSON.stringify(values));
+      } catch (error) {
+        this.outputChannel.warn(`Fail to publish telemetry to ${topic}: ${error.message}`, this.component);
+      }
+    }
+  }
+
+  /**
+   * answer command request, topic is in format of {prefix}/{instance}/commands/{command}
+   * @param session simulator session
+   * @param topic request topic
+   * @param payload request payload
+   */
+  private async handleRequest(session: SimulatorSession, topic: string, payload: string): Promise<void> {
+    const [instanceName, , commandName] = topic.substr(session.topicPrefix.length + 1).split("/");
+    const simulated: SimulatedInterface | undefined = session.interfaces.get(instanceName);
+    const result: CommandResult = simulated
+      ? simulated.generator.invokeCommand(commandName)
+      : { status: Constants.NOT_FOUND_CODE };
+    this.outputChannel.info(`Command ${instanceName}/${commandName} request: ${payload}`);
+    this.outputChannel.info(`Command ${instanceName}/${commandName} response: ${JSON.stringify(result)}`);
+    const responseTopic = `${topic}/${TelemetrySimulator.RESPONSE_TOPIC}`;
+    try {
+      await session.sink.publish(responseTopic, JSON.stringify(result));
+    } catch (error) {
+      this.outputChannel.warn(`Fail to publish response to ${responseTopic}: ${error.message}`, this.component);
+    }
+  }
+
+  /**
+   * stop session when connection to broker is lost
+   * @param session simulator session
+   * @param error error
+   */
+  private async handleDisconnect(session: SimulatorSession, error?: Error): Promise<void> {
+    if (this.session !== session) {
+      return;
+    }
+    const message: string = error ? `: ${error.message}` : Constants.EMPTY_STRING;
+    this.outputChannel.warn(`Disconnected from ${session.sink.description}${message}`, this.component);
+    UI.showNotification(MessageType.Warn, `Telemetry simulator is stopped since ${session.sink.description} is lost`);
+    await this.closeSession(session);
+  }
+
+  /**
+   * stop timer and close sink of session
+   * @param session simulator session
+   */
+  private async closeSession(session: SimulatorSession): Promise<void> {
+    if (session.timer) {
+      clearInterval(session.timer);
+      session.timer = undefined;
+    }
+    if (this.session === session) {
+      this.session = undefined;
+    }
+    await session.sink.close();
+  }
+}
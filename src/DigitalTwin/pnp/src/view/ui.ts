@@ -136,6 +136,23 @@ export class UI {
     return selected[0].fsPath;
   }
 
+  /**
+   * show save dialog
+   * @param label label
+   * @param defaultUri default uri
+   */
+  static async showSaveDialog(label: string, defaultUri?: vscode.Uri): Promise<string> {
+    const options: vscode.SaveDialogOptions = {
+      saveLabel: label,
+      defaultUri
+    };
+    const selected: vscode.Uri | undefined = await vscode.window.showSaveDialog(options);
+    if (!selected) {
+      throw new UserCancelledError(label);
+    }
+    return selected.fsPath;
+  }
+
   /**
    * input model name and validate
    * @param label label
@@ -9,11 +9,25 @@ export class UIConstants {
   static readonly INPUT_MODEL_NAME_LABEL = "Input device model name";
   static readonly BROWSE_LABEL = "Browse...";
   static readonly SELECT_REPOSITORY_LABEL = "Select model repository";
+  static readonly SELECT_LOCAL_REPOSITORY_FOLDER_LABEL = "Select folder of local model repository";
+  static readonly SELECT_CACHED_MODEL_LABEL = "Select cached model to view";
+  static readonly MODEL_CACHE_EMPTY_MSG = "Model repository cache is empty";
+  static readonly ASK_TO_CLEAR_CACHE_MSG = "Do you want to clear all cached models of model repository?";
   static readonly SELECT_MODELS_LABEL = "Select device models";
   static readonly SELECT_CAPABILITY_MODEL_LABEL = "Select a capability model";
+  static readonly SELECT_INTERFACE_LABEL = "Select an interface";
+  static readonly SELECT_OLD_INTERFACE_LABEL = "Select an interface as old version";
+  static readonly SELECT_COMPARE_TARGET_LABEL = "Select old version to compare with";
+  static readonly COMPARE_WITH_REPOSITORY_LABEL = "Interface in model repository";
+  static readonly COMPARE_WITH_FILE_LABEL = "Interface file in workspace";
+  static readonly SELECT_SIMULATED_MODEL_LABEL = "Select a device model to simulate";
+  static readonly SELECT_SIMULATOR_SINK_LABEL = "Select where to publish simulated telemetry";
+  static readonly SELECT_SIMULATOR_FILE_LABEL = "Save telemetry to file";
+  static readonly SELECT_SIMULATED_COMMAND_LABEL = "Select a command to invoke";
   static readonly INPUT_REPOSITORY_CONNECTION_STRING_LABEL = "Input company repository connection string";
   static readonly SAVE_FILE_CHANGE_LABEL = "Save file change";
   static readonly MODEL_REPOSITORY_TITLE = "IoT Plug and Play Model Repository";
+  static readonly MODEL_VISUALIZER_TITLE = "Capability Model";
   static readonly MODEL_FILE_GLOB = "**/*.json";
   static readonly REPOSITORY_CONNECTION_STRING_TEMPLATE =
     "HostName=<Host Name>;RepositoryId=<repository id>;" +
@@ -22,4 +36,9 @@ export class UIConstants {
     "No device model is found in current workspace. Please open the folder that contains models and try again";
   static readonly ASK_TO_SAVE_MSG = "The following files contain unsaved changes, do you want to save them?";
   static readonly ASK_TO_OVERWRITE_MSG = "do you want to overwrite it?";
+  static readonly MODEL_CHANGED_IN_REPOSITORY_MSG = "has been changed by others in repository";
+  static readonly SIMULATOR_RUNNING_MSG = "Telemetry simulator is already running for";
+  static readonly SIMULATOR_NOT_RUNNING_MSG = "Telemetry simulator is not running";
+  static readonly SIMULATOR_NO_COMMAND_MSG = "No command is defined by simulated interfaces";
+  static readonly SIMULATOR_NO_INTERFACE_MSG = "No interface to simulate is found in workspace";
 }
@@ -1,17 +1,24 @@
 import * as fs from "fs-plus";
 import * as path from "path";
-import * as sdk from "vscode-iot-device-cube-sdk";
 import * as crypto from "crypto";
 import { ScaffoldType } from "./constants";
 import extractzip = require("extract-zip");
 
+/**
+ * File system of local machine accessed by device cube. Device cube only works
+ * in VS Code, so it is loaded for local scaffold only.
+ */
+function getLocalFileSystem(): typeof import("vscode-iot-device-cube-sdk").FileSystem {
+  return require("vscode-iot-device-cube-sdk").FileSystem;
+}
+
 export class FileUtility {
   static async directoryExists(type: ScaffoldType, dirPath: string): Promise<boolean> {
     if (type === ScaffoldType.Local) {
-      if (!(await sdk.FileSystem.exists(dirPath))) {
+      if (!(await getLocalFileSystem().exists(dirPath))) {
         return false;
       }
-      const isDirectory = await sdk.FileSystem.isDirectory(dirPath);
+      const isDirectory = await getLocalFileSystem().isDirectory(dirPath);
       return isDirectory;
     } else {
       return new Promise((resolve: (exist: boolean) => void) => {
@@ -29,11 +36,11 @@ export class FileUtility {
 
   static async fileExists(type: ScaffoldType, filePath: string): Promise<boolean> {
     if (type === ScaffoldType.Local) {
-      const directoryExists = await sdk.FileSystem.exists(filePath);
+      const directoryExists = await getLocalFileSystem().exists(filePath);
       if (!directoryExists) {
         return false;
       }
-      const isFile = await sdk.FileSystem.isFile(filePath);
+      const isFile = await getLocalFileSystem().isFile(filePath);
       return isFile;
     } else {
       return new Promise((resolve: (exist: boolean) => void) => {
@@ -51,7 +58,7 @@ export class FileUtility {
 
   static async mkdir(type: ScaffoldType, dirPath: string): Promise<void> {
     if (type === ScaffoldType.Local) {
-      return await sdk.FileSystem.mkDir(dirPath);
+      return await getLocalFileSystem().mkDir(dirPath);
     } else {
       return new Promise((resolve: (value?: void) => void, reject) => {
         fs.mkdir(dirPath, error => {
@@ -84,7 +91,7 @@ export class FileUtility {
   // Make sure filepath's parent directory exists
   static async writeFile(type: ScaffoldType, filePath: string, data: string | Buffer): Promise<void> {
     if (type === ScaffoldType.Local) {
-      return await sdk.FileSystem.writeFile(filePath, data);
+      return await getLocalFileSystem().writeFile(filePath, data);
     } else {
       return new Promise((resolve: (value?: void) => void, reject) => {
         fs.writeFile(filePath, data, err => {
@@ -123,7 +130,7 @@ export class FileUtility {
 
   static async readFile(type: ScaffoldType, filePath: string, encoding?: string): Promise<string | Buffer> {
     if (type === ScaffoldType.Local) {
-      return await sdk.FileSystem.readFile(filePath, encoding);
+      return await getLocalFileSystem().readFile(filePath, encoding);
     } else {
       return new Promise((resolve: (data: string | Buffer) => void, reject) => {
         fs.readFile(filePath, encoding, (err, data) => {
@@ -5,7 +5,6 @@ import * as crypto from "crypto";
 import * as fs from "fs-plus";
 import * as getmac from "getmac";
 import { Guid } from "guid-typescript";
-import * as _ from "lodash";
 import * as opn from "opn";
 import * as os from "os";
 import * as path from "path";
@@ -13,38 +12,26 @@ import * as vscode from "vscode";
 import * as WinReg from "winreg";
 
 import { BoardProvider } from "../boardProvider";
-import { ArduinoCommands } from "../common/Commands";
 import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
 import { ResourceNotFoundError } from "../common/Error/OperationFailedErrors/ResourceNotFoundError";
 import { OperationCanceledError } from "../common/Error/OperationCanceledError";
-import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
 import { FileNames, OSPlatform, ScaffoldType } from "../constants";
 import { DialogResponses } from "../DialogResponses";
 import { FileUtility } from "../FileUtility";
 import { TelemetryContext } from "../telemetry";
-import { delay, getEnumKeyByEnumValue, getRegistryValues } from "../utils";
+import { getEnumKeyByEnumValue, getRegistryValues } from "../utils";
 import { Board } from "./Interfaces/Board";
 import { reject } from "bluebird";
 
 import { ArduinoDeviceBase } from "./ArduinoDeviceBase";
-import { DeviceType } from "./Interfaces/Device";
+import { SerialConfigSetting } from "./SerialConfigProtocol";
 import { DeviceConfig, TemplateFileInfo } from "./Interfaces/ProjectTemplate";
 import { FileNotFoundError } from "../common/Error/OperationFailedErrors/FileNotFound";
 import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
 import { SystemResourceNotFoundError } from "../common/Error/SystemErrors/SystemResourceNotFoundError";
 import { AzureConfigFileHandler } from "./AzureComponentConfig";
 import { ComponentType } from "./Interfaces/Component";
-
-const impor = require("impor")(__dirname);
-const forEach = impor("lodash.foreach") as typeof import("lodash.foreach");
-const trimStart = impor("lodash.trimstart") as typeof import("lodash.trimstart");
-
-interface SerialPortInfo {
-  comName: string;
-  manufacturer: string;
-  vendorId: string;
-  productId: string;
-}
+import { SecretStore } from "./SecretStore";
 
 const constants = {
   outputPath: "./.build",
@@ -68,17 +55,6 @@ enum DeviceConnectionStringAcquisitionMethods {
 }
 
 export class AZ3166Device extends ArduinoDeviceBase {
-  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  static get serialport(): any {
-    if (!AZ3166Device._serialport) {
-      AZ3166Device._serialport = require("../../vendor/node-usb-native").SerialPort;
-    }
-    return AZ3166Device._serialport;
-  }
-
-  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-  private static _serialport: any;
-
   private componentId: string;
   get id(): string {
     return this.componentId;
@@ -99,7 +75,7 @@ export class AZ3166Device extends ArduinoDeviceBase {
     devicePath: string,
     templateFiles?: TemplateFileInfo[]
   ) {
-    super(context, devicePath, channel, telemetryContext, DeviceType.MXChipAZ3166);
+    super(context, devicePath, channel, telemetryContext, AZ3166Device.boardId);
     this.channel = channel;
     this.componentId = Guid.create().toString();
     if (templateFiles) {
@@ -186,13 +162,13 @@ export class AZ3166Device extends ArduinoDeviceBase {
         // Get DPS Credential
         credentials = await this.getDPSCredentialsFromInput();
 
-        await this.logAndSetCredentials(credentials, ConfigDeviceOptions.ConnectionString);
+        await this.logAndSetCredentials(credentials, ConfigDeviceOptions.DPS);
         return;
       case ConfigDeviceOptions.UDS:
         // Get UDS string
         credentials = await this.getUDSStringFromInput();
 
-        await this.logAndSetCredentials(credentials, ConfigDeviceOptions.ConnectionString);
+        await this.logAndSetCredentials(credentials, ConfigDeviceOptions.UDS);
         return;
       default:
         throw new TypeNotSupportedError("device setting type", `${deviceSettingType}`);
@@ -215,14 +191,7 @@ export class AZ3166Device extends ArduinoDeviceBase {
     console.log(credentials);
 
     // Set credentials
-    const res = await this.setDeviceConfig(credentials, deviceSettingType); // TODO: Mind the return value.
-    if (!res) {
-      throw new OperationFailedError(
-        "flush configuration to device",
-        "",
-        "Please check out error message in the output channel."
-      );
-    }
+    await this.setDeviceConfig(credentials, deviceSettingType);
     let deviceSettingTypeForLog;
     switch (deviceSettingType) {
       case ConfigDeviceOptions.ConnectionString:
@@ -291,8 +260,9 @@ export class AZ3166Device extends ArduinoDeviceBase {
       ScaffoldType.Workspace,
       ComponentType.IoTHubDevice
     );
-    if (componentConfig) {
-      deviceConnectionStringFromConfig = componentConfig.componentInfo?.values.iotHubDeviceConnectionString;
+    if (componentConfig && componentConfig.componentInfo) {
+      const { values } = await SecretStore.resolveComponentInfo(componentConfig.componentInfo);
+      deviceConnectionStringFromConfig = values.iotHubDeviceConnectionString;
     }
 
     let deviceConnectionString: string;
@@ -493,354 +463,22 @@ export class AZ3166Device extends ArduinoDeviceBase {
    * @param configValue config value
    * @param option device configuration type
    */
-  private async setDeviceConfig(configValue: string, option: ConfigDeviceOptions): Promise<boolean> {
-    // Try to close serial monitor
-    try {
-      await vscode.commands.executeCommand(ArduinoCommands.CloseSerialMonitor, null, false);
-    } catch (ignore) {
-      // Ignore error if fail to close serial monitor
-    }
-
-    // Set selected connection string to device
-    const platform = os.platform();
-    if (platform === OSPlatform.WIN32) {
-      return await this.flushDeviceConfig(configValue, option);
-    } else {
-      return await this.flushDeviceConfigUnixAndMac(configValue, option);
+  private async setDeviceConfig(configValue: string, option: ConfigDeviceOptions): Promise<void> {
+    let setting: SerialConfigSetting;
+    switch (option) {
+      case ConfigDeviceOptions.ConnectionString:
+        setting = SerialConfigSetting.DeviceConnectionString;
+        break;
+      case ConfigDeviceOptions.DPS:
+        setting = SerialConfigSetting.DPSCredentials;
+        break;
+      case ConfigDeviceOptions.UDS:
+        setting = SerialConfigSetting.UDS;
+        break;
+      default:
+        throw new TypeNotSupportedError("device setting type", `${option}`);
     }
-  }
-
-  private flushDeviceConfigUnixAndMac(configValue: string, option: ConfigDeviceOptions): Promise<boolean> {
-    return new Promise(
-      // eslint-disable-next-line no-async-promise-executor
-      async (resolve: (value: boolean) => void, reject: (value: Error) => void) => {
-        let comPort = "";
-        let command = "";
-        try {
-          // Choose COM port that AZ3166 is connected
-          comPort = await this.chooseCOM();
-          console.log(`Opening ${comPort}.`);
-        } catch (error) {
-          return reject(error);
-        }
-        if (option === ConfigDeviceOptions.ConnectionString) {
-          command = "set_az_iothub";
-        } else if (option === ConfigDeviceOptions.DPS) {
-          command = "set_az_iotdps";
-        } else {
-          command = "set_dps_uds";
-        }
-        let errorRejected = false;
-
-        let az3166: Board;
-        try {
-          az3166 = this.board;
-        } catch (error) {
-          return reject(error);
-        }
-
-        const port = new AZ3166Device.serialport(comPort, {
-          baudRate: az3166.defaultBaudRate,
-          dataBits: 8,
-          stopBits: 1,
-          xon: false,
-          xoff: false,
-          parity: "none"
-        });
-
-        const rejectIfError = (err: Error): boolean => {
-          if (errorRejected) return true;
-          if (err) {
-            errorRejected = true;
-            reject(err);
-            try {
-              port.close();
-            } catch (ignore) {
-              // ignore error if fail to close port.
-            }
-          }
-
-          return true;
-        };
-
-        const executeSetAzIoTHub = async (): Promise<void> => {
-          try {
-            const data = `${command} "${configValue}"\r\n`;
-
-            let restDataLength = data.length;
-            while (restDataLength > 0) {
-              const start = data.length - restDataLength;
-              const length = Math.min(100, restDataLength);
-              restDataLength -= length;
-              const dataChunk = data.substr(start, length);
-              await this.sendDataViaSerialPort(port, dataChunk);
-              await delay(1000);
-            }
-
-            port.close();
-          } catch (ignore) {
-            // Ignore error if fail to close port
-          }
-
-          if (errorRejected) {
-            return;
-          } else {
-            resolve(true);
-          }
-        };
-
-        // Configure serial port callbacks
-        port.on("open", async () => {
-          // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-          await vscode.window.showInformationMessage(
-            "Please hold down button A and then push and release the reset button to enter configuration mode. After enter configuration mode, click OK.",
-            "OK"
-          );
-          executeSetAzIoTHub()
-            .then(() => resolve(true))
-            .catch(error => reject(error));
-        });
-
-        // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-        port.on("error", (error: any) => {
-          if (errorRejected) return;
-          console.log(error);
-          rejectIfError(error);
-        });
-      }
-    );
-  }
-
-  private flushDeviceConfig(configValue: string, option: ConfigDeviceOptions): Promise<boolean> {
-    return new Promise(
-      // eslint-disable-next-line no-async-promise-executor
-      async (resolve: (value: boolean) => void, reject: (value: Error) => void) => {
-        let comPort = "";
-        let command = "";
-        try {
-          // Choose COM port that AZ3166 is connected
-          comPort = await this.chooseCOM();
-          console.log(`Opening ${comPort}.`);
-        } catch (error) {
-          reject(error);
-        }
-        if (option === ConfigDeviceOptions.ConnectionString) {
-          command = "set_az_iothub";
-        } else if (option === ConfigDeviceOptions.DPS) {
-          command = "set_az_iotdps";
-        } else {
-          command = "set_dps_uds";
-        }
-        let configMode = false;
-        let errorRejected = false;
-        let commandExecuted = false;
-        let gotData = false;
-
-        let az3166: Board;
-        try {
-          az3166 = this.board;
-        } catch (error) {
-          return reject(error);
-        }
-
-        const port = new AZ3166Device.serialport(comPort, {
-          baudRate: az3166.defaultBaudRate,
-          dataBits: 8,
-          stopBits: 1,
-          xon: false,
-          xoff: false,
-          parity: "none"
-        });
-
-        const rejectIfError = (err: Error): boolean => {
-          if (errorRejected) return true;
-          if (err) {
-            errorRejected = true;
-            reject(err);
-            try {
-              port.close();
-            } catch (ignore) {
-              // Ignore error if fail to close port
-            }
-          }
-
-          return true;
-        };
-
-        const executeSetAzIoTHub = async (): Promise<void> => {
-          try {
-            const data = `${command} "${configValue}"\r\n`;
-            const maxDataLength = 256;
-            await this.sendDataViaSerialPort(port, data.slice(0, maxDataLength));
-            if (data.length > maxDataLength) {
-              await delay(1000);
-              await this.sendDataViaSerialPort(port, data.slice(maxDataLength));
-            }
-
-            await delay(1000);
-            port.close();
-          } catch (ignore) {
-            // Ignore error if fail to close port
-          }
-
-          if (errorRejected) {
-            return;
-          } else {
-            resolve(true);
-          }
-        };
-
-        // Configure serial port callbacks
-        port.on("open", () => {
-          port.write(
-            "\r\nhelp\r\n",
-            // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-            (error: any) => {
-              if (rejectIfError(error)) return;
-            }
-          );
-        });
-
-        // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-        port.on("data", (data: any) => {
-          gotData = true;
-          const output = data.toString().trim();
-
-          if (commandExecuted) return;
-          if (output.includes("set_")) {
-            commandExecuted = true;
-            configMode = true;
-            executeSetAzIoTHub()
-              .then(() => resolve(true))
-              .catch(error => reject(error));
-          } else {
-            configMode = false;
-          }
-
-          if (configMode) {
-            forEach(output.split("\n"), line => {
-              if (line) {
-                line = trimStart(line.trim(), "#").trim();
-                if (line && line.length) {
-                  console.log("SerialOutput", line);
-                }
-              }
-            });
-          }
-        });
-
-        // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-        port.on("error", (error: any) => {
-          if (errorRejected) return;
-          console.log(error);
-          rejectIfError(error);
-        });
-
-        setTimeout(() => {
-          if (errorRejected) return;
-          // Prompt user to enter configuration mode
-
-          if (!gotData || !configMode) {
-            vscode.window
-              .showInformationMessage(
-                "Please hold down button A and then push and release the reset button to enter configuration mode."
-              )
-              .then(() => {
-                port.write(
-                  "\r\nhelp\r\n",
-
-                  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-                  (error: any) => {
-                    rejectIfError(error);
-                  }
-                );
-              });
-          }
-        }, 10000);
-      }
-    );
-  }
-
-  private getComList(): Promise<SerialPortInfo[]> {
-    return new Promise((resolve: (value: SerialPortInfo[]) => void, reject: (error: Error) => void) => {
-      // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-      AZ3166Device.serialport.list((e: any, ports: SerialPortInfo[]) => {
-        if (e) {
-          reject(e);
-        } else {
-          resolve(ports);
-        }
-      });
-    });
-  }
-
-  private async chooseCOM(): Promise<string> {
-    return new Promise(async (resolve: (value: string) => void, reject: (reason: Error) => void) => {
-      const comList = await this.getComList();
-
-      let az3166: Board;
-      try {
-        az3166 = this.board;
-      } catch (error) {
-        return reject(error);
-      }
-
-      const list = _.filter(comList, com => {
-        if (
-          com.vendorId &&
-          com.productId &&
-          az3166.vendorId &&
-          az3166.productId &&
-          com.vendorId.toLowerCase().endsWith(az3166.vendorId) &&
-          com.productId.toLowerCase().endsWith(az3166.productId)
-        ) {
-          return true;
-        } else {
-          return false;
-        }
-      });
-
-      if (list && list.length) {
-        let comPort = list[0].comName;
-        if (list.length > 1) {
-          // TODO: select com port from list when there are multiple AZ3166
-          // boards connected
-          comPort = list[0].comName;
-        }
-
-        if (!comPort) {
-          reject(new ResourceNotFoundError("choose COM", "avaliable COM port.", "Please check COM port settings."));
-        }
-
-        resolve(comPort);
-      } else {
-        reject(new Error("No AZ3166 board connected."));
-      }
-    });
-  }
-
-  private async sendDataViaSerialPort(
-    // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-    port: any,
-    data: string
-  ): Promise<boolean> {
-    return new Promise((resolve: (value: boolean) => void, reject: (value: Error) => void) => {
-      try {
-        port.write(
-          data,
-          // eslint-disable-next-line  @typescript-eslint/no-explicit-any
-          (err: any) => {
-            if (err) {
-              reject(err);
-            } else {
-              port.drain(() => resolve(true));
-            }
-          }
-        );
-      } catch (err) {
-        reject(err);
-      }
-    });
+    await this.configDeviceOverSerial(setting, configValue);
   }
 
   private async stlinkDriverInstalled(): Promise<boolean> {
@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as cp from "child_process";
+import * as fs from "fs-plus";
+import * as path from "path";
+
+import { FileNotFoundError } from "../common/Error/OperationFailedErrors/FileNotFound";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { FileNames } from "../constants";
+
+const constants = {
+  arduinoJsonFileName: "arduino.json",
+  defaultArduinoCli: "arduino-cli",
+  defaultOutputPath: "./.build",
+  versionTimeoutInMilliseconds: 10000
+};
+
+/**
+ * Sketch and board settings of Arduino extension in arduino.json.
+ */
+export interface ArduinoConfig {
+  board: string;
+  sketch: string;
+  configuration?: string;
+  output?: string;
+  port?: string;
+}
+
+/**
+ * Load arduino.json under the device folder.
+ * @param devicePath device folder path
+ */
+export function loadArduinoConfig(devicePath: string): ArduinoConfig {
+  const arduinoJsonPath = path.join(devicePath, FileNames.vscodeSettingsFolderName, constants.arduinoJsonFileName);
+  if (!fs.isFileSync(arduinoJsonPath)) {
+    throw new FileNotFoundError(
+      "load Arduino configuration",
+      arduinoJsonPath,
+      "Please configure the project environment first."
+    );
+  }
+  const arduinoConfig = JSON.parse(fs.readFileSync(arduinoJsonPath, "utf8")) as ArduinoConfig;
+  if (!arduinoConfig.board || !arduinoConfig.sketch) {
+    throw new OperationFailedError(
+      "load Arduino configuration",
+      `Board or sketch is not set in ${arduinoJsonPath}.`,
+      "Please select a board first."
+    );
+  }
+  return arduinoConfig;
+}
+
+/**
+ * Arguments of arduino-cli to compile or upload the sketch. Board options
+ * configured in arduino.json are appended to the fully qualified board name.
+ * @param devicePath device folder path
+ * @param arduinoConfig content of arduino.json
+ * @param command arduino-cli command
+ * @param port serial port to upload to, the one in arduino.json by default
+ */
+export function getArduinoCliArguments(
+  devicePath: string,
+  arduinoConfig: ArduinoConfig,
+  command: "compile" | "upload",
+  port?: string
+): string[] {
+  const fqbn = arduinoConfig.configuration
+    ? `${arduinoConfig.board}:${arduinoConfig.configuration}`
+    : arduinoConfig.board;
+  const outputPath = path.join(devicePath, arduinoConfig.output || constants.defaultOutputPath);
+  const sketchPath = path.join(devicePath, arduinoConfig.sketch);
+  if (command === "compile") {
+    return [command, "--fqbn", fqbn, "--build-path", outputPath, sketchPath];
+  }
+  const uploadPort = port || arduinoConfig.port;
+  const portArguments = uploadPort ? ["--port", uploadPort] : [];
+  return [command, ...portArguments, "--fqbn", fqbn, "--input-dir", outputPath, sketchPath];
+}
+
+/**
+ * Command line to compile the sketch with arduino-cli, which is run by the
+ * compile task in the terminal so that its problems are reported by the
+ * problem matcher.
+ * @param devicePath device folder path
+ * @param arduinoCli path of arduino-cli
+ */
+export function getArduinoCompileCommandLine(devicePath: string, arduinoCli = constants.defaultArduinoCli): string {
+  const args = getArduinoCliArguments(devicePath, loadArduinoConfig(devicePath), "compile");
+  // Double quotes work the same for paths and board options in bash, cmd and PowerShell
+  return [arduinoCli, ...args].map(arg => (/[^\w./\\:=+-]/.test(arg) ? `"${arg}"` : arg)).join(" ");
+}
+
+/**
+ * Check arduino-cli can be run, since the compile task runs it in terminal
+ * and a missing command would only be reported by the shell.
+ * @param operation operation which needs arduino-cli
+ * @param arduinoCli path of arduino-cli
+ */
+export function checkArduinoCli(operation: string, arduinoCli = constants.defaultArduinoCli): Promise<void> {
+  return new Promise((resolve, reject) => {
+    cp.execFile(arduinoCli, ["version"], { timeout: constants.versionTimeoutInMilliseconds }, error => {
+      if (error) {
+        return reject(
+          new OperationFailedError(
+            operation,
+            `Unable to run ${arduinoCli}. ${error.message}`,
+            "Please install arduino-cli and add it to PATH."
+          )
+        );
+      }
+      resolve();
+    });
+  });
+}
@@ -5,27 +5,40 @@ import * as fs from "fs-plus";
 import * as path from "path";
 import * as vscode from "vscode";
 
+import { ArduinoCommands } from "../common/Commands";
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { ResourceNotFoundError } from "../common/Error/OperationFailedErrors/ResourceNotFoundError";
 import { WorkspaceNotOpenError } from "../common/Error/OperationFailedErrors/WorkspaceNotOpenError";
 import { OperationCanceledError } from "../common/Error/OperationCanceledError";
 import { WorkspaceConfigNotFoundError } from "../common/Error/SystemErrors/WorkspaceConfigNotFoundError";
 import { ConfigHandler } from "../configHandler";
-import { ConfigKey, FileNames, OperationType, OSPlatform, PlatformType, ScaffoldType } from "../constants";
+import { ConfigKey, FileNames, OperationType, OSPlatform, PlatformType, ScaffoldType, TaskNames } from "../constants";
 import { FileUtility } from "../FileUtility";
 import { TelemetryContext } from "../telemetry";
 import * as utils from "../utils";
 
+import { checkArduinoCli } from "./ArduinoCli";
+import { BuildResult } from "./BuildResult";
 import { Board } from "./Interfaces/Board";
 import { ComponentType } from "./Interfaces/Component";
-import { Device, DeviceType } from "./Interfaces/Device";
+import { Device } from "./Interfaces/Device";
 import { TemplateFileInfo } from "./Interfaces/ProjectTemplate";
 import { OTA } from "./OTA";
+import { SerialConfigProtocol, SerialConfigSetting } from "./SerialConfigProtocol";
 import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
 import { FileNotFoundError } from "../common/Error/OperationFailedErrors/FileNotFound";
 import { checkExtensionAvailable } from "./Apis";
 import { DependentExtensionNotFoundError } from "../common/Error/OperationFailedErrors/DependentExtensionNotFoundError";
 import { ExtensionName } from "./Interfaces/Api";
 
+interface SerialPortInfo {
+  comName: string;
+  manufacturer: string;
+  vendorId: string;
+  productId: string;
+}
+
 const constants = {
   defaultSketchFileName: "device.ino",
   arduinoJsonFileName: "arduino.json",
@@ -34,13 +47,22 @@ const constants = {
   cppPropertiesFileNameLinux: "c_cpp_properties_linux.json",
   cppPropertiesFileNameWin: "c_cpp_properties_win32.json",
   outputPath: "./.build",
-  compileTaskName: "Arduino Compile",
-  uploadTaskName: "Arduino Upload",
   environmentTemplateFolderName: "Arduino Task"
 };
 
 export abstract class ArduinoDeviceBase implements Device {
-  protected deviceType: DeviceType;
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  static get serialport(): any {
+    if (!ArduinoDeviceBase._serialport) {
+      ArduinoDeviceBase._serialport = require("../../vendor/node-usb-native").SerialPort;
+    }
+    return ArduinoDeviceBase._serialport;
+  }
+
+  // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+  private static _serialport: any;
+
+  protected deviceType: string;
   protected componentType: ComponentType;
   protected deviceFolder: string;
   protected vscodeFolderPath: string;
@@ -59,7 +81,7 @@ export abstract class ArduinoDeviceBase implements Device {
     devicePath: string,
     channel: vscode.OutputChannel,
     telemetryContext: TelemetryContext,
-    deviceType: DeviceType
+    deviceType: string
   ) {
     this.deviceType = deviceType;
     this.componentType = ComponentType.Device;
@@ -73,7 +95,7 @@ export abstract class ArduinoDeviceBase implements Device {
     this.channel = channel;
   }
 
-  getDeviceType(): DeviceType {
+  getDeviceType(): string {
     return this.deviceType;
   }
 
@@ -92,22 +114,33 @@ export abstract class ArduinoDeviceBase implements Device {
     }
   }
 
-  async compile(): Promise<boolean> {
-    const result = await this.preCompileAction();
-    if (!result) {
-      return false;
+  async compile(): Promise<BuildResult | undefined> {
+    const preCompileResult = await this.preCompileAction();
+    if (!preCompileResult) {
+      return;
     }
+    await checkArduinoCli("compile device code");
 
-    await utils.fetchAndExecuteTask(
+    const result = await utils.fetchAndExecuteTask(
       this.extensionContext,
       this.channel,
       this.telemetryContext,
       this.deviceFolder,
       OperationType.Compile,
       PlatformType.Arduino,
-      constants.compileTaskName
+      TaskNames.arduinoCompile
     );
-    return true;
+    if (result && result.success) {
+      // Output folder is kept between builds, only files of this build are artifacts
+      const buildStart = Date.now() - result.durationInMilliseconds;
+      const outputPath = path.join(this.deviceFolder, constants.outputPath);
+      if (fs.isDirectorySync(outputPath)) {
+        result.artifacts = fs
+          .listSync(outputPath, ["bin", "hex", "elf"])
+          .filter(filePath => fs.statSync(filePath).mtime.getTime() >= buildStart);
+      }
+    }
+    return result;
   }
 
   async upload(): Promise<boolean> {
@@ -115,16 +148,16 @@ export abstract class ArduinoDeviceBase implements Device {
     if (!result) {
       return false;
     }
-    await utils.fetchAndExecuteTask(
+    const uploadResult = await utils.fetchAndExecuteTask(
       this.extensionContext,
       this.channel,
       this.telemetryContext,
       this.deviceFolder,
       OperationType.Upload,
       PlatformType.Arduino,
-      constants.uploadTaskName
+      TaskNames.arduinoUpload
     );
-    return true;
+    return !!uploadResult && uploadResult.success;
   }
 
   abstract async configDeviceSettings(): Promise<void>;
@@ -290,6 +323,116 @@ export abstract class ArduinoDeviceBase implements Device {
     channel.appendLine("======================================");
   }
 
+  /**
+   * Check whether the board accepts the setting over serial port.
+   * @param setting setting type
+   */
+  protected supportsSerialConfig(setting: SerialConfigSetting): boolean {
+    const serialConfig = this.board.serialConfig;
+    return !!serialConfig && !!serialConfig.commands[setting];
+  }
+
+  /**
+   * Send a setting to the board over serial port, following the serial
+   * configuration protocol in its board descriptor. Throw error if the device
+   * does not acknowledge the setting.
+   * @param setting setting type
+   * @param value setting value
+   */
+  protected async configDeviceOverSerial(setting: SerialConfigSetting, value: string): Promise<void> {
+    const board = this.board;
+    const operation = `configure ${board.name} over serial port`;
+    if (!board.serialConfig) {
+      throw new OperationFailedError(
+        operation,
+        `Board ${board.name} does not support configuration over serial port.`,
+        ""
+      );
+    }
+
+    // Try to close serial monitor
+    try {
+      await vscode.commands.executeCommand(ArduinoCommands.CloseSerialMonitor, null, false);
+    } catch (ignore) {
+      // Ignore error if fail to close serial monitor
+    }
+
+    const comPort = await this.chooseCOM();
+    utils.channelShowAndAppendLine(this.channel, `Opening ${comPort}.`);
+    const port = new ArduinoDeviceBase.serialport(comPort, {
+      baudRate: board.defaultBaudRate,
+      dataBits: 8,
+      stopBits: 1,
+      xon: false,
+      xoff: false,
+      parity: "none"
+    });
+    await new Promise((resolve, reject) => {
+      port.on("open", resolve);
+      port.on("error", reject);
+    });
+
+    const protocol = new SerialConfigProtocol(port, board.serialConfig, async prompt => {
+      const selection = await vscode.window.showInformationMessage(
+        `${prompt} After entering configuration mode, click OK.`,
+        { modal: true },
+        "OK"
+      );
+      return selection === "OK";
+    });
+    try {
+      const acknowledgement = await protocol.configure(setting, value);
+      utils.channelShowAndAppendLine(this.channel, acknowledgement);
+    } finally {
+      try {
+        port.close();
+      } catch (ignore) {
+        // Ignore error if fail to close port
+      }
+    }
+  }
+
+  private getComList(): Promise<SerialPortInfo[]> {
+    return new Promise((resolve: (value: SerialPortInfo[]) => void, reject: (error: Error) => void) => {
+      // eslint-disable-next-line  @typescript-eslint/no-explicit-any
+      ArduinoDeviceBase.serialport.list((e: any, ports: SerialPortInfo[]) => {
+        if (e) {
+          reject(e);
+        } else {
+          resolve(ports);
+        }
+      });
+    });
+  }
+
+  /**
+   * Choose COM port the board is connected to, by vendor id and product id.
+   */
+  private async chooseCOM(): Promise<string> {
+    const comList = await this.getComList();
+    const board = this.board;
+    const list = comList.filter(
+      com =>
+        com.vendorId &&
+        com.productId &&
+        board.vendorId &&
+        board.productId &&
+        com.vendorId.toLowerCase().endsWith(board.vendorId) &&
+        com.productId.toLowerCase().endsWith(board.productId)
+    );
+
+    // TODO: select com port from list when there are multiple boards connected
+    const comPort = list.length > 0 ? list[0].comName : undefined;
+    if (!comPort) {
+      throw new ResourceNotFoundError(
+        "choose COM",
+        `COM port of ${board.name}`,
+        "Please connect the board to the computer."
+      );
+    }
+    return comPort;
+  }
+
   async configDeviceEnvironment(deviceRootPath: string, scaffoldType: ScaffoldType): Promise<void> {
     if (!deviceRootPath) {
       throw new ArgumentEmptyOrNullError(
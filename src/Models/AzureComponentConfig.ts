@@ -1,15 +1,45 @@
 import * as path from "path";
 
-import { AzureComponentsStorage, ScaffoldType } from "../constants";
+import { AzureComponentsStorage, ConfigKey, ScaffoldType } from "../constants";
 import { FileUtility } from "../FileUtility";
 
 import { Component } from "./Interfaces/Component";
 import { ComponentType } from "./Interfaces/Component";
 import { AzureConfigNotFoundError } from "../common/Error/SystemErrors/AzureConfigNotFoundErrors";
+import { AzureConfigSchemaError } from "../common/Error/SystemErrors/AzureConfigSchemaError";
+import { azureConfigSchemaVersion, parseAzureConfigs, parseEnvironmentConfig } from "./AzureConfigSchema";
+import { ComponentDependencyGraph } from "./ComponentDependencyGraph";
+import {
+  applyEnvironmentConfig,
+  defaultEnvironment,
+  EnvironmentConfig,
+  getEnvironmentConfigPath,
+  getSecretScope
+} from "./ProjectEnvironment";
+import { ProvisionedResource } from "./ProvisionedResource";
+import { SecretStore } from "./SecretStore";
 
-// TODO: need to check what value should be included here
+/**
+ * Values saved after a component is provisioned. Which values are required
+ * depends on component type, see componentInfoSchemas.
+ */
+export interface ComponentInfoValues {
+  iotHubConnectionString?: string;
+  eventHubConnectionString?: string;
+  eventHubConnectionPath?: string;
+  iotHubDeviceConnectionString?: string;
+  functionLanguage?: string;
+  functionAppId?: string;
+}
+
+/**
+ * Connection strings in component info are saved to OS keychain, and only
+ * secret references are kept in azure config file. Use
+ * SecretStore.resolveComponentInfo to read them.
+ */
 export interface ComponentInfo {
-  values: { [key: string]: string };
+  values: ComponentInfoValues;
+  resource?: ProvisionedResource;
 }
 
 export enum DependencyType {
@@ -33,6 +63,7 @@ export interface AzureComponentConfig {
 }
 
 export interface AzureConfigs {
+  schemaVersion: number;
   componentConfigs: AzureComponentConfig[];
 }
 
@@ -44,18 +75,52 @@ export interface Dependency {
 export class AzureConfigFileHandler {
   private projectRootPath: string;
   private configFilePath: string;
+  private selectedEnvironment?: string;
 
-  constructor(projectRoot: string) {
+  /**
+   * @param projectRoot project root path
+   * @param environment environment to read and write component info of,
+   * active environment of the workspace by default
+   */
+  constructor(projectRoot: string, environment?: string) {
     this.projectRootPath = projectRoot;
     this.configFilePath = path.join(
       this.projectRootPath,
       AzureComponentsStorage.folderName,
       AzureComponentsStorage.fileName
     );
+    this.selectedEnvironment = environment;
+  }
+
+  private get environment(): string {
+    return this.selectedEnvironment || AzureConfigFileHandler.getActiveEnvironment();
+  }
+
+  /**
+   * Workspace configuration is only available in VS Code, the command line
+   * interface always selects the environment.
+   */
+  private static get configHandler(): typeof import("../configHandler").ConfigHandler {
+    return require("../configHandler").ConfigHandler;
+  }
+
+  /**
+   * Get active environment of the workspace.
+   */
+  static getActiveEnvironment(): string {
+    return AzureConfigFileHandler.configHandler.get<string>(ConfigKey.environment) || defaultEnvironment;
+  }
+
+  /**
+   * Set active environment of the workspace.
+   * @param environment environment name
+   */
+  static async setActiveEnvironment(environment: string): Promise<void> {
+    await AzureConfigFileHandler.configHandler.update(ConfigKey.environment, environment);
   }
 
   async createIfNotExists(type: ScaffoldType): Promise<void> {
-    const azureConfigs: AzureConfigs = { componentConfigs: [] };
+    const azureConfigs: AzureConfigs = { schemaVersion: azureConfigSchemaVersion, componentConfigs: [] };
     const azureConfigFolderPath = path.join(this.projectRootPath, AzureComponentsStorage.folderName);
     if (!(await FileUtility.directoryExists(type, azureConfigFolderPath))) {
       await FileUtility.mkdirRecursively(type, azureConfigFolderPath);
@@ -67,43 +132,137 @@ export class AzureConfigFileHandler {
     }
   }
 
+  /**
+   * Load azure config file. Files of older schema version are upgraded and
+   * saved back.
+   * Throw error pointing to the offending component if the file is malformed.
+   * @param type scaffold type
+   * @param configFilePath azure config file path
+   */
   static async loadAzureConfigs(type: ScaffoldType, configFilePath: string): Promise<AzureConfigs> {
     const azureConfigContent = await FileUtility.readFile(type, configFilePath, "utf8");
-    const azureConfigs = JSON.parse(azureConfigContent as string) as AzureConfigs;
+    let azureConfigJson;
+    try {
+      azureConfigJson = JSON.parse(azureConfigContent as string);
+    } catch (error) {
+      throw new AzureConfigSchemaError(configFilePath, [error.message]);
+    }
+
+    const { azureConfigs, migrated } = await parseAzureConfigs(azureConfigJson, configFilePath);
+    if (migrated) {
+      await FileUtility.writeJsonFile(type, configFilePath, azureConfigs);
+    }
     return azureConfigs;
   }
 
-  async getSortedComponents(type: ScaffoldType): Promise<AzureComponentConfig[]> {
+  /**
+   * Load azure configs with component info of the environment.
+   * @param type scaffold type
+   */
+  private async loadEnvironmentAzureConfigs(type: ScaffoldType): Promise<AzureConfigs> {
+    const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
+    if (this.environment === defaultEnvironment) {
+      return azureConfigs;
+    }
+    return applyEnvironmentConfig(azureConfigs, await this.loadEnvironmentConfig(type, azureConfigs));
+  }
+
+  private async loadEnvironmentConfig(type: ScaffoldType, azureConfigs: AzureConfigs): Promise<EnvironmentConfig> {
+    const environmentConfigPath = getEnvironmentConfigPath(this.projectRootPath, this.environment);
+    if (!(await FileUtility.fileExists(type, environmentConfigPath))) {
+      return { componentInfos: {} };
+    }
+
+    const environmentConfigContent = await FileUtility.readFile(type, environmentConfigPath, "utf8");
+    let environmentConfigJson;
+    try {
+      environmentConfigJson = JSON.parse(environmentConfigContent as string);
+    } catch (error) {
+      throw new AzureConfigSchemaError(environmentConfigPath, [error.message]);
+    }
+    return parseEnvironmentConfig(environmentConfigJson, environmentConfigPath, azureConfigs);
+  }
+
+  /**
+   * Save component info to the environment, with secret values in OS
+   * keychain.
+   * @param type scaffold type
+   * @param azureConfigs azure configs loaded from azure config file
+   * @param component component config in azureConfigs
+   * @param componentInfo component info to save
+   */
+  private async saveComponentInfo(
+    type: ScaffoldType,
+    azureConfigs: AzureConfigs,
+    component: AzureComponentConfig,
+    componentInfo: ComponentInfo
+  ): Promise<void> {
+    const protectedInfo = await SecretStore.protectComponentInfo(
+      getSecretScope(component.id, this.environment),
+      componentInfo
+    );
+    if (this.environment === defaultEnvironment) {
+      component.componentInfo = protectedInfo;
+      await FileUtility.writeJsonFile(type, this.configFilePath, azureConfigs);
+      return;
+    }
+
+    const environmentConfig = await this.loadEnvironmentConfig(type, azureConfigs);
+    environmentConfig.componentInfos[component.id] = protectedInfo;
+    await this.saveEnvironmentConfig(type, environmentConfig);
+  }
+
+  private async saveEnvironmentConfig(type: ScaffoldType, environmentConfig: EnvironmentConfig): Promise<void> {
+    const environmentConfigPath = getEnvironmentConfigPath(this.projectRootPath, this.environment);
+    const environmentsFolderPath = path.dirname(environmentConfigPath);
+    if (!(await FileUtility.directoryExists(type, environmentsFolderPath))) {
+      await FileUtility.mkdirRecursively(type, environmentsFolderPath);
+    }
+    await FileUtility.writeJsonFile(type, environmentConfigPath, environmentConfig);
+  }
+
+  /**
+   * Remove component info of the component from the environment, and delete
+   * its secrets from OS keychain.
+   * @param type scaffold type
+   * @param id component id
+   */
+  async clearComponentInfo(type: ScaffoldType, id: string): Promise<void> {
     const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
-    const components: AzureComponentConfig[] = [];
-    const componentConfigs = azureConfigs.componentConfigs;
-    const sortedComponentIds: string[] = [];
-    let lastSortedCount = 0;
-
-    do {
-      lastSortedCount = components.length;
-      for (const componentConfig of componentConfigs) {
-        if (sortedComponentIds.indexOf(componentConfig.id) > -1) {
-          continue;
-        }
-
-        let hold = false;
-        for (const dependency of componentConfig.dependencies) {
-          if (sortedComponentIds.indexOf(dependency.id) === -1) {
-            hold = true;
-            break;
-          }
-        }
-
-        if (hold) {
-          continue;
-        }
-
-        sortedComponentIds.push(componentConfig.id);
-        components.push(componentConfig);
+    const component = azureConfigs.componentConfigs.find(config => config.id === id);
+    if (!component) {
+      throw new AzureConfigNotFoundError(`component of config id ${id}`);
+    }
+
+    const environmentConfig =
+      this.environment === defaultEnvironment ? undefined : await this.loadEnvironmentConfig(type, azureConfigs);
+    const componentInfo = environmentConfig ? environmentConfig.componentInfos[id] : component.componentInfo;
+    if (!componentInfo) {
+      return;
+    }
+
+    for (const value of Object.values(componentInfo.values)) {
+      if (value) {
+        await SecretStore.delete(value);
       }
-    } while (lastSortedCount < componentConfigs.length && lastSortedCount < components.length);
-    return components;
+    }
+    if (environmentConfig) {
+      delete environmentConfig.componentInfos[id];
+      await this.saveEnvironmentConfig(type, environmentConfig);
+    } else {
+      delete component.componentInfo;
+      await FileUtility.writeJsonFile(type, this.configFilePath, azureConfigs);
+    }
+  }
+
+  /**
+   * Build dependency graph of the components in azure config file.
+   * Throw error if any dependency is missing, duplicate or circular.
+   * @param type scaffold type
+   */
+  async getDependencyGraph(type: ScaffoldType): Promise<ComponentDependencyGraph> {
+    const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
+    return ComponentDependencyGraph.build(azureConfigs.componentConfigs);
   }
 
   async getComponentIndexById(type: ScaffoldType, id: string): Promise<number> {
@@ -113,16 +272,20 @@ export class AzureConfigFileHandler {
   }
 
   async getComponentById(type: ScaffoldType, id: string): Promise<AzureComponentConfig | undefined> {
-    const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
+    const azureConfigs = await this.loadEnvironmentAzureConfigs(type);
     const componentConfig = azureConfigs.componentConfigs.find(config => config.id === id);
     return componentConfig;
   }
 
   async appendComponent(type: ScaffoldType, component: AzureComponentConfig): Promise<AzureConfigs> {
     const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
-    azureConfigs.componentConfigs.push(component);
+    const { componentInfo, ...componentConfig } = component;
+    azureConfigs.componentConfigs.push(componentConfig);
     await FileUtility.writeJsonFile(type, this.configFilePath, azureConfigs);
-    return azureConfigs;
+    if (componentInfo) {
+      await this.saveComponentInfo(type, azureConfigs, componentConfig, componentInfo);
+    }
+    return this.loadEnvironmentAzureConfigs(type);
   }
 
   async updateComponent(type: ScaffoldType, index: number, componentInfo: ComponentInfo): Promise<AzureConfigs> {
@@ -131,22 +294,21 @@ export class AzureConfigFileHandler {
     if (!component) {
       throw new AzureConfigNotFoundError(`component of config index ${index}`);
     }
-    component.componentInfo = componentInfo;
-    await FileUtility.writeJsonFile(type, this.configFilePath, azureConfigs);
-    return azureConfigs;
+    await this.saveComponentInfo(type, azureConfigs, component, componentInfo);
+    return this.loadEnvironmentAzureConfigs(type);
   }
 
   async getComponentByType(
     type: ScaffoldType,
     componentType: ComponentType
   ): Promise<AzureComponentConfig | undefined> {
-    const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
+    const azureConfigs = await this.loadEnvironmentAzureConfigs(type);
     const componentConfig = azureConfigs.componentConfigs.find(config => config.type === componentType);
     return componentConfig;
   }
 
   async getComponentByFolder(type: ScaffoldType, folder: string): Promise<AzureComponentConfig | undefined> {
-    const azureConfigs = await AzureConfigFileHandler.loadAzureConfigs(type, this.configFilePath);
+    const azureConfigs = await this.loadEnvironmentAzureConfigs(type);
     const componentConfig = azureConfigs.componentConfigs.find(config => config.folder === folder);
     return componentConfig;
   }
@@ -0,0 +1,185 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as path from "path";
+
+import { OperationCanceledError } from "../common/Error/OperationCanceledError";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+import { WorkspaceConfigNotFoundError } from "../common/Error/SystemErrors/WorkspaceConfigNotFoundError";
+import { ConfigKey } from "../constants";
+
+import { AzureComponentConfig, DependencyType } from "./AzureComponentConfig";
+import { AzureFunctions } from "./AzureFunctions";
+import { AzureProvisionClient } from "./AzureProvisionClient";
+import { Component, ComponentType } from "./Interfaces/Component";
+import { Deployable } from "./Interfaces/Deployable";
+import { Provisionable, UnattendedProvision } from "./Interfaces/Provisionable";
+import { UserInterface } from "./Interfaces/UserInterface";
+import { IoTHub } from "./IoTHub";
+import { IoTHubDevice } from "./IoTHubDevice";
+
+// Azure components of a project and the provision and deploy steps shared by
+// the extension and the command line interface.
+
+/**
+ * Load Azure components from configs in azure config file.
+ * @param projectRootPath project root path
+ * @param componentConfigs azure component configs in dependency order
+ * @param ui prompts and output of the components
+ * @param functionPath function app folder relative to project root
+ * @param environment environment of the components, active environment of
+ * the workspace by default
+ */
+export async function loadAzureComponents(
+  projectRootPath: string,
+  componentConfigs: AzureComponentConfig[],
+  ui: UserInterface,
+  functionPath: string | undefined,
+  environment?: string
+): Promise<Component[]> {
+  const components: Component[] = [];
+  for (const componentConfig of componentConfigs) {
+    switch (componentConfig.type) {
+      case ComponentType.IoTHub: {
+        const iotHub = new IoTHub(projectRootPath, ui, environment);
+        await iotHub.load();
+        components.push(iotHub);
+
+        const iothubDevice = new IoTHubDevice(
+          projectRootPath,
+          ui,
+          [
+            {
+              component: iotHub,
+              type: DependencyType.Input
+            }
+          ],
+          environment
+        );
+        await iothubDevice.load();
+        components.push(iothubDevice);
+
+        break;
+      }
+      case ComponentType.IoTHubDevice: {
+        break;
+      }
+      case ComponentType.AzureFunctions: {
+        if (!functionPath) {
+          throw new WorkspaceConfigNotFoundError(ConfigKey.functionPath);
+        }
+
+        const functionLocation = path.join(projectRootPath, functionPath);
+        const functionApp = new AzureFunctions(
+          projectRootPath,
+          functionLocation,
+          functionPath,
+          ui,
+          null,
+          null,
+          environment
+        );
+        await functionApp.load();
+        components.push(functionApp);
+        break;
+      }
+      default: {
+        throw new TypeNotSupportedError("component type", `${componentConfig.type}`);
+      }
+    }
+  }
+  return components;
+}
+
+/**
+ * Provision components with answers in provision manifest, without
+ * prompting. Stop at the first failure, and report result of each component.
+ * @param provisionItems components to provision, in dependency order
+ * @param unattended answers and client of unattended provision
+ * @param ui output of provision
+ */
+export async function provisionWithManifest(
+  provisionItems: Array<Component & Provisionable>,
+  unattended: UnattendedProvision,
+  ui: UserInterface
+): Promise<boolean> {
+  const { manifest, client } = unattended;
+  await client.ensureResourceGroup(manifest.location);
+  ui.appendLine(
+    `Provision to resource group ${manifest.resourceGroup} of subscription ${manifest.subscriptionId} \
+without prompting.`
+  );
+
+  const summary: string[] = [];
+  let failure: Error | undefined;
+  for (const item of provisionItems) {
+    if (failure) {
+      summary.push(`${item.name}: skipped`);
+      continue;
+    }
+    try {
+      await item.provision(unattended);
+      summary.push(`${item.name}: succeeded`);
+    } catch (error) {
+      failure = error;
+      summary.push(`${item.name}: failed. ${error.message}`);
+    }
+  }
+
+  ui.appendLine("Provision summary:");
+  summary.forEach(line => ui.appendLine(`  ${line}`));
+  if (failure) {
+    throw failure;
+  }
+  return true;
+}
+
+/**
+ * Deploy components in dependency order. Each step is confirmed when the
+ * dependent extensions deploy, and deployment with the client runs without
+ * prompting.
+ * @param deployItems components to deploy, in dependency order
+ * @param ui prompts and output of deployment
+ * @param client client of the subscription to deploy to
+ */
+export async function deployComponents(
+  deployItems: Array<Component & Deployable>,
+  ui: UserInterface,
+  client?: AzureProvisionClient
+): Promise<void> {
+  const deployItemList = deployItems.map(item => item.name);
+  for (const item of deployItems) {
+    if (!client) {
+      const _deployItemList: string[] = [];
+      for (let i = 0; i < deployItemList.length; i++) {
+        if (deployItemList[i] === item.name) {
+          _deployItemList[i] = `>> ${i + 1}. ${deployItemList[i]}`;
+        } else {
+          _deployItemList[i] = `${i + 1}. ${deployItemList[i]}`;
+        }
+      }
+      const selection = await ui.showQuickPick(
+        [
+          {
+            label: _deployItemList.join("   -   "),
+            description: "",
+            detail: "Click to continue"
+          }
+        ],
+        { ignoreFocusOut: true, placeHolder: "Deploy process" }
+      );
+
+      if (!selection) {
+        throw new OperationCanceledError(`Component deployment cancelled.`);
+      }
+    }
+
+    const res = await item.deploy(client);
+    if (!res) {
+      throw new OperationFailedError("deploy iot workbench project", `Failed to deploy component ${item.name}`, "");
+    }
+  }
+
+  ui.showInformationMessage("Azure deploy succeeded.");
+}
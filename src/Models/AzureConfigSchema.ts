@@ -0,0 +1,244 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as Ajv from "ajv";
+
+import { AzureConfigSchemaError } from "../common/Error/SystemErrors/AzureConfigSchemaError";
+
+import { AzureConfigs, ComponentInfo } from "./AzureComponentConfig";
+import { ComponentType } from "./Interfaces/Component";
+import { defaultEnvironment, EnvironmentConfig, getSecretScope } from "./ProjectEnvironment";
+import { SecretStore, secretValueKeys } from "./SecretStore";
+
+type JsonObject = { [key: string]: unknown };
+type Migration = (azureConfigs: JsonObject) => JsonObject | Promise<JsonObject>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrade azure configs written before schema version was introduced. Those
+ * files may omit folder and dependencies of a component.
+ */
+function migrateFromVersion1(azureConfigs: JsonObject): JsonObject {
+  const componentConfigs = Array.isArray(azureConfigs.componentConfigs) ? azureConfigs.componentConfigs : [];
+  return {
+    ...azureConfigs,
+    componentConfigs: componentConfigs.map(componentConfig =>
+      isObject(componentConfig) ? { folder: "", dependencies: [], ...componentConfig } : componentConfig
+    )
+  };
+}
+
+/**
+ * Move connection strings saved in plain text before OS keychain was used
+ * into the keychain, and keep references to them instead. Environments were
+ * introduced after that, so only component info in azure config file itself
+ * is migrated.
+ */
+async function migrateFromVersion2(azureConfigs: JsonObject): Promise<JsonObject> {
+  const componentConfigs = Array.isArray(azureConfigs.componentConfigs) ? azureConfigs.componentConfigs : [];
+  const migratedConfigs: unknown[] = [];
+  for (const componentConfig of componentConfigs) {
+    const componentInfo = isObject(componentConfig) ? componentConfig.componentInfo : undefined;
+    const values = isObject(componentInfo) ? componentInfo.values : undefined;
+    // malformed component info is left to validation
+    if (
+      !isObject(componentConfig) ||
+      typeof componentConfig.id !== "string" ||
+      !isObject(values) ||
+      secretValueKeys.some(key => values[key] !== undefined && typeof values[key] !== "string")
+    ) {
+      migratedConfigs.push(componentConfig);
+      continue;
+    }
+    migratedConfigs.push({
+      ...componentConfig,
+      componentInfo: await SecretStore.protectComponentInfo(
+        getSecretScope(componentConfig.id, defaultEnvironment),
+        componentInfo as ComponentInfo
+      )
+    });
+  }
+  return { ...azureConfigs, componentConfigs: migratedConfigs };
+}
+
+// Migration at index i upgrades azure configs of schema version i + 1 to i + 2.
+const migrations: Migration[] = [migrateFromVersion1, migrateFromVersion2];
+
+export const azureConfigSchemaVersion = migrations.length + 1;
+
+const provisionedResourceSchema = {
+  type: "object",
+  required: ["id", "created"],
+  properties: { id: { type: "string", minLength: 1 }, created: { type: "boolean" } }
+};
+
+function stringValues(required: string[], optional: string[] = []): object {
+  const properties: { [key: string]: object } = {};
+  required.concat(optional).forEach(key => (properties[key] = { type: "string", minLength: 1 }));
+  return {
+    type: "object",
+    required: ["values"],
+    properties: {
+      values: { type: "object", required, properties, additionalProperties: { type: "string" } },
+      resource: provisionedResourceSchema
+    }
+  };
+}
+
+/**
+ * JSON schema of componentInfo for each component type. Component info is
+ * only written after the component is provisioned, so it stays optional.
+ */
+export const componentInfoSchemas: { [type in ComponentType]: object } = {
+  [ComponentType.Device]: stringValues([]),
+  [ComponentType.IoTHub]: stringValues([
+    "iotHubConnectionString",
+    "eventHubConnectionString",
+    "eventHubConnectionPath"
+  ]),
+  [ComponentType.IoTHubDevice]: stringValues(["iotHubConnectionString", "iotHubDeviceConnectionString"]),
+  [ComponentType.AzureFunctions]: stringValues(["functionLanguage"], ["functionAppId"])
+};
+
+const azureConfigsSchema = {
+  type: "object",
+  required: ["schemaVersion", "componentConfigs"],
+  properties: {
+    schemaVersion: { type: "integer", minimum: 1 },
+    componentConfigs: { type: "array" }
+  }
+};
+
+const componentConfigSchema = {
+  type: "object",
+  required: ["id", "type", "name", "folder", "dependencies"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    type: { enum: Object.values(ComponentType) },
+    name: { type: "string" },
+    folder: { type: "string" },
+    dependencies: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["id", "type"],
+        properties: { id: { type: "string", minLength: 1 }, type: { type: "integer", minimum: 0, maximum: 2 } }
+      }
+    },
+    componentInfo: { type: "object" }
+  }
+};
+
+const ajv = new Ajv({ allErrors: true });
+const validateAzureConfigs = ajv.compile(azureConfigsSchema);
+const validateComponentConfig = ajv.compile(componentConfigSchema);
+const validateComponentInfo: { [type: string]: Ajv.ValidateFunction } = {};
+for (const type of Object.values(ComponentType)) {
+  validateComponentInfo[type] = ajv.compile(componentInfoSchemas[type]);
+}
+
+function describeErrors(subject: string, errors: Ajv.ErrorObject[] | null | undefined, pathPrefix = ""): string[] {
+  return (errors || []).map(error => {
+    const property = `${pathPrefix}${error.dataPath}`.replace(/^\./, "");
+    const allowedValues = (error.params as Ajv.EnumParams).allowedValues;
+    const detail = allowedValues ? ` ${allowedValues.map(value => `"${value}"`).join(", ")}` : "";
+    return `${subject}: ${property ? `"${property}" ` : ""}${error.message}${detail}.`;
+  });
+}
+
+function describeComponent(componentConfig: unknown, index: number): string {
+  if (isObject(componentConfig) && typeof componentConfig.id === "string") {
+    return `Component ${componentConfig.name} (id ${componentConfig.id})`;
+  }
+  return `Component at index ${index}`;
+}
+
+/**
+ * Upgrade azure configs of older schema version, and validate them against
+ * the schema of their component types.
+ * @param json parsed content of azure config file
+ * @param filePath azure config file path, used in error messages
+ * @returns validated azure configs, and whether any migration was applied
+ */
+export async function parseAzureConfigs(
+  json: unknown,
+  filePath: string
+): Promise<{ azureConfigs: AzureConfigs; migrated: boolean }> {
+  if (!isObject(json)) {
+    throw new AzureConfigSchemaError(filePath, ["Azure configuration should be an object."]);
+  }
+
+  const version = json.schemaVersion === undefined ? 1 : json.schemaVersion;
+  if (typeof version === "number" && version > azureConfigSchemaVersion) {
+    throw new AzureConfigSchemaError(filePath, [
+      `Schema version ${version} is newer than supported version ${azureConfigSchemaVersion}. \
+Please update the extension.`
+    ]);
+  }
+
+  let upgraded = json;
+  if (typeof version === "number" && Number.isInteger(version) && version >= 1) {
+    for (let i = version - 1; i < migrations.length; i++) {
+      upgraded = await migrations[i](upgraded);
+    }
+    upgraded.schemaVersion = azureConfigSchemaVersion;
+  }
+
+  if (!validateAzureConfigs(upgraded)) {
+    throw new AzureConfigSchemaError(filePath, describeErrors("Azure configuration", validateAzureConfigs.errors));
+  }
+
+  const problems: string[] = [];
+  (upgraded.componentConfigs as unknown[]).forEach((componentConfig, index) => {
+    const subject = describeComponent(componentConfig, index);
+    if (!validateComponentConfig(componentConfig)) {
+      problems.push(...describeErrors(subject, validateComponentConfig.errors));
+      return;
+    }
+
+    const { type, componentInfo } = componentConfig as JsonObject;
+    const validateInfo = validateComponentInfo[type as string];
+    if (componentInfo !== undefined && !validateInfo(componentInfo)) {
+      problems.push(...describeErrors(subject, validateInfo.errors, "componentInfo"));
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new AzureConfigSchemaError(filePath, problems);
+  }
+  return { azureConfigs: (upgraded as unknown) as AzureConfigs, migrated: version !== azureConfigSchemaVersion };
+}
+
+/**
+ * Validate component info of an environment against the schema of the
+ * component types in azure config file.
+ * @param json parsed content of environment config file
+ * @param filePath environment config file path, used in error messages
+ * @param azureConfigs azure configs the environment belongs to
+ */
+export function parseEnvironmentConfig(json: unknown, filePath: string, azureConfigs: AzureConfigs): EnvironmentConfig {
+  if (!isObject(json) || !isObject(json.componentInfos)) {
+    throw new AzureConfigSchemaError(filePath, [`"componentInfos" should be an object.`]);
+  }
+
+  const problems: string[] = [];
+  for (const [componentId, componentInfo] of Object.entries(json.componentInfos)) {
+    const componentConfig = azureConfigs.componentConfigs.find(config => config.id === componentId);
+    if (!componentConfig) {
+      problems.push(`Component id ${componentId} is not found in Azure configuration.`);
+      continue;
+    }
+    const validateInfo = validateComponentInfo[componentConfig.type];
+    if (!validateInfo(componentInfo)) {
+      problems.push(...describeErrors(describeComponent(componentConfig, 0), validateInfo.errors, "componentInfo"));
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new AzureConfigSchemaError(filePath, problems);
+  }
+  return (json as unknown) as EnvironmentConfig;
+}
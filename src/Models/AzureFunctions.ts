@@ -1,20 +1,16 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 import * as path from "path";
-import * as vscode from "vscode";
+import { QuickPickItem } from "vscode";
 
-import * as utils from "../utils";
-import WebSiteManagementClient = require("azure-arm-website");
 import { Component, ComponentType } from "./Interfaces/Component";
-import { Provisionable } from "./Interfaces/Provisionable";
+import { Provisionable, UnattendedProvision } from "./Interfaces/Provisionable";
 import { Deployable } from "./Interfaces/Deployable";
+import { Deprovisionable } from "./Interfaces/Deprovisionable";
+import { UserInterface } from "./Interfaces/UserInterface";
 
 import { AzureFunctionsLanguage, ScaffoldType } from "../constants";
 
-import { ServiceClientCredentials } from "ms-rest";
-import { AzureAccount, AzureResourceFilter } from "../azure-account.api";
-import { StringDictionary } from "azure-arm-website/lib/models";
-import { getExtension, checkExtensionAvailable } from "./Apis";
 import { ExtensionName } from "./Interfaces/Api";
 import { Guid } from "guid-typescript";
 import {
@@ -30,17 +26,30 @@ import { OperationCanceledError } from "../common/Error/OperationCanceledError";
 import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
 import { DependentExtensionNotFoundError } from "../common/Error/OperationFailedErrors/DependentExtensionNotFoundError";
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
 import { AzureConfigNotFoundError } from "../common/Error/SystemErrors/AzureConfigNotFoundErrors";
-
-const impor = require("impor")(__dirname);
-const azureUtilityModule = impor("./AzureUtility") as typeof import("./AzureUtility");
-
-export class AzureFunctions implements Component, Provisionable, Deployable {
+import { keepOwnership, ProvisionedResource } from "./ProvisionedResource";
+import { getManifestSection } from "./ProvisionManifest";
+import { diffSettings, ProvisionPlanItem } from "./ProvisionPlan";
+import {
+  AzureProvisionClient,
+  getFunctionAppSettingValues,
+  IoTHubConnectionInfo,
+  parseFunctionAppId
+} from "./AzureProvisionClient";
+import { SecretStore } from "./SecretStore";
+import { loadApis, loadAzureUtility, loadUtils, loadVSCode } from "./VSCodeModules";
+
+const constants = {
+  functionAppApiVersion: "2018-02-01",
+  csharpLibraryPublishPath: "bin/Release/netcoreapp2.1/publish"
+};
+
+export class AzureFunctions implements Component, Provisionable, Deprovisionable, Deployable {
   dependencies: DependencyConfig[] = [];
   private componentType: ComponentType;
-  private channel: vscode.OutputChannel;
+  private ui: UserInterface;
   private azureFunctionsPath: string;
-  private azureAccountExtension: AzureAccount | undefined = getExtension(ExtensionName.AzureAccount);
   private functionLanguage: string | null;
   private functionFolder: string;
   private projectRootPath: string;
@@ -50,42 +59,33 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
     return this.componentId;
   }
 
-  private async getCredentialFromSubscriptionId(subscriptionId: string): Promise<ServiceClientCredentials | undefined> {
-    if (!this.azureAccountExtension) {
-      throw new DependentExtensionNotFoundError("get credential from subscription id", ExtensionName.AzureAccount);
-    }
-
-    if (!subscriptionId) {
-      throw new ArgumentEmptyOrNullError("get credential from subscription id", "subscription ID");
-    }
-
-    const subscriptions: AzureResourceFilter[] = this.azureAccountExtension.filters;
-    for (let i = 0; i < subscriptions.length; i++) {
-      const subscription: AzureResourceFilter = subscriptions[i];
-      if (subscription.subscription.subscriptionId === subscriptionId) {
-        return subscription.session.credentials;
-      }
-    }
-
-    return undefined;
-  }
-
+  /**
+   * @param projectRoot project root path
+   * @param azureFunctionsPath function app folder path
+   * @param functionFolder function app folder relative to project root
+   * @param ui prompts and output of the component
+   * @param language function language, selected on create if not given
+   * @param dependencyComponents IoT Hub the functions are triggered by
+   * @param environment environment to provision and deploy, active
+   * environment of the workspace by default
+   */
   constructor(
     projectRoot: string,
     azureFunctionsPath: string,
     functionFolder: string,
-    channel: vscode.OutputChannel,
+    ui: UserInterface,
     language: string | null = null,
-    dependencyComponents: Dependency[] | null = null
+    dependencyComponents: Dependency[] | null = null,
+    environment?: string
   ) {
     this.componentType = ComponentType.AzureFunctions;
-    this.channel = channel;
+    this.ui = ui;
     this.azureFunctionsPath = azureFunctionsPath;
     this.functionLanguage = language;
     this.functionFolder = functionFolder;
     this.componentId = Guid.create().toString();
     this.projectRootPath = projectRoot;
-    this.azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath);
+    this.azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath, environment);
     if (dependencyComponents && dependencyComponents.length > 0) {
       dependencyComponents.forEach(dependency =>
         this.dependencies.push({
@@ -103,7 +103,7 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
   }
 
   static async isAvailable(): Promise<boolean> {
-    return await checkExtensionAvailable(ExtensionName.AzureFunctions);
+    return await loadApis().checkExtensionAvailable(ExtensionName.AzureFunctions);
   }
 
   async checkPrerequisites(operation: string): Promise<void> {
@@ -122,7 +122,7 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
       this.componentId = componentConfig.id;
       this.dependencies = componentConfig.dependencies;
       if (componentConfig.componentInfo) {
-        this.functionLanguage = componentConfig.componentInfo.values.functionLanguage;
+        this.functionLanguage = componentConfig.componentInfo.values.functionLanguage || null;
       }
     }
   }
@@ -136,13 +136,13 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
     }
 
     if (!this.functionLanguage) {
-      const picks: vscode.QuickPickItem[] = [
+      const picks: QuickPickItem[] = [
         { label: AzureFunctionsLanguage.CSharpScript, description: "" },
         { label: AzureFunctionsLanguage.JavaScript, description: "" },
         { label: AzureFunctionsLanguage.CSharpLibrary, description: "" }
       ];
 
-      const languageSelection = await vscode.window.showQuickPick(picks, {
+      const languageSelection = await this.ui.showQuickPick(picks, {
         ignoreFocusOut: true,
         matchOnDescription: true,
         matchOnDetail: true,
@@ -157,13 +157,14 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
       this.functionLanguage = languageSelection.label;
     }
 
-    const templateName = utils.getScriptTemplateNameFromLanguage(this.functionLanguage);
+    const templateName = loadUtils().getScriptTemplateNameFromLanguage(this.functionLanguage);
     if (!templateName) {
       throw new OperationCanceledError(
         "Unable to get the template for Azure Functions.Creating project for Azure Functions cancelled."
       );
     }
 
+    const vscode = loadVSCode();
     if (this.functionLanguage === AzureFunctionsLanguage.CSharpLibrary) {
       await vscode.commands.executeCommand(
         AzureFunctionsCommands.CreateNewProject,
@@ -202,22 +203,34 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
     });
   }
 
-  async provision(): Promise<boolean> {
-    const subscriptionId = azureUtilityModule.AzureUtility.subscriptionId;
-    if (!subscriptionId) {
-      return false;
-    }
+  async provision(unattended?: UnattendedProvision): Promise<boolean> {
+    let client: AzureProvisionClient;
+    let functionAppId: string | undefined;
+    let extraAppSettings: { [key: string]: string } | undefined;
+    if (unattended) {
+      const functionAppManifest = getManifestSection(unattended.manifest, "functionApp");
+      client = unattended.client;
+      functionAppId = functionAppManifest.functionAppId || client.getFunctionAppId(functionAppManifest.name as string);
+      extraAppSettings = functionAppManifest.appSettings;
+    } else {
+      const { AzureUtility } = loadAzureUtility();
+      const subscriptionId = AzureUtility.subscriptionId;
+      if (!subscriptionId) {
+        return false;
+      }
 
-    let resourceGroup = azureUtilityModule.AzureUtility.resourceGroup;
-    if (!resourceGroup) {
-      return false;
-    }
+      const resourceGroup = AzureUtility.resourceGroup;
+      if (!resourceGroup) {
+        return false;
+      }
 
-    const functionAppId: string | undefined = await vscode.commands.executeCommand<string>(
-      AzureFunctionsCommands.CreateFunctionApp,
-      subscriptionId,
-      resourceGroup
-    );
+      functionAppId = await loadVSCode().commands.executeCommand<string>(
+        AzureFunctionsCommands.CreateFunctionApp,
+        subscriptionId,
+        resourceGroup
+      );
+      client = AzureUtility.getProvisionClient();
+    }
     if (!functionAppId) {
       throw new OperationFailedError("create function application", "Please check the error log in output window.", "");
     }
@@ -231,13 +244,11 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
     if (!componentConfig.componentInfo) {
       throw new AzureConfigNotFoundError(`componentInfo of config id ${iotHubId}`);
     }
-    const iotHubConnectionString = componentConfig.componentInfo.values.iotHubConnectionString;
+    const { values } = await SecretStore.resolveComponentInfo(componentConfig.componentInfo);
+    const { iotHubConnectionString, eventHubConnectionString, eventHubConnectionPath } = values;
     if (!iotHubConnectionString) {
       throw new AzureConfigNotFoundError(`iothubConnectionString of config id ${iotHubId}`);
     }
-    const eventHubConnectionString = componentConfig.componentInfo.values.eventHubConnectionString;
-    const eventHubConnectionPath = componentConfig.componentInfo.values.eventHubConnectionPath;
-
     if (!eventHubConnectionString) {
       throw new AzureConfigNotFoundError(`eventHubConnectionString of config id ${iotHubId}`);
     }
@@ -245,62 +256,110 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
       throw new AzureConfigNotFoundError(`evenHubConnectionPath of config id ${iotHubId}`);
     }
 
-    const credential = await this.getCredentialFromSubscriptionId(subscriptionId);
-    if (!credential) {
-      throw new OperationFailedError("get credential from subscription id", "", "");
-    }
-
-    const resourceGroupMatches = functionAppId.match(/\/resourceGroups\/([^\/]*)/);
-    if (!resourceGroupMatches || resourceGroupMatches.length < 2) {
-      throw new OperationFailedError(`parse resource group from function app ID ${functionAppId}`, "", "");
-    }
-    resourceGroup = resourceGroupMatches[1];
-
-    const siteNameMatches = functionAppId.match(/\/sites\/([^\/]*)/);
-    if (!siteNameMatches || siteNameMatches.length < 2) {
-      throw new OperationFailedError(`parse function app name from function app ID ${functionAppId}`, "", "");
-    }
-    const siteName = siteNameMatches[1];
-
-    const client = new WebSiteManagementClient(credential, subscriptionId);
-    console.log(resourceGroup, siteName);
-    const appSettings: StringDictionary = await client.webApps.listApplicationSettings(resourceGroup, siteName);
-    console.log(appSettings);
-    appSettings.properties = appSettings.properties || {};
-
-    // for c# library, use the default setting of ~2.
-    if (this.functionLanguage !== (AzureFunctionsLanguage.CSharpLibrary as string)) {
-      appSettings.properties["FUNCTIONS_EXTENSION_VERSION"] = "~1";
-    } else {
-      appSettings.properties["FUNCTIONS_EXTENSION_VERSION"] = "~2";
-    }
-    appSettings.properties["eventHubConnectionString"] = eventHubConnectionString || "";
-    appSettings.properties["eventHubConnectionPath"] = eventHubConnectionPath || "";
-    appSettings.properties["iotHubConnectionString"] = iotHubConnectionString || "";
-    // see detail:
-    // https://github.com/Microsoft/vscode-iot-workbench/issues/436
-    appSettings.properties["WEBSITE_RUN_FROM_PACKAGE"] = "0";
-
-    await client.webApps.updateApplicationSettings(resourceGroup, siteName, appSettings);
+    await client.updateFunctionAppSettings(
+      functionAppId,
+      this.functionLanguage || undefined,
+      { iotHubConnectionString, eventHubConnectionString, eventHubConnectionPath },
+      extraAppSettings
+    );
 
     if (this.functionLanguage) {
+      // Function app in provision manifest should exist before provision
       await this.updateConfigSettings(scaffoldType, {
         values: {
           functionLanguage: this.functionLanguage,
           functionAppId
-        }
+        },
+        resource: keepOwnership(await this.getRecordedResource(), { id: functionAppId, created: !unattended })
       });
     }
 
     return true;
   }
 
-  async deploy(): Promise<boolean> {
+  async plan(unattended?: UnattendedProvision): Promise<ProvisionPlanItem[]> {
+    if (!unattended) {
+      const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+      const functionAppId =
+        componentConfig && componentConfig.componentInfo
+          ? componentConfig.componentInfo.values.functionAppId
+          : undefined;
+      return [
+        {
+          component: this.name,
+          resource: functionAppId ? `function app ${parseFunctionAppId(functionAppId).siteName}` : "function app",
+          action: "prompt",
+          changes: []
+        }
+      ];
+    }
+
+    const { manifest, client } = unattended;
+    const functionAppManifest = getManifestSection(manifest, "functionApp");
+    const functionAppId =
+      functionAppManifest.functionAppId || client.getFunctionAppId(functionAppManifest.name as string);
+    const item: ProvisionPlanItem = {
+      component: this.name,
+      resource: `function app ${parseFunctionAppId(functionAppId).siteName}`,
+      action: "reuse",
+      changes: []
+    };
+    const currentAppSettings = await client.findFunctionAppSettings(functionAppId);
+    if (!currentAppSettings) {
+      item.error = "Function app does not exist. Please create it before provision.";
+      return [item];
+    }
+
+    // Connection strings of an IoT Hub to be created are only known after provision
+    const iotHubManifest = getManifestSection(manifest, "iotHub");
+    const iotHub = await client.findIoTHub(iotHubManifest.name);
+    const newIoTHubValue = `(from new IoT Hub ${iotHubManifest.name})`;
+    const iotHubInfo: IoTHubConnectionInfo = iotHub
+      ? iotHub.connectionInfo
+      : {
+          iotHubConnectionString: newIoTHubValue,
+          eventHubConnectionString: newIoTHubValue,
+          eventHubConnectionPath: newIoTHubValue
+        };
+    const appSettings = getFunctionAppSettingValues(
+      this.functionLanguage || undefined,
+      iotHubInfo,
+      functionAppManifest.appSettings
+    );
+    item.changes = diffSettings(currentAppSettings, appSettings);
+    if (item.changes.length > 0) {
+      item.action = "change";
+    }
+    return [item];
+  }
+
+  async getProvisionedResource(): Promise<{ description: string; resource?: ProvisionedResource } | undefined> {
+    const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+    const componentInfo = componentConfig && componentConfig.componentInfo;
+    if (!componentInfo || !componentInfo.values.functionAppId) {
+      return undefined;
+    }
+    const { siteName } = parseFunctionAppId(componentInfo.values.functionAppId);
+    return { description: `function app ${siteName}`, resource: componentInfo.resource };
+  }
+
+  async deprovision(resource: ProvisionedResource): Promise<void> {
+    this.ui.appendLine(`Deleting function app ${resource.id}...`);
+    await loadAzureUtility().AzureUtility.deleteResource(resource.id, constants.functionAppApiVersion);
+  }
+
+  private async getRecordedResource(): Promise<ProvisionedResource | undefined> {
+    const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+    return componentConfig && componentConfig.componentInfo ? componentConfig.componentInfo.resource : undefined;
+  }
+
+  async deploy(client?: AzureProvisionClient): Promise<boolean> {
     let deployPending: NodeJS.Timer | null = null;
-    if (this.channel) {
-      utils.channelShowAndAppendLine(this.channel, "Deploying Azure Functions App...");
+    this.ui.appendLine("Deploying Azure Functions App...");
+    const channel = this.ui.channel;
+    if (channel) {
       deployPending = setInterval(() => {
-        this.channel.append(".");
+        channel.append(".");
       }, 1000);
     }
 
@@ -314,19 +373,32 @@ export class AzureFunctions implements Component, Provisionable, Deployable {
         throw new AzureConfigNotFoundError(`componentInfo of config id ${this.id}`);
       }
       const functionAppId = componentConfig.componentInfo.values.functionAppId;
-      if (this.functionLanguage !== (AzureFunctionsLanguage.CSharpLibrary as string)) {
-        await vscode.commands.executeCommand(AzureFunctionsCommands.Deploy, azureFunctionsPath, functionAppId);
+      const deployPath =
+        this.functionLanguage !== (AzureFunctionsLanguage.CSharpLibrary as string)
+          ? azureFunctionsPath
+          : path.join(azureFunctionsPath, constants.csharpLibraryPublishPath);
+      if (client) {
+        if (!functionAppId) {
+          throw new AzureConfigNotFoundError(`functionAppId of config id ${this.id}`);
+        }
+        if (!(await FileUtility.directoryExists(ScaffoldType.Workspace, deployPath))) {
+          throw new DirectoryNotFoundError(
+            "deploy Azure Functions",
+            deployPath,
+            "Please build the function app first."
+          );
+        }
+        await client.zipDeployFunctionApp(functionAppId, deployPath);
       } else {
-        const subPath = path.join(azureFunctionsPath, "bin/Release/netcoreapp2.1/publish");
-        await vscode.commands.executeCommand(AzureFunctionsCommands.Deploy, subPath, functionAppId);
+        await loadVSCode().commands.executeCommand(AzureFunctionsCommands.Deploy, deployPath, functionAppId);
       }
       console.log(azureFunctionsPath, functionAppId);
 
       return true;
     } finally {
-      if (this.channel && deployPending) {
+      if (deployPending) {
         clearInterval(deployPending);
-        utils.channelShowAndAppendLine(this.channel, ".");
+        this.ui.appendLine(".");
       }
     }
   }
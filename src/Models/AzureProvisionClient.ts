@@ -0,0 +1,381 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as AdmZip from "adm-zip";
+import { ResourceManagementClient, ResourceModels } from "azure-arm-resource";
+import WebSiteManagementClient = require("azure-arm-website");
+import { Registry } from "azure-iothub";
+import { ServiceClientCredentials, WebResource } from "ms-rest";
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { AzureFunctionsLanguage } from "../constants";
+
+import { ProvisionedResource } from "./ProvisionedResource";
+import { ProvisionChoice } from "./ProvisionManifest";
+
+import request = require("request-promise");
+
+const constants = {
+  iotHubApiVersion: "2018-04-01",
+  defaultIotHubSku: "S1",
+  iotHubOwnerPolicy: "iothubowner",
+  managementEndpoint: "https://management.azure.com"
+};
+
+export interface IoTHubConnectionInfo {
+  iotHubConnectionString: string;
+  eventHubConnectionString: string;
+  eventHubConnectionPath: string;
+}
+
+interface IoTHubKey {
+  keyName: string;
+  primaryKey: string;
+}
+
+/**
+ * Get value of a key in connection string, e.g. HostName or DeviceId.
+ * @param connectionString connection string
+ * @param key key in connection string
+ */
+export function getConnectionStringValue(connectionString: string, key: string): string {
+  const matches = connectionString.match(new RegExp(`${key}=([^;]*)`));
+  if (!matches) {
+    throw new OperationFailedError(`parse ${key} from connection string`, "Connection string is not valid.", "");
+  }
+  return matches[1];
+}
+
+/**
+ * Parse resource group and site name from function app resource id.
+ * @param functionAppId function app resource id
+ */
+export function parseFunctionAppId(functionAppId: string): { resourceGroup: string; siteName: string } {
+  const resourceGroupMatches = functionAppId.match(/\/resourceGroups\/([^\/]*)/);
+  const siteNameMatches = functionAppId.match(/\/sites\/([^\/]*)/);
+  if (!resourceGroupMatches || !siteNameMatches) {
+    throw new OperationFailedError(`parse function app ID ${functionAppId}`, "", "");
+  }
+  return { resourceGroup: resourceGroupMatches[1], siteName: siteNameMatches[1] };
+}
+
+/**
+ * Get sku of IoT Hub to create.
+ * @param sku sku in provision manifest
+ */
+export function getIoTHubSku(sku?: string): string {
+  return sku || constants.defaultIotHubSku;
+}
+
+/**
+ * Get application settings a function app is configured with on provision.
+ * @param functionLanguage language of Azure Functions in the project
+ * @param iotHubInfo connection info of the IoT Hub the functions depend on
+ * @param extraAppSettings additional application settings
+ */
+export function getFunctionAppSettingValues(
+  functionLanguage: string | undefined,
+  iotHubInfo: IoTHubConnectionInfo,
+  extraAppSettings: { [key: string]: string } = {}
+): { [key: string]: string } {
+  return {
+    // for c# library, use the default setting of ~2.
+    FUNCTIONS_EXTENSION_VERSION: functionLanguage !== (AzureFunctionsLanguage.CSharpLibrary as string) ? "~1" : "~2",
+    eventHubConnectionString: iotHubInfo.eventHubConnectionString,
+    eventHubConnectionPath: iotHubInfo.eventHubConnectionPath,
+    iotHubConnectionString: iotHubInfo.iotHubConnectionString,
+    // see detail:
+    // https://github.com/Microsoft/vscode-iot-workbench/issues/436
+    WEBSITE_RUN_FROM_PACKAGE: "0",
+    ...extraAppSettings
+  };
+}
+
+/**
+ * Provision Azure resources with Azure Resource Manager directly, without any
+ * interaction. Shared by provision manifest and headless command line.
+ */
+export class AzureProvisionClient {
+  constructor(
+    private credentials: ServiceClientCredentials,
+    readonly subscriptionId: string,
+    readonly resourceGroup: string
+  ) {}
+
+  getFunctionAppId(functionAppName: string): string {
+    return `/subscriptions/${this.subscriptionId}/resourceGroups/${this.resourceGroup}\
+/providers/Microsoft.Web/sites/${functionAppName}`;
+  }
+
+  async resourceGroupExists(): Promise<boolean> {
+    const client = new ResourceManagementClient(this.credentials, this.subscriptionId);
+    return client.resourceGroups.checkExistence(this.resourceGroup);
+  }
+
+  async ensureResourceGroup(location?: string): Promise<void> {
+    if (await this.resourceGroupExists()) {
+      return;
+    }
+    const client = new ResourceManagementClient(this.credentials, this.subscriptionId);
+    if (!location) {
+      throw new OperationFailedError(
+        `create resource group ${this.resourceGroup}`,
+        "Location of the resource group is not specified.",
+        ""
+      );
+    }
+    await client.resourceGroups.createOrUpdate(this.resourceGroup, { location });
+  }
+
+  /**
+   * Get an existing IoT Hub in the resource group, or create a new one, and
+   * return its connection strings with iothubowner policy. Creating an IoT
+   * Hub which already exists reuses it without changing its settings, and it
+   * is not counted as created.
+   * @param choice use an existing IoT Hub or create a new one
+   * @param name IoT Hub name
+   * @param location location of new IoT Hub
+   * @param sku sku of new IoT Hub, which an existing IoT Hub must match
+   */
+  async provisionIoTHub(
+    choice: ProvisionChoice,
+    name: string,
+    location?: string,
+    sku?: string
+  ): Promise<{ connectionInfo: IoTHubConnectionInfo; resource: ProvisionedResource }> {
+    const client = new ResourceManagementClient(this.credentials, this.subscriptionId);
+    const resourceGroup = this.resourceGroup;
+    const apiVersion = constants.iotHubApiVersion;
+    let iotHub;
+    let created = false;
+    if (choice === "new") {
+      await this.ensureResourceGroup(location);
+      created = !(await client.resources.checkExistence(
+        resourceGroup,
+        "Microsoft.Devices",
+        "",
+        "IotHubs",
+        name,
+        apiVersion
+      ));
+    }
+    if (created) {
+      iotHub = await client.resources.createOrUpdate(
+        resourceGroup,
+        "Microsoft.Devices",
+        "",
+        "IotHubs",
+        name,
+        apiVersion,
+        { location, sku: { name: getIoTHubSku(sku), capacity: 1 } }
+      );
+    } else {
+      iotHub = await client.resources.get(resourceGroup, "Microsoft.Devices", "", "IotHubs", name, apiVersion);
+      const existingSku = (iotHub.sku && iotHub.sku.name) || "";
+      if (choice === "new" && sku && existingSku !== sku) {
+        throw new OperationFailedError(
+          `create IoT Hub ${name}`,
+          `IoT Hub already exists in resource group ${resourceGroup} with sku ${existingSku} instead of ${sku}.`,
+          "Please set the sku of the existing IoT Hub in provision manifest, or use another IoT Hub name."
+        );
+      }
+    }
+    return {
+      connectionInfo: await this.getIoTHubConnectionInfo(iotHub),
+      resource: { id: iotHub.id as string, created }
+    };
+  }
+
+  /**
+   * Get an existing IoT Hub in the resource group without changing it.
+   * @param name IoT Hub name
+   * @returns undefined if the IoT Hub does not exist
+   */
+  async findIoTHub(
+    name: string
+  ): Promise<{ hostName: string; sku: string; connectionInfo: IoTHubConnectionInfo } | undefined> {
+    const client = new ResourceManagementClient(this.credentials, this.subscriptionId);
+    const args: [string, string, string, string, string, string] = [
+      this.resourceGroup,
+      "Microsoft.Devices",
+      "",
+      "IotHubs",
+      name,
+      constants.iotHubApiVersion
+    ];
+    if (!(await client.resources.checkExistence(...args))) {
+      return undefined;
+    }
+
+    const iotHub = await client.resources.get(...args);
+    return {
+      hostName: iotHub.properties.hostName,
+      sku: (iotHub.sku && iotHub.sku.name) || "",
+      connectionInfo: await this.getIoTHubConnectionInfo(iotHub)
+    };
+  }
+
+  /**
+   * Check whether a device exists in IoT Hub.
+   * @param iotHubConnectionString connection string of IoT Hub
+   * @param deviceId device id
+   */
+  static async iotHubDeviceExists(iotHubConnectionString: string, deviceId: string): Promise<boolean> {
+    const registry = Registry.fromConnectionString(iotHubConnectionString);
+    try {
+      await registry.get(deviceId);
+      return true;
+    } catch (error) {
+      if (error.name === "DeviceNotFoundError") {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a device from IoT Hub. Devices which do not exist are ignored.
+   * @param iotHubConnectionString connection string of IoT Hub
+   * @param deviceId device id
+   */
+  static async deleteIoTHubDevice(iotHubConnectionString: string, deviceId: string): Promise<void> {
+    const registry = Registry.fromConnectionString(iotHubConnectionString);
+    try {
+      await registry.delete(deviceId);
+    } catch (error) {
+      if (error.name !== "DeviceNotFoundError") {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get an existing IoT Hub device, or create a new one, and return its
+   * connection string.
+   * @param iotHubConnectionString connection string of IoT Hub
+   * @param choice use an existing device or create a new one
+   * @param deviceId device id
+   */
+  static async provisionIoTHubDevice(
+    iotHubConnectionString: string,
+    choice: ProvisionChoice,
+    deviceId: string
+  ): Promise<string> {
+    const registry = Registry.fromConnectionString(iotHubConnectionString);
+    const device =
+      choice === "new"
+        ? (await registry.create({ deviceId })).responseBody
+        : (await registry.get(deviceId)).responseBody;
+    if (!device.authentication || !device.authentication.symmetricKey) {
+      throw new OperationFailedError(
+        `get symmetric key of IoT Hub device ${deviceId}`,
+        "Only devices with symmetric key authentication are supported.",
+        ""
+      );
+    }
+
+    const hostName = getConnectionStringValue(iotHubConnectionString, "HostName");
+    return `HostName=${hostName};DeviceId=${deviceId};SharedAccessKey=${device.authentication.symmetricKey.primaryKey}`;
+  }
+
+  /**
+   * Get application settings of an existing function app without changing it.
+   * @param functionAppId function app resource id
+   * @returns undefined if the function app does not exist
+   */
+  async findFunctionAppSettings(functionAppId: string): Promise<{ [key: string]: string } | undefined> {
+    const { resourceGroup, siteName } = parseFunctionAppId(functionAppId);
+    const client = new WebSiteManagementClient(this.credentials, this.subscriptionId);
+    try {
+      const appSettings = await client.webApps.listApplicationSettings(resourceGroup, siteName);
+      return appSettings.properties || {};
+    } catch (error) {
+      if (error.statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Configure IoT Hub connection strings in application settings of an
+   * existing function app.
+   * @param functionAppId function app resource id
+   * @param functionLanguage language of Azure Functions in the project
+   * @param iotHubInfo connection info of the IoT Hub the functions depend on
+   * @param extraAppSettings additional application settings
+   */
+  async updateFunctionAppSettings(
+    functionAppId: string,
+    functionLanguage: string | undefined,
+    iotHubInfo: IoTHubConnectionInfo,
+    extraAppSettings: { [key: string]: string } = {}
+  ): Promise<void> {
+    const { resourceGroup, siteName } = parseFunctionAppId(functionAppId);
+    const client = new WebSiteManagementClient(this.credentials, this.subscriptionId);
+    const appSettings = await client.webApps.listApplicationSettings(resourceGroup, siteName);
+    appSettings.properties = {
+      ...appSettings.properties,
+      ...getFunctionAppSettingValues(functionLanguage, iotHubInfo, extraAppSettings)
+    };
+
+    await client.webApps.updateApplicationSettings(resourceGroup, siteName, appSettings);
+  }
+
+  /**
+   * Deploy a folder to function app with zip deployment.
+   * @param functionAppId function app resource id
+   * @param deployPath folder to deploy
+   */
+  async zipDeployFunctionApp(functionAppId: string, deployPath: string): Promise<void> {
+    const { resourceGroup, siteName } = parseFunctionAppId(functionAppId);
+    const zip = new AdmZip();
+    zip.addLocalFolder(deployPath);
+
+    const client = new WebSiteManagementClient(this.credentials, this.subscriptionId);
+    const publishingCredentials = await client.webApps.listPublishingCredentials(resourceGroup, siteName);
+    await request({
+      method: "POST",
+      url: `https://${siteName}.scm.azurewebsites.net/api/zipdeploy`,
+      auth: {
+        user: publishingCredentials.publishingUserName,
+        pass: publishingCredentials.publishingPassword
+      },
+      body: zip.toBuffer()
+    });
+  }
+
+  private async getIoTHubConnectionInfo(iotHub: ResourceModels.GenericResource): Promise<IoTHubConnectionInfo> {
+    const keys = (await this.postRequest(`${iotHub.id}/listkeys?api-version=${constants.iotHubApiVersion}`)) as {
+      value?: IoTHubKey[];
+    };
+    const ownerKey = (keys.value || []).find(key => key.keyName === constants.iotHubOwnerPolicy);
+    if (!ownerKey) {
+      throw new OperationFailedError(
+        `get connection string of IoT Hub ${iotHub.name}`,
+        `Shared access policy ${constants.iotHubOwnerPolicy} does not exist.`,
+        ""
+      );
+    }
+
+    const events = iotHub.properties.eventHubEndpoints.events;
+    return {
+      iotHubConnectionString: `HostName=${iotHub.properties.hostName};SharedAccessKeyName=${ownerKey.keyName};\
+SharedAccessKey=${ownerKey.primaryKey}`,
+      eventHubConnectionString: `Endpoint=${events.endpoint};SharedAccessKeyName=${ownerKey.keyName};\
+SharedAccessKey=${ownerKey.primaryKey}`,
+      eventHubConnectionPath: events.path
+    };
+  }
+
+  private async postRequest(resource: string): Promise<unknown> {
+    const httpRequest = new WebResource();
+    httpRequest.method = "POST";
+    httpRequest.url = constants.managementEndpoint + resource;
+
+    await new Promise((resolve, reject) => {
+      this.credentials.signRequest(httpRequest, error => (error ? reject(error) : resolve()));
+    });
+    return request({ method: "POST", url: httpRequest.url, headers: httpRequest.headers, json: true });
+  }
+}
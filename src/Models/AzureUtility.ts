@@ -19,6 +19,9 @@ import { DependentExtensionNotFoundError } from "../common/Error/OperationFailed
 import { EventNames, ScaffoldType } from "../constants";
 import { AzureConfigFileHandler } from "./AzureComponentConfig";
 import { ComponentType } from "./Interfaces/Component";
+import { AzureProvisionClient } from "./AzureProvisionClient";
+import { SecretStore } from "./SecretStore";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
 
 export interface ARMParameters {
   [key: string]: { value: string | number | boolean | null };
@@ -330,8 +333,9 @@ export class AzureUtility {
           ScaffoldType.Workspace,
           ComponentType.IoTHub
         );
-        if (componentConfig) {
-          iothubConnectionString = componentConfig.componentInfo?.values.iothubConnectionString;
+        if (componentConfig && componentConfig.componentInfo) {
+          const { values } = await SecretStore.resolveComponentInfo(componentConfig.componentInfo);
+          iothubConnectionString = values.iotHubConnectionString;
         }
 
         switch (_key) {
@@ -497,6 +501,41 @@ export class AzureUtility {
     }
   }
 
+  /**
+   * Use the given resource group instead of prompting, without checking
+   * whether it exists.
+   * @param resourceGroup resource group name
+   */
+  static selectResourceGroup(resourceGroup: string): void {
+    AzureUtility._resourceGroup = resourceGroup;
+  }
+
+  /**
+   * Get client to provision resources without prompting, in the selected
+   * subscription and resource group.
+   */
+  static getProvisionClient(): AzureProvisionClient {
+    const subscriptionId = AzureUtility._subscriptionId;
+    const resourceGroup = AzureUtility._resourceGroup;
+    if (!subscriptionId || !resourceGroup) {
+      throw new OperationFailedError(
+        "get Azure provision client",
+        "Subscription or resource group is not selected.",
+        ""
+      );
+    }
+
+    const session = AzureUtility._getSessionBySubscriptionId(subscriptionId);
+    if (!session) {
+      throw new OperationFailedError(
+        "get Azure provision client",
+        `Subscription ${subscriptionId} is not found in your Azure account.`,
+        "Please check the subscription and sign in to Azure with an account that can access it."
+      );
+    }
+    return new AzureProvisionClient(session.credentials, subscriptionId, resourceGroup);
+  }
+
   static async deployARMTemplate(
     template: ARMTemplate,
     parameters?: ARMParameters
@@ -552,6 +591,31 @@ export class AzureUtility {
     }
   }
 
+  /**
+   * Delete resource with the credentials of its subscription. Resources which
+   * do not exist are ignored.
+   * @param resourceId resource id
+   * @param apiVersion api version of the resource provider
+   */
+  static async deleteResource(resourceId: string, apiVersion: string): Promise<void> {
+    const subscriptionMatches = resourceId.match(/\/subscriptions\/([^\/]*)/);
+    const client = subscriptionMatches && AzureUtility._getSubscriptionClientBySubscriptionId(subscriptionMatches[1]);
+    if (!client) {
+      throw new OperationFailedError(
+        `delete Azure resource ${resourceId}`,
+        "Subscription of the resource is not found in your Azure account.",
+        "Please sign in to Azure with an account that can access it."
+      );
+    }
+    try {
+      await client.resources.deleteById(resourceId, apiVersion);
+    } catch (error) {
+      if (error.statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
   static get subscriptionId(): string | undefined {
     return AzureUtility._subscriptionId;
   }
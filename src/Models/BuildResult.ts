@@ -0,0 +1,180 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { UserInterface } from "./Interfaces/UserInterface";
+
+export enum BuildProblemSeverity {
+  Error = "error",
+  Warning = "warning"
+}
+
+/**
+ * Error or warning reported by compiler, linker or build tool. Location is
+ * unknown for problems which are not about a source file.
+ */
+export interface BuildProblem {
+  severity: BuildProblemSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Result of compile task. Exit code is undefined if the task has no process,
+ * and problems are only parsed when output of the task is captured.
+ */
+export interface BuildResult {
+  success: boolean;
+  exitCode?: number;
+  errors: BuildProblem[];
+  warnings: BuildProblem[];
+  artifacts: string[];
+  durationInMilliseconds: number;
+}
+
+// gcc and clang: "main.c:12:5: error: message", column is optional
+const compilerProblemPattern = /^(.+?):(\d+):(?:(\d+):)?\s+(?:fatal\s+)?(error|warning):\s+(.*)$/;
+// ld: "main.c:(.text+0x1c): undefined reference to `foo'"
+const linkerProblemPattern = /^(.+?):\(.+\):\s+(undefined reference to .*|multiple definition of .*)$/;
+// Problems of tools, e.g. "collect2: error: ld returned 1 exit status"
+const toolProblemPattern = /^([\w.+-]+):\s+(?:fatal\s+)?(error|warning):\s+(.*)$/;
+// cmake: "CMake Error at CMakeLists.txt:12 (add_executable):"
+const cmakeProblemPattern = /^CMake (Error|Warning)(?: \(dev\))? at (.+?):(\d+)(?: \((.+)\))?:?$/;
+// arduino-cli: "Error during build: exit status 1"
+const arduinoCliProblemPattern = /^(Error (?:during build|compiling for board .*?)):?\s*(.*)$/;
+// eslint-disable-next-line no-control-regex
+const ansiEscapePattern = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Parse problems from output of gcc, ld, cmake and arduino-cli. Duplicated
+ * problems, e.g. the ones of a header included by several sources, are
+ * reported once.
+ * @param output output of compile task
+ */
+export function parseBuildProblems(output: string): BuildProblem[] {
+  const problems: BuildProblem[] = [];
+  const keys = new Set<string>();
+  const addProblem = (problem: BuildProblem): void => {
+    const key = JSON.stringify(problem);
+    if (!keys.has(key)) {
+      keys.add(key);
+      problems.push(problem);
+    }
+  };
+
+  for (const rawLine of output.replace(ansiEscapePattern, "").split(/\r?\n/)) {
+    const line = rawLine.trim();
+    let matches = line.match(cmakeProblemPattern);
+    if (matches) {
+      addProblem({
+        severity: matches[1] === "Error" ? BuildProblemSeverity.Error : BuildProblemSeverity.Warning,
+        message: matches[4]
+          ? `CMake ${matches[1].toLowerCase()} in ${matches[4]}`
+          : `CMake ${matches[1].toLowerCase()}`,
+        file: matches[2],
+        line: Number(matches[3])
+      });
+      continue;
+    }
+    matches = line.match(compilerProblemPattern);
+    if (matches) {
+      addProblem({
+        severity: matches[4] === "error" ? BuildProblemSeverity.Error : BuildProblemSeverity.Warning,
+        message: matches[5],
+        file: matches[1],
+        line: Number(matches[2]),
+        column: matches[3] ? Number(matches[3]) : undefined
+      });
+      continue;
+    }
+    matches = line.match(linkerProblemPattern);
+    if (matches) {
+      addProblem({ severity: BuildProblemSeverity.Error, message: matches[2], file: matches[1] });
+      continue;
+    }
+    matches = line.match(toolProblemPattern);
+    if (matches) {
+      addProblem({
+        severity: matches[2] === "error" ? BuildProblemSeverity.Error : BuildProblemSeverity.Warning,
+        message: `${matches[1]}: ${matches[3]}`
+      });
+      continue;
+    }
+    matches = line.match(arduinoCliProblemPattern);
+    if (matches) {
+      addProblem({
+        severity: BuildProblemSeverity.Error,
+        message: matches[2] ? `${matches[1]}: ${matches[2]}` : matches[1]
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Create build result from exit code and output of compile task.
+ * @param exitCode exit code of compile task
+ * @param output output of compile task, or the problems already reported by
+ * problem matcher of the task, undefined if neither is available
+ * @param durationInMilliseconds duration of compile task
+ */
+export function createBuildResult(
+  exitCode: number | undefined,
+  output: string | BuildProblem[] | undefined,
+  durationInMilliseconds: number
+): BuildResult {
+  let problems: BuildProblem[] = [];
+  if (typeof output === "string") {
+    problems = parseBuildProblems(output);
+  } else if (output) {
+    problems = output;
+  }
+  const errors = problems.filter(problem => problem.severity === BuildProblemSeverity.Error);
+  const warnings = problems.filter(problem => problem.severity === BuildProblemSeverity.Warning);
+  return {
+    success: exitCode === 0 && errors.length === 0,
+    exitCode,
+    errors,
+    warnings,
+    artifacts: [],
+    durationInMilliseconds
+  };
+}
+
+/**
+ * Format problem like gcc does.
+ * @param problem build problem
+ */
+export function formatBuildProblem(problem: BuildProblem): string {
+  const location = [problem.file, problem.line, problem.column].filter(part => part !== undefined).join(":");
+  return location ? `${location}: ${problem.severity}: ${problem.message}` : `${problem.severity}: ${problem.message}`;
+}
+
+/**
+ * Summarize build result in one line.
+ * @param result build result
+ * @param operation operation of the task, e.g. Device code compilation
+ */
+export function formatBuildResult(result: BuildResult, operation = "Build"): string {
+  const seconds = (result.durationInMilliseconds / 1000).toFixed(1);
+  const counts = `${result.errors.length} error(s), ${result.warnings.length} warning(s)`;
+  if (result.success) {
+    return `${operation} succeeded with ${counts} in ${seconds}s.`;
+  }
+  const exitCode = result.exitCode === undefined ? "" : ` with exit code ${result.exitCode}`;
+  return `${operation} failed${exitCode}, ${counts} in ${seconds}s.`;
+}
+
+/**
+ * Report problems and summary of build result.
+ * @param result build result
+ * @param operation operation of the task, e.g. Device code compilation
+ * @param ui output of the operation
+ */
+export function reportBuildResult(result: BuildResult, operation: string, ui: UserInterface): void {
+  for (const problem of [...result.errors, ...result.warnings]) {
+    ui.appendLine(formatBuildProblem(problem));
+  }
+  ui.appendLine(formatBuildResult(result, operation));
+}
@@ -0,0 +1,141 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { AzureConfigDependencyError } from "../common/Error/SystemErrors/AzureConfigDependencyError";
+import { AzureConfigNotFoundError } from "../common/Error/SystemErrors/AzureConfigNotFoundErrors";
+
+import { AzureComponentConfig } from "./AzureComponentConfig";
+
+function describeComponent(componentConfig: AzureComponentConfig): string {
+  return `${componentConfig.name} (id ${componentConfig.id})`;
+}
+
+/**
+ * Dependency graph of components in azure config file.
+ * Building the graph fails with every missing dependency id, duplicate
+ * component id and dependency cycle found, so no component is dropped
+ * silently.
+ */
+export class ComponentDependencyGraph {
+  /**
+   * Components grouped into layers. Components of a layer only depend on
+   * components of former layers, so a layer can be processed in parallel.
+   */
+  readonly layers: AzureComponentConfig[][];
+
+  /**
+   * Components ordered so that each component comes after its dependencies.
+   */
+  readonly sortedComponents: AzureComponentConfig[];
+
+  private constructor(layers: AzureComponentConfig[][]) {
+    this.layers = layers;
+    this.sortedComponents = ([] as AzureComponentConfig[]).concat(...layers);
+  }
+
+  /**
+   * Build dependency graph of components.
+   * @param componentConfigs component configs in azure config file
+   */
+  static build(componentConfigs: AzureComponentConfig[]): ComponentDependencyGraph {
+    const problems: string[] = [];
+    const componentsById = new Map<string, AzureComponentConfig>();
+
+    for (const componentConfig of componentConfigs) {
+      const existing = componentsById.get(componentConfig.id);
+      if (existing) {
+        problems.push(
+          `Component id ${componentConfig.id} is used by both ${existing.name} and ${componentConfig.name}.`
+        );
+      } else {
+        componentsById.set(componentConfig.id, componentConfig);
+      }
+    }
+
+    for (const componentConfig of componentConfigs) {
+      for (const dependency of componentConfig.dependencies) {
+        if (!componentsById.has(dependency.id)) {
+          problems.push(`${describeComponent(componentConfig)} depends on missing component id ${dependency.id}.`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new AzureConfigDependencyError(problems);
+    }
+
+    const layers: AzureComponentConfig[][] = [];
+    const resolvedIds = new Set<string>();
+    let pending = componentConfigs;
+    while (pending.length > 0) {
+      const layer = pending.filter(componentConfig =>
+        componentConfig.dependencies.every(dependency => resolvedIds.has(dependency.id))
+      );
+      if (layer.length === 0) {
+        throw new AzureConfigDependencyError(
+          ComponentDependencyGraph.findCycles(pending, componentsById).map(
+            cycle => `Dependency cycle found: ${cycle.map(describeComponent).join(" -> ")}.`
+          )
+        );
+      }
+      layer.forEach(componentConfig => resolvedIds.add(componentConfig.id));
+      layers.push(layer);
+      pending = pending.filter(componentConfig => !resolvedIds.has(componentConfig.id));
+    }
+
+    return new ComponentDependencyGraph(layers);
+  }
+
+  /**
+   * Get components in reverse dependency order, so that each component comes
+   * before the components it depends on.
+   */
+  get reverseSortedComponents(): AzureComponentConfig[] {
+    return [...this.sortedComponents].reverse();
+  }
+
+  /**
+   * Order loaded components the same as their configs in the graph.
+   * @param components components with config in azure config file
+   */
+  sort<T extends { id: string }>(components: T[]): T[] {
+    const indexes = new Map<string, number>();
+    this.sortedComponents.forEach((componentConfig, index) => indexes.set(componentConfig.id, index));
+    for (const component of components) {
+      if (!indexes.has(component.id)) {
+        throw new AzureConfigNotFoundError(`component of config id ${component.id}`);
+      }
+    }
+    return [...components].sort((a, b) => (indexes.get(a.id) as number) - (indexes.get(b.id) as number));
+  }
+
+  /**
+   * Find the cycles among components that can not be sorted. Each cycle is
+   * reported once, starting and ending with the same component.
+   */
+  private static findCycles(
+    unresolved: AzureComponentConfig[],
+    componentsById: Map<string, AzureComponentConfig>
+  ): AzureComponentConfig[][] {
+    const cycles: AzureComponentConfig[][] = [];
+    const visited = new Set<string>();
+
+    const visit = (componentConfig: AzureComponentConfig, path: AzureComponentConfig[]): void => {
+      const index = path.indexOf(componentConfig);
+      if (index !== -1) {
+        cycles.push([...path.slice(index), componentConfig]);
+        return;
+      }
+      if (visited.has(componentConfig.id)) {
+        return;
+      }
+      visited.add(componentConfig.id);
+      for (const dependency of componentConfig.dependencies) {
+        visit(componentsById.get(dependency.id) as AzureComponentConfig, [...path, componentConfig]);
+      }
+    };
+
+    unresolved.forEach(componentConfig => visit(componentConfig, []));
+    return cycles;
+  }
+}
@@ -7,32 +7,33 @@ import * as vscode from "vscode";
 
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
 import { OperationCanceledError } from "../common/Error/OperationCanceledError";
-import { FileNames, OperationType, PlatformType, ScaffoldType, TemplateTag } from "../constants";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { FileNames, OperationType, PlatformType, ScaffoldType, TaskNames, TemplateTag } from "../constants";
 import { DigitalTwinConstants } from "../DigitalTwin/DigitalTwinConstants";
 import { FileUtility } from "../FileUtility";
 import { TelemetryContext } from "../telemetry";
 import * as utils from "../utils";
 
+import { BuildResult, formatBuildProblem, formatBuildResult } from "./BuildResult";
+import { createDeployManifest, DeployFileKind, loadDeployConfig } from "./DeployManifest";
 import { ComponentType } from "./Interfaces/Component";
-import { Device, DeviceType } from "./Interfaces/Device";
+import { Device } from "./Interfaces/Device";
 import { ProjectTemplate, TemplateFileInfo, TemplatesType } from "./Interfaces/ProjectTemplate";
+import { UserInterface } from "./Interfaces/UserInterface";
 import { RemoteExtension } from "./RemoteExtension";
+import { VSCodeUserInterface } from "./VSCodeUserInterface";
 import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
 
-const constants = {
-  configFile: "config.json",
-  compileTaskName: "default compile script"
-};
-
 export abstract class ContainerDeviceBase implements Device {
   protected componentId: string;
   get id(): string {
     return this.componentId;
   }
-  protected deviceType: DeviceType;
+  protected deviceType: string;
   protected componentType: ComponentType;
   protected projectFolder: string;
   protected channel: vscode.OutputChannel;
+  protected ui: UserInterface;
   protected extensionContext: vscode.ExtensionContext;
   protected telemetryContext: TelemetryContext;
 
@@ -45,12 +46,13 @@ export abstract class ContainerDeviceBase implements Device {
     projectPath: string,
     channel: vscode.OutputChannel,
     telemetryContext: TelemetryContext,
-    deviceType: DeviceType,
+    deviceType: string,
     protected templateFilesInfo: TemplateFileInfo[] = []
   ) {
     this.deviceType = deviceType;
     this.componentType = ComponentType.Device;
     this.channel = channel;
+    this.ui = new VSCodeUserInterface(channel);
     this.componentId = Guid.create().toString();
     this.extensionContext = context;
     this.projectFolder = projectPath;
@@ -58,7 +60,7 @@ export abstract class ContainerDeviceBase implements Device {
     this.telemetryContext = telemetryContext;
   }
 
-  getDeviceType(): DeviceType {
+  getDeviceType(): string {
     return this.deviceType;
   }
 
@@ -116,24 +118,63 @@ export abstract class ContainerDeviceBase implements Device {
     return true;
   }
 
-  async compile(): Promise<boolean> {
+  async compile(): Promise<BuildResult | undefined> {
     // Check remote
     const isRemote = RemoteExtension.isRemote(this.extensionContext);
     if (!isRemote) {
       await utils.askAndOpenInRemote(OperationType.Compile, this.telemetryContext);
-      return false;
+      return;
     }
 
-    await utils.fetchAndExecuteTask(
+    const result = await utils.fetchAndExecuteTask(
       this.extensionContext,
       this.channel,
       this.telemetryContext,
       this.projectFolder,
       OperationType.Compile,
       PlatformType.EmbeddedLinux,
-      constants.compileTaskName
+      TaskNames.containerCompile
     );
-    return true;
+    if (result && result.success) {
+      try {
+        result.artifacts = createDeployManifest(
+          this.projectFolder,
+          this.outputPath,
+          loadDeployConfig(this.projectFolder)
+        )
+          .filter(file => file.kind !== DeployFileKind.Asset)
+          .map(file => file.localPath);
+      } catch (error) {
+        // Build script generated by an older version does not query CMake file API
+        utils.channelShowAndAppendLine(this.channel, `Failed to list build artifacts. ${error.message}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Compile device code with debug information and wait for it to finish.
+   */
+  protected async compileForDebugging(): Promise<void> {
+    const tasks = await vscode.tasks.fetchTasks();
+    const debugCompileTask = tasks.find(task => task.name === TaskNames.containerDebugCompile);
+    if (!debugCompileTask) {
+      throw new OperationFailedError(
+        "compile device code for debugging",
+        `Task ${TaskNames.containerDebugCompile} is not found.`,
+        "Please configure project environment again to generate debug configuration."
+      );
+    }
+
+    const result = await utils.executeBuildTask(debugCompileTask);
+    if (!result.success) {
+      const firstError = result.errors.length > 0 ? ` ${formatBuildProblem(result.errors[0])}` : "";
+      throw new OperationFailedError(
+        "compile device code for debugging",
+        `${formatBuildResult(result, `Task ${TaskNames.containerDebugCompile}`)}${firstError}`,
+        "Please check the terminal for compile errors."
+      );
+    }
   }
 
   abstract async upload(): Promise<boolean>;
@@ -168,12 +209,12 @@ export abstract class ContainerDeviceBase implements Device {
 
     // Configure project environment with template files
     for (const fileInfo of templateFilesInfo) {
-      // Replace binary name in tasks.json to project name
-      if (fileInfo.fileName === "tasks.json") {
+      // Replace binary name in tasks.json and launch.json to project name
+      if (fileInfo.fileName === FileNames.tasksJsonFileName || fileInfo.fileName === "launch.json") {
         const pattern = "${project_name}";
         const projectName = path.basename(projectPath);
         if (fileInfo.fileContent) {
-          fileInfo.fileContent = fileInfo.fileContent.replace(pattern, projectName);
+          fileInfo.fileContent = fileInfo.fileContent.split(pattern).join(projectName);
         }
       }
 
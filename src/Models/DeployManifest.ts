@@ -0,0 +1,364 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as crypto from "crypto";
+import * as fs from "fs-plus";
+import * as path from "path";
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { FileNames } from "../constants";
+
+import { shellQuote } from "./ShellQuote";
+
+export enum DeployFileKind {
+  Executable = "executable",
+  SharedLibrary = "sharedLibrary",
+  Asset = "asset"
+}
+
+/**
+ * Folders on target to install each kind of file to, relative to project
+ * path of device profile.
+ */
+export interface DeployLayout {
+  executables: string;
+  sharedLibraries: string;
+  assets: string;
+}
+
+/**
+ * Deploy configuration of the project. Assets are files or folders relative
+ * to project root, which are deployed besides the ones installed by CMake.
+ */
+export interface DeployConfig {
+  layout: DeployLayout;
+  assets: string[];
+}
+
+/**
+ * File to deploy. Remote path is a POSIX path relative to project path of
+ * device profile.
+ */
+export interface DeployFile {
+  kind: DeployFileKind;
+  localPath: string;
+  remotePath: string;
+}
+
+export const defaultDeployLayout: DeployLayout = {
+  executables: ".",
+  sharedLibraries: ".",
+  assets: "."
+};
+
+const cmakeFileApiReplyPath = path.join(".cmake", "api", "v1", "reply");
+
+interface CMakeReplyIndex {
+  objects: Array<{ kind: string; version: { major: number }; jsonFile: string }>;
+}
+
+interface CMakeCodeModel {
+  paths: { source: string; build: string };
+  configurations: Array<{
+    directories: Array<{ jsonFile?: string }>;
+    targets: Array<{ jsonFile: string }>;
+  }>;
+}
+
+interface CMakeTarget {
+  name: string;
+  type: string;
+  artifacts?: Array<{ path: string }>;
+}
+
+interface CMakeDirectory {
+  installers?: Array<{
+    type: string;
+    destination?: string;
+    paths?: Array<string | { from: string; to: string }>;
+  }>;
+}
+
+/**
+ * Get file path of deploy configuration.
+ * @param projectPath project root path
+ */
+export function getDeployConfigPath(projectPath: string): string {
+  return path.join(projectPath, FileNames.vscodeSettingsFolderName, FileNames.deployConfigFileName);
+}
+
+/**
+ * Validate deploy configuration loaded from file, missing layout folders are
+ * set to default.
+ * @param json content of deploy configuration file
+ * @param filePath file path of deploy configuration, used in error message
+ */
+export function parseDeployConfig(json: unknown, filePath: string): DeployConfig {
+  const config = (json || {}) as Partial<DeployConfig>;
+  const layout: DeployLayout = { ...defaultDeployLayout, ...config.layout };
+  const assets = config.assets || [];
+  const problems: string[] = [];
+  for (const key of Object.keys(defaultDeployLayout) as Array<keyof DeployLayout>) {
+    const folder = layout[key];
+    if (typeof folder !== "string" || path.posix.isAbsolute(folder) || folder.split("/").includes("..")) {
+      problems.push(`Layout ${key} should be a folder relative to project path on device.`);
+    }
+  }
+  if (!Array.isArray(assets) || assets.some(asset => typeof asset !== "string")) {
+    problems.push(`"assets" should be an array of paths.`);
+  } else if (assets.some(asset => path.isAbsolute(asset) || asset.split(/[\\/]/).includes(".."))) {
+    problems.push(`Assets should be paths relative to project root.`);
+  }
+
+  if (problems.length > 0) {
+    throw new OperationFailedError(
+      "load deploy configuration",
+      `${filePath} is invalid. ${problems.join(" ")}`,
+      "Please fix or delete the file."
+    );
+  }
+  return { layout, assets };
+}
+
+/**
+ * Load deploy configuration of the project, default layout and no extra
+ * asset if the file does not exist.
+ * @param projectPath project root path
+ */
+export function loadDeployConfig(projectPath: string): DeployConfig {
+  const filePath = getDeployConfigPath(projectPath);
+  if (!fs.isFileSync(filePath)) {
+    return { layout: { ...defaultDeployLayout }, assets: [] };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new OperationFailedError("load deploy configuration", `${filePath} is not a valid JSON file.`, "");
+  }
+  return parseDeployConfig(json, filePath);
+}
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+}
+
+/**
+ * Add file or all files under folder to deploy.
+ * @param files files to deploy
+ * @param kind kind of file
+ * @param localPath local file or folder path
+ * @param remotePath remote path of the file or folder
+ */
+function addDeployFiles(files: DeployFile[], kind: DeployFileKind, localPath: string, remotePath: string): void {
+  if (fs.isDirectorySync(localPath)) {
+    for (const filePath of fs.listTreeSync(localPath)) {
+      if (fs.isFileSync(filePath)) {
+        const relativePath = path.relative(localPath, filePath).split(path.sep);
+        files.push({ kind, localPath: filePath, remotePath: path.posix.join(remotePath, ...relativePath) });
+      }
+    }
+  } else if (fs.isFileSync(localPath)) {
+    files.push({ kind, localPath, remotePath });
+  }
+}
+
+/**
+ * Create deploy manifest from the reply of CMake file API in build folder.
+ * Executables and shared libraries are the artifacts of build targets, and
+ * assets are the files of install(FILES) and install(DIRECTORY) rules, which
+ * are reported by CMake 3.19 or later, and the assets of deploy
+ * configuration.
+ * @param projectPath project root path
+ * @param buildPath build folder of CMake
+ * @param config deploy configuration
+ */
+export function createDeployManifest(projectPath: string, buildPath: string, config: DeployConfig): DeployFile[] {
+  const replyPath = path.join(buildPath, cmakeFileApiReplyPath);
+  const indexFiles = fs.isDirectorySync(replyPath)
+    ? fs
+        .readdirSync(replyPath)
+        .filter(fileName => /^index-.*\.json$/.test(fileName))
+        .sort()
+    : [];
+  if (indexFiles.length === 0) {
+    throw new OperationFailedError(
+      "create deploy manifest",
+      `Reply of CMake file API is not found under ${buildPath}.`,
+      "Please compile device code first. If build.sh is generated by an older version, " +
+        "please configure project environment again."
+    );
+  }
+
+  // The latest index file is the one of the last build
+  const index = readJson<CMakeReplyIndex>(path.join(replyPath, indexFiles[indexFiles.length - 1]));
+  const codeModelObject = index.objects.find(object => object.kind === "codemodel" && object.version.major === 2);
+  if (!codeModelObject) {
+    throw new OperationFailedError(
+      "create deploy manifest",
+      `Code model is not found in reply of CMake file API under ${buildPath}.`,
+      "Please compile device code again."
+    );
+  }
+  const codeModel = readJson<CMakeCodeModel>(path.join(replyPath, codeModelObject.jsonFile));
+  const configuration = codeModel.configurations[0];
+
+  const files: DeployFile[] = [];
+  if (configuration) {
+    for (const targetReference of configuration.targets) {
+      const target = readJson<CMakeTarget>(path.join(replyPath, targetReference.jsonFile));
+      let kind: DeployFileKind;
+      let remoteFolder: string;
+      if (target.type === "EXECUTABLE") {
+        kind = DeployFileKind.Executable;
+        remoteFolder = config.layout.executables;
+      } else if (target.type === "SHARED_LIBRARY" || target.type === "MODULE_LIBRARY") {
+        kind = DeployFileKind.SharedLibrary;
+        remoteFolder = config.layout.sharedLibraries;
+      } else {
+        continue;
+      }
+      for (const artifact of target.artifacts || []) {
+        const localPath = path.resolve(codeModel.paths.build, artifact.path);
+        addDeployFiles(files, kind, localPath, path.posix.join(remoteFolder, path.basename(localPath)));
+      }
+    }
+
+    for (const directoryReference of configuration.directories) {
+      if (!directoryReference.jsonFile) {
+        continue;
+      }
+      const directory = readJson<CMakeDirectory>(path.join(replyPath, directoryReference.jsonFile));
+      for (const installer of directory.installers || []) {
+        if (installer.type !== "file" && installer.type !== "directory") {
+          continue;
+        }
+        // Destination may be absolute, it is always installed under assets folder
+        const destination = path.posix.join(config.layout.assets, (installer.destination || ".").replace(/^\/+/, ""));
+        for (const installPath of installer.paths || []) {
+          const from = typeof installPath === "string" ? installPath : installPath.from;
+          const to = typeof installPath === "string" ? path.basename(installPath) : installPath.to;
+          addDeployFiles(
+            files,
+            DeployFileKind.Asset,
+            path.resolve(codeModel.paths.source, from),
+            path.posix.join(destination, to)
+          );
+        }
+      }
+    }
+  }
+
+  for (const asset of config.assets) {
+    const localPath = path.resolve(projectPath, asset);
+    addDeployFiles(
+      files,
+      DeployFileKind.Asset,
+      localPath,
+      path.posix.join(config.layout.assets, ...asset.split(/[\\/]/))
+    );
+  }
+
+  // The same remote file is deployed once
+  return files.filter((file, i) => files.findIndex(f => f.remotePath === file.remotePath) === i);
+}
+
+/**
+ * Get SHA-256 hash of local file.
+ * @param filePath file path
+ */
+export function hashFile(filePath: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(fs.readFileSync(filePath))
+    .digest("hex");
+}
+
+/**
+ * Hash local files to deploy.
+ * @param files files to deploy
+ * @returns map from local path to hash
+ */
+export function hashDeployFiles(files: DeployFile[]): Map<string, string> {
+  const hashes = new Map<string, string>();
+  for (const file of files) {
+    hashes.set(file.localPath, hashFile(file.localPath));
+  }
+  return hashes;
+}
+
+/**
+ * Get command to hash deployed files on target, which is parsed by
+ * parseRemoteHashes. Missing files are skipped.
+ * @param projectPath project path on target
+ * @param files files to deploy
+ */
+export function getRemoteHashCommand(projectPath: string, files: DeployFile[]): string {
+  const remotePaths = files.map(file => shellQuote(file.remotePath)).join(" ");
+  return `cd ${shellQuote(projectPath)} 2>/dev/null && sha256sum -- ${remotePaths} 2>/dev/null; true`;
+}
+
+/**
+ * Parse output of remote hash command.
+ * @param output output of sha256sum
+ * @returns map from remote path to hash
+ */
+export function parseRemoteHashes(output: string): Map<string, string> {
+  const hashes = new Map<string, string>();
+  for (const line of output.split(/\r?\n/)) {
+    const matches = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+    if (matches) {
+      hashes.set(matches[2], matches[1]);
+    }
+  }
+  return hashes;
+}
+
+/**
+ * Get files whose hash differs from the copy on target.
+ * @param files files to deploy
+ * @param localHashes map from local path to hash
+ * @param remoteHashes map from remote path to hash
+ */
+export function getChangedFiles(
+  files: DeployFile[],
+  localHashes: Map<string, string>,
+  remoteHashes: Map<string, string>
+): DeployFile[] {
+  return files.filter(file => localHashes.get(file.localPath) !== remoteHashes.get(file.remotePath));
+}
+
+/**
+ * Get command to create remote folders of files before they are uploaded.
+ * @param projectPath project path on target
+ * @param files files to upload
+ */
+export function getRemoteFoldersCommand(projectPath: string, files: DeployFile[]): string {
+  const folders = files
+    .map(file => path.posix.dirname(file.remotePath))
+    .filter((folder, i, folders) => folders.indexOf(folder) === i)
+    .map(shellQuote)
+    .join(" ");
+  const remoteProjectPath = shellQuote(projectPath);
+  return `mkdir -p -- ${remoteProjectPath} && cd ${remoteProjectPath} && mkdir -p -- ${folders}`;
+}
+
+/**
+ * Get command to finish installing uploaded file. File is uploaded with its
+ * local file name, so it is renamed to remote path if they differ, and
+ * executable is made executable.
+ * @param projectPath project path on target
+ * @param file uploaded file
+ * @returns command, undefined if there is nothing to do
+ */
+export function getRemoteInstallCommand(projectPath: string, file: DeployFile): string | undefined {
+  const commands: string[] = [];
+  const uploadedPath = path.posix.join(path.posix.dirname(file.remotePath), path.basename(file.localPath));
+  if (uploadedPath !== file.remotePath) {
+    commands.push(`mv -f -- ${shellQuote(uploadedPath)} ${shellQuote(file.remotePath)}`);
+  }
+  if (file.kind === DeployFileKind.Executable) {
+    commands.push(`chmod +x -- ${shellQuote(file.remotePath)}`);
+  }
+  return commands.length > 0 ? `cd ${shellQuote(projectPath)} && ${commands.join(" && ")}` : undefined;
+}
@@ -0,0 +1,132 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as path from "path";
+import { Client } from "ssh2";
+import { SSH } from "vscode-iot-device-cube-sdk";
+
+import { SshAuthenticationType, SshDeviceProfile, SshDeviceSecrets } from "./DeviceProfile";
+
+/**
+ * SSH connection to device.
+ */
+export interface DeviceConnection {
+  exec(command: string): Promise<string>;
+  uploadFile(localPath: string, remoteFolderPath: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Connection with password authentication, opened by device cube on local
+ * machine.
+ */
+class DeviceCubeConnection implements DeviceConnection {
+  constructor(private ssh: SSH) {}
+
+  exec(command: string): Promise<string> {
+    return this.ssh.exec(command);
+  }
+
+  uploadFile(localPath: string, remoteFolderPath: string): Promise<void> {
+    return this.ssh.uploadFile(localPath, remoteFolderPath);
+  }
+
+  close(): Promise<void> {
+    return this.ssh.close();
+  }
+}
+
+/**
+ * Connection opened by ssh2 where the code runs. Device cube only supports
+ * password, so private key authentication always uses this connection.
+ */
+class Ssh2Connection implements DeviceConnection {
+  static open(profile: SshDeviceProfile, secrets: SshDeviceSecrets): Promise<Ssh2Connection> {
+    const credentials =
+      profile.authentication === SshAuthenticationType.PrivateKey
+        ? { privateKey: secrets.privateKey, passphrase: secrets.passphrase }
+        : { password: secrets.password || "" };
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      client
+        .on("ready", () => resolve(new Ssh2Connection(client)))
+        .on("error", error => reject(error))
+        .connect({
+          host: profile.host,
+          port: profile.port,
+          username: profile.user,
+          ...credentials
+        });
+    });
+  }
+
+  private constructor(private client: Client) {}
+
+  exec(command: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.client.exec(command, (error, stream) => {
+        if (error) {
+          return reject(error);
+        }
+        let stdout = "";
+        let stderr = "";
+        stream.on("data", (data: Buffer) => (stdout += data.toString()));
+        stream.stderr.on("data", (data: Buffer) => (stderr += data.toString()));
+        stream.on("close", (code: number) => {
+          if (code === 0) {
+            resolve(stdout);
+          } else {
+            reject(new Error(`Command "${command}" exited with code ${code}. ${stderr}`));
+          }
+        });
+      });
+    });
+  }
+
+  async uploadFile(localPath: string, remoteFolderPath: string): Promise<void> {
+    await this.exec(`mkdir -p ${remoteFolderPath}`);
+    await new Promise((resolve, reject) => {
+      this.client.sftp((error, sftp) => {
+        if (error) {
+          return reject(error);
+        }
+        sftp.fastPut(localPath, `${remoteFolderPath}/${path.basename(localPath)}`, putError => {
+          sftp.end();
+          return putError ? reject(putError) : resolve();
+        });
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    this.client.end();
+  }
+}
+
+/**
+ * Open SSH connection to device of the profile without device cube, which
+ * only works in VS Code.
+ * @param profile device profile
+ * @param secrets secrets of device profile
+ */
+export function openSshConnection(profile: SshDeviceProfile, secrets: SshDeviceSecrets): Promise<DeviceConnection> {
+  return Ssh2Connection.open(profile, secrets);
+}
+
+/**
+ * Open SSH connection to device of the profile.
+ * @param profile device profile
+ * @param secrets secrets of device profile
+ */
+export async function openDeviceConnection(
+  profile: SshDeviceProfile,
+  secrets: SshDeviceSecrets
+): Promise<DeviceConnection> {
+  if (profile.authentication === SshAuthenticationType.PrivateKey) {
+    return Ssh2Connection.open(profile, secrets);
+  }
+  const sdk: typeof import("vscode-iot-device-cube-sdk") = require("vscode-iot-device-cube-sdk");
+  const ssh = new sdk.SSH();
+  await ssh.open(profile.host, profile.port, profile.user, secrets.password || "");
+  return new DeviceCubeConnection(ssh);
+}
@@ -0,0 +1,153 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as path from "path";
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+
+import {
+  DeployFile,
+  getChangedFiles,
+  getRemoteFoldersCommand,
+  getRemoteHashCommand,
+  getRemoteInstallCommand,
+  hashDeployFiles,
+  parseRemoteHashes
+} from "./DeployManifest";
+import { DeviceConnection, openDeviceConnection } from "./DeviceConnection";
+import { resolveDeviceSecrets, SshDeviceProfile, SshDeviceSecrets } from "./DeviceProfile";
+import { UserInterface } from "./Interfaces/UserInterface";
+
+/**
+ * Open connection to device of the profile.
+ */
+export type DeviceConnector = (profile: SshDeviceProfile, secrets: SshDeviceSecrets) => Promise<DeviceConnection>;
+
+/**
+ * Describe device profile in output, e.g. "pi (pi@192.168.1.2)".
+ * @param profile device profile
+ */
+export function describeDeviceProfile(profile: SshDeviceProfile): string {
+  return `${profile.name} (${profile.user}@${profile.host})`;
+}
+
+/**
+ * Upload files whose hash differs from the copy on target.
+ * @param profile device profile of target
+ * @param files files to deploy
+ * @param localHashes hashes of the files to deploy
+ * @param ui output of upload
+ * @param connect open connection to target, with device cube by default
+ * @returns number of uploaded files
+ */
+export async function uploadToTarget(
+  profile: SshDeviceProfile,
+  files: DeployFile[],
+  localHashes: Map<string, string>,
+  ui: UserInterface,
+  connect: DeviceConnector = openDeviceConnection
+): Promise<number> {
+  const secrets = await resolveDeviceSecrets(profile);
+  const connection = await connect(profile, secrets);
+
+  try {
+    let changedFiles: DeployFile[];
+    try {
+      const remoteHashes = parseRemoteHashes(await connection.exec(getRemoteHashCommand(profile.projectPath, files)));
+      changedFiles = getChangedFiles(files, localHashes, remoteHashes);
+      if (changedFiles.length > 0) {
+        await connection.exec(getRemoteFoldersCommand(profile.projectPath, changedFiles));
+      }
+    } catch (error) {
+      throw new OperationFailedError("compare deployed files on device", `${error.message}`, "");
+    }
+
+    for (const file of changedFiles) {
+      try {
+        await connection.uploadFile(
+          file.localPath,
+          path.posix.join(profile.projectPath, path.posix.dirname(file.remotePath))
+        );
+      } catch (error) {
+        throw new OperationFailedError(
+          "upload file to device",
+          `SSH traffic is too busy. Error: ${error}`,
+          "Please wait a second and retry."
+        );
+      }
+
+      const installCommand = getRemoteInstallCommand(profile.projectPath, file);
+      if (installCommand) {
+        try {
+          await connection.exec(installCommand);
+        } catch (error) {
+          throw new OperationFailedError(`install ${file.remotePath} on device`, `${error.message}`, "");
+        }
+      }
+    }
+    return changedFiles.length;
+  } finally {
+    try {
+      await connection.close();
+    } catch (error) {
+      ui.appendLine(`Failed to close SSH connection. ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Deploy files to each target even if some of them fail, and report result
+ * of each target.
+ * @param outputPath build output path the files are found in
+ * @param files files to deploy
+ * @param targets device profiles of targets
+ * @param ui output of deployment
+ * @param connect open connection to target, with device cube by default
+ * @returns false if there is nothing to deploy
+ */
+export async function deployToTargets(
+  outputPath: string,
+  files: DeployFile[],
+  targets: SshDeviceProfile[],
+  ui: UserInterface,
+  connect: DeviceConnector = openDeviceConnection
+): Promise<boolean> {
+  if (files.length === 0) {
+    const message = `No executable, shared library or asset is built in ${outputPath}. \
+      Nothing to upload to target machine.`;
+    ui.showWarningMessage(message);
+    ui.appendLine(message);
+    return false;
+  }
+
+  const localHashes = hashDeployFiles(files);
+  const failedTargets: string[] = [];
+  for (const target of targets) {
+    const targetName = describeDeviceProfile(target);
+    try {
+      const uploadedCount = await uploadToTarget(target, files, localHashes, ui, connect);
+      ui.appendLine(
+        `Successfully deploy compiled files to ${targetName}. ` +
+          `${uploadedCount} of ${files.length} files are uploaded, the others are unchanged.`
+      );
+    } catch (error) {
+      failedTargets.push(targetName);
+      ui.appendLine(`Failed to deploy compiled files to ${targetName}. ${error.message}`);
+    }
+  }
+
+  if (failedTargets.length > 0) {
+    throw new OperationFailedError(
+      `upload binary file to device ${failedTargets.join(", ")}`,
+      `${targets.length - failedTargets.length} of ${targets.length} targets succeeded.`,
+      "Please check the output for details."
+    );
+  }
+
+  const message =
+    targets.length === 1
+      ? `Successfully deploy compiled files to device board.`
+      : `Successfully deploy compiled files to ${targets.length} device boards.`;
+  ui.showInformationMessage(message);
+  return true;
+}
@@ -0,0 +1,255 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as fs from "fs-plus";
+import * as path from "path";
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { ResourceNotFoundError } from "../common/Error/OperationFailedErrors/ResourceNotFoundError";
+import { FileNames } from "../constants";
+
+import { SecretStore } from "./SecretStore";
+
+export enum SshAuthenticationType {
+  Password = "password",
+  PrivateKey = "privateKey"
+}
+
+/**
+ * How device code is run on target, as a background process of SSH user or
+ * as a transient systemd user unit.
+ */
+export enum DeviceRunMode {
+  Process = "process",
+  SystemdUnit = "systemdUnit"
+}
+
+/**
+ * SSH target to upload device code to. Password and private key are kept in
+ * OS keychain and the profile only keeps references to them, so device
+ * profiles file is safe to check in.
+ */
+export interface SshDeviceProfile {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  user: string;
+  projectPath: string;
+  authentication: SshAuthenticationType;
+  runMode?: DeviceRunMode;
+  password?: string;
+  privateKey?: string;
+  passphrase?: string;
+}
+
+/**
+ * Device profiles of a project, upload deploys to all active targets.
+ */
+export interface DeviceProfiles {
+  activeTargets: string[];
+  profiles: SshDeviceProfile[];
+}
+
+/**
+ * Secrets of device profile in plain text.
+ */
+export interface SshDeviceSecrets {
+  password?: string;
+  privateKey?: string;
+  passphrase?: string;
+}
+
+const secretKeys: Array<keyof SshDeviceSecrets> = ["password", "privateKey", "passphrase"];
+
+/**
+ * Get file path of device profiles.
+ * @param projectPath project root path
+ */
+export function getDeviceProfilesPath(projectPath: string): string {
+  return path.join(projectPath, FileNames.vscodeSettingsFolderName, FileNames.deviceProfilesFileName);
+}
+
+/**
+ * Validate device profiles loaded from file.
+ * @param json content of device profiles file
+ * @param filePath file path of device profiles, used in error message
+ */
+export function parseDeviceProfiles(json: unknown, filePath: string): DeviceProfiles {
+  const deviceProfiles = json as DeviceProfiles;
+  const problems: string[] = [];
+  if (!deviceProfiles || !Array.isArray(deviceProfiles.profiles) || !Array.isArray(deviceProfiles.activeTargets)) {
+    problems.push(`"profiles" and "activeTargets" should be arrays.`);
+  } else {
+    const names = new Set<string>();
+    deviceProfiles.profiles.forEach((profile, index) => {
+      if (!profile || !profile.name || !profile.host || !profile.user || !profile.projectPath) {
+        problems.push(`Profile ${index} should have name, host, user and projectPath.`);
+        return;
+      }
+      if (names.has(profile.name)) {
+        problems.push(`Profile name ${profile.name} is duplicated.`);
+      }
+      names.add(profile.name);
+      if (!Number.isInteger(profile.port) || profile.port <= 0) {
+        problems.push(`Port of profile ${profile.name} should be a positive integer.`);
+      }
+      if (!Object.values(SshAuthenticationType).includes(profile.authentication)) {
+        problems.push(`Authentication of profile ${profile.name} should be password or privateKey.`);
+      }
+      if (profile.runMode !== undefined && !Object.values(DeviceRunMode).includes(profile.runMode)) {
+        problems.push(`Run mode of profile ${profile.name} should be process or systemdUnit.`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new OperationFailedError(
+      "load device profiles",
+      `${filePath} is invalid. ${problems.join(" ")}`,
+      "Please fix or delete the file."
+    );
+  }
+  return deviceProfiles;
+}
+
+/**
+ * Load device profiles of the project, no profile if the file does not exist.
+ * @param projectPath project root path
+ */
+export function loadDeviceProfiles(projectPath: string): DeviceProfiles {
+  const filePath = getDeviceProfilesPath(projectPath);
+  if (!fs.isFileSync(filePath)) {
+    return { activeTargets: [], profiles: [] };
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new OperationFailedError("load device profiles", `${filePath} is not a valid JSON file.`, "");
+  }
+  return parseDeviceProfiles(json, filePath);
+}
+
+/**
+ * Save device profiles of the project.
+ * @param projectPath project root path
+ * @param deviceProfiles device profiles
+ */
+export function saveDeviceProfiles(projectPath: string, deviceProfiles: DeviceProfiles): void {
+  const filePath = getDeviceProfilesPath(projectPath);
+  fs.makeTreeSync(path.dirname(filePath));
+  fs.writeFileSync(filePath, JSON.stringify(deviceProfiles, null, 2));
+}
+
+/**
+ * Get profiles of active targets. Active targets whose profiles do not exist
+ * any more are skipped.
+ * @param deviceProfiles device profiles
+ */
+export function getActiveProfiles(deviceProfiles: DeviceProfiles): SshDeviceProfile[] {
+  const activeProfiles: SshDeviceProfile[] = [];
+  for (const name of deviceProfiles.activeTargets) {
+    const profile = deviceProfiles.profiles.find(p => p.name === name);
+    if (profile) {
+      activeProfiles.push(profile);
+    }
+  }
+  return activeProfiles;
+}
+
+/**
+ * Add or replace profile. Active target is kept if profile is renamed, and the
+ * first profile is activated.
+ * @param deviceProfiles device profiles
+ * @param profile new profile
+ * @param oldName name of the profile to replace
+ */
+export function setDeviceProfile(
+  deviceProfiles: DeviceProfiles,
+  profile: SshDeviceProfile,
+  oldName = profile.name
+): DeviceProfiles {
+  const profiles = deviceProfiles.profiles.filter(p => p.name !== oldName && p.name !== profile.name);
+  const index = deviceProfiles.profiles.findIndex(p => p.name === oldName);
+  profiles.splice(index < 0 ? profiles.length : Math.min(index, profiles.length), 0, profile);
+  let activeTargets = deviceProfiles.activeTargets.map(name => (name === oldName ? profile.name : name));
+  activeTargets = activeTargets.filter((name, i) => activeTargets.indexOf(name) === i);
+  if (activeTargets.length === 0) {
+    activeTargets.push(profile.name);
+  }
+  return { activeTargets, profiles };
+}
+
+/**
+ * Remove profile and its active target.
+ * @param deviceProfiles device profiles
+ * @param name profile name
+ */
+export function removeDeviceProfile(deviceProfiles: DeviceProfiles, name: string): DeviceProfiles {
+  return {
+    activeTargets: deviceProfiles.activeTargets.filter(target => target !== name),
+    profiles: deviceProfiles.profiles.filter(profile => profile.name !== name)
+  };
+}
+
+/**
+ * Save secrets of profile to OS keychain.
+ * @param profile device profile
+ * @param secrets secrets in plain text, undefined secrets keep the existing
+ * references of profile
+ * @returns profile with references to secrets
+ */
+export async function protectDeviceSecrets(
+  profile: SshDeviceProfile,
+  secrets: SshDeviceSecrets
+): Promise<SshDeviceProfile> {
+  const protectedProfile: SshDeviceProfile = { ...profile };
+  for (const key of secretKeys) {
+    const secret = secrets[key];
+    if (secret) {
+      protectedProfile[key] = await SecretStore.store(`deviceProfile.${profile.id}.${key}`, secret);
+    }
+  }
+  return protectedProfile;
+}
+
+/**
+ * Get secrets of profile from OS keychain.
+ * @param profile device profile
+ */
+export async function resolveDeviceSecrets(profile: SshDeviceProfile): Promise<SshDeviceSecrets> {
+  const secrets: SshDeviceSecrets = {};
+  for (const key of secretKeys) {
+    const value = profile[key];
+    if (!value) {
+      continue;
+    }
+    try {
+      secrets[key] = await SecretStore.resolve(value);
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        throw new ResourceNotFoundError(
+          "resolve secret of device profile",
+          `${key} of device profile ${profile.name} in OS keychain`,
+          "Please edit the device profile to enter it again."
+        );
+      }
+      throw error;
+    }
+  }
+  return secrets;
+}
+
+/**
+ * Delete secrets of profile from OS keychain.
+ * @param profile device profile
+ */
+export async function deleteDeviceSecrets(profile: SshDeviceProfile): Promise<void> {
+  for (const key of secretKeys) {
+    const value = profile[key];
+    if (value) {
+      await SecretStore.delete(value);
+    }
+  }
+}
@@ -0,0 +1,193 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { BoardProvider } from "../boardProvider";
+import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { SystemResourceNotFoundError } from "../common/Error/SystemErrors/SystemResourceNotFoundError";
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+import { FileNames } from "../constants";
+import { TelemetryContext } from "../telemetry";
+
+import { ArduinoHeadlessDevice, ContainerHeadlessDevice } from "./HeadlessDevices";
+import { Board } from "./Interfaces/Board";
+import { Device } from "./Interfaces/Device";
+import { DeviceProvider, HeadlessDevice, HeadlessDeviceSettings } from "./Interfaces/DeviceProvider";
+import { ProjectHostType } from "./Interfaces/ProjectHostType";
+import { TemplateFileInfo } from "./Interfaces/ProjectTemplate";
+import { UserInterface } from "./Interfaces/UserInterface";
+
+// Device modules need VS Code at runtime, so that the command line interface
+// can resolve boards in the registry without loading them.
+
+function loadAZ3166Device(): typeof import("./AZ3166Device") {
+  return require("./AZ3166Device");
+}
+
+function loadEsp32Device(): typeof import("./Esp32Device") {
+  return require("./Esp32Device");
+}
+
+function loadRaspberryPiDevice(): typeof import("./RaspberryPiDevice") {
+  return require("./RaspberryPiDevice");
+}
+
+/**
+ * Providers of the boards shipped with IoT Device Workbench.
+ * Device modules are loaded lazily, only when a device is built.
+ */
+function getBuiltInDeviceProviders(): DeviceProvider[] {
+  return [
+    {
+      boardId: "devkit",
+      projectHostType: ProjectHostType.Workspace,
+      createDevice: (context, channel, telemetryContext, deviceRootPath, templateFilesInfo): Device =>
+        new (loadAZ3166Device().AZ3166Device)(context, channel, telemetryContext, deviceRootPath, templateFilesInfo),
+      createHeadlessDevice: (_projectRootPath, deviceRootPath, ui, settings): HeadlessDevice =>
+        new ArduinoHeadlessDevice(deviceRootPath, ui, settings)
+    },
+    {
+      boardId: "esp32",
+      projectHostType: ProjectHostType.Workspace,
+      createDevice: (context, channel, telemetryContext, deviceRootPath, templateFilesInfo): Device =>
+        new (loadEsp32Device().Esp32Device)(context, channel, telemetryContext, deviceRootPath, templateFilesInfo),
+      createHeadlessDevice: (_projectRootPath, deviceRootPath, ui, settings): HeadlessDevice =>
+        new ArduinoHeadlessDevice(deviceRootPath, ui, settings)
+    },
+    {
+      boardId: "raspberrypi",
+      projectHostType: ProjectHostType.Container,
+      createDevice: (context, channel, telemetryContext, deviceRootPath, templateFilesInfo): Device =>
+        new (loadRaspberryPiDevice().RaspberryPiDevice)(
+          context,
+          deviceRootPath,
+          channel,
+          telemetryContext,
+          templateFilesInfo
+        ),
+      createHeadlessDevice: (projectRootPath, _deviceRootPath, ui, settings): HeadlessDevice =>
+        new ContainerHeadlessDevice(projectRootPath, ui, settings)
+    }
+  ];
+}
+
+/**
+ * Registry of device providers keyed by board id.
+ * A board is supported when it has both a descriptor in boardlist.json and a
+ * registered provider.
+ */
+export class DeviceRegistry {
+  private static providers: Map<string, DeviceProvider> | undefined;
+
+  private static get registeredProviders(): Map<string, DeviceProvider> {
+    if (!DeviceRegistry.providers) {
+      DeviceRegistry.providers = new Map<string, DeviceProvider>();
+      for (const provider of getBuiltInDeviceProviders()) {
+        DeviceRegistry.providers.set(provider.boardId, provider);
+      }
+    }
+    return DeviceRegistry.providers;
+  }
+
+  /**
+   * Register a device provider. A provider registered later for the same
+   * board id replaces the former one.
+   * @param provider device provider
+   */
+  static register(provider: DeviceProvider): void {
+    if (!provider.boardId) {
+      throw new ArgumentEmptyOrNullError("register device provider", "board id");
+    }
+    DeviceRegistry.registeredProviders.set(provider.boardId, provider);
+  }
+
+  static getProvider(boardId: string): DeviceProvider | undefined {
+    return DeviceRegistry.registeredProviders.get(boardId);
+  }
+
+  /**
+   * Get ids of boards with registered provider for the given project host type.
+   * @param projectHostType project host type
+   */
+  static getBoardIds(projectHostType?: ProjectHostType): string[] {
+    const boardIds: string[] = [];
+    DeviceRegistry.registeredProviders.forEach(provider => {
+      if (!projectHostType || provider.projectHostType === projectHostType) {
+        boardIds.push(provider.boardId);
+      }
+    });
+    return boardIds;
+  }
+
+  /**
+   * Find the board descriptor in board list and build its device with the
+   * registered provider.
+   * @param boardId board id
+   * @param projectHostType type of the project that hosts the device
+   * @param deviceRootPath device root path
+   * @param templateFilesInfo template files info to scaffold files for device
+   */
+  static createDevice(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext,
+    boardId: string,
+    projectHostType: ProjectHostType,
+    deviceRootPath: string,
+    templateFilesInfo?: TemplateFileInfo[]
+  ): Device {
+    const provider = DeviceRegistry.getProvider(boardId);
+    if (!provider || provider.projectHostType !== projectHostType) {
+      throw new TypeNotSupportedError(`board type of ${projectHostType} project`, boardId);
+    }
+
+    const board = DeviceRegistry.getBoard(context, boardId);
+    if (board.projectHostType && board.projectHostType.toLowerCase() !== projectHostType.toLowerCase()) {
+      throw new TypeNotSupportedError(`board type of ${projectHostType} project`, boardId);
+    }
+
+    return provider.createDevice(context, channel, telemetryContext, deviceRootPath, templateFilesInfo);
+  }
+
+  /**
+   * Build the device of the board for the command line interface with the
+   * registered provider.
+   * @param boardId board id
+   * @param projectHostType type of the project that hosts the device
+   * @param projectRootPath project root path
+   * @param deviceRootPath device root path
+   * @param ui output of device operations
+   * @param settings settings of device operations
+   */
+  static createHeadlessDevice(
+    boardId: string,
+    projectHostType: ProjectHostType,
+    projectRootPath: string,
+    deviceRootPath: string,
+    ui: UserInterface,
+    settings: HeadlessDeviceSettings
+  ): HeadlessDevice {
+    const provider = DeviceRegistry.getProvider(boardId);
+    if (!provider || provider.projectHostType !== projectHostType) {
+      throw new TypeNotSupportedError(`board type of ${projectHostType} project`, boardId);
+    }
+    if (!provider.createHeadlessDevice) {
+      throw new TypeNotSupportedError("board type of command line interface", boardId);
+    }
+    return provider.createHeadlessDevice(projectRootPath, deviceRootPath, ui, settings);
+  }
+
+  private static getBoard(context: vscode.ExtensionContext, boardId: string): Board {
+    const boardFolderPath = context.asAbsolutePath(
+      path.join(FileNames.resourcesFolderName, FileNames.templatesFolderName)
+    );
+    const boardProvider = new BoardProvider(boardFolderPath);
+    const board = boardProvider.find({ id: boardId });
+    if (!board) {
+      throw new SystemResourceNotFoundError("board", `board id ${boardId}`, "board list");
+    }
+    return board;
+  }
+}
@@ -0,0 +1,403 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as vscode from "vscode";
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+
+import { DeviceConnection, openDeviceConnection } from "./DeviceConnection";
+import { DeviceRunMode, resolveDeviceSecrets, SshDeviceProfile } from "./DeviceProfile";
+import { shellQuote } from "./ShellQuote";
+
+const constants = {
+  outputChannelName: "Azure IoT Device Workbench: Device Output",
+  pollIntervalInMilliseconds: 1000,
+  unitNamePrefix: "iotworkbench-"
+};
+
+/**
+ * Status of device code on target. Exit code is undefined if it is running,
+ * or it is stopped without exit code, e.g. systemd unit is stopped.
+ */
+export interface RunStatus {
+  running: boolean;
+  exitCode?: number;
+}
+
+/**
+ * Shell commands to run device code on target in background. Output is
+ * appended to a log file next to the binary, so that it can be read from
+ * the last offset on each poll and the process outlives SSH connection.
+ */
+export class RemoteRunCommands {
+  static getUnitName(binaryName: string): string {
+    return `${constants.unitNamePrefix}${binaryName.replace(/[^A-Za-z0-9_.-]/g, "_")}`;
+  }
+
+  static getLogFileName(binaryName: string): string {
+    return `.${binaryName}.log`;
+  }
+
+  /**
+   * Start binary, the previous run of the same binary is stopped first.
+   * Output is "started" if binary is started.
+   * @param runMode run mode of target
+   * @param projectPath project path on target
+   * @param binaryName binary name
+   */
+  static start(runMode: DeviceRunMode, projectPath: string, binaryName: string): string {
+    const binary = shellQuote(`./${binaryName}`);
+    const logFile = shellQuote(RemoteRunCommands.getLogFileName(binaryName));
+    if (runMode === DeviceRunMode.SystemdUnit) {
+      const unitName = RemoteRunCommands.getUnitName(binaryName);
+      return (
+        `cd ${shellQuote(projectPath)} && test -x ${binary} && { rm -f ${logFile}; ` +
+        `systemctl --user stop ${unitName} 2>/dev/null; systemctl --user reset-failed ${unitName} 2>/dev/null; ` +
+        `systemd-run --user --unit=${unitName} --remain-after-exit --working-directory="$PWD" ` +
+        `-p StandardOutput=append:"$PWD"/${logFile} -p StandardError=append:"$PWD"/${logFile} ` +
+        `"$PWD"/${shellQuote(binaryName)} > /dev/null 2>&1 && echo started; }`
+      );
+    }
+    const pidFile = shellQuote(`.${binaryName}.pid`);
+    const exitCodeFile = shellQuote(`.${binaryName}.exitcode`);
+    // Terminate the whole process group of previous run, so that it does not
+    // record exit code of its own after the new run starts. Files are passed
+    // to the background shell as arguments, so that they are not quoted twice.
+    return (
+      `cd ${shellQuote(projectPath)} && test -x ${binary} && { ` +
+      `[ -f ${pidFile} ] && kill -TERM -- -$(cat ${pidFile}) 2>/dev/null; rm -f ${logFile} ${exitCodeFile}; ` +
+      `setsid sh -c '"$0" > "$1" 2>&1; echo $? > "$2"' ${binary} ${logFile} ${exitCodeFile} > /dev/null 2>&1 & ` +
+      `echo $! > ${pidFile}; echo started; }`
+    );
+  }
+
+  /**
+   * Start gdbserver listening on port to debug binary, the previous gdbserver
+   * of the same binary is stopped first. Output is "started" if gdbserver is
+   * listening, or "no gdbserver" if it is not installed on target.
+   * @param projectPath project path on target
+   * @param binaryName binary name
+   * @param port port of gdbserver
+   */
+  static startGdbServer(projectPath: string, binaryName: string, port: number): string {
+    const binary = shellQuote(`./${binaryName}`);
+    const pidFile = shellQuote(`.${binaryName}.gdbserver.pid`);
+    const logFile = shellQuote(`.${binaryName}.gdbserver.log`);
+    return (
+      `cd ${shellQuote(projectPath)} && test -x ${binary} && ` +
+      `if ! command -v gdbserver > /dev/null; then echo "no gdbserver"; else ` +
+      `[ -f ${pidFile} ] && kill -TERM -- -$(cat ${pidFile}) 2>/dev/null && sleep 1; ` +
+      `setsid gdbserver :${port} ${binary} > ${logFile} 2>&1 < /dev/null & ` +
+      `echo $! > ${pidFile}; sleep 1; kill -0 $(cat ${pidFile}) 2>/dev/null && echo started; fi`
+    );
+  }
+
+  /**
+   * Read log from offset in bytes.
+   * @param projectPath project path on target
+   * @param binaryName binary name
+   * @param offset offset in bytes
+   */
+  static readLog(projectPath: string, binaryName: string, offset: number): string {
+    const logFile = shellQuote(`${projectPath}/${RemoteRunCommands.getLogFileName(binaryName)}`);
+    return `tail -c +${offset + 1} ${logFile} 2>/dev/null; true`;
+  }
+
+  /**
+   * Get status of binary, which is parsed by parseStatus.
+   * @param runMode run mode of target
+   * @param projectPath project path on target
+   * @param binaryName binary name
+   */
+  static status(runMode: DeviceRunMode, projectPath: string, binaryName: string): string {
+    if (runMode === DeviceRunMode.SystemdUnit) {
+      return (
+        `systemctl --user show ${RemoteRunCommands.getUnitName(binaryName)} ` +
+        `-p ActiveState -p SubState -p ExecMainCode -p ExecMainStatus`
+      );
+    }
+    const pidFile = shellQuote(`.${binaryName}.pid`);
+    const exitCodeFile = shellQuote(`.${binaryName}.exitcode`);
+    return (
+      `cd ${shellQuote(projectPath)} && if [ -f ${exitCodeFile} ]; then echo "exited $(cat ${exitCodeFile})"; ` +
+      `elif [ -f ${pidFile} ] && kill -0 $(cat ${pidFile}) 2>/dev/null; then echo running; ` +
+      `else echo stopped; fi`
+    );
+  }
+
+  /**
+   * Stop binary. In process mode, only the binary is terminated so that its
+   * exit code is still recorded.
+   * @param runMode run mode of target
+   * @param projectPath project path on target
+   * @param binaryName binary name
+   */
+  static stop(runMode: DeviceRunMode, projectPath: string, binaryName: string): string {
+    if (runMode === DeviceRunMode.SystemdUnit) {
+      return `systemctl --user stop ${RemoteRunCommands.getUnitName(binaryName)} 2>/dev/null; true`;
+    }
+    const pidFile = shellQuote(`${projectPath}/.${binaryName}.pid`);
+    return `[ -f ${pidFile} ] && kill -0 $(cat ${pidFile}) 2>/dev/null && pkill -TERM -P $(cat ${pidFile}); true`;
+  }
+
+  /**
+   * Parse output of status command.
+   * @param runMode run mode of target
+   * @param output output of status command
+   */
+  static parseStatus(runMode: DeviceRunMode, output: string): RunStatus {
+    if (runMode === DeviceRunMode.SystemdUnit) {
+      const properties = new Map<string, string>();
+      for (const line of output.split(/\r?\n/)) {
+        const index = line.indexOf("=");
+        if (index > 0) {
+          properties.set(line.substr(0, index).trim(), line.substr(index + 1).trim());
+        }
+      }
+      const subState = properties.get("SubState");
+      if (properties.get("ActiveState") === "activating" || subState === "running" || subState === "start") {
+        return { running: true };
+      }
+      if (subState !== "exited" && subState !== "failed") {
+        return { running: false };
+      }
+      // Exec main code 1 is exited, otherwise it is killed by signal
+      const status = Number(properties.get("ExecMainStatus"));
+      const exitCode = properties.get("ExecMainCode") === "1" ? status : 128 + status;
+      return { running: false, exitCode: isNaN(status) ? undefined : exitCode };
+    }
+
+    const result = output.trim();
+    if (result === "running") {
+      return { running: true };
+    }
+    const exitCodeMatches = result.match(/^exited (\d+)$/);
+    return exitCodeMatches ? { running: false, exitCode: Number(exitCodeMatches[1]) } : { running: false };
+  }
+
+  private constructor() {}
+}
+
+interface RunSession {
+  profile: SshDeviceProfile;
+  binaryName: string;
+  connection: DeviceConnection;
+  logOffset: number;
+  partialLine: string;
+  timer?: NodeJS.Timer;
+}
+
+/**
+ * Run device code on targets and stream its output to device output channel.
+ * Sessions are kept across commands, since devices are created per command.
+ */
+export class DeviceRunner {
+  private static channel: vscode.OutputChannel | undefined;
+  private static sessions = new Map<string, RunSession>();
+  private static exitCodes = new Map<string, number | undefined>();
+  private static attached = false;
+
+  /**
+   * Dispose runner with the extension. Runner is loaded on first run, so it
+   * is attached by device instead of on activation.
+   * @param context extension context
+   */
+  static attach(context: vscode.ExtensionContext): void {
+    if (!DeviceRunner.attached) {
+      context.subscriptions.push({ dispose: () => DeviceRunner.dispose() });
+      DeviceRunner.attached = true;
+    }
+  }
+
+  static getOutputChannel(): vscode.OutputChannel {
+    if (!DeviceRunner.channel) {
+      DeviceRunner.channel = vscode.window.createOutputChannel(constants.outputChannelName);
+    }
+    return DeviceRunner.channel;
+  }
+
+  static isRunning(profileName: string): boolean {
+    return DeviceRunner.sessions.has(profileName);
+  }
+
+  /**
+   * Get exit code of the last run on target, undefined if it is running,
+   * never run or stopped without exit code.
+   * @param profileName device profile name
+   */
+  static getExitCode(profileName: string): number | undefined {
+    return DeviceRunner.exitCodes.get(profileName);
+  }
+
+  /**
+   * Start binary on target and poll its output until it exits.
+   * @param profile device profile
+   * @param binaryName binary name
+   */
+  static async start(profile: SshDeviceProfile, binaryName: string): Promise<void> {
+    const previousSession = DeviceRunner.sessions.get(profile.name);
+    if (previousSession) {
+      await DeviceRunner.closeSession(previousSession);
+    }
+
+    const runMode = profile.runMode || DeviceRunMode.Process;
+    const connection = await openDeviceConnection(profile, await resolveDeviceSecrets(profile));
+    let output: string;
+    try {
+      output = await connection.exec(RemoteRunCommands.start(runMode, profile.projectPath, binaryName));
+    } catch (error) {
+      await connection.close();
+      throw new OperationFailedError(`run ${binaryName} on ${profile.name}`, error.message, "");
+    }
+    if (!output || !output.includes("started")) {
+      await connection.close();
+      throw new OperationFailedError(
+        `run ${binaryName} on ${profile.name}`,
+        `Executable file ${binaryName} does not exist under ${profile.projectPath} of the device.`,
+        "Please upload device code first."
+      );
+    }
+
+    const session: RunSession = { profile, binaryName, connection, logOffset: 0, partialLine: "" };
+    DeviceRunner.sessions.set(profile.name, session);
+    DeviceRunner.exitCodes.delete(profile.name);
+    DeviceRunner.getOutputChannel().appendLine(
+      `[${profile.name}] Started ${binaryName} ${runMode === DeviceRunMode.SystemdUnit ? "as systemd unit " : ""}` +
+        `on ${profile.user}@${profile.host}.`
+    );
+    DeviceRunner.schedulePoll(session);
+  }
+
+  /**
+   * Stop binary on target, which may be started in another window.
+   * @param profile device profile
+   * @param binaryName binary name
+   */
+  static async stop(profile: SshDeviceProfile, binaryName: string): Promise<RunStatus> {
+    const runMode = profile.runMode || DeviceRunMode.Process;
+    const session = DeviceRunner.sessions.get(profile.name);
+    if (session && session.timer) {
+      clearTimeout(session.timer);
+      session.timer = undefined;
+    }
+    const connection = session
+      ? session.connection
+      : await openDeviceConnection(profile, await resolveDeviceSecrets(profile));
+    try {
+      await connection.exec(RemoteRunCommands.stop(runMode, profile.projectPath, binaryName));
+      // Wait for exit code to be recorded
+      await new Promise(resolve => setTimeout(resolve, constants.pollIntervalInMilliseconds));
+      if (session) {
+        await DeviceRunner.readLog(session);
+      }
+      const status = RemoteRunCommands.parseStatus(
+        runMode,
+        await connection.exec(RemoteRunCommands.status(runMode, profile.projectPath, binaryName))
+      );
+      DeviceRunner.reportStatus(profile.name, binaryName, status);
+      return status;
+    } finally {
+      if (session) {
+        await DeviceRunner.closeSession(session);
+      } else {
+        await connection.close();
+      }
+    }
+  }
+
+  /**
+   * Stop polling and close connections, binaries keep running on targets.
+   */
+  static async dispose(): Promise<void> {
+    for (const session of Array.from(DeviceRunner.sessions.values())) {
+      await DeviceRunner.closeSession(session);
+    }
+    if (DeviceRunner.channel) {
+      DeviceRunner.channel.dispose();
+      DeviceRunner.channel = undefined;
+    }
+  }
+
+  private static schedulePoll(session: RunSession): void {
+    session.timer = setTimeout(() => DeviceRunner.poll(session), constants.pollIntervalInMilliseconds);
+  }
+
+  private static async poll(session: RunSession): Promise<void> {
+    const profile = session.profile;
+    const runMode = profile.runMode || DeviceRunMode.Process;
+    try {
+      await DeviceRunner.readLog(session);
+      const status = RemoteRunCommands.parseStatus(
+        runMode,
+        await session.connection.exec(RemoteRunCommands.status(runMode, profile.projectPath, session.binaryName))
+      );
+      if (DeviceRunner.sessions.get(profile.name) !== session || !session.timer) {
+        // Stopped or restarted while polling
+        return;
+      }
+      if (status.running) {
+        DeviceRunner.schedulePoll(session);
+        return;
+      }
+      await DeviceRunner.readLog(session);
+      DeviceRunner.reportStatus(profile.name, session.binaryName, status);
+      if (status.exitCode) {
+        vscode.window.showWarningMessage(
+          `${session.binaryName} exited with code ${status.exitCode} on ${profile.name}.`
+        );
+      }
+    } catch (error) {
+      DeviceRunner.getOutputChannel().appendLine(`[${profile.name}] Stop reading output. ${error.message}`);
+    }
+    await DeviceRunner.closeSession(session);
+  }
+
+  private static async readLog(session: RunSession): Promise<void> {
+    const log = await session.connection.exec(
+      RemoteRunCommands.readLog(session.profile.projectPath, session.binaryName, session.logOffset)
+    );
+    if (!log) {
+      return;
+    }
+    session.logOffset += Buffer.byteLength(log, "utf8");
+    const lines = (session.partialLine + log).split(/\r?\n/);
+    session.partialLine = lines.pop() || "";
+    for (const line of lines) {
+      DeviceRunner.getOutputChannel().appendLine(`[${session.profile.name}] ${line}`);
+    }
+  }
+
+  private static reportStatus(profileName: string, binaryName: string, status: RunStatus): void {
+    if (status.running) {
+      DeviceRunner.getOutputChannel().appendLine(`[${profileName}] ${binaryName} is still running.`);
+      return;
+    }
+    DeviceRunner.exitCodes.set(profileName, status.exitCode);
+    DeviceRunner.getOutputChannel().appendLine(
+      status.exitCode === undefined
+        ? `[${profileName}] ${binaryName} stopped.`
+        : `[${profileName}] ${binaryName} exited with code ${status.exitCode}.`
+    );
+  }
+
+  private static async closeSession(session: RunSession): Promise<void> {
+    if (session.timer) {
+      clearTimeout(session.timer);
+      session.timer = undefined;
+    }
+    if (session.partialLine) {
+      DeviceRunner.getOutputChannel().appendLine(`[${session.profile.name}] ${session.partialLine}`);
+      session.partialLine = "";
+    }
+    if (DeviceRunner.sessions.get(session.profile.name) === session) {
+      DeviceRunner.sessions.delete(session.profile.name);
+    }
+    try {
+      await session.connection.close();
+    } catch {
+      // Connection may be closed by target already
+    }
+  }
+
+  private constructor() {}
+}
@@ -16,15 +16,17 @@ import { TelemetryContext } from "../telemetry";
 import { Board } from "./Interfaces/Board";
 
 import { ArduinoDeviceBase } from "./ArduinoDeviceBase";
-import { DeviceType } from "./Interfaces/Device";
+import { SerialConfigSetting } from "./SerialConfigProtocol";
 import { TemplateFileInfo } from "./Interfaces/ProjectTemplate";
 import { AzureConfigFileHandler } from "./AzureComponentConfig";
 import { ComponentType } from "./Interfaces/Component";
+import { SecretStore } from "./SecretStore";
 import { SystemResourceNotFoundError } from "../common/Error/SystemErrors/SystemResourceNotFoundError";
 import { AzureConfigNotFoundError } from "../common/Error/SystemErrors/AzureConfigNotFoundErrors";
 
 enum ConfigDeviceSettings {
   Copy = "Copy",
+  ConfigConnectionString = "Config Connection String",
   ConfigCRC = "Config CRC"
 }
 
@@ -83,7 +85,7 @@ export class Esp32Device extends ArduinoDeviceBase {
     devicePath: string,
     templateFiles?: TemplateFileInfo[]
   ) {
-    super(context, devicePath, channel, telemetryContext, DeviceType.Esp32);
+    super(context, devicePath, channel, telemetryContext, Esp32Device.boardId);
     this.channel = channel;
     this.componentId = Guid.create().toString();
     if (templateFiles) {
@@ -103,13 +105,22 @@ export class Esp32Device extends ArduinoDeviceBase {
         label: "Copy device connection string",
         description: "Copy device connection string",
         detail: ConfigDeviceSettings.Copy
-      },
-      {
-        label: "Generate CRC for OTA",
-        description: "Generate Cyclic Redundancy Check(CRC) code for OTA Update",
-        detail: ConfigDeviceSettings.ConfigCRC
       }
     ];
+    // Boards with serial configuration descriptor accept connection string
+    // over serial port
+    if (this.supportsSerialConfig(SerialConfigSetting.DeviceConnectionString)) {
+      configSelectionItems.push({
+        label: "Config device connection string",
+        description: "Send device connection string to the board over serial port",
+        detail: ConfigDeviceSettings.ConfigConnectionString
+      });
+    }
+    configSelectionItems.push({
+      label: "Generate CRC for OTA",
+      description: "Generate Cyclic Redundancy Check(CRC) code for OTA Update",
+      detail: ConfigDeviceSettings.ConfigCRC
+    });
 
     const configSelection = await vscode.window.showQuickPick(configSelectionItems, {
       ignoreFocusOut: true,
@@ -124,27 +135,40 @@ export class Esp32Device extends ArduinoDeviceBase {
 
     if (configSelection.detail === ConfigDeviceSettings.ConfigCRC) {
       await this.generateCrc(this.channel);
-    } else if (configSelection.detail === "Copy") {
-      // Get IoT Hub device connection string from config
-      let deviceConnectionString: string | undefined;
-      const componentConfig = await this.azureConfigFileHandler.getComponentByType(
-        ScaffoldType.Workspace,
-        ComponentType.IoTHubDevice
-      );
-      if (componentConfig) {
-        deviceConnectionString = componentConfig.componentInfo?.values.iotHubDeviceConnectionString;
-      }
-
-      if (!deviceConnectionString) {
-        throw new AzureConfigNotFoundError("iotHubDeviceConnectionString");
-      }
-      clipboardy.writeSync(deviceConnectionString);
+    } else if (configSelection.detail === ConfigDeviceSettings.Copy) {
+      clipboardy.writeSync(await this.getDeviceConnectionString());
       return;
+    } else if (configSelection.detail === ConfigDeviceSettings.ConfigConnectionString) {
+      await this.configDeviceOverSerial(
+        SerialConfigSetting.DeviceConnectionString,
+        await this.getDeviceConnectionString()
+      );
+      vscode.window.showInformationMessage("Successfully configure device connection string.");
     } else {
       throw new TypeNotSupportedError("configuration type", `${configSelection.detail}`);
     }
   }
 
+  /**
+   * Get IoT Hub device connection string from config.
+   */
+  private async getDeviceConnectionString(): Promise<string> {
+    let deviceConnectionString: string | undefined;
+    const componentConfig = await this.azureConfigFileHandler.getComponentByType(
+      ScaffoldType.Workspace,
+      ComponentType.IoTHubDevice
+    );
+    if (componentConfig && componentConfig.componentInfo) {
+      const { values } = await SecretStore.resolveComponentInfo(componentConfig.componentInfo);
+      deviceConnectionString = values.iotHubDeviceConnectionString;
+    }
+
+    if (!deviceConnectionString) {
+      throw new AzureConfigNotFoundError("iotHubDeviceConnectionString");
+    }
+    return deviceConnectionString;
+  }
+
   async preCompileAction(): Promise<boolean> {
     return true;
   }
@@ -0,0 +1,196 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as cp from "child_process";
+import * as fs from "fs-plus";
+import { parse } from "jsonc-parser";
+import * as path from "path";
+
+import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { FileNotFoundError } from "../common/Error/OperationFailedErrors/FileNotFound";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { WorkbenchCommands } from "../common/Commands";
+import { FileNames, OperationType, TaskNames } from "../constants";
+
+import { checkArduinoCli, getArduinoCliArguments, getArduinoCompileCommandLine, loadArduinoConfig } from "./ArduinoCli";
+import { BuildResult, createBuildResult, reportBuildResult } from "./BuildResult";
+import { createDeployManifest, loadDeployConfig } from "./DeployManifest";
+import { openSshConnection } from "./DeviceConnection";
+import { deployToTargets } from "./DeviceDeployment";
+import { getActiveProfiles, loadDeviceProfiles, SshDeviceProfile } from "./DeviceProfile";
+import { HeadlessDevice, HeadlessDeviceSettings } from "./Interfaces/DeviceProvider";
+import { UserInterface } from "./Interfaces/UserInterface";
+
+// Devices of the command line interface. They run the same tasks and deploy
+// steps as the device components in VS Code, without VS Code.
+
+const constants = {
+  defaultArduinoCli: "arduino-cli"
+};
+
+function runProcess(command: string, args: string[], cwd: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = cp.spawn(command, args, { cwd, stdio: "inherit" });
+    child.on("error", error => reject(new OperationFailedError(`run ${command}`, error.message, "")));
+    child.on("exit", code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new OperationFailedError(`run ${command}`, `Process exited with code ${code}.`, ""));
+      }
+    });
+  });
+}
+
+/**
+ * Run compile command line in shell and parse problems from its output, which
+ * is still printed while it runs.
+ */
+function runBuildProcess(commandLine: string, cwd: string): Promise<BuildResult> {
+  const start = Date.now();
+  return new Promise((resolve, reject) => {
+    let output = "";
+    const child = cp.spawn(commandLine, [], { cwd, shell: true, stdio: ["inherit", "pipe", "pipe"] });
+    child.stdout.on("data", (data: Buffer) => {
+      output += data.toString();
+      process.stdout.write(data);
+    });
+    child.stderr.on("data", (data: Buffer) => {
+      output += data.toString();
+      process.stderr.write(data);
+    });
+    child.on("error", error => reject(new OperationFailedError("run compile task", error.message, "")));
+    child.on("close", (code: number | null) =>
+      resolve(createBuildResult(code === null ? undefined : code, output, Date.now() - start))
+    );
+  });
+}
+
+/**
+ * Get command line of the compile task in tasks.json of the device folder,
+ * the one the device component runs in VS Code.
+ * @param deviceRootPath device root path
+ * @param taskName label of the task
+ * @param arduinoCli path of arduino-cli
+ */
+function getCompileCommandLine(
+  deviceRootPath: string,
+  taskName: string,
+  arduinoCli = constants.defaultArduinoCli
+): string {
+  const tasksJsonPath = path.join(deviceRootPath, FileNames.vscodeSettingsFolderName, FileNames.tasksJsonFileName);
+  if (!fs.isFileSync(tasksJsonPath)) {
+    throw new FileNotFoundError(
+      "compile device code",
+      tasksJsonPath,
+      "Please configure the project environment in VS Code first."
+    );
+  }
+  const tasks: Array<{ label: string; command: string; problemMatcher?: string | string[] }> =
+    parse(fs.readFileSync(tasksJsonPath, "utf8")).tasks || [];
+  const task = tasks.find(task => task.label === taskName);
+  if (!task) {
+    throw new OperationFailedError("compile device code", `Task "${taskName}" does not exist in ${tasksJsonPath}.`, "");
+  }
+  if (!task.problemMatcher || task.problemMatcher.length === 0) {
+    throw new OperationFailedError(
+      "compile device code",
+      `Task "${taskName}" in ${tasksJsonPath} has no problem matcher to check its result.`,
+      "Please configure the project environment again in VS Code."
+    );
+  }
+  return task.command
+    .replace(/\$\{workspaceFolder\}/g, deviceRootPath)
+    .replace(`\${command:${WorkbenchCommands.GetArduinoCompileCommand}}`, () =>
+      getArduinoCompileCommandLine(deviceRootPath, arduinoCli)
+    );
+}
+
+/**
+ * Run the compile task and report its result.
+ * @param deviceRootPath device root path
+ * @param taskName label of the task
+ * @param ui output of compilation
+ * @param arduinoCli path of arduino-cli
+ */
+async function compileWithTask(
+  deviceRootPath: string,
+  taskName: string,
+  ui: UserInterface,
+  arduinoCli?: string
+): Promise<BuildResult> {
+  const result = await runBuildProcess(getCompileCommandLine(deviceRootPath, taskName, arduinoCli), deviceRootPath);
+  reportBuildResult(result, OperationType.Compile, ui);
+  if (!result.success) {
+    throw new OperationFailedError(
+      "compile device code",
+      `Task ${taskName} failed with exit code ${result.exitCode}.`,
+      "Please check the output for compile errors."
+    );
+  }
+  return result;
+}
+
+/**
+ * Arduino board compiled with arduino-cli by its compile task. It is uploaded
+ * with arduino-cli too, since the upload task runs the Arduino extension.
+ */
+export class ArduinoHeadlessDevice implements HeadlessDevice {
+  private arduinoCli: string;
+
+  constructor(private deviceRootPath: string, private ui: UserInterface, private settings: HeadlessDeviceSettings) {
+    this.arduinoCli = settings.arduinoCli || constants.defaultArduinoCli;
+  }
+
+  async compile(): Promise<BuildResult> {
+    await checkArduinoCli("compile device code", this.arduinoCli);
+    return compileWithTask(this.deviceRootPath, TaskNames.arduinoCompile, this.ui, this.arduinoCli);
+  }
+
+  async upload(): Promise<void> {
+    await checkArduinoCli("upload device code", this.arduinoCli);
+    const arduinoConfig = loadArduinoConfig(this.deviceRootPath);
+    await runProcess(
+      this.arduinoCli,
+      getArduinoCliArguments(this.deviceRootPath, arduinoConfig, "upload", this.settings.port),
+      this.deviceRootPath
+    );
+    this.ui.showInformationMessage("Device code uploaded.");
+  }
+}
+
+/**
+ * Embedded Linux board compiled by the compile task in its toolchain
+ * container, and deployed to SSH targets.
+ */
+export class ContainerHeadlessDevice implements HeadlessDevice {
+  private outputPath: string;
+
+  constructor(private projectRootPath: string, private ui: UserInterface, private settings: HeadlessDeviceSettings) {
+    this.outputPath = path.join(this.projectRootPath, FileNames.outputPathName);
+  }
+
+  compile(): Promise<BuildResult> {
+    return compileWithTask(this.projectRootPath, TaskNames.containerCompile, this.ui);
+  }
+
+  async upload(): Promise<void> {
+    const files = createDeployManifest(this.projectRootPath, this.outputPath, loadDeployConfig(this.projectRootPath));
+    await deployToTargets(this.outputPath, files, this.getTargets(), this.ui, openSshConnection);
+  }
+
+  private getTargets(): SshDeviceProfile[] {
+    if (this.settings.targets) {
+      return this.settings.targets;
+    }
+    const targets = getActiveProfiles(loadDeviceProfiles(this.projectRootPath));
+    if (targets.length === 0) {
+      throw new ArgumentEmptyOrNullError(
+        "upload binary file to device",
+        "host",
+        "Please set host in answers or with --host, or select active targets in VS Code."
+      );
+    }
+    return targets;
+  }
+}
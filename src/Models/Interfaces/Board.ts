@@ -3,6 +3,8 @@
 
 import * as vscode from "vscode";
 
+import { SerialConfigDescriptor } from "../SerialConfigProtocol";
+
 export interface BoardInstallation {
   additionalUrl: string;
   packageName: string;
@@ -20,6 +22,8 @@ export interface Board {
   examplePageName?: string;
   helpUrl?: string;
   installation?: BoardInstallation;
+  projectHostType?: string;
+  serialConfig?: SerialConfigDescriptor;
 }
 
 export interface BoardQuickPickItem extends vscode.QuickPickItem, Board {}
@@ -1,6 +1,12 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
+import { BuildResult } from "../BuildResult";
+
 export interface Compilable {
-  compile(): Promise<boolean>;
+  /**
+   * Compile device code and wait for it to finish.
+   * @returns build result, undefined if compile is not started
+   */
+  compile(): Promise<BuildResult | undefined>;
 }
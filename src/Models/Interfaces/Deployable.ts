@@ -1,6 +1,13 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
+import { AzureProvisionClient } from "../AzureProvisionClient";
+
 export interface Deployable {
-  deploy(): Promise<boolean>;
+  /**
+   * Deploy the component. When the client is given, it deploys with the
+   * client instead of the dependent extension, without prompting.
+   * @param client client of the subscription to deploy to
+   */
+  deploy(client?: AzureProvisionClient): Promise<boolean>;
 }
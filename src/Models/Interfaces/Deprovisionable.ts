@@ -0,0 +1,20 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { ProvisionedResource } from "../ProvisionedResource";
+
+export interface Deprovisionable {
+  /**
+   * Describe the Azure resource provisioned for the component in the active
+   * environment, e.g. "IoT Hub my-hub", with the resource recorded on
+   * provision.
+   * @returns undefined if the component is not provisioned
+   */
+  getProvisionedResource(): Promise<{ description: string; resource?: ProvisionedResource } | undefined>;
+  /**
+   * Delete the Azure resource created for the component by its recorded id.
+   * Component info is cleared by the caller afterwards.
+   * @param resource resource recorded on provision
+   */
+  deprovision(resource: ProvisionedResource): Promise<void>;
+}
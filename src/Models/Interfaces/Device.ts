@@ -7,14 +7,11 @@ import { Compilable } from "./Compilable";
 import { Component } from "./Component";
 import { Uploadable } from "./Uploadable";
 
-export enum DeviceType {
-  MXChipAZ3166 = 1,
-  Esp32 = 2,
-  RaspberryPi = 3
-}
-
 export interface Device extends Component, Compilable, Uploadable {
-  getDeviceType(): DeviceType;
+  /**
+   * Board id of the device, the one its provider is registered with.
+   */
+  getDeviceType(): string;
   configDeviceSettings(): Promise<void>;
   configDeviceEnvironment(deviceRootPath: string, scaffoldType: ScaffoldType): Promise<void>;
 }
@@ -0,0 +1,73 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as vscode from "vscode";
+
+import { TelemetryContext } from "../../telemetry";
+import { BuildResult } from "../BuildResult";
+import { SshDeviceProfile } from "../DeviceProfile";
+
+import { Device } from "./Device";
+import { ProjectHostType } from "./ProjectHostType";
+import { TemplateFileInfo } from "./ProjectTemplate";
+import { UserInterface } from "./UserInterface";
+
+/**
+ * Device operations of the command line interface, where VS Code and the
+ * dependent extensions are not available.
+ */
+export interface HeadlessDevice {
+  compile(): Promise<BuildResult>;
+  upload(): Promise<void>;
+}
+
+/**
+ * Settings of headless device operations, answered up front since the
+ * command line interface does not prompt.
+ */
+export interface HeadlessDeviceSettings {
+  // Path of arduino-cli
+  arduinoCli?: string;
+  // Serial port to upload to, the one in arduino.json by default
+  port?: string;
+  // SSH targets to upload to, active targets of device profiles by default
+  targets?: SshDeviceProfile[];
+}
+
+export interface DeviceProvider {
+  /**
+   * Id of the board this provider builds devices for.
+   * It must match a board descriptor in boardlist.json.
+   */
+  boardId: string;
+  /**
+   * Type of the iot project that hosts the device.
+   */
+  projectHostType: ProjectHostType;
+  /**
+   * Build the device component of the board.
+   * @param deviceRootPath device root path of the project
+   * @param templateFilesInfo template files info to scaffold files for device
+   */
+  createDevice(
+    context: vscode.ExtensionContext,
+    channel: vscode.OutputChannel,
+    telemetryContext: TelemetryContext,
+    deviceRootPath: string,
+    templateFilesInfo?: TemplateFileInfo[]
+  ): Device;
+  /**
+   * Build the device for the command line interface. Boards without it are
+   * not supported by the command line interface.
+   * @param projectRootPath project root path
+   * @param deviceRootPath device root path of the project
+   * @param ui output of device operations
+   * @param settings settings of device operations
+   */
+  createHeadlessDevice?(
+    projectRootPath: string,
+    deviceRootPath: string,
+    ui: UserInterface,
+    settings: HeadlessDeviceSettings
+  ): HeadlessDevice;
+}
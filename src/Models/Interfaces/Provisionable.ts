@@ -2,9 +2,32 @@
 // Licensed under the MIT License.
 import { ScaffoldType } from "../../constants";
 import { ComponentInfo, DependencyConfig } from "../AzureComponentConfig";
+import { AzureProvisionClient } from "../AzureProvisionClient";
+import { ProvisionManifest } from "../ProvisionManifest";
+import { ProvisionPlanItem } from "../ProvisionPlan";
+
+/**
+ * Answers of provision and the client to provision with, in the subscription
+ * and resource group of the answers.
+ */
+export interface UnattendedProvision {
+  manifest: ProvisionManifest;
+  client: AzureProvisionClient;
+}
 
 export interface Provisionable {
   dependencies: DependencyConfig[];
-  provision(): Promise<boolean>;
+  /**
+   * Provision the component. When unattended provision is given, answers are
+   * read from its manifest instead of prompting.
+   * @param unattended answers and client of unattended provision
+   */
+  provision(unattended?: UnattendedProvision): Promise<boolean>;
+  /**
+   * Describe what provision would create, reuse or change, without touching
+   * any resource. Without unattended provision, resources are chosen in wizard.
+   * @param unattended answers and client of unattended provision
+   */
+  plan(unattended?: UnattendedProvision): Promise<ProvisionPlanItem[]>;
   updateConfigSettings(type: ScaffoldType, componentInfo?: ComponentInfo): void;
 }
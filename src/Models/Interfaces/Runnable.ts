@@ -0,0 +1,7 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+export interface Runnable {
+  run(): Promise<boolean>;
+  stop(): Promise<boolean>;
+}
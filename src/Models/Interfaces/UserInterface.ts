@@ -0,0 +1,21 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { OutputChannel, QuickPickItem, QuickPickOptions } from "vscode";
+
+/**
+ * Prompts and output of project operations. In VS Code they are quick picks,
+ * notifications and the output channel. The command line interface has no
+ * prompt, its answers are given up front, and output goes to the console.
+ */
+export interface UserInterface {
+  /**
+   * Output channel which Azure IoT Hub Toolkit writes to, only in VS Code.
+   */
+  readonly channel?: OutputChannel;
+  appendLine(message: string): void;
+  showQuickPick<T extends QuickPickItem>(items: T[] | Promise<T[]>, options: QuickPickOptions): Promise<T | undefined>;
+  showInformationMessage(message: string): void;
+  showWarningMessage(message: string): void;
+  showErrorMessage(message: string): void;
+}
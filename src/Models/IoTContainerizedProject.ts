@@ -8,14 +8,13 @@ import * as vscode from "vscode";
 import { RemoteContainersCommands, VscodeCommands } from "../common/Commands";
 
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
-import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
 import { OperationCanceledError } from "../common/Error/OperationCanceledError";
 import { ConfigKey, EventNames, FileNames, ScaffoldType } from "../constants";
 import { FileUtility } from "../FileUtility";
 import { TelemetryContext, TelemetryWorker } from "../telemetry";
 import { getProjectConfig, updateProjectHostTypeConfig } from "../utils";
 
-import { Component } from "./Interfaces/Component";
+import { DeviceRegistry } from "./DeviceRegistry";
 import { ProjectHostType } from "./Interfaces/ProjectHostType";
 import { ProjectTemplateType, TemplateFileInfo } from "./Interfaces/ProjectTemplate";
 import { IoTWorkbenchProjectBase, OpenScenario } from "./IoTWorkbenchProjectBase";
@@ -23,9 +22,6 @@ import { RemoteExtension } from "./RemoteExtension";
 import { ProjectConfigNotFoundError } from "../common/Error/SystemErrors/ProjectConfigNotFoundError";
 import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
 
-const impor = require("impor")(__dirname);
-const raspberryPiDeviceModule = impor("./RaspberryPiDevice") as typeof import("./RaspberryPiDevice");
-
 export class IoTContainerizedProject extends IoTWorkbenchProjectBase {
   constructor(
     context: vscode.ExtensionContext,
@@ -175,7 +171,8 @@ export class IoTContainerizedProject extends IoTWorkbenchProjectBase {
   }
 
   /**
-   * Create and load device component according to board id.
+   * Create and load device component according to board id with the
+   * registered device provider.
    * Push device to component list.
    * @param boardId board id
    * @param scaffoldType scaffold type
@@ -188,23 +185,17 @@ export class IoTContainerizedProject extends IoTWorkbenchProjectBase {
   ): Promise<void> {
     await this.validateProjectRootPathExists("initialize device", scaffoldType);
 
-    let device: Component;
-    if (boardId === raspberryPiDeviceModule.RaspberryPiDevice.boardId) {
-      device = new raspberryPiDeviceModule.RaspberryPiDevice(
-        this.extensionContext,
-        this.projectRootPath,
-        this.channel,
-        this.telemetryContext,
-        templateFilesInfo
-      );
-    } else {
-      throw new TypeNotSupportedError("board type", boardId);
-    }
-
-    if (device) {
-      this.componentList.push(device);
-      await device.load();
-    }
+    const device = DeviceRegistry.createDevice(
+      this.extensionContext,
+      this.channel,
+      this.telemetryContext,
+      boardId,
+      this.projectHostType,
+      this.projectRootPath,
+      templateFilesInfo
+    );
+    this.componentList.push(device);
+    await device.load();
   }
 
   /**
@@ -2,25 +2,34 @@
 // Licensed under the MIT License.
 
 import { Guid } from "guid-typescript";
-import * as vscode from "vscode";
+import { QuickPickItem } from "vscode";
 
 import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
 import { DependentExtensionNotFoundError } from "../common/Error/OperationFailedErrors/DependentExtensionNotFoundError";
 import { ScaffoldType } from "../constants";
-import { channelPrintJsonObject, channelShowAndAppendLine } from "../utils";
 
-import { getExtension } from "./Apis";
 import { AzureComponentConfig, AzureConfigFileHandler, ComponentInfo, DependencyConfig } from "./AzureComponentConfig";
-import { AzureUtility } from "./AzureUtility";
 import { ExtensionName } from "./Interfaces/Api";
 import { Component, ComponentType } from "./Interfaces/Component";
-import { Provisionable } from "./Interfaces/Provisionable";
+import { Deprovisionable } from "./Interfaces/Deprovisionable";
+import { Provisionable, UnattendedProvision } from "./Interfaces/Provisionable";
+import { UserInterface } from "./Interfaces/UserInterface";
+import { keepOwnership, ProvisionedResource } from "./ProvisionedResource";
+import { getManifestSection } from "./ProvisionManifest";
+import { ProvisionPlanItem } from "./ProvisionPlan";
+import { getConnectionStringValue, getIoTHubSku } from "./AzureProvisionClient";
+import { SecretStore } from "./SecretStore";
+import { loadApis, loadAzureUtility } from "./VSCodeModules";
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
 
-export class IoTHub implements Component, Provisionable {
+const constants = {
+  iotHubApiVersion: "2018-04-01"
+};
+
+export class IoTHub implements Component, Provisionable, Deprovisionable {
   dependencies: DependencyConfig[] = [];
   private componentType: ComponentType;
-  private channel: vscode.OutputChannel;
+  private ui: UserInterface;
   private projectRootPath: string;
   private componentId: string;
   private azureConfigFileHandler: AzureConfigFileHandler;
@@ -28,12 +37,18 @@ export class IoTHub implements Component, Provisionable {
     return this.componentId;
   }
 
-  constructor(projectRoot: string, channel: vscode.OutputChannel) {
+  /**
+   * @param projectRoot project root path
+   * @param ui prompts and output of the component
+   * @param environment environment to provision, active environment of the
+   * workspace by default
+   */
+  constructor(projectRoot: string, ui: UserInterface, environment?: string) {
     this.componentType = ComponentType.IoTHub;
-    this.channel = channel;
+    this.ui = ui;
     this.componentId = Guid.create().toString();
     this.projectRootPath = projectRoot;
-    this.azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath);
+    this.azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath, environment);
   }
 
   name = "IoT Hub";
@@ -61,8 +76,12 @@ export class IoTHub implements Component, Provisionable {
     await this.updateConfigSettings(ScaffoldType.Local);
   }
 
-  async provision(): Promise<boolean> {
-    const provisionIothubSelection: vscode.QuickPickItem[] = [
+  async provision(unattended?: UnattendedProvision): Promise<boolean> {
+    if (unattended) {
+      return this.provisionWithManifest(unattended);
+    }
+
+    const provisionIothubSelection: QuickPickItem[] = [
       {
         label: "Select an existing IoT Hub",
         description: "Select an existing IoT Hub",
@@ -74,7 +93,7 @@ export class IoTHub implements Component, Provisionable {
         detail: "create"
       }
     ];
-    const selection = await vscode.window.showQuickPick(provisionIothubSelection, {
+    const selection = await this.ui.showQuickPick(provisionIothubSelection, {
       ignoreFocusOut: true,
       placeHolder: "Provision IoT Hub"
     });
@@ -83,34 +102,31 @@ export class IoTHub implements Component, Provisionable {
       return false;
     }
 
-    const toolkit = getExtension(ExtensionName.Toolkit);
+    const toolkit = loadApis().getExtension(ExtensionName.Toolkit);
     if (!toolkit) {
       throw new DependentExtensionNotFoundError("provision IoT Hub", ExtensionName.Toolkit);
     }
 
     let iothub = null;
+    const { AzureUtility } = loadAzureUtility();
     const subscriptionId = AzureUtility.subscriptionId;
     const resourceGroup = AzureUtility.resourceGroup;
 
     switch (selection.detail) {
       case "select":
-        iothub = await toolkit.azureIoTExplorer.selectIoTHub(this.channel, subscriptionId);
+        iothub = await toolkit.azureIoTExplorer.selectIoTHub(this.ui.channel, subscriptionId);
         break;
       case "create":
-        if (this.channel) {
-          channelShowAndAppendLine(this.channel, "Creating new IoT Hub...");
-        }
-
-        iothub = await toolkit.azureIoTExplorer.createIoTHub(this.channel, subscriptionId, resourceGroup);
+        this.ui.appendLine("Creating new IoT Hub...");
+        iothub = await toolkit.azureIoTExplorer.createIoTHub(this.ui.channel, subscriptionId, resourceGroup);
         break;
       default:
         break;
     }
 
     if (iothub && iothub.iotHubConnectionString) {
-      if (this.channel) {
-        channelPrintJsonObject(this.channel, iothub);
-      }
+      const indentationSpace = 4;
+      this.ui.appendLine(JSON.stringify(iothub, null, indentationSpace));
 
       const sharedAccessKeyMatches = iothub.iotHubConnectionString.match(/SharedAccessKey=([^;]*)/);
       if (!sharedAccessKeyMatches || sharedAccessKeyMatches.length < 2) {
@@ -133,12 +149,14 @@ export class IoTHub implements Component, Provisionable {
           iotHubConnectionString: iothub.iotHubConnectionString,
           eventHubConnectionString,
           eventHubConnectionPath
-        }
+        },
+        resource: keepOwnership(await this.getRecordedResource(), {
+          id: iothub.id,
+          created: selection.detail === "create"
+        })
       });
 
-      if (this.channel) {
-        channelShowAndAppendLine(this.channel, "IoT Hub provision succeeded.");
-      }
+      this.ui.appendLine("IoT Hub provision succeeded.");
       return true;
     } else if (!iothub) {
       return false;
@@ -151,6 +169,98 @@ export class IoTHub implements Component, Provisionable {
     }
   }
 
+  private async provisionWithManifest({ manifest, client }: UnattendedProvision): Promise<boolean> {
+    const iotHubManifest = getManifestSection(manifest, "iotHub");
+    this.ui.appendLine(
+      `${iotHubManifest.choice === "new" ? "Creating" : "Selecting"} IoT Hub ${iotHubManifest.name}...`
+    );
+
+    const { connectionInfo, resource } = await client.provisionIoTHub(
+      iotHubManifest.choice,
+      iotHubManifest.name,
+      manifest.location,
+      iotHubManifest.sku
+    );
+    await this.updateConfigSettings(ScaffoldType.Workspace, {
+      values: { ...connectionInfo },
+      resource: keepOwnership(await this.getRecordedResource(), resource)
+    });
+
+    this.ui.appendLine("IoT Hub provision succeeded.");
+    return true;
+  }
+
+  async plan(unattended?: UnattendedProvision): Promise<ProvisionPlanItem[]> {
+    if (!unattended) {
+      const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+      const provisioned = componentConfig && componentConfig.componentInfo;
+      return [
+        {
+          component: this.name,
+          resource: provisioned ? "IoT Hub, provisioned before" : "IoT Hub",
+          action: "prompt",
+          changes: []
+        }
+      ];
+    }
+
+    const { manifest, client } = unattended;
+    const iotHubManifest = getManifestSection(manifest, "iotHub");
+    const iotHub = await client.findIoTHub(iotHubManifest.name);
+    const item: ProvisionPlanItem = {
+      component: this.name,
+      resource: `IoT Hub ${iotHubManifest.name}`,
+      action: "reuse",
+      changes: []
+    };
+    if (!iotHub) {
+      if (iotHubManifest.choice === "new") {
+        item.action = "create";
+        item.changes = [
+          { property: "location", after: manifest.location },
+          { property: "sku", after: getIoTHubSku(iotHubManifest.sku) }
+        ];
+      } else {
+        item.error = `IoT Hub does not exist in resource group ${manifest.resourceGroup}.`;
+      }
+    } else if (iotHubManifest.choice === "new" && iotHubManifest.sku && iotHub.sku !== iotHubManifest.sku) {
+      // Provision reuses an existing IoT Hub without changing it, so it fails
+      // instead of changing the sku
+      item.error = `IoT Hub already exists with sku ${iotHub.sku} instead of ${iotHubManifest.sku}.`;
+    }
+    return [item];
+  }
+
+  async getProvisionedResource(): Promise<{ description: string; resource?: ProvisionedResource } | undefined> {
+    const iotHubName = await this.getProvisionedIoTHubName();
+    return iotHubName
+      ? { description: `IoT Hub ${iotHubName}`, resource: await this.getRecordedResource() }
+      : undefined;
+  }
+
+  async deprovision(resource: ProvisionedResource): Promise<void> {
+    this.ui.appendLine(`Deleting IoT Hub ${resource.id}...`);
+    await loadAzureUtility().AzureUtility.deleteResource(resource.id, constants.iotHubApiVersion);
+  }
+
+  private async getRecordedResource(): Promise<ProvisionedResource | undefined> {
+    const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+    return componentConfig && componentConfig.componentInfo ? componentConfig.componentInfo.resource : undefined;
+  }
+
+  private async getProvisionedIoTHubName(): Promise<string | undefined> {
+    const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+    if (!componentConfig || !componentConfig.componentInfo) {
+      return undefined;
+    }
+    const { iotHubConnectionString } = (await SecretStore.resolveComponentInfo(componentConfig.componentInfo)).values;
+    if (!iotHubConnectionString) {
+      return undefined;
+    }
+    // Host name of IoT Hub is <name>.azure-devices.net
+    return getConnectionStringValue(iotHubConnectionString, "HostName").split(".")[0];
+  }
+
   async updateConfigSettings(type: ScaffoldType, componentInfo?: ComponentInfo): Promise<void> {
     const iotHubComponentIndex = await this.azureConfigFileHandler.getComponentIndexById(type, this.id);
 
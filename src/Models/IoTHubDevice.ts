@@ -3,13 +3,12 @@
 
 import * as iothub from "azure-iothub";
 import { Guid } from "guid-typescript";
-import * as vscode from "vscode";
+import { QuickPickItem } from "vscode";
 
 import { ScaffoldType } from "../constants";
 
 import { DependentExtensionNotFoundError } from "../common/Error/OperationFailedErrors/DependentExtensionNotFoundError";
 
-import { getExtension } from "./Apis";
 import {
   AzureComponentConfig,
   AzureConfigFileHandler,
@@ -19,7 +18,15 @@ import {
 } from "./AzureComponentConfig";
 import { ExtensionName } from "./Interfaces/Api";
 import { Component, ComponentType } from "./Interfaces/Component";
-import { Provisionable } from "./Interfaces/Provisionable";
+import { Deprovisionable } from "./Interfaces/Deprovisionable";
+import { Provisionable, UnattendedProvision } from "./Interfaces/Provisionable";
+import { UserInterface } from "./Interfaces/UserInterface";
+import { AzureProvisionClient, getConnectionStringValue } from "./AzureProvisionClient";
+import { keepOwnership, ProvisionedResource } from "./ProvisionedResource";
+import { getManifestSection } from "./ProvisionManifest";
+import { ProvisionPlanItem } from "./ProvisionPlan";
+import { SecretStore } from "./SecretStore";
+import { loadApis } from "./VSCodeModules";
 import { AzureConfigNotFoundError } from "../common/Error/SystemErrors/AzureConfigNotFoundErrors";
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
 
@@ -39,8 +46,8 @@ async function getDeviceNumber(iotHubConnectionString: string): Promise<number>
   });
 }
 
-async function getProvisionIothubDeviceSelection(iotHubConnectionString: string): Promise<vscode.QuickPickItem[]> {
-  let provisionIothubDeviceSelection: vscode.QuickPickItem[];
+async function getProvisionIothubDeviceSelection(iotHubConnectionString: string): Promise<QuickPickItem[]> {
+  let provisionIothubDeviceSelection: QuickPickItem[];
 
   const deviceNumber = await getDeviceNumber(iotHubConnectionString);
   if (deviceNumber > 0) {
@@ -68,9 +75,9 @@ async function getProvisionIothubDeviceSelection(iotHubConnectionString: string)
   return provisionIothubDeviceSelection;
 }
 
-export class IoTHubDevice implements Component, Provisionable {
+export class IoTHubDevice implements Component, Provisionable, Deprovisionable {
   private componentType: ComponentType;
-  private channel: vscode.OutputChannel;
+  private ui: UserInterface;
   private projectRootPath: string;
   private componentId: string;
   private azureConfigFileHandler: AzureConfigFileHandler;
@@ -80,12 +87,24 @@ export class IoTHubDevice implements Component, Provisionable {
 
   dependencies: DependencyConfig[] = [];
 
-  constructor(projectRoot: string, channel: vscode.OutputChannel, dependencyComponents: Dependency[] | null = null) {
+  /**
+   * @param projectRoot project root path
+   * @param ui prompts and output of the component
+   * @param dependencyComponents IoT Hub the device is provisioned in
+   * @param environment environment to provision, active environment of the
+   * workspace by default
+   */
+  constructor(
+    projectRoot: string,
+    ui: UserInterface,
+    dependencyComponents: Dependency[] | null = null,
+    environment?: string
+  ) {
     this.componentType = ComponentType.IoTHubDevice;
-    this.channel = channel;
+    this.ui = ui;
     this.componentId = Guid.create().toString();
     this.projectRootPath = projectRoot;
-    this.azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath);
+    this.azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath, environment);
 
     if (dependencyComponents && dependencyComponents.length > 0) {
       dependencyComponents.forEach(dependency =>
@@ -119,7 +138,7 @@ export class IoTHubDevice implements Component, Provisionable {
     await this.updateConfigSettings(ScaffoldType.Local);
   }
 
-  async provision(): Promise<boolean> {
+  async provision(unattended?: UnattendedProvision): Promise<boolean> {
     const scaffoldType = ScaffoldType.Workspace;
     const iotHubId = this.dependencies[0].id;
     const componentConfig = await this.azureConfigFileHandler.getComponentById(scaffoldType, iotHubId);
@@ -129,11 +148,32 @@ export class IoTHubDevice implements Component, Provisionable {
     if (!componentConfig.componentInfo) {
       throw new AzureConfigNotFoundError(`componentInfo of config id ${iotHubId}`);
     }
-    const iotHubConnectionString = componentConfig.componentInfo.values.iotHubConnectionString;
+    const { iotHubConnectionString } = (await SecretStore.resolveComponentInfo(componentConfig.componentInfo)).values;
     if (!iotHubConnectionString) {
       throw new AzureConfigNotFoundError(`iotHubConnectionString of config id ${iotHubId}`);
     }
-    const selection = await vscode.window.showQuickPick(getProvisionIothubDeviceSelection(iotHubConnectionString), {
+
+    if (unattended) {
+      const deviceManifest = getManifestSection(unattended.manifest, "device");
+      const iotHubDeviceConnectionString = await AzureProvisionClient.provisionIoTHubDevice(
+        iotHubConnectionString,
+        deviceManifest.choice,
+        deviceManifest.deviceId
+      );
+      await this.updateConfigSettings(scaffoldType, {
+        values: {
+          iotHubConnectionString,
+          iotHubDeviceConnectionString
+        },
+        resource: keepOwnership(await this.getRecordedResource(), {
+          id: deviceManifest.deviceId,
+          created: deviceManifest.choice === "new"
+        })
+      });
+      return true;
+    }
+
+    const selection = await this.ui.showQuickPick(getProvisionIothubDeviceSelection(iotHubConnectionString), {
       ignoreFocusOut: true,
       placeHolder: "Provision IoTHub Device"
     });
@@ -142,7 +182,7 @@ export class IoTHubDevice implements Component, Provisionable {
       return false;
     }
 
-    const toolkit = getExtension(ExtensionName.Toolkit);
+    const toolkit = loadApis().getExtension(ExtensionName.Toolkit);
     if (!toolkit) {
       throw new DependentExtensionNotFoundError("provision IoT Hub Device", ExtensionName.Toolkit);
     }
@@ -150,38 +190,103 @@ export class IoTHubDevice implements Component, Provisionable {
     let device = null;
     switch (selection.detail) {
       case "select":
-        device = await toolkit.azureIoTExplorer.getDevice(null, iotHubConnectionString, this.channel);
-        if (!device) {
-          return false;
-        } else {
-          await this.updateConfigSettings(scaffoldType, {
-            values: {
-              iotHubConnectionString,
-              iotHubDeviceConnectionString: device.connectionString
-            }
-          });
-        }
+        device = await toolkit.azureIoTExplorer.getDevice(null, iotHubConnectionString, this.ui.channel);
         break;
-
       case "create":
-        device = await toolkit.azureIoTExplorer.createDevice(false, iotHubConnectionString, this.channel);
-        if (!device) {
-          return false;
-        } else {
-          await this.updateConfigSettings(scaffoldType, {
-            values: {
-              iotHubConnectionString,
-              iotHubDeviceConnectionString: device.connectionString
-            }
-          });
-        }
+        device = await toolkit.azureIoTExplorer.createDevice(false, iotHubConnectionString, this.ui.channel);
         break;
       default:
         break;
     }
+    if (!device) {
+      return false;
+    }
+    await this.updateConfigSettings(scaffoldType, {
+      values: {
+        iotHubConnectionString,
+        iotHubDeviceConnectionString: device.connectionString
+      },
+      resource: keepOwnership(await this.getRecordedResource(), {
+        id: getConnectionStringValue(device.connectionString, "DeviceId"),
+        created: selection.detail === "create"
+      })
+    });
     return true;
   }
 
+  async plan(unattended?: UnattendedProvision): Promise<ProvisionPlanItem[]> {
+    if (!unattended) {
+      return [{ component: this.name, resource: "IoT Hub device", action: "prompt", changes: [] }];
+    }
+
+    const deviceManifest = getManifestSection(unattended.manifest, "device");
+    const iotHubManifest = getManifestSection(unattended.manifest, "iotHub");
+    const iotHub = await unattended.client.findIoTHub(iotHubManifest.name);
+    const exists = iotHub
+      ? await AzureProvisionClient.iotHubDeviceExists(
+          iotHub.connectionInfo.iotHubConnectionString,
+          deviceManifest.deviceId
+        )
+      : false;
+
+    const item: ProvisionPlanItem = {
+      component: this.name,
+      resource: `device ${deviceManifest.deviceId} in IoT Hub ${iotHubManifest.name}`,
+      action: deviceManifest.choice === "new" ? "create" : "reuse",
+      changes: []
+    };
+    if (deviceManifest.choice === "new" && exists) {
+      item.error = 'Device already exists. Please use "existing" choice for it.';
+    } else if (deviceManifest.choice === "existing" && !exists) {
+      item.error = "Device does not exist.";
+    }
+    return [item];
+  }
+
+  async getProvisionedResource(): Promise<{ description: string; resource?: ProvisionedResource } | undefined> {
+    const device = await this.getProvisionedDevice();
+    return device
+      ? {
+          description: `IoT Hub device ${device.deviceId} in ${device.hostName}`,
+          resource: await this.getRecordedResource()
+        }
+      : undefined;
+  }
+
+  async deprovision(resource: ProvisionedResource): Promise<void> {
+    const device = await this.getProvisionedDevice();
+    if (!device) {
+      return;
+    }
+    this.ui.appendLine(`Deleting IoT Hub device ${resource.id}...`);
+    await AzureProvisionClient.deleteIoTHubDevice(device.iotHubConnectionString, resource.id);
+  }
+
+  private async getRecordedResource(): Promise<ProvisionedResource | undefined> {
+    const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+    return componentConfig && componentConfig.componentInfo ? componentConfig.componentInfo.resource : undefined;
+  }
+
+  private async getProvisionedDevice(): Promise<
+    { iotHubConnectionString: string; hostName: string; deviceId: string } | undefined
+  > {
+    const componentConfig = await this.azureConfigFileHandler.getComponentById(ScaffoldType.Workspace, this.id);
+    if (!componentConfig || !componentConfig.componentInfo) {
+      return undefined;
+    }
+    const { iotHubConnectionString, iotHubDeviceConnectionString } = (
+      await SecretStore.resolveComponentInfo(componentConfig.componentInfo)
+    ).values;
+    if (!iotHubConnectionString || !iotHubDeviceConnectionString) {
+      return undefined;
+    }
+    return {
+      iotHubConnectionString,
+      hostName: getConnectionStringValue(iotHubDeviceConnectionString, "HostName"),
+      deviceId: getConnectionStringValue(iotHubDeviceConnectionString, "DeviceId")
+    };
+  }
+
   async updateConfigSettings(type: ScaffoldType, componentInfo?: ComponentInfo): Promise<void> {
     const iotHubComponentIndex = await this.azureConfigFileHandler.getComponentIndexById(type, this.id);
     if (iotHubComponentIndex > -1) {
@@ -6,23 +6,35 @@ import * as vscode from "vscode";
 
 import { OperationCanceledError } from "../common/Error/OperationCanceledError";
 import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
-import { ConfigKey, EventNames, FileNames, ScaffoldType } from "../constants";
+import { AzureComponentsStorage, ConfigKey, EventNames, FileNames, ScaffoldType } from "../constants";
 import { FileUtility } from "../FileUtility";
 import { TelemetryContext, TelemetryWorker } from "../telemetry";
 import * as utils from "../utils";
 
 import { checkAzureLogin } from "./Apis";
+import { BuildResult } from "./BuildResult";
 import { Compilable } from "./Interfaces/Compilable";
 import { Component, ComponentType } from "./Interfaces/Component";
 import { Deployable } from "./Interfaces/Deployable";
+import { Deprovisionable } from "./Interfaces/Deprovisionable";
 import { Device } from "./Interfaces/Device";
 import { ProjectHostType } from "./Interfaces/ProjectHostType";
 import { ProjectTemplateType, TemplateFileInfo } from "./Interfaces/ProjectTemplate";
-import { Provisionable } from "./Interfaces/Provisionable";
+import { Provisionable, UnattendedProvision } from "./Interfaces/Provisionable";
+import { UserInterface } from "./Interfaces/UserInterface";
+import { parseProvisionManifest, ProvisionManifest } from "./ProvisionManifest";
+import { partitionByOwnership, ProvisionedResource } from "./ProvisionedResource";
+import { formatProvisionPlan, ProvisionPlanItem } from "./ProvisionPlan";
+import { getEnvironmentConfigPath, isValidEnvironmentName, listEnvironments } from "./ProjectEnvironment";
 import { Uploadable } from "./Interfaces/Uploadable";
+import { Runnable } from "./Interfaces/Runnable";
+import { Debuggable } from "./Interfaces/Debuggable";
 import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
+import { AzureConfigFileHandler } from "./AzureComponentConfig";
+import { VSCodeUserInterface } from "./VSCodeUserInterface";
 
 const impor = require("impor")(__dirname);
+const azureComponentsModule = impor("./AzureComponents") as typeof import("./AzureComponents");
 const azureUtilityModule = impor("./AzureUtility") as typeof import("./AzureUtility");
 
 export enum OpenScenario {
@@ -32,6 +44,7 @@ export enum OpenScenario {
 export abstract class IoTWorkbenchProjectBase {
   protected extensionContext: vscode.ExtensionContext;
   protected channel: vscode.OutputChannel;
+  protected ui: UserInterface;
   protected telemetryContext: TelemetryContext;
 
   protected projectRootPath = "";
@@ -85,6 +98,10 @@ export abstract class IoTWorkbenchProjectBase {
     return (comp as Provisionable).provision !== undefined;
   }
 
+  canDeprovision(comp: {}): comp is Deprovisionable {
+    return (comp as Deprovisionable).deprovision !== undefined;
+  }
+
   canDeploy(comp: {}): comp is Deployable {
     return (comp as Deployable).deploy !== undefined;
   }
@@ -97,10 +114,19 @@ export abstract class IoTWorkbenchProjectBase {
     return (comp as Uploadable).upload !== undefined;
   }
 
+  canRun(comp: {}): comp is Runnable {
+    return (comp as Runnable).run !== undefined && (comp as Runnable).stop !== undefined;
+  }
+
+  canDebug(comp: {}): comp is Debuggable {
+    return (comp as Debuggable).startGdbServer !== undefined;
+  }
+
   constructor(context: vscode.ExtensionContext, channel: vscode.OutputChannel, telemetryContext: TelemetryContext) {
     this.componentList = [];
     this.extensionContext = context;
     this.channel = channel;
+    this.ui = new VSCodeUserInterface(channel);
     this.telemetryContext = telemetryContext;
   }
 
@@ -113,18 +139,23 @@ export abstract class IoTWorkbenchProjectBase {
     openInNewWindow: boolean
   ): Promise<void>;
 
-  async compile(): Promise<boolean> {
+  /**
+   * Compile device code and wait for it to finish.
+   * @returns build result of device, undefined if it is not compiled
+   */
+  async compile(): Promise<BuildResult | undefined> {
+    let buildResult: BuildResult | undefined;
     for (const item of this.componentList) {
       if (this.canCompile(item)) {
         await item.checkPrerequisites("compile device code");
 
-        const res = await item.compile();
-        if (!res) {
+        buildResult = await item.compile();
+        if (!buildResult || !buildResult.success) {
           vscode.window.showErrorMessage("Unable to compile the device code, please check output window for detail.");
         }
       }
     }
-    return true;
+    return buildResult;
   }
 
   async upload(): Promise<boolean> {
@@ -140,21 +171,145 @@ export abstract class IoTWorkbenchProjectBase {
     return true;
   }
 
+  async run(): Promise<boolean> {
+    let hasRunnable = false;
+    for (const item of this.componentList) {
+      if (this.canRun(item)) {
+        hasRunnable = true;
+        await item.checkPrerequisites("run device code");
+        const res = await item.run();
+        if (!res) {
+          vscode.window.showErrorMessage("Unable to run the device code, please check output window for detail.");
+        }
+      }
+    }
+    if (!hasRunnable) {
+      vscode.window.showWarningMessage("Running device code on target is not supported by the device.");
+    }
+    return hasRunnable;
+  }
+
+  async stop(): Promise<boolean> {
+    let hasRunnable = false;
+    for (const item of this.componentList) {
+      if (this.canRun(item)) {
+        hasRunnable = true;
+        const res = await item.stop();
+        if (!res) {
+          vscode.window.showErrorMessage("Unable to stop the device code, please check output window for detail.");
+        }
+      }
+    }
+    if (!hasRunnable) {
+      vscode.window.showWarningMessage("Running device code on target is not supported by the device.");
+    }
+    return hasRunnable;
+  }
+
+  /**
+   * Upload device code to target and start gdbserver for remote debugging.
+   * @returns address of gdbserver, undefined if no device supports debugging
+   */
+  async startGdbServer(): Promise<string | undefined> {
+    for (const item of this.componentList) {
+      if (this.canDebug(item)) {
+        await item.checkPrerequisites("debug device code");
+        return item.startGdbServer();
+      }
+    }
+    vscode.window.showWarningMessage("Remote debugging on target is not supported by the device.");
+    return;
+  }
+
+  /**
+   * Order components by the dependencies in azure config file, so that each
+   * component comes after the components it depends on.
+   * @param components components with config in azure config file
+   */
+  protected async sortByDependency<T extends Component>(components: T[]): Promise<T[]> {
+    const azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath);
+    const dependencyGraph = await azureConfigFileHandler.getDependencyGraph(ScaffoldType.Workspace);
+    return dependencyGraph.sort(components);
+  }
+
+  /**
+   * Preview what provision would create, reuse or change in Azure, without
+   * touching any resource. Answers are read from provision manifest when it
+   * exists, otherwise resources chosen in the wizard are listed as such.
+   */
+  async planProvision(): Promise<boolean> {
+    const provisionItems: Array<Component & Provisionable> = [];
+    for (const item of this.componentList) {
+      if (this.canProvision(item)) {
+        await item.checkPrerequisites("plan provision");
+        provisionItems.push(item);
+      }
+    }
+
+    if (provisionItems.length === 0) {
+      vscode.window.showInformationMessage("Congratulations! There is no Azure service to provision in this project.");
+      return false;
+    }
+
+    const sortedProvisionItems = await this.sortByDependency(provisionItems);
+    const manifest = await this.loadProvisionManifest();
+    const planItems: ProvisionPlanItem[] = [];
+    let unattended: UnattendedProvision | undefined;
+    if (manifest) {
+      unattended = await this.getUnattendedProvision(manifest);
+      const resourceGroupExists = await unattended.client.resourceGroupExists();
+      planItems.push({
+        component: "Resource group",
+        resource: `${manifest.resourceGroup} in subscription ${manifest.subscriptionId}`,
+        action: resourceGroupExists ? "reuse" : "create",
+        changes: resourceGroupExists ? [] : [{ property: "location", after: manifest.location }]
+      });
+    } else {
+      planItems.push({ component: "Resource group", resource: "resource group", action: "prompt", changes: [] });
+    }
+
+    for (const item of sortedProvisionItems) {
+      planItems.push(...(await item.plan(unattended)));
+    }
+
+    utils.channelShowAndAppendLine(
+      this.channel,
+      `Provision plan of environment ${AzureConfigFileHandler.getActiveEnvironment()}${
+        manifest ? ` with ${FileNames.provisionManifestFileName}` : ""
+      }. Nothing has been changed in Azure.`
+    );
+    formatProvisionPlan(planItems).forEach(line => utils.channelShowAndAppendLine(this.channel, line));
+    return true;
+  }
+
   async provision(): Promise<boolean> {
-    const provisionItemList: string[] = [];
+    const provisionItems: Array<Component & Provisionable> = [];
     for (const item of this.componentList) {
       if (this.canProvision(item)) {
         await item.checkPrerequisites("provision");
-        provisionItemList.push(item.name);
+        provisionItems.push(item);
       }
     }
 
-    if (provisionItemList.length === 0) {
+    if (provisionItems.length === 0) {
       // nothing to provision:
       vscode.window.showInformationMessage("Congratulations! There is no Azure service to provision in this project.");
       return false;
     }
 
+    const sortedProvisionItems = await this.sortByDependency(provisionItems);
+    const provisionItemList = sortedProvisionItems.map(item => item.name);
+
+    const manifest = await this.loadProvisionManifest();
+    if (manifest) {
+      utils.channelShowAndAppendLine(this.channel, `Provision with ${FileNames.provisionManifestFileName}.`);
+      return azureComponentsModule.provisionWithManifest(
+        sortedProvisionItems,
+        await this.getUnattendedProvision(manifest),
+        this.ui
+      );
+    }
+
     // Ensure azure login before component provision
     let subscriptionId: string | undefined = "";
     let resourceGroup: string | undefined = "";
@@ -170,95 +325,264 @@ export abstract class IoTWorkbenchProjectBase {
       return false;
     }
 
-    for (const item of this.componentList) {
+    for (const item of sortedProvisionItems) {
       const _provisionItemList: string[] = [];
-      if (this.canProvision(item)) {
-        for (let i = 0; i < provisionItemList.length; i++) {
-          if (provisionItemList[i] === item.name) {
-            _provisionItemList[i] = `>> ${i + 1}. ${provisionItemList[i]}`;
-          } else {
-            _provisionItemList[i] = `${i + 1}. ${provisionItemList[i]}`;
-          }
+      for (let i = 0; i < provisionItemList.length; i++) {
+        if (provisionItemList[i] === item.name) {
+          _provisionItemList[i] = `>> ${i + 1}. ${provisionItemList[i]}`;
+        } else {
+          _provisionItemList[i] = `${i + 1}. ${provisionItemList[i]}`;
         }
-        const selection = await vscode.window.showQuickPick(
-          [
-            {
-              label: _provisionItemList.join("   -   "),
-              description: "",
-              detail: "Click to continue"
-            }
-          ],
-          { ignoreFocusOut: true, placeHolder: "Provision process" }
-        );
+      }
+      const selection = await vscode.window.showQuickPick(
+        [
+          {
+            label: _provisionItemList.join("   -   "),
+            description: "",
+            detail: "Click to continue"
+          }
+        ],
+        { ignoreFocusOut: true, placeHolder: "Provision process" }
+      );
 
-        if (!selection) {
-          return false;
-        }
+      if (!selection) {
+        return false;
+      }
 
-        const res = await item.provision();
-        if (!res) {
-          throw new OperationCanceledError("Provision cancelled.");
-        }
+      const res = await item.provision();
+      if (!res) {
+        throw new OperationCanceledError("Provision cancelled.");
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Load provision.json in project root folder if it exists.
+   */
+  async loadProvisionManifest(): Promise<ProvisionManifest | undefined> {
+    const manifestFilePath = path.join(this.projectRootPath, FileNames.provisionManifestFileName);
+    if (!(await FileUtility.fileExists(ScaffoldType.Workspace, manifestFilePath))) {
+      return undefined;
+    }
+
+    const manifestContent = (await FileUtility.readFile(ScaffoldType.Workspace, manifestFilePath, "utf8")) as string;
+    let manifestJson;
+    try {
+      manifestJson = JSON.parse(manifestContent);
+    } catch (error) {
+      throw new OperationFailedError(`parse provision manifest ${manifestFilePath}`, error.message, "");
+    }
+    return parseProvisionManifest(manifestJson, manifestFilePath);
+  }
+
+  /**
+   * Sign in to Azure and get the client to provision with answers in
+   * provision manifest, in the subscription and resource group of it.
+   * @param manifest provision manifest
+   */
+  private async getUnattendedProvision(manifest: ProvisionManifest): Promise<UnattendedProvision> {
+    await checkAzureLogin();
+    azureUtilityModule.AzureUtility.init(
+      this.extensionContext,
+      this.projectRootPath,
+      this.channel,
+      manifest.subscriptionId
+    );
+    azureUtilityModule.AzureUtility.selectResourceGroup(manifest.resourceGroup);
+    return { manifest, client: azureUtilityModule.AzureUtility.getProvisionClient() };
+  }
+
+  /**
+   * Delete Azure resources created for the components in the active
+   * environment, in reverse dependency order, and clear their component info.
+   * Resources selected on provision are kept. Resources to delete are
+   * confirmed by user first.
+   */
+  async deprovision(): Promise<boolean> {
+    const deprovisionItems: Array<Component & Deprovisionable> = [];
+    for (const item of this.componentList) {
+      if (this.canDeprovision(item)) {
+        deprovisionItems.push(item);
+      }
+    }
+
+    // Delete dependent components, e.g. IoT Hub device, before IoT Hub
+    const sortedDeprovisionItems = (await this.sortByDependency(deprovisionItems)).reverse();
+    const environment = AzureConfigFileHandler.getActiveEnvironment();
+    const provisionedItems: Array<{
+      description: string;
+      resource?: ProvisionedResource;
+      component: Component & Deprovisionable;
+    }> = [];
+    for (const item of sortedDeprovisionItems) {
+      const provisioned = await item.getProvisionedResource();
+      if (provisioned) {
+        provisionedItems.push({ ...provisioned, component: item });
+      }
+    }
+
+    if (provisionedItems.length === 0) {
+      vscode.window.showInformationMessage(`There is no provisioned Azure service in environment ${environment}.`);
+      return false;
+    }
+
+    const { created, selected } = partitionByOwnership(provisionedItems);
+    selected.forEach(item =>
+      utils.channelShowAndAppendLine(
+        this.channel,
+        `${item.description} is kept since it was not created by the project.`
+      )
+    );
+    if (created.length === 0) {
+      vscode.window.showInformationMessage(
+        `Azure services of environment ${environment} were not created by the project, so they are not deleted.`
+      );
+      return false;
+    }
+    const resourceItems = created.map(item => ({
+      label: item.description,
+      description: item.component.name,
+      detail: item.resource.id,
+      picked: true,
+      provisioned: item
+    }));
+
+    await checkAzureLogin();
+    azureUtilityModule.AzureUtility.init(this.extensionContext, this.projectRootPath, this.channel);
+
+    const selection = await vscode.window.showQuickPick(resourceItems, {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      placeHolder: `Select Azure resources of environment ${environment} to delete`
+    });
+    if (!selection || selection.length === 0) {
+      throw new OperationCanceledError("Deprovision cancelled.");
+    }
+
+    const deleteChoice = "Delete";
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete ${selection.map(item => item.label).join(", ")} created by the project? This cannot be undone.`,
+      { modal: true },
+      deleteChoice
+    );
+    if (confirmation !== deleteChoice) {
+      throw new OperationCanceledError("Deprovision cancelled.");
+    }
+
+    const azureConfigFileHandler = new AzureConfigFileHandler(this.projectRootPath);
+    const summary: string[] = [];
+    let failure: Error | undefined;
+    for (const item of selection) {
+      if (failure) {
+        summary.push(`${item.label}: skipped`);
+        continue;
+      }
+      try {
+        await item.provisioned.component.deprovision(item.provisioned.resource);
+        await azureConfigFileHandler.clearComponentInfo(ScaffoldType.Workspace, item.provisioned.component.id);
+        summary.push(`${item.label}: deleted`);
+      } catch (error) {
+        failure = error;
+        summary.push(`${item.label}: failed. ${error.message}`);
       }
     }
+
+    utils.channelShowAndAppendLine(this.channel, `Deprovision summary of environment ${environment}:`);
+    summary.forEach(line => utils.channelShowAndAppendLine(this.channel, `  ${line}`));
+    if (failure) {
+      throw failure;
+    }
     return true;
   }
 
   async deploy(): Promise<void> {
     let azureLoggedIn = false;
 
-    const deployItemList: string[] = [];
+    const deployItems: Array<Component & Deployable> = [];
     for (const item of this.componentList) {
       if (this.canDeploy(item)) {
         await item.checkPrerequisites("deploy device code");
-        deployItemList.push(item.name);
+        deployItems.push(item);
       }
     }
 
-    if (deployItemList && deployItemList.length <= 0) {
+    if (deployItems.length <= 0) {
       await vscode.window.showInformationMessage(
         "Congratulations! The project does not contain any Azure components to be deployed."
       );
       return;
     }
 
+    const sortedDeployItems = await this.sortByDependency(deployItems);
+
     if (!azureLoggedIn) {
       azureLoggedIn = await checkAzureLogin();
     }
 
-    for (const item of this.componentList) {
-      const _deployItemList: string[] = [];
-      if (this.canDeploy(item)) {
-        for (let i = 0; i < deployItemList.length; i++) {
-          if (deployItemList[i] === item.name) {
-            _deployItemList[i] = `>> ${i + 1}. ${deployItemList[i]}`;
-          } else {
-            _deployItemList[i] = `${i + 1}. ${deployItemList[i]}`;
-          }
-        }
-        const selection = await vscode.window.showQuickPick(
-          [
-            {
-              label: _deployItemList.join("   -   "),
-              description: "",
-              detail: "Click to continue"
-            }
-          ],
-          { ignoreFocusOut: true, placeHolder: "Deploy process" }
-        );
+    await azureComponentsModule.deployComponents(sortedDeployItems, this.ui);
+  }
 
-        if (!selection) {
-          throw new OperationCanceledError(`Component deployment cancelled.`);
-        }
+  /**
+   * Select the environment that provision, deploy and configure device work
+   * with, or create a new one. Each environment has its own Azure resources
+   * for the components of the project.
+   */
+  async switchEnvironment(): Promise<void> {
+    const scaffoldType = ScaffoldType.Workspace;
+    const azureConfigFilePath = path.join(
+      this.projectRootPath,
+      AzureComponentsStorage.folderName,
+      AzureComponentsStorage.fileName
+    );
+    if (!(await FileUtility.fileExists(scaffoldType, azureConfigFilePath))) {
+      vscode.window.showInformationMessage("The project does not contain any Azure components to switch environment.");
+      return;
+    }
 
-        const res = await item.deploy();
-        if (!res) {
-          throw new OperationFailedError("deploy iot workbench project", `Failed to deploy component ${item.name}`, "");
+    const activeEnvironment = AzureConfigFileHandler.getActiveEnvironment();
+    const environments = listEnvironments(this.projectRootPath);
+    const createEnvironmentLabel = "$(plus) Create new environment...";
+    const environmentItems: vscode.QuickPickItem[] = environments.map(environment => ({
+      label: environment,
+      description: environment === activeEnvironment ? "active" : ""
+    }));
+    environmentItems.push({ label: createEnvironmentLabel, description: "" });
+    const selection = await vscode.window.showQuickPick(environmentItems, {
+      ignoreFocusOut: true,
+      placeHolder: "Select environment"
+    });
+    if (!selection) {
+      throw new OperationCanceledError("Environment selection cancelled.");
+    }
+
+    let environment = selection.label;
+    if (environment === createEnvironmentLabel) {
+      const environmentName = await vscode.window.showInputBox({
+        prompt: "Input environment name, e.g. dev, test or prod",
+        ignoreFocusOut: true,
+        validateInput: (name: string) => {
+          if (!isValidEnvironmentName(name)) {
+            return "Environment name can only contain letters, digits, '-' and '_'.";
+          }
+          return environments.includes(name) ? `Environment ${name} already exists.` : "";
         }
+      });
+      if (!environmentName) {
+        throw new OperationCanceledError("Environment creation cancelled.");
+      }
+
+      environment = environmentName;
+      const environmentConfigPath = getEnvironmentConfigPath(this.projectRootPath, environment);
+      const environmentsFolderPath = path.dirname(environmentConfigPath);
+      if (!(await FileUtility.directoryExists(scaffoldType, environmentsFolderPath))) {
+        await FileUtility.mkdirRecursively(scaffoldType, environmentsFolderPath);
       }
+      await FileUtility.writeJsonFile(scaffoldType, environmentConfigPath, { componentInfos: {} });
     }
 
-    vscode.window.showInformationMessage("Azure deploy succeeded.");
+    await AzureConfigFileHandler.setActiveEnvironment(environment);
+    utils.channelShowAndAppendLine(this.channel, `Active environment: ${environment}`);
   }
 
   /**
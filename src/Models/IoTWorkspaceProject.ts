@@ -9,7 +9,6 @@ import { IoTCubeCommands } from "../common/Commands";
 
 import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
 import { WorkspaceConfigNotFoundError } from "../common/Error/SystemErrors/WorkspaceConfigNotFoundError";
-import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
 import { ConfigHandler } from "../configHandler";
 import { ConfigKey, EventNames, FileNames, ScaffoldType } from "../constants";
 import { FileUtility } from "../FileUtility";
@@ -17,7 +16,7 @@ import { TelemetryContext, TelemetryWorker } from "../telemetry";
 import { getWorkspaceFile, updateProjectHostTypeConfig } from "../utils";
 
 import { AzureComponentConfig } from "./AzureComponentConfig";
-import { Component, ComponentType } from "./Interfaces/Component";
+import { DeviceRegistry } from "./DeviceRegistry";
 import { ProjectHostType } from "./Interfaces/ProjectHostType";
 import { ProjectTemplateType, TemplateFileInfo } from "./Interfaces/ProjectTemplate";
 import { Workspace } from "./Interfaces/Workspace";
@@ -26,10 +25,9 @@ import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/Di
 import { FileNotFoundError } from "../common/Error/OperationFailedErrors/FileNotFound";
 
 const impor = require("impor")(__dirname);
-const az3166DeviceModule = impor("./AZ3166Device") as typeof import("./AZ3166Device");
 const azureComponentConfigModule = impor("./AzureComponentConfig") as typeof import("./AzureComponentConfig");
+const azureComponentsModule = impor("./AzureComponents") as typeof import("./AzureComponents");
 const azureFunctionsModule = impor("./AzureFunctions") as typeof import("./AzureFunctions");
-const esp32DeviceModule = impor("./Esp32Device") as typeof import("./Esp32Device");
 const ioTHubModule = impor("./IoTHub") as typeof import("./IoTHub");
 const ioTHubDeviceModule = impor("./IoTHubDevice") as typeof import("./IoTHubDevice");
 
@@ -206,7 +204,8 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
   }
 
   /**
-   * Init device components according to board id.
+   * Init device components according to board id with the registered device
+   * provider.
    * Update component list with device.
    * @param boardId board id
    * @param deviceRootPath device root path
@@ -222,30 +221,16 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
       );
     }
 
-    let device: Component;
-    if (boardId === az3166DeviceModule.AZ3166Device.boardId) {
-      device = new az3166DeviceModule.AZ3166Device(
-        this.extensionContext,
-        this.channel,
-        this.telemetryContext,
-        deviceRootPath,
-        templateFilesInfo
-      );
-    } else if (boardId === esp32DeviceModule.Esp32Device.boardId) {
-      device = new esp32DeviceModule.Esp32Device(
-        this.extensionContext,
-        this.channel,
-        this.telemetryContext,
-        deviceRootPath,
-        templateFilesInfo
-      );
-    } else {
-      throw new TypeNotSupportedError("board type", boardId);
-    }
-
-    if (device) {
-      this.componentList.push(device);
-    }
+    const device = DeviceRegistry.createDevice(
+      this.extensionContext,
+      this.channel,
+      this.telemetryContext,
+      boardId,
+      this.projectHostType,
+      deviceRootPath,
+      templateFilesInfo
+    );
+    this.componentList.push(device);
   }
 
   /**
@@ -256,12 +241,12 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
    */
   private async initAzureComponentsWithoutConfig(scaffoldType: ScaffoldType): Promise<void> {
     // Init iotHub
-    const iotHub = new ioTHubModule.IoTHub(this.projectRootPath, this.channel);
+    const iotHub = new ioTHubModule.IoTHub(this.projectRootPath, this.ui);
     await iotHub.updateConfigSettings(scaffoldType);
     this.componentList.push(iotHub);
 
     // Init iotHub Device
-    const iotHubDevice = new ioTHubDeviceModule.IoTHubDevice(this.projectRootPath, this.channel, [
+    const iotHubDevice = new ioTHubDeviceModule.IoTHubDevice(this.projectRootPath, this.ui, [
       {
         component: iotHub,
         type: azureComponentConfigModule.DependencyType.Input
@@ -278,7 +263,7 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
         this.projectRootPath,
         functionLocation,
         functionPath,
-        this.channel,
+        this.ui,
         null,
         [
           {
@@ -299,51 +284,13 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
    * @param componentConfigs azure component configs
    */
   private async loadAzureComponentsByConfig(componentConfigs: AzureComponentConfig[]): Promise<void> {
-    for (const componentConfig of componentConfigs) {
-      switch (componentConfig.type) {
-        case ComponentType.IoTHub: {
-          const iotHub = new ioTHubModule.IoTHub(this.projectRootPath, this.channel);
-          await iotHub.load();
-          this.componentList.push(iotHub);
-
-          const iothubDevice = new ioTHubDeviceModule.IoTHubDevice(this.projectRootPath, this.channel, [
-            {
-              component: iotHub,
-              type: azureComponentConfigModule.DependencyType.Input
-            }
-          ]);
-          await iothubDevice.load();
-          this.componentList.push(iothubDevice);
-
-          break;
-        }
-        case ComponentType.IoTHubDevice: {
-          break;
-        }
-        case ComponentType.AzureFunctions: {
-          const functionPath = ConfigHandler.get<string>(ConfigKey.functionPath);
-          if (!functionPath) {
-            throw new WorkspaceConfigNotFoundError(ConfigKey.functionPath);
-          }
-
-          const functionLocation = path.join(this.projectRootPath, functionPath);
-          if (functionLocation) {
-            const functionApp = new azureFunctionsModule.AzureFunctions(
-              this.projectRootPath,
-              functionLocation,
-              functionPath,
-              this.channel
-            );
-            await functionApp.load();
-            this.componentList.push(functionApp);
-          }
-          break;
-        }
-        default: {
-          throw new TypeNotSupportedError("component type", `${componentConfig.type}`);
-        }
-      }
-    }
+    const azureComponents = await azureComponentsModule.loadAzureComponents(
+      this.projectRootPath,
+      componentConfigs,
+      this.ui,
+      ConfigHandler.get<string>(ConfigKey.functionPath)
+    );
+    this.componentList.push(...azureComponents);
   }
 
   /**
@@ -354,7 +301,7 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
     const azureConfigFileHandler = new azureComponentConfigModule.AzureConfigFileHandler(this.projectRootPath);
     await azureConfigFileHandler.createIfNotExists(scaffoldType);
 
-    const componentConfigs = await azureConfigFileHandler.getSortedComponents(scaffoldType);
+    const componentConfigs = (await azureConfigFileHandler.getDependencyGraph(scaffoldType)).sortedComponents;
 
     if (componentConfigs.length === 0) {
       // Support backward compact
@@ -385,19 +332,19 @@ export class IoTWorkspaceProject extends IoTWorkbenchProjectBase {
         // Save data to configFile
         break;
       case ProjectTemplateType.IotHub: {
-        const iothub = new ioTHubModule.IoTHub(this.projectRootPath, this.channel);
+        const iothub = new ioTHubModule.IoTHub(this.projectRootPath, this.ui);
         this.componentList.push(iothub);
         break;
       }
       case ProjectTemplateType.AzureFunctions: {
-        const iothub = new ioTHubModule.IoTHub(this.projectRootPath, this.channel);
+        const iothub = new ioTHubModule.IoTHub(this.projectRootPath, this.ui);
 
         const functionDir = path.join(this.projectRootPath, IoTWorkspaceProject.folderName.functionDefaultFolderName);
         const azureFunctions = new azureFunctionsModule.AzureFunctions(
           this.projectRootPath,
           functionDir,
           IoTWorkspaceProject.folderName.functionDefaultFolderName,
-          this.channel,
+          this.ui,
           null,
           [
             {
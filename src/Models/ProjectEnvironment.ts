@@ -0,0 +1,98 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as fs from "fs-plus";
+import * as path from "path";
+
+import { AzureComponentsStorage } from "../constants";
+
+import { AzureConfigs, ComponentInfo } from "./AzureComponentConfig";
+
+/**
+ * Environment whose component info is kept in azure config file itself.
+ */
+export const defaultEnvironment = "default";
+
+/**
+ * Component info of a named environment, e.g. dev, test or prod. Components
+ * are shared by all environments and defined in azure config file, while each
+ * environment provisions its own Azure resources.
+ */
+export interface EnvironmentConfig {
+  componentInfos: { [componentId: string]: ComponentInfo };
+}
+
+/**
+ * Check whether the name can be used as environment name, which is also used
+ * as file name of environment config.
+ * @param name environment name
+ */
+export function isValidEnvironmentName(name: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(name);
+}
+
+/**
+ * Get file path of environment config.
+ * @param projectRootPath project root path
+ * @param environment environment name other than default
+ */
+export function getEnvironmentConfigPath(projectRootPath: string, environment: string): string {
+  return path.join(
+    projectRootPath,
+    AzureComponentsStorage.folderName,
+    AzureComponentsStorage.environmentsFolderName,
+    `${environment}.json`
+  );
+}
+
+/**
+ * List environments of the project, starting with default environment.
+ * @param projectRootPath project root path
+ */
+export function listEnvironments(projectRootPath: string): string[] {
+  const environmentsFolderPath = path.join(
+    projectRootPath,
+    AzureComponentsStorage.folderName,
+    AzureComponentsStorage.environmentsFolderName
+  );
+  const environments = fs.isDirectorySync(environmentsFolderPath)
+    ? fs
+        .readdirSync(environmentsFolderPath)
+        .filter(fileName => path.extname(fileName) === ".json")
+        .map(fileName => path.basename(fileName, ".json"))
+        .filter(environment => isValidEnvironmentName(environment) && environment !== defaultEnvironment)
+        .sort()
+    : [];
+  return [defaultEnvironment, ...environments];
+}
+
+/**
+ * Get azure configs with component info of the environment in place of the
+ * ones in azure config file.
+ * @param azureConfigs azure configs loaded from azure config file
+ * @param environmentConfig environment config, undefined if the environment
+ * is not provisioned yet
+ */
+export function applyEnvironmentConfig(
+  azureConfigs: AzureConfigs,
+  environmentConfig: EnvironmentConfig | undefined
+): AzureConfigs {
+  const componentInfos = environmentConfig ? environmentConfig.componentInfos : {};
+  return {
+    ...azureConfigs,
+    componentConfigs: azureConfigs.componentConfigs.map(componentConfig => ({
+      ...componentConfig,
+      componentInfo: componentInfos[componentConfig.id]
+    }))
+  };
+}
+
+/**
+ * Get name used for secrets of a component in the environment. Secrets of
+ * default environment keep the name used before environments existed.
+ * @param componentId component id
+ * @param environment environment name
+ */
+export function getSecretScope(componentId: string, environment: string): string {
+  return environment === defaultEnvironment ? componentId : `${environment}.${componentId}`;
+}
@@ -0,0 +1,133 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { ProjectConfigNotFoundError } from "../common/Error/SystemErrors/ProjectConfigNotFoundError";
+import { FileNames } from "../constants";
+
+export type ProvisionChoice = "existing" | "new";
+
+export interface IoTHubManifest {
+  choice: ProvisionChoice;
+  name: string;
+  sku?: string;
+}
+
+export interface IoTHubDeviceManifest {
+  choice: ProvisionChoice;
+  deviceId: string;
+}
+
+export interface FunctionAppManifest {
+  // Either resource id of the function app, or its name in the resource group
+  functionAppId?: string;
+  name?: string;
+  appSettings?: { [key: string]: string };
+}
+
+/**
+ * Answers to every provision question, read from provision.json in project
+ * root folder. When the manifest exists, Azure provision runs without prompts.
+ */
+export interface ProvisionManifest {
+  subscriptionId: string;
+  resourceGroup: string;
+  // Location of resource group and IoT Hub to create
+  location?: string;
+  iotHub?: IoTHubManifest;
+  device?: IoTHubDeviceManifest;
+  functionApp?: FunctionAppManifest;
+}
+
+type JsonObject = { [key: string]: unknown };
+
+const choices: ProvisionChoice[] = ["existing", "new"];
+
+function invalid(filePath: string, message: string): OperationFailedError {
+  return new OperationFailedError(`load provision manifest ${filePath}`, message, "Please fix the provision manifest.");
+}
+
+function checkObject(value: unknown, property: string, filePath: string): JsonObject {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw invalid(filePath, `"${property}" should be an object.`);
+  }
+  return value as JsonObject;
+}
+
+function checkString(value: unknown, property: string, filePath: string, optional = false): void {
+  if (optional && value === undefined) {
+    return;
+  }
+  if (typeof value !== "string" || !value) {
+    throw invalid(filePath, `"${property}" should be a non-empty string.`);
+  }
+}
+
+function checkChoice(value: unknown, property: string, filePath: string): void {
+  if (!choices.includes(value as ProvisionChoice)) {
+    throw invalid(filePath, `"${property}" should be one of ${choices.map(choice => `"${choice}"`).join(", ")}.`);
+  }
+}
+
+/**
+ * Validate provision manifest content.
+ * @param json parsed content of provision manifest
+ * @param filePath provision manifest file path, used in error messages
+ */
+export function parseProvisionManifest(json: unknown, filePath: string): ProvisionManifest {
+  const manifest = checkObject(json, "manifest", filePath);
+  checkString(manifest.subscriptionId, "subscriptionId", filePath);
+  checkString(manifest.resourceGroup, "resourceGroup", filePath);
+  checkString(manifest.location, "location", filePath, true);
+
+  if (manifest.iotHub !== undefined) {
+    const iotHub = checkObject(manifest.iotHub, "iotHub", filePath);
+    checkChoice(iotHub.choice, "iotHub.choice", filePath);
+    checkString(iotHub.name, "iotHub.name", filePath);
+    checkString(iotHub.sku, "iotHub.sku", filePath, true);
+    if (iotHub.choice === "new" && !manifest.location) {
+      throw invalid(filePath, `"location" is required to create a new IoT Hub.`);
+    }
+  }
+
+  if (manifest.device !== undefined) {
+    const device = checkObject(manifest.device, "device", filePath);
+    checkChoice(device.choice, "device.choice", filePath);
+    checkString(device.deviceId, "device.deviceId", filePath);
+  }
+
+  if (manifest.functionApp !== undefined) {
+    const functionApp = checkObject(manifest.functionApp, "functionApp", filePath);
+    checkString(functionApp.functionAppId, "functionApp.functionAppId", filePath, true);
+    checkString(functionApp.name, "functionApp.name", filePath, true);
+    if (!functionApp.functionAppId && !functionApp.name) {
+      throw invalid(filePath, `"functionApp.functionAppId" or "functionApp.name" is required.`);
+    }
+    if (functionApp.appSettings !== undefined) {
+      const appSettings = checkObject(functionApp.appSettings, "functionApp.appSettings", filePath);
+      for (const key of Object.keys(appSettings)) {
+        if (typeof appSettings[key] !== "string") {
+          throw invalid(filePath, `"functionApp.appSettings.${key}" should be a string.`);
+        }
+      }
+    }
+  }
+
+  return (manifest as unknown) as ProvisionManifest;
+}
+
+/**
+ * Get the manifest section a component provisions with.
+ * @param manifest provision manifest
+ * @param section section name
+ */
+export function getManifestSection<K extends "iotHub" | "device" | "functionApp">(
+  manifest: ProvisionManifest,
+  section: K
+): NonNullable<ProvisionManifest[K]> {
+  const value = manifest[section];
+  if (!value) {
+    throw new ProjectConfigNotFoundError(section, FileNames.provisionManifestFileName);
+  }
+  return value as NonNullable<ProvisionManifest[K]>;
+}
@@ -0,0 +1,96 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+export type ProvisionAction = "create" | "reuse" | "change" | "prompt";
+
+export interface PlannedChange {
+  property: string;
+  // Undefined before value means the property is added
+  before?: string;
+  // Undefined after value means the property is removed
+  after?: string;
+}
+
+/**
+ * What provision would do to one Azure resource. Planning only reads from
+ * Azure, so the plan can be reviewed before anything is touched.
+ */
+export interface ProvisionPlanItem {
+  // Name of the component, or "Resource group" and "ARM deployment"
+  component: string;
+  resource: string;
+  action: ProvisionAction;
+  changes: PlannedChange[];
+  // Problem which would make provision fail
+  error?: string;
+}
+
+const actionSymbols: { [action in ProvisionAction]: string } = {
+  create: "+",
+  reuse: "=",
+  change: "~",
+  prompt: "?"
+};
+
+const secretPlaceholder = "(secret)";
+
+function formatChange(change: PlannedChange): string {
+  if (change.before === undefined) {
+    return `+ ${change.property}: ${change.after}`;
+  }
+  if (change.after === undefined) {
+    return `- ${change.property}: ${change.before}`;
+  }
+  return `~ ${change.property}: ${change.before} -> ${change.after}`;
+}
+
+/**
+ * Check whether a setting may hold a connection string, key or password.
+ * @param key setting name
+ */
+export function isSecretSetting(key: string): boolean {
+  return /connectionstring|key|secret|password/i.test(key);
+}
+
+/**
+ * Compare settings of a resource with the ones provision would write. Secret
+ * values are compared but never shown.
+ * @param before current settings, undefined if the resource does not exist
+ * @param after settings to write
+ * @param isSecret whether the value of a setting is secret
+ */
+export function diffSettings(
+  before: { [key: string]: string } | undefined,
+  after: { [key: string]: string },
+  isSecret: (key: string) => boolean = isSecretSetting
+): PlannedChange[] {
+  const current = before || {};
+  const mask = (key: string, value: string | undefined): string | undefined =>
+    value !== undefined && isSecret(key) ? secretPlaceholder : value;
+  return Object.keys(after)
+    .filter(key => current[key] !== after[key])
+    .map(key => ({ property: key, before: mask(key, current[key]), after: mask(key, after[key]) }));
+}
+
+/**
+ * Format provision plan as a diff-style report, one block per resource.
+ * @param items plan of each resource, in provision order
+ */
+export function formatProvisionPlan(items: ProvisionPlanItem[]): string[] {
+  const lines: string[] = [];
+  for (const item of items) {
+    lines.push(`${actionSymbols[item.action]} ${item.component}: ${item.resource} (${item.action})`);
+    item.changes.forEach(change => lines.push(`    ${formatChange(change)}`));
+    if (item.error) {
+      lines.push(`    ! ${item.error}`);
+    }
+  }
+
+  const count = (action: ProvisionAction): number => items.filter(item => item.action === action).length;
+  const errorCount = items.filter(item => item.error).length;
+  lines.push(
+    `Plan: ${count("create")} to create, ${count("change")} to change, ${count("reuse")} to reuse, \
+${count("prompt")} to choose in wizard${errorCount > 0 ? `, ${errorCount} problem(s) found` : ""}.`
+  );
+  return lines;
+}
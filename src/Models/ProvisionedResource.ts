@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/**
+ * Azure resource provisioned for a component, recorded in component info.
+ * Resources selected on provision may be shared with other projects, so only
+ * the ones created by the project are deleted on deprovision.
+ */
+export interface ProvisionedResource {
+  // Azure resource id, or device id for IoT Hub device
+  id: string;
+  created: boolean;
+}
+
+/**
+ * Keep a resource created by the project owned when it is provisioned again,
+ * e.g. when provision manifest asks to create an IoT Hub which exists.
+ * @param previous resource recorded by last provision
+ * @param resource resource of this provision
+ */
+export function keepOwnership(
+  previous: ProvisionedResource | undefined,
+  resource: ProvisionedResource
+): ProvisionedResource {
+  const created = resource.created || (!!previous && previous.id === resource.id && previous.created);
+  return { ...resource, created };
+}
+
+/**
+ * Split provisioned resources into the ones created by the project, which can
+ * be deleted, and the others. Resources provisioned before ownership was
+ * recorded are never deleted.
+ * @param items items with the resources recorded in component info
+ */
+export function partitionByOwnership<T extends { resource?: ProvisionedResource }>(
+  items: T[]
+): { created: Array<T & { resource: ProvisionedResource }>; selected: T[] } {
+  const created: Array<T & { resource: ProvisionedResource }> = [];
+  const selected: T[] = [];
+  for (const item of items) {
+    if (item.resource && item.resource.created) {
+      created.push(item as T & { resource: ProvisionedResource });
+    } else {
+      selected.push(item);
+    }
+  }
+  return { created, selected };
+}
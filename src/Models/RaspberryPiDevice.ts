@@ -1,32 +1,61 @@
 // Copyright (c) Microsoft Corporation. All rights reserved.
 // Licensed under the MIT License.
 
+import { Guid } from "guid-typescript";
 import * as path from "path";
 import * as vscode from "vscode";
 import * as sdk from "vscode-iot-device-cube-sdk";
 
 import { OperationCanceledError } from "../common/Error/OperationCanceledError";
-import { FileNames, OperationType, ScaffoldType } from "../constants";
+import { OperationType, ScaffoldType } from "../constants";
 import { FileUtility } from "../FileUtility";
 import { TelemetryContext } from "../telemetry";
-import { askAndOpenInRemote, channelShowAndAppendLine, executeCommand } from "../utils";
+import { askAndOpenInRemote, channelShowAndAppendLine } from "../utils";
 
 import { ContainerDeviceBase } from "./ContainerDeviceBase";
-import { DeviceType } from "./Interfaces/Device";
+import { Runnable } from "./Interfaces/Runnable";
+import { Debuggable } from "./Interfaces/Debuggable";
 import { TemplateFileInfo } from "./Interfaces/ProjectTemplate";
 import { RemoteExtension } from "./RemoteExtension";
+import { SecretStore } from "./SecretStore";
 import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
-
-class RaspberryPiUploadConfig {
-  static host = "hostname";
-  static port = 22;
-  static user = "username";
-  static password = "password";
-  static projectPath = "IoTProject";
-  static updated = false;
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+import { openDeviceConnection } from "./DeviceConnection";
+import { deployToTargets, describeDeviceProfile, uploadToTarget } from "./DeviceDeployment";
+import {
+  deleteDeviceSecrets,
+  DeviceProfiles,
+  DeviceRunMode,
+  getActiveProfiles,
+  loadDeviceProfiles,
+  protectDeviceSecrets,
+  removeDeviceProfile,
+  resolveDeviceSecrets,
+  saveDeviceProfiles,
+  setDeviceProfile,
+  SshAuthenticationType,
+  SshDeviceProfile,
+  SshDeviceSecrets
+} from "./DeviceProfile";
+import { DeviceRunner, RemoteRunCommands } from "./DeviceRunner";
+import { createDeployManifest, DeployFile, DeployFileKind, hashDeployFiles, loadDeployConfig } from "./DeployManifest";
+
+const raspberryPiDefaults = {
+  host: "hostname",
+  port: 22,
+  user: "username",
+  projectPath: "IoTProject",
+  gdbServerPort: 2345
+};
+
+enum ProfileOptions {
+  Select = "$(check) Select active targets",
+  Add = "$(add) Add device profile",
+  Edit = "$(edit) Edit device profile",
+  Remove = "$(trash) Remove device profile"
 }
 
-export class RaspberryPiDevice extends ContainerDeviceBase {
+export class RaspberryPiDevice extends ContainerDeviceBase implements Runnable, Debuggable {
   private static _boardId = "raspberrypi";
   name = "Raspberry Pi";
 
@@ -41,31 +70,45 @@ export class RaspberryPiDevice extends ContainerDeviceBase {
     telemetryContext: TelemetryContext,
     templateFilesInfo: TemplateFileInfo[] = []
   ) {
-    super(context, projectPath, channel, telemetryContext, DeviceType.RaspberryPi, templateFilesInfo);
+    super(context, projectPath, channel, telemetryContext, RaspberryPiDevice.boardId, templateFilesInfo);
   }
 
-  private async getBinaryFileName(): Promise<string | undefined> {
-    // Parse binary name from CMakeLists.txt file
-    const cmakeFilePath = path.join(this.projectFolder, FileNames.cmakeFileName);
-    if (!(await FileUtility.fileExists(ScaffoldType.Workspace, cmakeFilePath))) {
-      return;
-    }
-    const getBinaryFileNameCmd = `cat ${cmakeFilePath} | grep 'add_executable' \
-    | sed -e 's/^add_executable(//' | awk '{$1=$1};1' | cut -d ' ' -f1 | tr -d '\n'`;
+  /**
+   * Profile to run executable with, since binary is run under project path of
+   * profile on target
+   */
+  private static getExecutableTarget(profile: SshDeviceProfile, executable: DeployFile): SshDeviceProfile {
+    return { ...profile, projectPath: path.posix.join(profile.projectPath, path.posix.dirname(executable.remotePath)) };
+  }
 
-    const binaryName = await executeCommand(getBinaryFileNameCmd);
-    return binaryName;
+  /**
+   * Get files to deploy from reply of CMake file API and deploy configuration
+   */
+  private getDeployFiles(): DeployFile[] {
+    return createDeployManifest(this.projectFolder, this.outputPath, loadDeployConfig(this.projectFolder));
   }
 
-  private async enableBinaryExecutability(ssh: sdk.SSH, binaryName: string): Promise<void> {
-    if (!binaryName) {
-      return;
+  /**
+   * Select executable to run or debug, ask to pick one if there are several
+   */
+  private async selectExecutable(files: DeployFile[], operation: string): Promise<DeployFile | undefined> {
+    const executables = files.filter(file => file.kind === DeployFileKind.Executable);
+    if (executables.length <= 1) {
+      return executables[0];
     }
-
-    const chmodCmd = `cd ${RaspberryPiUploadConfig.projectPath} && [ -f ${binaryName} ] && chmod +x ${binaryName}`;
-    await ssh.exec(chmodCmd);
-
-    return;
+    const executableItems = executables.map(executable => ({
+      label: path.posix.basename(executable.remotePath),
+      description: executable.remotePath,
+      executable
+    }));
+    const selection = await vscode.window.showQuickPick(executableItems, {
+      ignoreFocusOut: true,
+      placeHolder: `Select the executable to ${operation}`
+    });
+    if (!selection) {
+      throw new OperationCanceledError("Executable selection cancelled.");
+    }
+    return selection.executable;
   }
 
   async upload(): Promise<boolean> {
@@ -75,73 +118,187 @@ export class RaspberryPiDevice extends ContainerDeviceBase {
       return false;
     }
 
-    try {
-      const binaryName = await this.getBinaryFileName();
-      if (!binaryName) {
-        const message = `No executable file specified in ${FileNames.cmakeFileName}. \
-        Nothing to upload to target machine.`;
-        vscode.window.showWarningMessage(message);
-        channelShowAndAppendLine(this.channel, message);
-        return false;
-      }
-
-      const binaryFilePath = path.join(this.outputPath, binaryName);
-      if (!(await FileUtility.fileExists(ScaffoldType.Workspace, binaryFilePath))) {
-        const message = `Executable file ${binaryName} does not exist under ${this.outputPath}. \
-        Please compile device code first.`;
-        vscode.window.showWarningMessage(message);
-        channelShowAndAppendLine(this.channel, message);
-        return false;
-      }
+    return deployToTargets(this.outputPath, this.getDeployFiles(), await this.getTargets(), this.ui);
+  }
 
-      if (!RaspberryPiUploadConfig.updated) {
-        await this.configDeviceSettings();
-      }
+  /**
+   * Start uploaded binary on active targets, output is streamed to device
+   * output channel
+   */
+  async run(): Promise<boolean> {
+    const executable = await this.selectExecutable(this.getDeployFiles(), "run");
+    if (!executable) {
+      const message = `No executable is built in ${this.outputPath}. Nothing to run on target machine.`;
+      vscode.window.showWarningMessage(message);
+      channelShowAndAppendLine(this.channel, message);
+      return false;
+    }
+    const binaryName = path.posix.basename(executable.remotePath);
 
-      const ssh = new sdk.SSH();
-      await ssh.open(
-        RaspberryPiUploadConfig.host,
-        RaspberryPiUploadConfig.port,
-        RaspberryPiUploadConfig.user,
-        RaspberryPiUploadConfig.password
-      );
+    const targets = await this.getTargets();
+    DeviceRunner.attach(this.extensionContext);
+    const deviceOutput = DeviceRunner.getOutputChannel();
+    deviceOutput.show(true);
 
+    const failedTargets: string[] = [];
+    for (const target of targets) {
       try {
-        await ssh.uploadFile(binaryFilePath, RaspberryPiUploadConfig.projectPath);
+        await DeviceRunner.start(RaspberryPiDevice.getExecutableTarget(target, executable), binaryName);
       } catch (error) {
-        throw new OperationFailedError(
-          "upload file to device",
-          `SSH traffic is too busy. Error: ${error}`,
-          "Please wait a second and retry."
-        );
+        failedTargets.push(describeDeviceProfile(target));
+        deviceOutput.appendLine(`[${target.name}] ${error.message}`);
       }
+    }
 
-      try {
-        await this.enableBinaryExecutability(ssh, binaryName);
-      } catch (error) {
-        throw new OperationFailedError("enable binary executability", `${error.message}`, "");
-      }
+    if (failedTargets.length > 0) {
+      throw new OperationFailedError(
+        `run ${binaryName} on device ${failedTargets.join(", ")}`,
+        `${targets.length - failedTargets.length} of ${targets.length} targets succeeded.`,
+        "Please check the device output channel for details."
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Stop binary on active targets and report exit codes
+   */
+  async stop(): Promise<boolean> {
+    const executable = await this.selectExecutable(this.getDeployFiles(), "stop");
+    if (!executable) {
+      const message = `No executable is built in ${this.outputPath}. Nothing to stop on target machine.`;
+      vscode.window.showWarningMessage(message);
+      channelShowAndAppendLine(this.channel, message);
+      return false;
+    }
+    const binaryName = path.posix.basename(executable.remotePath);
+
+    const targets = await this.getTargets();
+    const deviceOutput = DeviceRunner.getOutputChannel();
+    deviceOutput.show(true);
 
+    const results: string[] = [];
+    const failedTargets: string[] = [];
+    for (const target of targets) {
       try {
-        await ssh.close();
+        const status = await DeviceRunner.stop(RaspberryPiDevice.getExecutableTarget(target, executable), binaryName);
+        results.push(
+          status.running
+            ? `${target.name}: still running`
+            : `${target.name}: ${status.exitCode === undefined ? "stopped" : `exit code ${status.exitCode}`}`
+        );
       } catch (error) {
-        throw new OperationFailedError("close SSH connection", `${error.message}`, "");
+        failedTargets.push(describeDeviceProfile(target));
+        deviceOutput.appendLine(`[${target.name}] Failed to stop ${binaryName}. ${error.message}`);
       }
+    }
 
-      const message = `Successfully deploy compiled files to device board.`;
-      channelShowAndAppendLine(this.channel, message);
-      vscode.window.showInformationMessage(message);
-    } catch (error) {
+    if (failedTargets.length > 0) {
       throw new OperationFailedError(
-        `upload binary file to device ${RaspberryPiUploadConfig.user}@${RaspberryPiUploadConfig.host} failed.`,
-        `${error.message}`,
-        ""
+        `stop ${binaryName} on device ${failedTargets.join(", ")}`,
+        `${targets.length - failedTargets.length} of ${targets.length} targets succeeded.`,
+        "Please check the device output channel for details."
       );
     }
-
+    vscode.window.showInformationMessage(`Stopped ${binaryName}. ${results.join(", ")}.`);
     return true;
   }
 
+  /**
+   * Compile device code for debugging, upload it to target and start
+   * gdbserver. It is the pre-launch step of generated debug configuration.
+   * @returns address of gdbserver for debugger to connect to
+   */
+  async startGdbServer(): Promise<string> {
+    const isRemote = RemoteExtension.isRemote(this.extensionContext);
+    if (!isRemote) {
+      await askAndOpenInRemote(OperationType.Debug, this.telemetryContext);
+      throw new OperationCanceledError("Debugging is cancelled to reopen project in container.");
+    }
+
+    await this.compileForDebugging();
+    const files = this.getDeployFiles();
+    const executable = await this.selectExecutable(files, "debug");
+    if (!executable) {
+      throw new OperationFailedError(
+        "debug device code",
+        `No executable is built in ${this.outputPath}.`,
+        "Please add executable to CMakeLists.txt."
+      );
+    }
+    const binaryName = path.posix.basename(executable.remotePath);
+
+    const target = await this.selectDebugTarget();
+    const targetName = describeDeviceProfile(target);
+    await uploadToTarget(target, files, hashDeployFiles(files), this.ui);
+    channelShowAndAppendLine(this.channel, `Successfully deploy compiled files to ${targetName}.`);
+
+    const port = raspberryPiDefaults.gdbServerPort;
+    const executableTarget = RaspberryPiDevice.getExecutableTarget(target, executable);
+    const connection = await openDeviceConnection(target, await resolveDeviceSecrets(target));
+    let output: string;
+    try {
+      output = await connection.exec(RemoteRunCommands.startGdbServer(executableTarget.projectPath, binaryName, port));
+    } finally {
+      await connection.close();
+    }
+    if (output && output.includes("no gdbserver")) {
+      throw new OperationFailedError(
+        `start gdbserver on ${targetName}`,
+        "gdbserver is not installed on the device.",
+        "Please install it with 'sudo apt-get install gdbserver' on the device."
+      );
+    }
+    if (!output || !output.includes("started")) {
+      throw new OperationFailedError(
+        `start gdbserver on ${targetName}`,
+        `gdbserver failed to listen on port ${port}.`,
+        `Please check ${executableTarget.projectPath}/.${binaryName}.gdbserver.log on the device.`
+      );
+    }
+
+    channelShowAndAppendLine(this.channel, `Started gdbserver for ${binaryName} on ${targetName} port ${port}.`);
+    return `${target.host}:${port}`;
+  }
+
+  /**
+   * Select the target to debug among active targets
+   */
+  private async selectDebugTarget(): Promise<SshDeviceProfile> {
+    const targets = await this.getTargets();
+    if (targets.length === 1) {
+      return targets[0];
+    }
+    const targetItems = targets.map(target => ({
+      label: target.name,
+      description: `${target.user}@${target.host}`,
+      profile: target
+    }));
+    const selection = await vscode.window.showQuickPick(targetItems, {
+      ignoreFocusOut: true,
+      placeHolder: "Select the target to debug"
+    });
+    if (!selection) {
+      throw new OperationCanceledError("Debug target selection cancelled.");
+    }
+    return selection.profile;
+  }
+
+  /**
+   * Get profiles of active targets, ask to configure one if there is none
+   */
+  private async getTargets(): Promise<SshDeviceProfile[]> {
+    let targets = getActiveProfiles(loadDeviceProfiles(this.projectFolder));
+    if (targets.length === 0) {
+      await this.configDeviceSettings();
+      targets = getActiveProfiles(loadDeviceProfiles(this.projectFolder));
+      if (targets.length === 0) {
+        throw new OperationCanceledError("No active target is selected.");
+      }
+    }
+    return targets;
+  }
+
   private async autoDiscoverDeviceIp(): Promise<vscode.QuickPickItem[]> {
     const sshDevicePickItems: vscode.QuickPickItem[] = [];
     const deviceInfos = await sdk.SSH.discover();
@@ -167,10 +324,113 @@ export class RaspberryPiDevice extends ContainerDeviceBase {
   }
 
   /**
-   * Configure Raspberry PI device SSH
+   * Configure SSH device profiles and active targets of Raspberry Pi
    */
   async configDeviceSettings(): Promise<void> {
-    // Raspberry Pi host
+    const deviceProfiles = loadDeviceProfiles(this.projectFolder);
+    if (deviceProfiles.profiles.length === 0) {
+      await this.addDeviceProfile(deviceProfiles);
+      return;
+    }
+
+    const configItems: vscode.QuickPickItem[] = [
+      {
+        label: ProfileOptions.Select,
+        detail: "Select devices to deploy compiled files to"
+      },
+      {
+        label: ProfileOptions.Add,
+        detail: "Add SSH configuration of a device"
+      },
+      {
+        label: ProfileOptions.Edit,
+        detail: "Edit SSH configuration of a device"
+      },
+      {
+        label: ProfileOptions.Remove,
+        detail: "Remove SSH configuration of a device"
+      }
+    ];
+    const configChoice = await vscode.window.showQuickPick(configItems, {
+      ignoreFocusOut: true,
+      matchOnDescription: true,
+      matchOnDetail: true,
+      placeHolder: "Select an option"
+    });
+    if (!configChoice) {
+      throw new OperationCanceledError("Device profile option selection cancelled.");
+    }
+
+    switch (configChoice.label) {
+      case ProfileOptions.Select:
+        await this.selectActiveTargets(deviceProfiles);
+        return;
+      case ProfileOptions.Add:
+        await this.addDeviceProfile(deviceProfiles);
+        return;
+      case ProfileOptions.Edit: {
+        const profile = await this.selectDeviceProfile(deviceProfiles, "Select a device profile to edit");
+        await this.addDeviceProfile(deviceProfiles, profile);
+        return;
+      }
+      case ProfileOptions.Remove: {
+        const profile = await this.selectDeviceProfile(deviceProfiles, "Select a device profile to remove");
+        await deleteDeviceSecrets(profile);
+        saveDeviceProfiles(this.projectFolder, removeDeviceProfile(deviceProfiles, profile.name));
+        vscode.window.showInformationMessage(`Device profile ${profile.name} is removed.`);
+        return;
+      }
+      default:
+        throw new TypeNotSupportedError("device profile option", configChoice.label);
+    }
+  }
+
+  private async selectDeviceProfile(deviceProfiles: DeviceProfiles, placeHolder: string): Promise<SshDeviceProfile> {
+    const profileItems = deviceProfiles.profiles.map(profile => ({
+      label: profile.name,
+      description: `${profile.user}@${profile.host}:${profile.port}`,
+      detail: profile.projectPath,
+      profile
+    }));
+    const profileChoice = await vscode.window.showQuickPick(profileItems, {
+      ignoreFocusOut: true,
+      matchOnDescription: true,
+      placeHolder
+    });
+    if (!profileChoice) {
+      throw new OperationCanceledError("Device profile selection cancelled.");
+    }
+    return profileChoice.profile;
+  }
+
+  private async selectActiveTargets(deviceProfiles: DeviceProfiles): Promise<void> {
+    const profileItems = deviceProfiles.profiles.map(profile => ({
+      label: profile.name,
+      description: `${profile.user}@${profile.host}:${profile.port}`,
+      picked: deviceProfiles.activeTargets.includes(profile.name)
+    }));
+    const targetChoices = await vscode.window.showQuickPick(profileItems, {
+      ignoreFocusOut: true,
+      matchOnDescription: true,
+      canPickMany: true,
+      placeHolder: "Select devices to deploy compiled files to"
+    });
+    if (!targetChoices) {
+      throw new OperationCanceledError("Active target selection cancelled.");
+    }
+
+    saveDeviceProfiles(this.projectFolder, {
+      ...deviceProfiles,
+      activeTargets: targetChoices.map(choice => choice.label)
+    });
+    vscode.window.showInformationMessage(
+      targetChoices.length > 0
+        ? `Active targets: ${targetChoices.map(choice => choice.label).join(", ")}.`
+        : "No active target is selected."
+    );
+  }
+
+  private async selectHost(defaultHost: string): Promise<string> {
     const sshDiscoverOrInputItems: vscode.QuickPickItem[] = [
       {
         label: "$(search) Auto discover",
@@ -191,8 +451,6 @@ export class RaspberryPiDevice extends ContainerDeviceBase {
       throw new OperationCanceledError("SSH configuration type selection cancelled.");
     }
 
-    let raspiHost: string | undefined;
-
     if (sshDiscoverOrInputChoice.label === "$(search) Auto discover") {
       let selectDeviceChoice: vscode.QuickPickItem | undefined;
       do {
@@ -210,26 +468,88 @@ export class RaspberryPiDevice extends ContainerDeviceBase {
       }
 
       if (selectDeviceChoice.label !== "$(gear) Manual setup") {
-        raspiHost = selectDeviceChoice.label;
+        return selectDeviceChoice.label;
       }
     }
 
+    const raspiHostOption: vscode.InputBoxOptions = {
+      value: defaultHost,
+      prompt: `Please input device ip or hostname here.`,
+      ignoreFocusOut: true
+    };
+    const raspiHost = await vscode.window.showInputBox(raspiHostOption);
     if (!raspiHost) {
-      const raspiHostOption: vscode.InputBoxOptions = {
-        value: RaspberryPiUploadConfig.host,
-        prompt: `Please input device ip or hostname here.`,
+      throw new OperationCanceledError("Hostname input cancelled.");
+    }
+    return raspiHost;
+  }
+
+  private async inputSecrets(authentication: SshAuthenticationType, keepExisting: boolean): Promise<SshDeviceSecrets> {
+    const keepExistingPrompt = keepExisting ? " Leave it empty to keep the saved one." : "";
+    if (authentication === SshAuthenticationType.Password) {
+      const raspiPassword = await vscode.window.showInputBox({
+        prompt: `Please input password here.${keepExistingPrompt}`,
+        password: true,
         ignoreFocusOut: true
-      };
-      raspiHost = await vscode.window.showInputBox(raspiHostOption);
-      if (!raspiHost) {
-        throw new OperationCanceledError("Hostname input cancelled.");
+      });
+      if (raspiPassword === undefined) {
+        throw new OperationCanceledError("Password input cancelled.");
       }
+      return { password: raspiPassword };
+    }
+
+    const keyFileItems: vscode.QuickPickItem[] = [{ label: "$(file) Select private key file" }];
+    if (keepExisting) {
+      keyFileItems.push({ label: "$(key) Keep the saved private key" });
+    }
+    const keyFileChoice =
+      keyFileItems.length === 1
+        ? keyFileItems[0]
+        : await vscode.window.showQuickPick(keyFileItems, {
+            ignoreFocusOut: true,
+            placeHolder: "Select an option"
+          });
+    if (!keyFileChoice) {
+      throw new OperationCanceledError("Private key selection cancelled.");
+    }
+    if (keyFileChoice !== keyFileItems[0]) {
+      return {};
+    }
+
+    const keyFiles = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      openLabel: "Select private key"
+    });
+    if (!keyFiles || keyFiles.length === 0) {
+      throw new OperationCanceledError("Private key selection cancelled.");
     }
-    raspiHost = raspiHost || RaspberryPiUploadConfig.host;
+    const privateKey = (await FileUtility.readFile(ScaffoldType.Workspace, keyFiles[0].fsPath, "utf8")) as string;
+
+    const passphrase = await vscode.window.showInputBox({
+      prompt: `Please input passphrase of private key here. Leave it empty if the key has no passphrase.`,
+      password: true,
+      ignoreFocusOut: true
+    });
+    if (passphrase === undefined) {
+      throw new OperationCanceledError("Passphrase input cancelled.");
+    }
+    return { privateKey, passphrase };
+  }
+
+  /**
+   * Add device profile, or edit the existing one
+   * @param deviceProfiles device profiles of the project
+   * @param existingProfile profile to edit
+   */
+  private async addDeviceProfile(deviceProfiles: DeviceProfiles, existingProfile?: SshDeviceProfile): Promise<void> {
+    // Raspberry Pi host
+    const raspiHost = await this.selectHost(existingProfile ? existingProfile.host : raspberryPiDefaults.host);
 
     // Raspberry Pi SSH port
     const raspiPortOption: vscode.InputBoxOptions = {
-      value: RaspberryPiUploadConfig.port.toString(),
+      value: (existingProfile ? existingProfile.port : raspberryPiDefaults.port).toString(),
       prompt: `Please input SSH port here.`,
       ignoreFocusOut: true
     };
@@ -237,52 +557,130 @@ export class RaspberryPiDevice extends ContainerDeviceBase {
     if (!raspiPortString) {
       throw new OperationCanceledError("Port input cancelled.");
     }
-    const raspiPort =
-      raspiPortString && !isNaN(Number(raspiPortString)) ? Number(raspiPortString) : RaspberryPiUploadConfig.port;
+    const raspiPort = !isNaN(Number(raspiPortString)) ? Number(raspiPortString) : raspberryPiDefaults.port;
 
     // Raspberry Pi user name
     const raspiUserOption: vscode.InputBoxOptions = {
-      value: RaspberryPiUploadConfig.user,
+      value: existingProfile ? existingProfile.user : raspberryPiDefaults.user,
       prompt: `Please input user name here.`,
       ignoreFocusOut: true
     };
-    let raspiUser = await vscode.window.showInputBox(raspiUserOption);
+    const raspiUser = await vscode.window.showInputBox(raspiUserOption);
     if (!raspiUser) {
       throw new OperationCanceledError("User name input cancelled.");
     }
-    raspiUser = raspiUser || RaspberryPiUploadConfig.user;
 
-    // Raspberry Pi user password
-    const raspiPasswordOption: vscode.InputBoxOptions = {
-      value: RaspberryPiUploadConfig.password,
-      prompt: `Please input password here.`,
-      ignoreFocusOut: true
-    };
-    let raspiPassword = await vscode.window.showInputBox(raspiPasswordOption);
-    if (raspiPassword === undefined) {
-      throw new OperationCanceledError("Password input cancelled.");
+    // Raspberry Pi authentication
+    const authenticationItems = [
+      {
+        label: "Password",
+        detail: "Sign in with password",
+        authentication: SshAuthenticationType.Password
+      },
+      {
+        label: "SSH key",
+        detail: "Sign in with private key file",
+        authentication: SshAuthenticationType.PrivateKey
+      }
+    ];
+    const authenticationChoice = await vscode.window.showQuickPick(authenticationItems, {
+      ignoreFocusOut: true,
+      matchOnDetail: true,
+      placeHolder: "Select authentication method"
+    });
+    if (!authenticationChoice) {
+      throw new OperationCanceledError("Authentication method selection cancelled.");
+    }
+    const authentication = authenticationChoice.authentication;
+    const keepExisting = !!existingProfile && existingProfile.authentication === authentication;
+    const secrets = await this.inputSecrets(authentication, keepExisting);
+
+    // How to run device code
+    const runModeItems = [
+      {
+        label: "Process",
+        detail: "Run device code as a background process of the user",
+        runMode: DeviceRunMode.Process
+      },
+      {
+        label: "Systemd unit",
+        detail: "Run device code as a transient systemd user unit",
+        runMode: DeviceRunMode.SystemdUnit
+      }
+    ];
+    const existingRunMode = (existingProfile && existingProfile.runMode) || DeviceRunMode.Process;
+    const runModeChoice = await vscode.window.showQuickPick(
+      runModeItems.sort((a, b) => Number(b.runMode === existingRunMode) - Number(a.runMode === existingRunMode)),
+      {
+        ignoreFocusOut: true,
+        matchOnDetail: true,
+        placeHolder: "Select how to run device code on the device"
+      }
+    );
+    if (!runModeChoice) {
+      throw new OperationCanceledError("Run mode selection cancelled.");
     }
-    raspiPassword = raspiPassword || RaspberryPiUploadConfig.password;
 
     // Raspberry Pi path
     const raspiPathOption: vscode.InputBoxOptions = {
-      value: RaspberryPiUploadConfig.projectPath,
+      value: existingProfile ? existingProfile.projectPath : raspberryPiDefaults.projectPath,
       prompt: `Please input project destination path here.`,
       ignoreFocusOut: true
     };
-    let raspiPath = await vscode.window.showInputBox(raspiPathOption);
+    const raspiPath = await vscode.window.showInputBox(raspiPathOption);
     if (!raspiPath) {
       throw new OperationCanceledError("Project destination path input cancelled.");
     }
-    raspiPath = raspiPath || RaspberryPiUploadConfig.projectPath;
 
-    RaspberryPiUploadConfig.host = raspiHost;
-    RaspberryPiUploadConfig.port = raspiPort;
-    RaspberryPiUploadConfig.user = raspiUser;
-    RaspberryPiUploadConfig.password = raspiPassword;
-    RaspberryPiUploadConfig.projectPath = raspiPath;
-    RaspberryPiUploadConfig.updated = true;
+    // Device profile name
+    const otherNames = deviceProfiles.profiles
+      .map(profile => profile.name)
+      .filter(name => !existingProfile || name !== existingProfile.name);
+    const profileName = await vscode.window.showInputBox({
+      value: existingProfile ? existingProfile.name : raspiHost,
+      prompt: `Please input device profile name here.`,
+      ignoreFocusOut: true,
+      validateInput: (name: string) => {
+        if (!name.trim()) {
+          return "Device profile name should not be empty.";
+        }
+        return otherNames.includes(name.trim()) ? `Device profile ${name.trim()} already exists.` : undefined;
+      }
+    });
+    if (!profileName) {
+      throw new OperationCanceledError("Device profile name input cancelled.");
+    }
 
+    let profile: SshDeviceProfile = {
+      id: existingProfile ? existingProfile.id : Guid.create().toString(),
+      name: profileName.trim(),
+      host: raspiHost,
+      port: raspiPort,
+      user: raspiUser,
+      projectPath: raspiPath,
+      authentication,
+      runMode: runModeChoice.runMode
+    };
+    if (existingProfile) {
+      if (keepExisting) {
+        profile.password = existingProfile.password;
+        profile.privateKey = existingProfile.privateKey;
+        profile.passphrase = existingProfile.passphrase;
+        if (secrets.privateKey && !secrets.passphrase && existingProfile.passphrase) {
+          // New private key has no passphrase
+          await SecretStore.delete(existingProfile.passphrase);
+          profile.passphrase = undefined;
+        }
+      } else {
+        await deleteDeviceSecrets(existingProfile);
+      }
+    }
+    profile = await protectDeviceSecrets(profile, secrets);
+
+    saveDeviceProfiles(
+      this.projectFolder,
+      setDeviceProfile(deviceProfiles, profile, existingProfile ? existingProfile.name : profile.name)
+    );
     vscode.window.showInformationMessage("Config SSH successfully.");
   }
 }
@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { ResourceNotFoundError } from "../common/Error/OperationFailedErrors/ResourceNotFoundError";
+import { SecretStorage } from "../constants";
+
+import { ComponentInfo, ComponentInfoValues } from "./AzureComponentConfig";
+
+/**
+ * Load keytar on first use, so that commands not touching secrets work where
+ * its native module is unavailable.
+ */
+function getKeytar(): typeof import("keytar") {
+  return require("keytar");
+}
+
+/**
+ * Component info values kept in OS keychain instead of azure config file.
+ */
+export const secretValueKeys: Array<keyof ComponentInfoValues> = [
+  "iotHubConnectionString",
+  "eventHubConnectionString",
+  "iotHubDeviceConnectionString"
+];
+
+/**
+ * Secret store backed by OS keychain. Azure config file only keeps opaque
+ * references to the secrets, so it is safe to check in.
+ */
+export class SecretStore {
+  /**
+   * Check whether the value is a reference to a secret.
+   * @param value value in azure config file
+   */
+  static isReference(value: string): boolean {
+    return value.startsWith(SecretStorage.referencePrefix);
+  }
+
+  /**
+   * Save secret to OS keychain.
+   * @param name secret name
+   * @param secret secret value
+   * @returns reference to the secret
+   */
+  static async store(name: string, secret: string): Promise<string> {
+    await getKeytar().setPassword(SecretStorage.serviceName, name, secret);
+    return `${SecretStorage.referencePrefix}${name}`;
+  }
+
+  /**
+   * Get secret of the reference from OS keychain. Values which are not
+   * references are returned as they are.
+   * @param value secret reference or plain value
+   */
+  static async resolve(value: string): Promise<string> {
+    if (!SecretStore.isReference(value)) {
+      return value;
+    }
+
+    const name = value.substr(SecretStorage.referencePrefix.length);
+    const secret = await getKeytar().getPassword(SecretStorage.serviceName, name);
+    if (secret === null) {
+      throw new ResourceNotFoundError(
+        "resolve secret reference",
+        `secret ${name} in OS keychain`,
+        "Please provision the Azure services again on this machine."
+      );
+    }
+    return secret;
+  }
+
+  /**
+   * Delete secret of the reference from OS keychain.
+   * @param value secret reference or plain value
+   */
+  static async delete(value: string): Promise<void> {
+    if (SecretStore.isReference(value)) {
+      await getKeytar().deletePassword(SecretStorage.serviceName, value.substr(SecretStorage.referencePrefix.length));
+    }
+  }
+
+  /**
+   * Save secret values of component info to OS keychain.
+   * @param secretScope prefix of secret names, e.g. id of the component
+   * @param componentInfo component info with secret values in plain text
+   * @returns component info with references in place of secret values
+   */
+  static async protectComponentInfo(secretScope: string, componentInfo: ComponentInfo): Promise<ComponentInfo> {
+    const values: ComponentInfoValues = { ...componentInfo.values };
+    for (const key of secretValueKeys) {
+      const value = values[key];
+      if (value && !SecretStore.isReference(value)) {
+        values[key] = await SecretStore.store(`${secretScope}.${key}`, value);
+      }
+    }
+    return { ...componentInfo, values };
+  }
+
+  /**
+   * Get component info with secret references resolved from OS keychain.
+   * @param componentInfo component info in azure config file
+   */
+  static async resolveComponentInfo(componentInfo: ComponentInfo): Promise<ComponentInfo> {
+    const values: ComponentInfoValues = { ...componentInfo.values };
+    for (const key of secretValueKeys) {
+      const value = values[key];
+      if (value) {
+        values[key] = await SecretStore.resolve(value);
+      }
+    }
+    return { ...componentInfo, values };
+  }
+
+  private constructor() {}
+}
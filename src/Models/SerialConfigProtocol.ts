@@ -0,0 +1,195 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { OperationCanceledError } from "../common/Error/OperationCanceledError";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+import { delay } from "../utils";
+
+export enum SerialConfigSetting {
+  DeviceConnectionString = "deviceConnectionString",
+  DPSCredentials = "dpsCredentials",
+  UDS = "uds"
+}
+
+/**
+ * How a board accepts settings over serial port, declared in board list.
+ * Patterns are regular expressions matched against device output.
+ */
+export interface SerialConfigDescriptor {
+  // Command which lists the configuration commands, e.g. "help"
+  probeCommand: string;
+  // Output of probe command when device is in configuration mode
+  configModePattern: string;
+  // Message asking user to put device in configuration mode
+  configModePrompt: string;
+  // Configuration command of each supported setting
+  commands: { [setting in SerialConfigSetting]?: string };
+  // Commands longer than chunk size are written in chunks with delay between
+  chunkSize: number;
+  chunkDelay: number;
+  // Output of configuration command on success or failure. The first capture
+  // group of failure pattern, if any, is reported as error message.
+  successPattern: string;
+  failurePattern: string;
+  // Milliseconds to wait for output of probe or configuration command
+  responseTimeout: number;
+}
+
+/**
+ * The part of serial port the protocol uses.
+ */
+export interface SerialConfigPort {
+  write(data: string, callback: (error?: Error | null) => void): void;
+  drain(callback: () => void): void;
+  on(event: "data", listener: (data: Buffer | string) => void): void;
+  on(event: "error", listener: (error: Error) => void): void;
+}
+
+/**
+ * Send settings to a board over serial port: enter configuration mode, write
+ * the configuration command in chunks and check acknowledgement of device.
+ */
+export class SerialConfigProtocol {
+  private output = "";
+  private portError: Error | undefined;
+  private outputChanged: (() => void) | undefined;
+
+  /**
+   * @param port opened serial port of the board
+   * @param descriptor serial configuration descriptor of the board
+   * @param promptConfigMode ask user to put device in configuration mode,
+   * resolves false if user cancels
+   */
+  constructor(
+    private port: SerialConfigPort,
+    private descriptor: SerialConfigDescriptor,
+    private promptConfigMode: (prompt: string) => Promise<boolean>
+  ) {
+    port.on("data", data => {
+      this.output += data.toString();
+      this.notifyOutputChanged();
+    });
+    port.on("error", error => {
+      this.portError = error;
+      this.notifyOutputChanged();
+    });
+  }
+
+  /**
+   * Send a setting to the device.
+   * @param setting setting type
+   * @param value setting value
+   * @returns acknowledgement of device
+   */
+  async configure(setting: SerialConfigSetting, value: string): Promise<string> {
+    const command = this.descriptor.commands[setting];
+    if (!command) {
+      throw new TypeNotSupportedError("serial configuration setting", setting);
+    }
+
+    await this.enterConfigMode();
+
+    this.output = "";
+    const data = `${command} "${value}"\r\n`;
+    const chunkSize = this.descriptor.chunkSize;
+    for (let start = 0; start < data.length; start += chunkSize) {
+      if (start > 0) {
+        await delay(this.descriptor.chunkDelay);
+      }
+      await this.write(data.substr(start, chunkSize));
+    }
+
+    const operation = `configure ${setting} of device`;
+    const successPattern = new RegExp(this.descriptor.successPattern, "m");
+    const failurePattern = new RegExp(this.descriptor.failurePattern, "m");
+    const response = await this.waitForOutput([successPattern, failurePattern]);
+    if (!response) {
+      throw new OperationFailedError(
+        operation,
+        "Device did not acknowledge the configuration command.",
+        "Please check the device firmware supports configuration over serial port."
+      );
+    }
+    if (response.pattern === failurePattern) {
+      throw new OperationFailedError(operation, (response.match[1] || response.match[0]).trim(), "");
+    }
+    return response.match[0].trim();
+  }
+
+  private async enterConfigMode(): Promise<void> {
+    const configModePattern = new RegExp(this.descriptor.configModePattern, "m");
+    for (let attempt = 0; attempt < 2; attempt++) {
+      this.output = "";
+      await this.write(`\r\n${this.descriptor.probeCommand}\r\n`);
+      if (await this.waitForOutput([configModePattern])) {
+        return;
+      }
+      if (attempt === 0 && !(await this.promptConfigMode(this.descriptor.configModePrompt))) {
+        throw new OperationCanceledError("Device configuration cancelled.");
+      }
+    }
+
+    throw new OperationFailedError(
+      "enter configuration mode of device",
+      "Device did not respond in configuration mode.",
+      this.descriptor.configModePrompt
+    );
+  }
+
+  private write(data: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.port.write(data, error => {
+        if (error) {
+          reject(error);
+        } else {
+          this.port.drain(() => resolve());
+        }
+      });
+    });
+  }
+
+  /**
+   * Wait until device output matches any of the patterns.
+   * @param patterns patterns to match
+   * @returns the first matched pattern, undefined on timeout
+   */
+  private waitForOutput(patterns: RegExp[]): Promise<{ pattern: RegExp; match: RegExpMatchArray } | undefined> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.outputChanged = undefined;
+        resolve();
+      }, this.descriptor.responseTimeout);
+      const check = (): void => {
+        let result: { pattern: RegExp; match: RegExpMatchArray } | undefined;
+        for (const pattern of patterns) {
+          const match = this.output.match(pattern);
+          if (match) {
+            result = { pattern, match };
+            break;
+          }
+        }
+        if (!result && !this.portError) {
+          return;
+        }
+
+        clearTimeout(timer);
+        this.outputChanged = undefined;
+        if (result) {
+          resolve(result);
+        } else {
+          reject(this.portError);
+        }
+      };
+
+      this.outputChanged = check;
+      check();
+    });
+  }
+
+  private notifyOutputChanged(): void {
+    if (this.outputChanged) {
+      this.outputChanged();
+    }
+  }
+}
@@ -0,0 +1,11 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+/**
+ * Quote a value as one argument of POSIX shell command run on target, e.g.
+ * it's.json is quoted as 'it'\''s.json'.
+ * @param value value to quote
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
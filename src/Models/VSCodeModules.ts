@@ -0,0 +1,22 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+// Modules which need VS Code at runtime. Azure components load them on
+// interactive operations only, so that the command line interface can drive
+// the same components without VS Code.
+
+export function loadVSCode(): typeof import("vscode") {
+  return require("vscode");
+}
+
+export function loadApis(): typeof import("./Apis") {
+  return require("./Apis");
+}
+
+export function loadAzureUtility(): typeof import("./AzureUtility") {
+  return require("./AzureUtility");
+}
+
+export function loadUtils(): typeof import("../utils") {
+  return require("../utils");
+}
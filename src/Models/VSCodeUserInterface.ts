@@ -0,0 +1,37 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as vscode from "vscode";
+
+import { UserInterface } from "./Interfaces/UserInterface";
+
+/**
+ * Prompt with quick picks and report to the output channel of the extension.
+ */
+export class VSCodeUserInterface implements UserInterface {
+  constructor(readonly channel: vscode.OutputChannel) {}
+
+  appendLine(message: string): void {
+    this.channel.show();
+    this.channel.appendLine(message);
+  }
+
+  async showQuickPick<T extends vscode.QuickPickItem>(
+    items: T[] | Promise<T[]>,
+    options: vscode.QuickPickOptions
+  ): Promise<T | undefined> {
+    return vscode.window.showQuickPick(items, options);
+  }
+
+  showInformationMessage(message: string): void {
+    vscode.window.showInformationMessage(message);
+  }
+
+  showWarningMessage(message: string): void {
+    vscode.window.showWarningMessage(message);
+  }
+
+  showErrorMessage(message: string): void {
+    vscode.window.showErrorMessage(message);
+  }
+}
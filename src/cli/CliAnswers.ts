@@ -0,0 +1,219 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as fs from "fs-plus";
+
+import { FileNotFoundError } from "../common/Error/OperationFailedErrors/FileNotFound";
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+import { parseProvisionManifest, ProvisionManifest } from "../Models/ProvisionManifest";
+
+/**
+ * Answers to the questions IoT Device Workbench asks interactively in VS Code.
+ * Headless commands read them from provision manifest of the project, an
+ * answers file and command line flags, each taking precedence over the former.
+ */
+export interface CliAnswers {
+  // Azure service principal used to sign in
+  tenantId?: string;
+  clientId?: string;
+  clientSecret?: string;
+
+  // Azure provision
+  subscriptionId?: string;
+  resourceGroup?: string;
+  location?: string;
+  iotHubName?: string;
+  iotHubSku?: string;
+  createIotHub?: boolean;
+  deviceId?: string;
+  createDevice?: boolean;
+  functionAppId?: string;
+  functionAppName?: string;
+  functionAppSettings?: { [key: string]: string };
+
+  // Device upload
+  arduinoCli?: string;
+  port?: string;
+  host?: string;
+  sshPort?: number;
+  user?: string;
+  password?: string;
+  remotePath?: string;
+}
+
+type AnswerType = "string" | "number" | "boolean" | "object";
+
+const answerTypes: { [key in keyof CliAnswers]-?: AnswerType } = {
+  tenantId: "string",
+  clientId: "string",
+  clientSecret: "string",
+  subscriptionId: "string",
+  resourceGroup: "string",
+  location: "string",
+  iotHubName: "string",
+  iotHubSku: "string",
+  createIotHub: "boolean",
+  deviceId: "string",
+  createDevice: "boolean",
+  functionAppId: "string",
+  functionAppName: "string",
+  functionAppSettings: "object",
+  arduinoCli: "string",
+  port: "string",
+  host: "string",
+  sshPort: "number",
+  user: "string",
+  password: "string",
+  remotePath: "string"
+};
+
+/**
+ * Answers that fall back to the environment variables commonly used by Azure
+ * tools, so that secrets need not be passed on the command line.
+ */
+const environmentAnswers: { [key in keyof CliAnswers]?: string } = {
+  tenantId: "AZURE_TENANT_ID",
+  clientId: "AZURE_CLIENT_ID",
+  clientSecret: "AZURE_CLIENT_SECRET",
+  subscriptionId: "AZURE_SUBSCRIPTION_ID"
+};
+
+function toCamelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+type AnswerValue = string | number | boolean | { [key: string]: string };
+
+function convertAnswer(key: string, value: unknown, source: string): AnswerValue {
+  const answerType = answerTypes[key as keyof CliAnswers];
+  if (!answerType) {
+    throw new TypeNotSupportedError(`answer in ${source}`, key);
+  }
+
+  if (typeof value === answerType && value !== null) {
+    return value as AnswerValue;
+  }
+  if (answerType === "boolean" && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  if (answerType === "number" && typeof value === "string" && value && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (answerType === "string" && typeof value === "number") {
+    return value.toString();
+  }
+  throw new OperationFailedError(`read answer ${key} in ${source}`, `A ${answerType} value is expected.`, "");
+}
+
+function getManifestAnswers(manifest: ProvisionManifest): CliAnswers {
+  const answers: CliAnswers = {
+    subscriptionId: manifest.subscriptionId,
+    resourceGroup: manifest.resourceGroup,
+    location: manifest.location
+  };
+  if (manifest.iotHub) {
+    answers.iotHubName = manifest.iotHub.name;
+    answers.iotHubSku = manifest.iotHub.sku;
+    answers.createIotHub = manifest.iotHub.choice === "new";
+  }
+  if (manifest.device) {
+    answers.deviceId = manifest.device.deviceId;
+    answers.createDevice = manifest.device.choice === "new";
+  }
+  if (manifest.functionApp) {
+    answers.functionAppId = manifest.functionApp.functionAppId;
+    answers.functionAppName = manifest.functionApp.name;
+    answers.functionAppSettings = manifest.functionApp.appSettings;
+  }
+  return answers;
+}
+
+/**
+ * Merge answers from environment, provision manifest, answers file and
+ * command line flags.
+ * @param answersFilePath path of the JSON answers file
+ * @param flags command line flags in kebab case or camel case
+ * @param manifest provision manifest of the project
+ */
+export function loadAnswers(
+  answersFilePath: string | undefined,
+  flags: { [name: string]: string | boolean },
+  manifest?: ProvisionManifest
+): CliAnswers {
+  const answers: { [key: string]: AnswerValue } = {};
+
+  for (const key of Object.keys(environmentAnswers)) {
+    const variable = environmentAnswers[key as keyof CliAnswers] as string;
+    if (process.env[variable]) {
+      answers[key] = process.env[variable] as string;
+    }
+  }
+
+  if (manifest) {
+    const manifestAnswers = getManifestAnswers(manifest);
+    for (const key of Object.keys(manifestAnswers)) {
+      const value = manifestAnswers[key as keyof CliAnswers];
+      if (value !== undefined) {
+        answers[key] = value;
+      }
+    }
+  }
+
+  if (answersFilePath) {
+    if (!fs.existsSync(answersFilePath)) {
+      throw new FileNotFoundError("load answers", `answers file ${answersFilePath}`, "Please check the path.");
+    }
+    let answersJson: { [key: string]: unknown };
+    try {
+      answersJson = JSON.parse(fs.readFileSync(answersFilePath, "utf8"));
+    } catch (error) {
+      throw new OperationFailedError(`parse answers file ${answersFilePath}`, error.message, "");
+    }
+    for (const key of Object.keys(answersJson)) {
+      answers[key] = convertAnswer(key, answersJson[key], answersFilePath);
+    }
+  }
+
+  for (const name of Object.keys(flags)) {
+    const key = toCamelCase(name);
+    answers[key] = convertAnswer(key, flags[name], "command line flags");
+  }
+
+  return answers as CliAnswers;
+}
+
+/**
+ * Get provision manifest that Azure components provision with, from merged
+ * answers. Sections are only present for the answered components.
+ * @param answers merged answers of the command
+ */
+export function getAnswersManifest(answers: CliAnswers): ProvisionManifest {
+  const manifest: { [key: string]: unknown } = {
+    subscriptionId: answers.subscriptionId,
+    resourceGroup: answers.resourceGroup,
+    location: answers.location
+  };
+  if (answers.iotHubName) {
+    manifest.iotHub = {
+      choice: answers.createIotHub ? "new" : "existing",
+      name: answers.iotHubName,
+      sku: answers.iotHubSku
+    };
+  }
+  if (answers.deviceId) {
+    manifest.device = {
+      choice: answers.createDevice ? "new" : "existing",
+      deviceId: answers.deviceId
+    };
+  }
+  if (answers.functionAppId || answers.functionAppName) {
+    manifest.functionApp = {
+      functionAppId: answers.functionAppId,
+      name: answers.functionAppName,
+      appSettings: answers.functionAppSettings
+    };
+  }
+  // Unanswered values are dropped, the same as absent keys in provision.json
+  return parseProvisionManifest(JSON.parse(JSON.stringify(manifest)), "answers");
+}
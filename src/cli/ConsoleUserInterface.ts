@@ -0,0 +1,40 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { QuickPickItem, QuickPickOptions } from "vscode";
+
+import { OperationFailedError } from "../common/Error/OperationFailedErrors/OperationFailedError";
+import { UserInterface } from "../Models/Interfaces/UserInterface";
+
+/**
+ * Report to the console. Components only prompt when an answer is missing,
+ * which fails the command instead.
+ */
+export class ConsoleUserInterface implements UserInterface {
+  appendLine(message: string): void {
+    console.log(message);
+  }
+
+  async showQuickPick<T extends QuickPickItem>(
+    _items: T[] | Promise<T[]>,
+    options: QuickPickOptions
+  ): Promise<T | undefined> {
+    throw new OperationFailedError(
+      `answer "${options.placeHolder}"`,
+      "The command line interface does not prompt.",
+      "Please set the answer in provision.json, the answers file or with the command line flag."
+    );
+  }
+
+  showInformationMessage(message: string): void {
+    console.log(message);
+  }
+
+  showWarningMessage(message: string): void {
+    console.warn(message);
+  }
+
+  showErrorMessage(message: string): void {
+    console.error(message);
+  }
+}
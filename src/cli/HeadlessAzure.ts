@@ -0,0 +1,94 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { loginWithServicePrincipalSecret } from "ms-rest-azure";
+
+import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { deployComponents, provisionWithManifest } from "../Models/AzureComponents";
+import { AzureProvisionClient } from "../Models/AzureProvisionClient";
+import { Component } from "../Models/Interfaces/Component";
+import { Deployable } from "../Models/Interfaces/Deployable";
+import { Provisionable } from "../Models/Interfaces/Provisionable";
+import { UserInterface } from "../Models/Interfaces/UserInterface";
+
+import { CliAnswers, getAnswersManifest } from "./CliAnswers";
+import { HeadlessProject } from "./HeadlessProject";
+
+function requireAnswer<K extends keyof CliAnswers>(
+  answers: CliAnswers,
+  key: K,
+  operation: string
+): NonNullable<CliAnswers[K]> {
+  const value = answers[key];
+  if (value === undefined || value === "") {
+    throw new ArgumentEmptyOrNullError(operation, key, `Please set ${key} in answers or with the command line flag.`);
+  }
+  return value as NonNullable<CliAnswers[K]>;
+}
+
+function canProvision(comp: {}): comp is Provisionable {
+  return (comp as Provisionable).provision !== undefined;
+}
+
+function canDeploy(comp: {}): comp is Deployable {
+  return (comp as Deployable).deploy !== undefined;
+}
+
+async function signIn(answers: CliAnswers): Promise<AzureProvisionClient> {
+  const operation = "sign in to Azure";
+  const clientId = requireAnswer(answers, "clientId", operation);
+  const clientSecret = requireAnswer(answers, "clientSecret", operation);
+  const tenantId = requireAnswer(answers, "tenantId", operation);
+  const subscriptionId = requireAnswer(answers, "subscriptionId", operation);
+  const resourceGroup = requireAnswer(answers, "resourceGroup", operation);
+
+  const credentials = await loginWithServicePrincipalSecret(clientId, clientSecret, tenantId);
+  return new AzureProvisionClient(credentials, subscriptionId, resourceGroup);
+}
+
+/**
+ * Provision Azure components of the project in dependency order without
+ * prompting, the same way the extension provisions with provision.json.
+ * @param project headless project
+ * @param answers answers of the command
+ * @param ui output of the command
+ */
+export async function provisionAzure(project: HeadlessProject, answers: CliAnswers, ui: UserInterface): Promise<void> {
+  const provisionItems: Array<Component & Provisionable> = [];
+  for (const component of await project.loadAzureComponents(ui)) {
+    if (canProvision(component)) {
+      provisionItems.push(component);
+    }
+  }
+  if (provisionItems.length === 0) {
+    ui.appendLine("No Azure component to provision.");
+    return;
+  }
+
+  const manifest = getAnswersManifest(answers);
+  const client = await signIn(answers);
+  await provisionWithManifest(provisionItems, { manifest, client }, ui);
+}
+
+/**
+ * Deploy Azure components of the project to the provisioned resources
+ * without prompting.
+ * @param project headless project
+ * @param answers answers of the command
+ * @param ui output of the command
+ */
+export async function deployAzure(project: HeadlessProject, answers: CliAnswers, ui: UserInterface): Promise<void> {
+  const deployItems: Array<Component & Deployable> = [];
+  for (const component of await project.loadAzureComponents(ui)) {
+    if (canDeploy(component)) {
+      deployItems.push(component);
+    }
+  }
+  if (deployItems.length === 0) {
+    ui.appendLine("No Azure component to deploy.");
+    return;
+  }
+
+  const client = await signIn(answers);
+  await deployComponents(deployItems, ui, client);
+}
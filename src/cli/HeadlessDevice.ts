@@ -0,0 +1,87 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { BuildResult } from "../Models/BuildResult";
+import { SshAuthenticationType, SshDeviceProfile } from "../Models/DeviceProfile";
+import { DeviceRegistry } from "../Models/DeviceRegistry";
+import { HeadlessDevice } from "../Models/Interfaces/DeviceProvider";
+import { UserInterface } from "../Models/Interfaces/UserInterface";
+
+import { CliAnswers } from "./CliAnswers";
+import { HeadlessProject } from "./HeadlessProject";
+
+const constants = {
+  defaultSshPort: 22,
+  defaultRemotePath: "IoTProject"
+};
+
+/**
+ * Get the target given with host in answers. Without host, the device uploads
+ * to active targets in device profiles of the project.
+ * @param answers answers of the command
+ */
+function getAnswersTargets(answers: CliAnswers): SshDeviceProfile[] | undefined {
+  if (!answers.host) {
+    return undefined;
+  }
+  if (!answers.user) {
+    throw new ArgumentEmptyOrNullError(
+      "upload binary file to device",
+      "user",
+      "Please set user in answers or with --user."
+    );
+  }
+  return [
+    {
+      id: answers.host,
+      name: answers.host,
+      host: answers.host,
+      port: answers.sshPort || constants.defaultSshPort,
+      user: answers.user,
+      projectPath: answers.remotePath || constants.defaultRemotePath,
+      authentication: SshAuthenticationType.Password,
+      password: answers.password
+    }
+  ];
+}
+
+/**
+ * Create the device of the project board with its provider in the device
+ * registry.
+ * @param project headless project
+ * @param answers answers of the command
+ * @param ui output of the command
+ */
+function createDevice(project: HeadlessProject, answers: CliAnswers, ui: UserInterface): HeadlessDevice {
+  return DeviceRegistry.createHeadlessDevice(
+    project.boardId,
+    project.projectHostType,
+    project.rootPath,
+    project.devicePath,
+    ui,
+    { arduinoCli: answers.arduinoCli, port: answers.port, targets: getAnswersTargets(answers) }
+  );
+}
+
+/**
+ * Compile device code with the compile task in tasks.json of the device
+ * folder. Containerized projects are expected to run inside the toolchain
+ * container.
+ * @param project headless project
+ * @param answers answers of the command
+ * @param ui output of the command
+ */
+export function compileDevice(project: HeadlessProject, answers: CliAnswers, ui: UserInterface): Promise<BuildResult> {
+  return createDevice(project, answers, ui).compile();
+}
+
+/**
+ * Upload compiled device code to the board.
+ * @param project headless project
+ * @param answers answers of the command
+ * @param ui output of the command
+ */
+export function uploadDevice(project: HeadlessProject, answers: CliAnswers, ui: UserInterface): Promise<void> {
+  return createDevice(project, answers, ui).upload();
+}
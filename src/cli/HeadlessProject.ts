@@ -0,0 +1,123 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as fs from "fs-plus";
+import * as path from "path";
+
+import { DirectoryNotFoundError } from "../common/Error/OperationFailedErrors/DirectoryNotFoundError";
+import { ResourceNotFoundError } from "../common/Error/OperationFailedErrors/ResourceNotFoundError";
+import { ProjectConfigNotFoundError } from "../common/Error/SystemErrors/ProjectConfigNotFoundError";
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+import { WorkspaceConfigNotFoundError } from "../common/Error/SystemErrors/WorkspaceConfigNotFoundError";
+import { ConfigKey, FileNames, ScaffoldType } from "../constants";
+import { AzureConfigFileHandler } from "../Models/AzureComponentConfig";
+import { loadAzureComponents } from "../Models/AzureComponents";
+import { Component } from "../Models/Interfaces/Component";
+import { ProjectHostType } from "../Models/Interfaces/ProjectHostType";
+import { UserInterface } from "../Models/Interfaces/UserInterface";
+import { parseProvisionManifest, ProvisionManifest } from "../Models/ProvisionManifest";
+import { defaultEnvironment, isValidEnvironmentName } from "../Models/ProjectEnvironment";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readJson(filePath: string): any {
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+/**
+ * IoT Device Workbench project loaded outside of VS Code.
+ * Settings that the extension reads from the opened workspace are read from
+ * the project files directly, and Azure components are the ones the
+ * extension works with.
+ */
+export class HeadlessProject {
+  private constructor(
+    readonly rootPath: string,
+    readonly projectHostType: ProjectHostType,
+    readonly boardId: string,
+    readonly devicePath: string,
+    readonly environment: string,
+    readonly functionPath?: string
+  ) {}
+
+  /**
+   * Load project from a containerized project folder, or from a workspace
+   * project folder with its .code-workspace file.
+   * @param rootPath project root path
+   * @param environment environment to work with, active environment of the
+   * workspace by default
+   */
+  static load(rootPath: string, environment?: string): HeadlessProject {
+    if (environment !== undefined && !isValidEnvironmentName(environment)) {
+      throw new TypeNotSupportedError("environment name", environment);
+    }
+    if (!fs.isDirectorySync(rootPath)) {
+      throw new DirectoryNotFoundError("load project", `project folder ${rootPath}`, "Please check the path.");
+    }
+
+    const projectFilePath = path.join(rootPath, FileNames.iotWorkbenchProjectFileName);
+    if (fs.isFileSync(projectFilePath)) {
+      const projectConfig = readJson(projectFilePath);
+      if (projectConfig[ConfigKey.projectHostType] === ProjectHostType.Container) {
+        const boardId = projectConfig[ConfigKey.boardId];
+        if (!boardId) {
+          throw new ProjectConfigNotFoundError(ConfigKey.boardId, projectFilePath);
+        }
+        return new HeadlessProject(
+          rootPath,
+          ProjectHostType.Container,
+          boardId,
+          rootPath,
+          environment || defaultEnvironment
+        );
+      }
+    }
+
+    const workspaceFile = fs
+      .readdirSync(rootPath)
+      .find(file => path.extname(file) === FileNames.workspaceExtensionName);
+    if (!workspaceFile) {
+      throw new ResourceNotFoundError(
+        "load project",
+        `${FileNames.iotWorkbenchProjectFileName} or ${FileNames.workspaceExtensionName} file in ${rootPath}`,
+        "Please specify the root folder of an IoT Device Workbench project."
+      );
+    }
+    const workspaceConfig = readJson(path.join(rootPath, workspaceFile));
+    const settings = workspaceConfig.settings || {};
+    const devicePath = settings[`IoTWorkbench.${ConfigKey.devicePath}`];
+    if (!devicePath) {
+      throw new WorkspaceConfigNotFoundError(ConfigKey.devicePath);
+    }
+    const boardId = settings[`IoTWorkbench.${ConfigKey.boardId}`];
+    if (!boardId) {
+      throw new WorkspaceConfigNotFoundError(ConfigKey.boardId);
+    }
+
+    return new HeadlessProject(
+      rootPath,
+      ProjectHostType.Workspace,
+      boardId,
+      path.join(rootPath, devicePath),
+      environment || settings[`IoTWorkbench.${ConfigKey.environment}`] || defaultEnvironment,
+      settings[`IoTWorkbench.${ConfigKey.functionPath}`]
+    );
+  }
+
+  loadProvisionManifest(): ProvisionManifest | undefined {
+    const manifestFilePath = path.join(this.rootPath, FileNames.provisionManifestFileName);
+    if (!fs.isFileSync(manifestFilePath)) {
+      return undefined;
+    }
+    return parseProvisionManifest(readJson(manifestFilePath), manifestFilePath);
+  }
+
+  /**
+   * Load Azure components of the environment in dependency order.
+   * @param ui output of the components
+   */
+  async loadAzureComponents(ui: UserInterface): Promise<Component[]> {
+    const azureConfigFileHandler = new AzureConfigFileHandler(this.rootPath, this.environment);
+    const componentConfigs = (await azureConfigFileHandler.getDependencyGraph(ScaffoldType.Workspace)).sortedComponents;
+    return loadAzureComponents(this.rootPath, componentConfigs, ui, this.functionPath, this.environment);
+  }
+}
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT License.
+
+import * as path from "path";
+
+import { ArgumentEmptyOrNullError } from "../common/Error/OperationFailedErrors/ArgumentEmptyOrNullError";
+import { TypeNotSupportedError } from "../common/Error/SystemErrors/TypeNotSupportedError";
+
+import { loadAnswers } from "./CliAnswers";
+import { ConsoleUserInterface } from "./ConsoleUserInterface";
+import { compileDevice, uploadDevice } from "./HeadlessDevice";
+import { deployAzure, provisionAzure } from "./HeadlessAzure";
+import { HeadlessProject } from "./HeadlessProject";
+
+const usage = `Usage: iotworkbench <build|upload|provision|deploy> --project <dir> [--answers <file>] [options]
+
+Runs IoT Device Workbench operations without VS Code. Questions asked
+interactively in VS Code are answered by provision.json of the project, the
+answers file (JSON) and command line flags, each taking precedence over the
+former.
+
+Options:
+  --project <dir>           root folder of the IoT Device Workbench project
+  --answers <file>          JSON file with answers, keys in camel case
+  --environment <name>      environment to provision and deploy, active
+                            environment of the workspace by default
+  --tenant-id, --client-id, --client-secret
+                            Azure service principal, or AZURE_TENANT_ID,
+                            AZURE_CLIENT_ID and AZURE_CLIENT_SECRET
+  --subscription-id, --resource-group, --location
+  --iot-hub-name, --iot-hub-sku, --create-iot-hub
+  --device-id, --create-device
+  --function-app-id, --function-app-name
+  --arduino-cli, --port     Arduino boards
+  --host, --ssh-port, --user, --password, --remote-path
+                            Raspberry Pi upload, active targets of the device
+                            profiles by default
+`;
+
+interface ParsedArguments {
+  command?: string;
+  flags: { [name: string]: string | boolean };
+}
+
+function parseArguments(argv: string[]): ParsedArguments {
+  const parsed: ParsedArguments = { flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const argument = argv[i];
+    if (!argument.startsWith("--")) {
+      if (parsed.command) {
+        throw new TypeNotSupportedError("argument", argument);
+      }
+      parsed.command = argument;
+      continue;
+    }
+
+    const separatorIndex = argument.indexOf("=");
+    if (separatorIndex !== -1) {
+      parsed.flags[argument.slice(2, separatorIndex)] = argument.slice(separatorIndex + 1);
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+      parsed.flags[argument.slice(2)] = argv[++i];
+    } else {
+      parsed.flags[argument.slice(2)] = true;
+    }
+  }
+  return parsed;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const { command, flags } = parseArguments(argv);
+  if (!command || command === "help" || flags.help) {
+    console.log(usage);
+    return command ? 0 : 1;
+  }
+
+  const { project: projectPath, answers: answersFilePath, environment, ...answerFlags } = flags;
+  if (typeof projectPath !== "string") {
+    throw new ArgumentEmptyOrNullError(`${command} project`, "project", "Please specify it with --project <dir>.");
+  }
+  const project = HeadlessProject.load(
+    path.resolve(projectPath),
+    typeof environment === "string" ? environment : undefined
+  );
+  const answers = loadAnswers(
+    typeof answersFilePath === "string" ? answersFilePath : undefined,
+    answerFlags,
+    project.loadProvisionManifest()
+  );
+
+  const ui = new ConsoleUserInterface();
+  switch (command) {
+    case "build":
+      await compileDevice(project, answers, ui);
+      break;
+    case "upload":
+      await uploadDevice(project, answers, ui);
+      break;
+    case "provision":
+      await provisionAzure(project, answers, ui);
+      break;
+    case "deploy":
+      await deployAzure(project, answers, ui);
+      break;
+    default:
+      throw new TypeNotSupportedError("command", command);
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(
+    exitCode => process.exit(exitCode),
+    error => {
+      console.error(error.message);
+      process.exit(1);
+    }
+  );
+}
@@ -7,8 +7,13 @@ export enum WorkbenchCommands {
   Workbench = "iotworkbench.workbench",
   DeviceCompile = "iotworkbench.deviceCompile",
   DeviceUpload = "iotworkbench.deviceUpload",
+  DeviceRun = "iotworkbench.deviceRun",
+  DeviceStop = "iotworkbench.deviceStop",
   AzureProvision = "iotworkbench.azureProvision",
+  AzureProvisionPlan = "iotworkbench.azureProvisionPlan",
+  AzureDeprovision = "iotworkbench.azureDeprovision",
   AzureDeploy = "iotworkbench.azureDeploy",
+  SwitchEnvironment = "iotworkbench.switchEnvironment",
   ConfigureDevice = "iotworkbench.configureDevice",
   IotPnPGenerateCode = "iotworkbench.iotPnPGenerateCode",
 
@@ -16,7 +21,9 @@ export enum WorkbenchCommands {
   ExampleInitialize = "iotworkbench.exampleInitialize",
   SendTelemetry = "iotworkbench.sendTelemetry",
   OpenUri = "iotworkbench.openUri",
-  HttpRequest = "iotworkbench.httpRequest"
+  HttpRequest = "iotworkbench.httpRequest",
+  StartGdbServer = "iotworkbench.startGdbServer",
+  GetArduinoCompileCommand = "iotworkbench.getArduinoCompileCommand"
 }
 
 export enum VscodeCommands {
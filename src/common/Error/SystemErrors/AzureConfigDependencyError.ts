@@ -0,0 +1,18 @@
+import { SystemError } from "./SystemError";
+
+/**
+ * Used when component dependencies in Azure configuration are missing, circular or ambiguous.
+ */
+export class AzureConfigDependencyError extends SystemError {
+  readonly problems: string[];
+
+  /**
+   * Construct an Azure config dependency error.
+   * @param problems every dependency problem found in Azure configuration
+   */
+  constructor(problems: string[]) {
+    super(`Invalid component dependencies in Azure configuration. ${problems.join(" ")}`);
+    this.name = "AzureConfigDependencyError";
+    this.problems = problems;
+  }
+}
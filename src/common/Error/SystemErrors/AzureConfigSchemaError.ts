@@ -0,0 +1,19 @@
+import { SystemError } from "./SystemError";
+
+/**
+ * Used when Azure configuration file does not match its schema.
+ */
+export class AzureConfigSchemaError extends SystemError {
+  readonly problems: string[];
+
+  /**
+   * Construct an Azure config schema error.
+   * @param filePath Azure configuration file path
+   * @param problems every schema violation found in Azure configuration
+   */
+  constructor(filePath: string, problems: string[]) {
+    super(`Invalid Azure configuration ${filePath}. ${problems.join(" ")}`);
+    this.name = "AzureConfigSchemaError";
+    this.problems = problems;
+  }
+}
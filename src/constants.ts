@@ -13,6 +13,7 @@ export class ConfigKey {
   static readonly functionAppId = "functionAppId";
   static readonly boardId = "BoardId";
   static readonly codeGeneratorVersion = "IoTPnPCodeGenVersion";
+  static readonly environment = "Environment";
 
   // Keys for configurations in iot workbench project config file
   static readonly projectHostType = "ProjectHostType";
@@ -26,10 +27,15 @@ export class EventNames {
   static readonly createNewProjectEvent = "IoTWorkbench.NewProject";
   static readonly configProjectEnvironmentEvent = "IoTWorkbench.ConfigProjectEnvironment";
   static readonly azureProvisionEvent = "IoTWorkbench.AzureProvision";
+  static readonly azureProvisionPlanEvent = "IoTWorkbench.AzureProvisionPlan";
+  static readonly azureDeprovisionEvent = "IoTWorkbench.AzureDeprovision";
   static readonly azureDeployEvent = "IoTWorkbench.AzureDeploy";
   static readonly createAzureFunctionsEvent = "IoTWorkbench.CreateAzureFunctions";
   static readonly deviceCompileEvent = "IoTWorkbench.DeviceCompile";
   static readonly deviceUploadEvent = "IoTWorkbench.DeviceUpload";
+  static readonly deviceRunEvent = "IoTWorkbench.DeviceRun";
+  static readonly deviceStopEvent = "IoTWorkbench.DeviceStop";
+  static readonly startGdbServerEvent = "IoTWorkbench.StartGdbServer";
   static readonly devicePackageEvent = "IoTWorkbench.DevicePackage";
   static readonly configDeviceSettingsEvent = "IoTWorkbench.ConfigDeviceSettingsEvent";
   static readonly openExamplePageEvent = "IoTWorkbench.OpenExamplePage";
@@ -43,6 +49,7 @@ export class EventNames {
   static readonly scaffoldDeviceStubEvent = "IoTWorkbench.ScaffoldDeviceStub";
   static readonly help = "IoTWorkbench.Help";
   static readonly setProjectDefaultPath = "IoTWorkbench.SetDefaultPath";
+  static readonly switchEnvironmentEvent = "IoTWorkbench.SwitchEnvironment";
 }
 
 export class FileNames {
@@ -60,16 +67,31 @@ export class FileNames {
   static readonly workspaceConfigFilePath = "project.code-workspace";
   static readonly iotworkbenchTempFolder = ".iotworkbenchtemp";
   static readonly workspaceExtensionName = ".code-workspace";
+  static readonly provisionManifestFileName = "provision.json";
   static readonly cacheFolderName = "cache";
   static readonly outputPathName = "cmake";
   static readonly templatesFolderName = "templates";
   static readonly templateFiles = "templatefiles.json";
   static readonly installPackagesFileName = "install_packages.sh";
+  static readonly deviceProfilesFileName = "deviceprofiles.json";
+  static readonly deployConfigFileName = "deployconfig.json";
+  static readonly tasksJsonFileName = "tasks.json";
+}
+
+/**
+ * Labels of the tasks in generated tasks.json which device operations run.
+ */
+export class TaskNames {
+  static readonly arduinoCompile = "Arduino Compile";
+  static readonly arduinoUpload = "Arduino Upload";
+  static readonly containerCompile = "default compile script";
+  static readonly containerDebugCompile = "debug compile script";
 }
 
 export enum OperationType {
   Compile = "Device code compilation",
-  Upload = "Device code upload"
+  Upload = "Device code upload",
+  Debug = "Device code debugging"
 }
 
 export enum AzureFunctionsLanguage {
@@ -86,6 +108,16 @@ export enum ScaffoldType {
 export class AzureComponentsStorage {
   static readonly folderName = ".azurecomponent";
   static readonly fileName = "azureconfig.json";
+  static readonly environmentsFolderName = "environments";
+}
+
+export class SecretStorage {
+  static readonly serviceName = "vscode-iot-workbench";
+  static readonly referencePrefix = "secret:";
+}
+
+export class BuildProblemMatcher {
+  static readonly source = "iotworkbench";
 }
 
 export enum PlatformType {
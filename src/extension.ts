@@ -12,28 +12,40 @@ import { AzureOperator } from "./AzureOperator";
 import { IoTWorkbenchSettings } from "./IoTSettings";
 import { ConfigHandler } from "./configHandler";
 import { CodeGeneratorCore } from "./DigitalTwin/CodeGeneratorCore";
-import { ConfigKey, EventNames, FileNames } from "./constants";
+import { AzureComponentsStorage, ConfigKey, EventNames, FileNames } from "./constants";
 import { TelemetryContext, TelemetryWorker, TelemetryResult } from "./telemetry";
+import { getArduinoCompileCommandLine } from "./Models/ArduinoCli";
+import { BuildResult } from "./Models/BuildResult";
 import { RemoteExtension } from "./Models/RemoteExtension";
-import { constructAndLoadIoTProject } from "./utils";
+import { constructAndLoadIoTProject, fileExistsSync, getProjectDeviceRootPath } from "./utils";
 import { ProjectEnvironmentConfiger } from "./ProjectEnvironmentConfiger";
 import { WorkbenchExtension } from "./WorkbenchExtension";
 import { WorkbenchCommands, VscodeCommands } from "./common/Commands";
 import { ColorizedChannel } from "./DigitalTwin/pnp/src/common/colorizedChannel";
 import { Constants } from "./DigitalTwin/pnp/src/common/constants";
 import { DeviceModelManager, ModelType } from "./DigitalTwin/pnp/src/deviceModel/deviceModelManager";
-import { ModelRepositoryManager } from "./DigitalTwin/pnp/src/modelRepository/modelRepositoryManager";
+import { ModelTreeNode } from "./DigitalTwin/pnp/src/deviceModel/modelTreeBuilder";
+import { ModelVisualizer } from "./DigitalTwin/pnp/src/deviceModel/modelVisualizer";
+import { ModelRepositoryManager, RepositoryType } from "./DigitalTwin/pnp/src/modelRepository/modelRepositoryManager";
+import { TelemetrySimulator } from "./DigitalTwin/pnp/src/simulator/telemetrySimulator";
 import { IntelliSenseUtility } from "./DigitalTwin/pnp/src/intelliSense/intelliSenseUtility";
 import { DigitalTwinCompletionItemProvider } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinCompletionItemProvider";
+import { DigitalTwinFormattingProvider } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinFormattingProvider";
 import { DigitalTwinHoverProvider } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinHoverProvider";
 import { DigitalTwinDiagnosticProvider } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinDiagnosticProvider";
+import { DigitalTwinCodeActionProvider } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinCodeActionProvider";
+import { DigitalTwinInterfaceResolver } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinInterfaceResolver";
+import { DigitalTwinReferenceProvider } from "./DigitalTwin/pnp/src/intelliSense/digitalTwinReferenceProvider";
 import { Command } from "./DigitalTwin/pnp/src/common/command";
 import { UserCancelledError } from "./DigitalTwin/pnp/src/common/userCancelledError";
 import { UI, MessageType } from "./DigitalTwin/pnp/src/view/ui";
 import { ProcessError } from "./DigitalTwin/pnp/src/common/processError";
 import { SearchResult } from "./DigitalTwin/pnp/src/modelRepository/modelRepositoryInterface";
+import { LocalSearchResult } from "./DigitalTwin/pnp/src/modelRepository/localModelRepositoryClient";
+import { UIConstants } from "./DigitalTwin/pnp/src/view/uiConstants";
 import { NSAT } from "./nsat";
 import { DigitalTwinUtility } from "./DigitalTwin/DigitalTwinUtility";
+import { AzureConfigFileHandler } from "./Models/AzureComponentConfig";
 
 const impor = require("impor")(__dirname);
 const exampleExplorerModule = impor("./exampleExplorer") as typeof import("./exampleExplorer");
@@ -94,10 +106,14 @@ function initCommand(
 }
 
 // DigitalTwin extension part
-function initIntelliSense(context: vscode.ExtensionContext): void {
+function initIntelliSense(
+  context: vscode.ExtensionContext,
+  outputChannel: ColorizedChannel,
+  interfaceResolver: DigitalTwinInterfaceResolver
+): void {
   // init DigitalTwin graph
   IntelliSenseUtility.initGraph(context);
-  // register providers of completionItem and hover
+  // register providers of completionItem, hover, navigation, formatting and quick fix
   const selector: vscode.DocumentSelector = {
     language: "json",
     scheme: "file"
@@ -110,21 +126,42 @@ function initIntelliSense(context: vscode.ExtensionContext): void {
     )
   );
   context.subscriptions.push(vscode.languages.registerHoverProvider(selector, new DigitalTwinHoverProvider()));
+  const referenceProvider = new DigitalTwinReferenceProvider();
+  context.subscriptions.push(vscode.languages.registerDefinitionProvider(selector, referenceProvider));
+  context.subscriptions.push(vscode.languages.registerReferenceProvider(selector, referenceProvider));
+  context.subscriptions.push(vscode.languages.registerRenameProvider(selector, referenceProvider));
+  context.subscriptions.push(
+    vscode.languages.registerDocumentFormattingEditProvider(
+      // limit to model files created by extension, in order not to conflict with json formatter
+      { ...selector, pattern: "**/*.{interface,capabilitymodel}.json" },
+      new DigitalTwinFormattingProvider()
+    )
+  );
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider(selector, new DigitalTwinCodeActionProvider(), {
+      providedCodeActionKinds: DigitalTwinCodeActionProvider.providedCodeActionKinds
+    })
+  );
   // register diagnostic
   let pendingDiagnostic: NodeJS.Timer;
   const diagnosticCollection: vscode.DiagnosticCollection = vscode.languages.createDiagnosticCollection(
     Constants.CHANNEL_NAME
   );
-  const diagnosticProvider = new DigitalTwinDiagnosticProvider();
+  const diagnosticProvider = new DigitalTwinDiagnosticProvider(interfaceResolver);
+  const updateDiagnostics = (document: vscode.TextDocument): void => {
+    diagnosticProvider.updateDiagnostics(document, diagnosticCollection).catch(error => {
+      outputChannel.error(`Validate ${document.uri.fsPath}`, Constants.DEVICE_MODEL_COMPONENT, error);
+    });
+  };
   const activeTextEditor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
   if (activeTextEditor) {
-    diagnosticProvider.updateDiagnostics(activeTextEditor.document, diagnosticCollection);
+    updateDiagnostics(activeTextEditor.document);
   }
   context.subscriptions.push(diagnosticCollection);
   context.subscriptions.push(
     vscode.window.onDidChangeActiveTextEditor(event => {
       if (event) {
-        diagnosticProvider.updateDiagnostics(event.document, diagnosticCollection);
+        updateDiagnostics(event.document);
       }
     })
   );
@@ -134,16 +171,33 @@ function initIntelliSense(context: vscode.ExtensionContext): void {
         if (pendingDiagnostic) {
           clearTimeout(pendingDiagnostic);
         }
-        pendingDiagnostic = setTimeout(
-          () => diagnosticProvider.updateDiagnostics(event.document, diagnosticCollection),
-          Constants.DEFAULT_TIMER_MS
-        );
+        pendingDiagnostic = setTimeout(() => updateDiagnostics(event.document), Constants.DEFAULT_TIMER_MS);
       }
     })
   );
   context.subscriptions.push(
     vscode.workspace.onDidCloseTextDocument(document => diagnosticCollection.delete(document.uri))
   );
+  // validate active document again when model files are created, changed or deleted
+  const modelFileWatcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(
+    UIConstants.MODEL_FILE_GLOB
+  );
+  const onModelFileChange = (uri: vscode.Uri): void => {
+    interfaceResolver.invalidate(uri.fsPath);
+    if (pendingDiagnostic) {
+      clearTimeout(pendingDiagnostic);
+    }
+    pendingDiagnostic = setTimeout(() => {
+      const editor: vscode.TextEditor | undefined = vscode.window.activeTextEditor;
+      if (editor) {
+        updateDiagnostics(editor.document);
+      }
+    }, Constants.DEFAULT_TIMER_MS);
+  };
+  context.subscriptions.push(modelFileWatcher);
+  context.subscriptions.push(modelFileWatcher.onDidCreate(onModelFileChange));
+  context.subscriptions.push(modelFileWatcher.onDidChange(onModelFileChange));
+  context.subscriptions.push(modelFileWatcher.onDidDelete(onModelFileChange));
 }
 
 function initDigitalTwinCommand(
@@ -202,9 +256,14 @@ function initDigitalTwin(context: vscode.ExtensionContext, outputChannel: vscode
   context.subscriptions.push(colorizedChannel);
   const deviceModelManager = new DeviceModelManager(context, colorizedChannel);
   const modelRepositoryManager = new ModelRepositoryManager(context, Constants.WEB_VIEW_PATH, colorizedChannel);
+  const modelVisualizer = new ModelVisualizer(context, Constants.MODEL_VISUALIZER_WEB_VIEW_PATH);
+  const telemetrySimulator = new TelemetrySimulator(colorizedChannel);
+  context.subscriptions.push(telemetrySimulator);
+
+  const interfaceResolver = new DigitalTwinInterfaceResolver(modelRepositoryManager);
 
   DigitalTwinUtility.init(modelRepositoryManager, outputChannel);
-  initIntelliSense(context);
+  initIntelliSense(context, colorizedChannel, interfaceResolver);
   initDigitalTwinCommand(
     context,
     telemetryWorker,
@@ -261,8 +320,12 @@ function initDigitalTwin(context: vscode.ExtensionContext, outputChannel: vscode
     colorizedChannel,
     false,
     Command.DeleteModels,
-    async (_telemetryContext: TelemetryContext, publicRepository: boolean, modelIds: string[]): Promise<void> => {
-      return modelRepositoryManager.deleteModels(publicRepository, modelIds);
+    async (
+      _telemetryContext: TelemetryContext,
+      repository: boolean | RepositoryType,
+      modelIds: string[]
+    ): Promise<void> => {
+      return modelRepositoryManager.deleteModels(repository, modelIds);
     }
   );
   initDigitalTwinCommand(
@@ -271,8 +334,115 @@ function initDigitalTwin(context: vscode.ExtensionContext, outputChannel: vscode
     colorizedChannel,
     false,
     Command.DownloadModels,
-    async (_telemetryContext: TelemetryContext, publicRepository: boolean, modelIds: string[]): Promise<void> => {
-      return modelRepositoryManager.downloadModels(publicRepository, modelIds);
+    async (
+      _telemetryContext: TelemetryContext,
+      repository: boolean | RepositoryType,
+      modelIds: string[]
+    ): Promise<void> => {
+      return modelRepositoryManager.downloadModels(repository, modelIds);
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    true,
+    Command.CompareInterfaces,
+    async (): Promise<void> => {
+      return modelRepositoryManager.compareInterfaces();
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    true,
+    Command.VisualizeCapabilityModel,
+    async (_telemetryContext: TelemetryContext, filePath?: string): Promise<void> => {
+      return modelVisualizer.visualize(filePath);
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.GetModelTree,
+    async (_telemetryContext: TelemetryContext, filePath: string): Promise<ModelTreeNode> => {
+      return modelVisualizer.getModelTree(filePath);
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.RevealModelSource,
+    async (_telemetryContext: TelemetryContext, filePath: string, offset: number, length: number): Promise<void> => {
+      return modelVisualizer.revealSource(filePath, offset, length);
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    true,
+    Command.StartTelemetrySimulator,
+    async (): Promise<void> => {
+      return telemetrySimulator.start();
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.StopTelemetrySimulator,
+    async (): Promise<void> => {
+      return telemetrySimulator.stop();
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.InvokeSimulatorCommand,
+    async (): Promise<void> => {
+      return telemetrySimulator.invokeCommand();
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.ShowModelCache,
+    async (): Promise<void> => {
+      return modelRepositoryManager.showCache();
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.ClearModelCache,
+    async (): Promise<void> => {
+      return modelRepositoryManager.clearCache();
+    }
+  );
+  initDigitalTwinCommand(
+    context,
+    telemetryWorker,
+    colorizedChannel,
+    false,
+    Command.DownloadDependentInterface,
+    async (_telemetryContext: TelemetryContext, folder: string, capabilityModelFile: string): Promise<void> => {
+      // interfaces may have been published since last lookup
+      interfaceResolver.clearCache();
+      await modelRepositoryManager.downloadDependentInterface(folder, capabilityModelFile);
+      UI.showNotification(MessageType.Info, `Downloaded dependent interfaces to ${folder}`);
     }
   );
   initDigitalTwinCommand(
@@ -283,18 +453,12 @@ function initDigitalTwin(context: vscode.ExtensionContext, outputChannel: vscode
     Command.SearchInterface,
     async (
       _telemetryContext: TelemetryContext,
-      publicRepository: boolean,
+      repository: boolean | RepositoryType,
       keyword?: string,
       pageSize?: number,
       continuationToken?: string
-    ): Promise<SearchResult> => {
-      return modelRepositoryManager.searchModel(
-        ModelType.Interface,
-        publicRepository,
-        keyword,
-        pageSize,
-        continuationToken
-      );
+    ): Promise<SearchResult | LocalSearchResult> => {
+      return modelRepositoryManager.searchModel(ModelType.Interface, repository, keyword, pageSize, continuationToken);
     }
   );
   initDigitalTwinCommand(
@@ -305,14 +469,14 @@ function initDigitalTwin(context: vscode.ExtensionContext, outputChannel: vscode
     Command.SearchCapabilityModel,
     async (
       _telemetryContext: TelemetryContext,
-      publicRepository: boolean,
+      repository: boolean | RepositoryType,
       keyword?: string,
       pageSize?: number,
       continuationToken?: string
-    ): Promise<SearchResult> => {
+    ): Promise<SearchResult | LocalSearchResult> => {
       return modelRepositoryManager.searchModel(
         ModelType.CapabilityModel,
-        publicRepository,
+        repository,
         keyword,
         pageSize,
         continuationToken
@@ -321,6 +485,42 @@ function initDigitalTwin(context: vscode.ExtensionContext, outputChannel: vscode
   );
 }
 
+/**
+ * Show active environment in status bar for projects with Azure components.
+ */
+function initEnvironmentStatusBar(context: vscode.ExtensionContext): void {
+  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+  statusBarItem.command = WorkbenchCommands.SwitchEnvironment;
+  statusBarItem.tooltip = "Azure IoT Device Workbench environment. Click to switch environment.";
+  context.subscriptions.push(statusBarItem);
+
+  const updateStatusBarItem = (): void => {
+    const deviceRootPath = getProjectDeviceRootPath();
+    const azureConfigFilePath = path.join(
+      deviceRootPath,
+      "..",
+      AzureComponentsStorage.folderName,
+      AzureComponentsStorage.fileName
+    );
+    if (deviceRootPath && fileExistsSync(azureConfigFilePath)) {
+      statusBarItem.text = `$(globe) ${AzureConfigFileHandler.getActiveEnvironment()}`;
+      statusBarItem.show();
+    } else {
+      statusBarItem.hide();
+    }
+  };
+
+  updateStatusBarItem();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration(`IoTWorkbench.${ConfigKey.environment}`)) {
+        updateStatusBarItem();
+      }
+    })
+  );
+  context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(updateStatusBarItem));
+}
+
 function enableUsbDetector(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel): void {
   if (RemoteExtension.isRemote(context)) {
     return;
@@ -399,6 +599,38 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     }
   );
 
+  initCommandWithTelemetry(
+    context,
+    telemetryWorker,
+    outputChannel,
+    WorkbenchCommands.AzureProvisionPlan,
+    EventNames.azureProvisionPlanEvent,
+    false,
+    async (
+      context: vscode.ExtensionContext,
+      outputChannel: vscode.OutputChannel,
+      telemetryContext: TelemetryContext
+    ): Promise<void> => {
+      return azureOperator.planProvision(context, outputChannel, telemetryContext);
+    }
+  );
+
+  initCommandWithTelemetry(
+    context,
+    telemetryWorker,
+    outputChannel,
+    WorkbenchCommands.AzureDeprovision,
+    EventNames.azureDeprovisionEvent,
+    false,
+    async (
+      context: vscode.ExtensionContext,
+      outputChannel: vscode.OutputChannel,
+      telemetryContext: TelemetryContext
+    ): Promise<void> => {
+      return azureOperator.deprovision(context, outputChannel, telemetryContext);
+    }
+  );
+
   initCommandWithTelemetry(
     context,
     telemetryWorker,
@@ -415,6 +647,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     }
   );
 
+  initCommandWithTelemetry(
+    context,
+    telemetryWorker,
+    outputChannel,
+    WorkbenchCommands.SwitchEnvironment,
+    EventNames.switchEnvironmentEvent,
+    false,
+    async (
+      context: vscode.ExtensionContext,
+      outputChannel: vscode.OutputChannel,
+      telemetryContext: TelemetryContext
+    ): Promise<void> => {
+      return azureOperator.switchEnvironment(context, outputChannel, telemetryContext);
+    }
+  );
+
   initCommandWithTelemetry(
     context,
     telemetryWorker,
@@ -426,7 +674,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       context: vscode.ExtensionContext,
       outputChannel: vscode.OutputChannel,
       telemetryContext: TelemetryContext
-    ): Promise<void> => {
+    ): Promise<BuildResult | undefined> => {
       return deviceOperator.compile(context, outputChannel, telemetryContext);
     }
   );
@@ -447,6 +695,54 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     }
   );
 
+  initCommandWithTelemetry(
+    context,
+    telemetryWorker,
+    outputChannel,
+    WorkbenchCommands.DeviceRun,
+    EventNames.deviceRunEvent,
+    true,
+    async (
+      context: vscode.ExtensionContext,
+      outputChannel: vscode.OutputChannel,
+      telemetryContext: TelemetryContext
+    ): Promise<void> => {
+      return deviceOperator.run(context, outputChannel, telemetryContext);
+    }
+  );
+
+  initCommandWithTelemetry(
+    context,
+    telemetryWorker,
+    outputChannel,
+    WorkbenchCommands.DeviceStop,
+    EventNames.deviceStopEvent,
+    false,
+    async (
+      context: vscode.ExtensionContext,
+      outputChannel: vscode.OutputChannel,
+      telemetryContext: TelemetryContext
+    ): Promise<void> => {
+      return deviceOperator.stop(context, outputChannel, telemetryContext);
+    }
+  );
+
+  initCommandWithTelemetry(
+    context,
+    telemetryWorker,
+    outputChannel,
+    WorkbenchCommands.StartGdbServer,
+    EventNames.startGdbServerEvent,
+    false,
+    async (
+      context: vscode.ExtensionContext,
+      outputChannel: vscode.OutputChannel,
+      telemetryContext: TelemetryContext
+    ): Promise<string | undefined> => {
+      return deviceOperator.startGdbServer(context, outputChannel, telemetryContext);
+    }
+  );
+
   initCommandWithTelemetry(
     context,
     telemetryWorker,
@@ -579,11 +875,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     return res;
   });
 
+  // Resolves the command line of Arduino compile task in tasks.json
+  initCommand(context, WorkbenchCommands.GetArduinoCompileCommand, async () => {
+    return getArduinoCompileCommandLine(getProjectDeviceRootPath());
+  });
+
   // delay to detect usb
   setTimeout(() => {
     enableUsbDetector(context, outputChannel);
   }, 200);
 
+  initEnvironmentStatusBar(context);
+
   // init DigitalTwin part
   initDigitalTwin(context, outputChannel);
 }
@@ -16,6 +16,7 @@ import { OperationCanceledError } from "./common/Error/OperationCanceledError";
 import { OperationFailedError } from "./common/Error/OperationFailedErrors/OperationFailedError";
 import {
   AzureFunctionsLanguage,
+  BuildProblemMatcher,
   ConfigKey,
   FileNames,
   OperationType,
@@ -30,7 +31,15 @@ import { ProjectTemplate, TemplateFileInfo } from "./Models/Interfaces/ProjectTe
 import { Platform } from "./Models/Interfaces/ProjectTemplate";
 import { IoTWorkbenchProjectBase } from "./Models/IoTWorkbenchProjectBase";
 import { IoTWorkspaceProject } from "./Models/IoTWorkspaceProject";
+import {
+  BuildProblem,
+  BuildProblemSeverity,
+  BuildResult,
+  createBuildResult,
+  reportBuildResult
+} from "./Models/BuildResult";
 import { RemoteExtension } from "./Models/RemoteExtension";
+import { VSCodeUserInterface } from "./Models/VSCodeUserInterface";
 import { ProjectEnvironmentConfiger } from "./ProjectEnvironmentConfiger";
 import { TelemetryContext, TelemetryResult } from "./telemetry";
 import { WorkbenchExtension } from "./WorkbenchExtension";
@@ -793,6 +802,116 @@ export async function askToOverwrite(
   return true;
 }
 
+/**
+ * Execute task and wait for it to end. Listeners are subscribed before the
+ * task is executed, since a task which fails fast may end before its
+ * execution is returned. The task is also regarded as ended if it is no
+ * longer running when a terminal is closed, e.g. it is terminated without end
+ * events.
+ * @param task task to execute
+ * @returns exit code of task process, undefined if the task has no process
+ */
+export async function executeTaskAndWait(task: vscode.Task): Promise<number | undefined> {
+  const endedProcesses: vscode.TaskProcessEndEvent[] = [];
+  const endedExecutions: vscode.TaskExecution[] = [];
+  let execution: vscode.TaskExecution | undefined;
+  let onChange: (() => void) | undefined;
+  const disposables = [
+    vscode.tasks.onDidEndTaskProcess(event => {
+      endedProcesses.push(event);
+      if (onChange) {
+        onChange();
+      }
+    }),
+    vscode.tasks.onDidEndTask(event => {
+      endedExecutions.push(event.execution);
+      if (onChange) {
+        onChange();
+      }
+    }),
+    vscode.window.onDidCloseTerminal(() => {
+      if (execution && !vscode.tasks.taskExecutions.includes(execution)) {
+        endedExecutions.push(execution);
+      }
+      if (onChange) {
+        onChange();
+      }
+    })
+  ];
+  const dispose = (): void => {
+    disposables.forEach(disposable => disposable.dispose());
+  };
+
+  try {
+    execution = await vscode.tasks.executeTask(task);
+  } catch (error) {
+    dispose();
+    throw error;
+  }
+  const taskExecution = execution;
+  return new Promise(resolve => {
+    onChange = (): void => {
+      if (!endedExecutions.includes(taskExecution)) {
+        return;
+      }
+      dispose();
+      const processEvent = endedProcesses.find(event => event.execution === taskExecution);
+      resolve(processEvent ? processEvent.exitCode : undefined);
+    };
+    // The task may have ended before its execution is returned
+    onChange();
+  });
+}
+
+/**
+ * Get problems reported by the problem matcher of IoT Device Workbench, which
+ * are cleared by VS Code when the task starts.
+ */
+function getReportedBuildProblems(): BuildProblem[] {
+  const problems: BuildProblem[] = [];
+  for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+    for (const diagnostic of diagnostics) {
+      if (
+        diagnostic.source !== BuildProblemMatcher.source ||
+        (diagnostic.severity !== vscode.DiagnosticSeverity.Error &&
+          diagnostic.severity !== vscode.DiagnosticSeverity.Warning)
+      ) {
+        continue;
+      }
+      problems.push({
+        severity:
+          diagnostic.severity === vscode.DiagnosticSeverity.Error
+            ? BuildProblemSeverity.Error
+            : BuildProblemSeverity.Warning,
+        message: diagnostic.message,
+        file: uri.fsPath,
+        line: diagnostic.range.start.line + 1,
+        column: diagnostic.range.start.character + 1
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Execute task, wait for it to end and collect its problems. The task is
+ * executed as it is configured, so its output is not captured. Problems are
+ * the ones reported by the problem matcher of IoT Device Workbench, which
+ * compile tasks of generated projects use, otherwise only the exit code is
+ * known.
+ * @param task task to execute
+ */
+export async function executeBuildTask(task: vscode.Task): Promise<BuildResult> {
+  const start = Date.now();
+  const exitCode = await executeTaskAndWait(task);
+  return createBuildResult(exitCode, getReportedBuildProblems(), Date.now() - start);
+}
+
+/**
+ * Fetch task by name and execute it until it ends. Ask to configure project
+ * environment if the task does not exist.
+ * @returns build result, undefined if the task does not exist
+ */
 export async function fetchAndExecuteTask(
   context: vscode.ExtensionContext,
   channel: vscode.OutputChannel,
@@ -801,7 +920,7 @@ export async function fetchAndExecuteTask(
   operationType: OperationType,
   platform: PlatformType,
   taskName: string
-): Promise<void> {
+): Promise<BuildResult | undefined> {
   const scaffoldType = ScaffoldType.Workspace;
   if (!(await FileUtility.directoryExists(scaffoldType, deviceRootPath))) {
     throw new DirectoryNotFoundError("fetch and execute task", `device root folder ${deviceRootPath}`, "");
@@ -843,12 +962,39 @@ export async function fetchAndExecuteTask(
     return;
   }
 
+  // Compile task configured by an older version has no problem matcher, and
+  // it may not even run the compiler, so its result cannot be trusted
+  if (operationType === OperationType.Compile && operationTask[0].problemMatchers.length === 0) {
+    const message = `Task ${taskName} has no problem matcher to check the ${operationType.toLowerCase()} result.`;
+    channelShowAndAppendLine(channel, message);
+
+    await askToConfigureEnvironment(
+      context,
+      channel,
+      telemetryContext,
+      platform,
+      deviceRootPath,
+      scaffoldType,
+      operationType
+    );
+    return;
+  }
+
+  let result: BuildResult;
   try {
-    await vscode.tasks.executeTask(operationTask[0]);
+    result = await executeBuildTask(operationTask[0]);
   } catch (error) {
     throw new OperationFailedError(`execute task to ${operationType.toLowerCase()}`, `${error.message}`, "");
   }
-  return;
+
+  reportBuildResult(result, operationType, new VSCodeUserInterface(channel));
+  telemetryContext.measurements.errors = result.errors.length;
+  telemetryContext.measurements.warnings = result.warnings.length;
+  if (!result.success) {
+    telemetryContext.properties.result = TelemetryResult.Failed;
+    telemetryContext.properties.errorMessage = `Task ${taskName} failed with exit code ${result.exitCode}.`;
+  }
+  return result;
 }
 
 /**
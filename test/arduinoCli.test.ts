@@ -0,0 +1,71 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-plus";
+import * as os from "os";
+import * as path from "path";
+
+import { FileNotFoundError } from "../src/common/Error/OperationFailedErrors/FileNotFound";
+import { OperationFailedError } from "../src/common/Error/OperationFailedErrors/OperationFailedError";
+import {
+  checkArduinoCli,
+  getArduinoCliArguments,
+  getArduinoCompileCommandLine,
+  loadArduinoConfig
+} from "../src/Models/ArduinoCli";
+
+describe("arduino-cli", () => {
+  let devicePath: string;
+
+  function writeArduinoJson(config: object): void {
+    fs.makeTreeSync(path.join(devicePath, ".vscode"));
+    fs.writeFileSync(path.join(devicePath, ".vscode", "arduino.json"), JSON.stringify(config));
+  }
+
+  beforeEach(() => {
+    devicePath = fs.mkdtempSync(path.join(os.tmpdir(), "arduino device-"));
+  });
+
+  afterEach(() => {
+    fs.removeSync(devicePath);
+  });
+
+  test("compile with board options of arduino.json", () => {
+    writeArduinoJson({
+      board: "esp32:esp32:m5stack-core-esp32",
+      configuration: "FlashMode=qio,FlashFreq=80",
+      sketch: "device.ino"
+    });
+    expect(getArduinoCompileCommandLine(devicePath)).toBe(
+      `arduino-cli compile --fqbn "esp32:esp32:m5stack-core-esp32:FlashMode=qio,FlashFreq=80" ` +
+        `--build-path "${path.join(devicePath, ".build")}" "${path.join(devicePath, "device.ino")}"`
+    );
+  });
+
+  test("upload to port of arduino.json unless it is given", () => {
+    const config = { board: "AZ3166:stm32f4:MXCHIP_AZ3166", sketch: "device.ino", output: "out", port: "COM3" };
+    expect(getArduinoCliArguments(devicePath, config, "upload")).toEqual([
+      "upload",
+      "--port",
+      "COM3",
+      "--fqbn",
+      "AZ3166:stm32f4:MXCHIP_AZ3166",
+      "--input-dir",
+      path.join(devicePath, "out"),
+      path.join(devicePath, "device.ino")
+    ]);
+    expect(getArduinoCliArguments(devicePath, config, "upload", "/dev/ttyACM0")).toContain("/dev/ttyACM0");
+  });
+
+  test("require arduino.json with board and sketch", () => {
+    expect(() => loadArduinoConfig(devicePath)).toThrow(FileNotFoundError);
+    writeArduinoJson({ sketch: "device.ino" });
+    expect(() => loadArduinoConfig(devicePath)).toThrow(/Board or sketch is not set/);
+  });
+
+  test("missing arduino-cli fails the check", async () => {
+    await expect(checkArduinoCli("compile device code", path.join(devicePath, "missing-arduino-cli"))).rejects.toThrow(
+      OperationFailedError
+    );
+  });
+});
@@ -0,0 +1,50 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-plus";
+import * as os from "os";
+import * as path from "path";
+
+import { ResourceNotFoundError } from "../src/common/Error/OperationFailedErrors/ResourceNotFoundError";
+import { ScaffoldType } from "../src/constants";
+import { AzureComponentConfig, AzureConfigFileHandler, ComponentInfo } from "../src/Models/AzureComponentConfig";
+import { ComponentType } from "../src/Models/Interfaces/Component";
+import { SecretStore } from "../src/Models/SecretStore";
+
+describe("azure config file handler", () => {
+  const iotHubConnectionString = "HostName=hub.azure-devices.net;SharedAccessKey=key";
+  let projectRootPath: string;
+
+  beforeEach(() => {
+    projectRootPath = fs.mkdtempSync(path.join(os.tmpdir(), "azureconfig-"));
+  });
+
+  afterEach(() => {
+    fs.removeSync(projectRootPath);
+  });
+
+  test.each(["default", "prod"])("clear component info of %s environment", async environment => {
+    const handler = new AzureConfigFileHandler(projectRootPath, environment);
+    await handler.createIfNotExists(ScaffoldType.Workspace);
+    await handler.appendComponent(ScaffoldType.Workspace, {
+      id: "hub",
+      type: ComponentType.IoTHub,
+      name: "IoT Hub",
+      folder: "",
+      dependencies: [],
+      componentInfo: {
+        values: { iotHubConnectionString, eventHubConnectionString: "Endpoint=sb://hub", eventHubConnectionPath: "hub" }
+      }
+    });
+    const provisionedConfig = await handler.getComponentById(ScaffoldType.Workspace, "hub");
+    const componentInfo = (provisionedConfig as AzureComponentConfig).componentInfo as ComponentInfo;
+    const secret = componentInfo.values.iotHubConnectionString as string;
+    expect(await SecretStore.resolve(secret)).toBe(iotHubConnectionString);
+
+    await handler.clearComponentInfo(ScaffoldType.Workspace, "hub");
+    const clearedConfig = await handler.getComponentById(ScaffoldType.Workspace, "hub");
+    expect(clearedConfig).toBeDefined();
+    expect((clearedConfig as AzureComponentConfig).componentInfo).toBeUndefined();
+    await expect(SecretStore.resolve(secret)).rejects.toThrow(ResourceNotFoundError);
+  });
+});
@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { AzureConfigSchemaError } from "../src/common/Error/SystemErrors/AzureConfigSchemaError";
+import { azureConfigSchemaVersion, parseAzureConfigs } from "../src/Models/AzureConfigSchema";
+import { SecretStore } from "../src/Models/SecretStore";
+
+describe("azure config schema", () => {
+  const filePath = "azureconfig.json";
+  const iotHubConfig = {
+    id: "hub",
+    type: "IoTHub",
+    name: "IoT Hub",
+    folder: "",
+    dependencies: [],
+    componentInfo: {
+      values: {
+        iotHubConnectionString: "HostName=hub.azure-devices.net",
+        eventHubConnectionString: "Endpoint=sb://hub",
+        eventHubConnectionPath: "hub"
+      }
+    }
+  };
+
+  async function getProblems(json: unknown): Promise<string[]> {
+    try {
+      await parseAzureConfigs(json, filePath);
+    } catch (error) {
+      expect(error).toBeInstanceOf(AzureConfigSchemaError);
+      return error.problems;
+    }
+    return [];
+  }
+
+  test("accept current schema version", async () => {
+    const json = { schemaVersion: azureConfigSchemaVersion, componentConfigs: [iotHubConfig] };
+    const { azureConfigs, migrated } = await parseAzureConfigs(json, filePath);
+    expect(migrated).toBe(false);
+    expect(azureConfigs.componentConfigs[0].id).toBe("hub");
+  });
+
+  test("migrate file without schema version", async () => {
+    const json = { componentConfigs: [{ id: "device", type: "IoTHubDevice", name: "IoT Hub Device" }] };
+    const { azureConfigs, migrated } = await parseAzureConfigs(json, filePath);
+    expect(migrated).toBe(true);
+    expect(azureConfigs.schemaVersion).toBe(azureConfigSchemaVersion);
+    expect(azureConfigs.componentConfigs[0]).toMatchObject({ folder: "", dependencies: [] });
+  });
+
+  test("move plain text connection strings to OS keychain", async () => {
+    const device = {
+      id: "device",
+      type: "IoTHubDevice",
+      name: "IoT Hub Device",
+      folder: "",
+      dependencies: [{ id: "hub", type: 1 }],
+      componentInfo: {
+        values: {
+          iotHubConnectionString: "HostName=hub.azure-devices.net",
+          iotHubDeviceConnectionString: "HostName=hub.azure-devices.net;DeviceId=device"
+        }
+      }
+    };
+    const json = { schemaVersion: 2, componentConfigs: [iotHubConfig, device] };
+    const { azureConfigs, migrated } = await parseAzureConfigs(json, filePath);
+    expect(migrated).toBe(true);
+    expect(azureConfigs.componentConfigs.map(config => config.componentInfo && config.componentInfo.values)).toEqual([
+      {
+        iotHubConnectionString: "secret:hub.iotHubConnectionString",
+        eventHubConnectionString: "secret:hub.eventHubConnectionString",
+        eventHubConnectionPath: "hub"
+      },
+      {
+        iotHubConnectionString: "secret:device.iotHubConnectionString",
+        iotHubDeviceConnectionString: "secret:device.iotHubDeviceConnectionString"
+      }
+    ]);
+    expect(await SecretStore.resolve("secret:hub.iotHubConnectionString")).toBe("HostName=hub.azure-devices.net");
+    expect(await SecretStore.resolve("secret:device.iotHubDeviceConnectionString")).toBe(
+      "HostName=hub.azure-devices.net;DeviceId=device"
+    );
+  });
+
+  test("point to the offending component", async () => {
+    const brokenDevice = {
+      id: "device",
+      type: "IoTHubDevice",
+      name: "IoT Hub Device",
+      folder: "",
+      dependencies: [{ id: "hub", type: 1 }],
+      componentInfo: { values: { iotHubConnectionString: "HostName=hub.azure-devices.net" } }
+    };
+    expect(await getProblems({ schemaVersion: 2, componentConfigs: [iotHubConfig, brokenDevice] })).toEqual([
+      `Component IoT Hub Device (id device): "componentInfo.values" should have required property \
+'iotHubDeviceConnectionString'.`
+    ]);
+    expect(await getProblems({ schemaVersion: 2, componentConfigs: [{ ...iotHubConfig, type: "Hub" }] })).toEqual([
+      `Component IoT Hub (id hub): "type" should be equal to one of the allowed values "Device", "IoTHub", \
+"AzureFunctions", "IoTHubDevice".`
+    ]);
+    const hubWithResource = {
+      ...iotHubConfig,
+      componentInfo: { ...iotHubConfig.componentInfo, resource: { id: "hub", created: "yes" } }
+    };
+    expect(await getProblems({ schemaVersion: 3, componentConfigs: [hubWithResource] })).toEqual([
+      `Component IoT Hub (id hub): "componentInfo.resource.created" should be boolean.`
+    ]);
+  });
+
+  test("reject newer schema version", async () => {
+    await expect(parseAzureConfigs({ schemaVersion: 99, componentConfigs: [] }, filePath)).rejects.toThrow(
+      /newer than supported version/
+    );
+  });
+});
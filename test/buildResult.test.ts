@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import {
+  BuildProblemSeverity,
+  createBuildResult,
+  formatBuildProblem,
+  formatBuildResult,
+  parseBuildProblems
+} from "../src/Models/BuildResult";
+
+describe("build result", () => {
+  test("parse gcc and linker problems", () => {
+    const output = [
+      "[ 50%] Building C object CMakeFiles/app.dir/main.c.o",
+      "/work/app/main.c: In function 'main':",
+      "/work/app/main.c:12:5: warning: unused variable 'x' [-Wunused-variable]",
+      "\u001b[01m\u001b[K/work/app/main.c:20:10:\u001b[m\u001b[K \u001b[01;31m\u001b[Kerror: \u001b[m\u001b[K'y' undeclared",
+      "/work/app/main.c:20:10: error: 'y' undeclared",
+      "main.c:(.text+0x1c): undefined reference to `sensor_read'",
+      "collect2: error: ld returned 1 exit status",
+      "make[2]: *** [CMakeFiles/app.dir/build.make:84: app] Error 1"
+    ].join("\r\n");
+    expect(parseBuildProblems(output)).toEqual([
+      {
+        severity: BuildProblemSeverity.Warning,
+        message: "unused variable 'x' [-Wunused-variable]",
+        file: "/work/app/main.c",
+        line: 12,
+        column: 5
+      },
+      {
+        severity: BuildProblemSeverity.Error,
+        message: "'y' undeclared",
+        file: "/work/app/main.c",
+        line: 20,
+        column: 10
+      },
+      { severity: BuildProblemSeverity.Error, message: "undefined reference to `sensor_read'", file: "main.c" },
+      { severity: BuildProblemSeverity.Error, message: "collect2: ld returned 1 exit status" }
+    ]);
+  });
+
+  test("parse arduino-cli and cmake problems", () => {
+    const output = [
+      "C:\\Users\\me\\device\\device.ino:7:1: error: 'foo' does not name a type",
+      "Error during build: exit status 1",
+      "CMake Error at CMakeLists.txt:12 (add_executable):"
+    ].join("\n");
+    expect(parseBuildProblems(output).map(formatBuildProblem)).toEqual([
+      "C:\\Users\\me\\device\\device.ino:7:1: error: 'foo' does not name a type",
+      "error: Error during build: exit status 1",
+      "CMakeLists.txt:12: error: CMake error in add_executable"
+    ]);
+  });
+
+  test("succeed only with zero exit code and no error", () => {
+    const warning = "main.c:3: warning: implicit declaration of function 'foo'";
+    const succeeded = createBuildResult(0, warning, 1500);
+    expect(succeeded).toMatchObject({ success: true, exitCode: 0, artifacts: [], durationInMilliseconds: 1500 });
+    expect(succeeded.warnings).toHaveLength(1);
+    expect(formatBuildResult(succeeded)).toBe("Build succeeded with 0 error(s), 1 warning(s) in 1.5s.");
+
+    const failed = createBuildResult(2, undefined, 200);
+    expect(failed.success).toBe(false);
+    expect(formatBuildResult(failed, "Device code compilation")).toBe(
+      "Device code compilation failed with exit code 2, 0 error(s), 0 warning(s) in 0.2s."
+    );
+    expect(createBuildResult(undefined, undefined, 0).success).toBe(false);
+  });
+
+  test("use problems reported by problem matcher", () => {
+    const error = { severity: BuildProblemSeverity.Error, message: "'y' undeclared", file: "/work/main.c", line: 2 };
+    const result = createBuildResult(0, [error], 100);
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([error]);
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getAnswersManifest, loadAnswers } from "../src/cli/CliAnswers";
+import { OperationFailedError } from "../src/common/Error/OperationFailedErrors/OperationFailedError";
+import { TypeNotSupportedError } from "../src/common/Error/SystemErrors/TypeNotSupportedError";
+
+describe("headless command answers", () => {
+  let answersFilePath: string;
+
+  beforeAll(() => {
+    answersFilePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "iotworkbench-")), "answers.json");
+    fs.writeFileSync(
+      answersFilePath,
+      JSON.stringify({ subscriptionId: "file-subscription", iotHubName: "file-hub", createIotHub: true, sshPort: 2222 })
+    );
+  });
+
+  test("flags override answers file", () => {
+    const answers = loadAnswers(answersFilePath, { "iot-hub-name": "flag-hub", "create-device": true });
+    expect(answers.subscriptionId).toBe("file-subscription");
+    expect(answers.iotHubName).toBe("flag-hub");
+    expect(answers.createIotHub).toBe(true);
+    expect(answers.createDevice).toBe(true);
+    expect(answers.sshPort).toBe(2222);
+  });
+
+  test("flag values are converted to answer types", () => {
+    const answers = loadAnswers(undefined, { "ssh-port": "22", "create-iot-hub": "false" });
+    expect(answers.sshPort).toBe(22);
+    expect(answers.createIotHub).toBe(false);
+  });
+
+  test("unknown answer is rejected", () => {
+    expect(() => loadAnswers(undefined, { "iot-hub": "hub" })).toThrow(TypeNotSupportedError);
+  });
+
+  test("answers are converted to provision manifest", () => {
+    const manifest = getAnswersManifest(
+      loadAnswers(answersFilePath, { "resource-group": "group", location: "westus", "device-id": "device" })
+    );
+    expect(manifest).toEqual({
+      subscriptionId: "file-subscription",
+      resourceGroup: "group",
+      location: "westus",
+      iotHub: { choice: "new", name: "file-hub" },
+      device: { choice: "existing", deviceId: "device" }
+    });
+  });
+
+  test("incomplete answers are rejected as provision manifest", () => {
+    expect(() => getAnswersManifest({ subscriptionId: "subscription" })).toThrow(OperationFailedError);
+  });
+});
@@ -0,0 +1,69 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { AzureConfigDependencyError } from "../src/common/Error/SystemErrors/AzureConfigDependencyError";
+import { AzureComponentConfig, DependencyType } from "../src/Models/AzureComponentConfig";
+import { ComponentDependencyGraph } from "../src/Models/ComponentDependencyGraph";
+import { ComponentType } from "../src/Models/Interfaces/Component";
+
+function componentConfig(id: string, dependencyIds: string[] = []): AzureComponentConfig {
+  return {
+    id,
+    type: ComponentType.IoTHub,
+    name: `component ${id}`,
+    folder: "",
+    dependencies: dependencyIds.map(dependencyId => ({ id: dependencyId, type: DependencyType.Input }))
+  };
+}
+
+describe("component dependency graph", () => {
+  test("sort components into layers", () => {
+    const graph = ComponentDependencyGraph.build([
+      componentConfig("functions", ["hub", "device"]),
+      componentConfig("device", ["hub"]),
+      componentConfig("hub"),
+      componentConfig("cosmos")
+    ]);
+    expect(graph.layers.map(layer => layer.map(config => config.id))).toEqual([
+      ["hub", "cosmos"],
+      ["device"],
+      ["functions"]
+    ]);
+    expect(graph.sortedComponents.map(config => config.id)).toEqual(["hub", "cosmos", "device", "functions"]);
+    expect(graph.reverseSortedComponents.map(config => config.id)).toEqual(["functions", "device", "cosmos", "hub"]);
+  });
+
+  test("report duplicate ids and missing dependencies together", () => {
+    let error: AzureConfigDependencyError | undefined;
+    try {
+      ComponentDependencyGraph.build([
+        componentConfig("hub"),
+        componentConfig("hub"),
+        componentConfig("device", ["x"])
+      ]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(AzureConfigDependencyError);
+    expect((error as AzureConfigDependencyError).problems).toEqual([
+      "Component id hub is used by both component hub and component hub.",
+      "component device (id device) depends on missing component id x."
+    ]);
+  });
+
+  test("report dependency cycle", () => {
+    expect(() =>
+      ComponentDependencyGraph.build([
+        componentConfig("a", ["b"]),
+        componentConfig("b", ["a"]),
+        componentConfig("c", ["a"])
+      ])
+    ).toThrow("Dependency cycle found: component a (id a) -> component b (id b) -> component a (id a).");
+  });
+
+  test("sort components by config order", () => {
+    const graph = ComponentDependencyGraph.build([componentConfig("device", ["hub"]), componentConfig("hub")]);
+    expect(graph.sort([{ id: "device" }, { id: "hub" }])).toEqual([{ id: "hub" }, { id: "device" }]);
+    expect(() => graph.sort([{ id: "unknown" }])).toThrow(/unknown/);
+  });
+});
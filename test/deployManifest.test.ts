@@ -0,0 +1,158 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as crypto from "crypto";
+import * as fs from "fs-plus";
+import * as os from "os";
+import * as path from "path";
+
+import { OperationFailedError } from "../src/common/Error/OperationFailedErrors/OperationFailedError";
+import {
+  createDeployManifest,
+  defaultDeployLayout,
+  DeployFile,
+  DeployFileKind,
+  getChangedFiles,
+  getRemoteFoldersCommand,
+  getRemoteHashCommand,
+  getRemoteInstallCommand,
+  hashDeployFiles,
+  loadDeployConfig,
+  parseDeployConfig,
+  parseRemoteHashes
+} from "../src/Models/DeployManifest";
+
+describe("deploy manifest", () => {
+  let projectPath: string;
+  let buildPath: string;
+
+  function writeFile(filePath: string, content: string | object): void {
+    fs.makeTreeSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, typeof content === "string" ? content : JSON.stringify(content));
+  }
+
+  beforeEach(() => {
+    projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "deploy-"));
+    buildPath = path.join(projectPath, "cmake");
+    const replyPath = path.join(buildPath, ".cmake", "api", "v1", "reply");
+
+    writeFile(path.join(buildPath, "app"), "app");
+    writeFile(path.join(buildPath, "lib", "libsensor.so"), "sensor");
+    writeFile(path.join(projectPath, "config", "app.json"), "{}");
+    writeFile(path.join(projectPath, "certs", "root.pem"), "cert");
+
+    writeFile(path.join(replyPath, "index-2020-01-01T00-00-00-0000.json"), { objects: [] });
+    writeFile(path.join(replyPath, "index-2020-01-02T00-00-00-0000.json"), {
+      objects: [{ kind: "codemodel", version: { major: 2, minor: 3 }, jsonFile: "codemodel-v2.json" }]
+    });
+    writeFile(path.join(replyPath, "codemodel-v2.json"), {
+      paths: { source: projectPath, build: buildPath },
+      configurations: [
+        {
+          directories: [{ jsonFile: "directory-.json" }],
+          targets: [{ jsonFile: "target-app.json" }, { jsonFile: "target-sensor.json" }, { jsonFile: "target-c.json" }]
+        }
+      ]
+    });
+    writeFile(path.join(replyPath, "target-app.json"), {
+      name: "app",
+      type: "EXECUTABLE",
+      artifacts: [{ path: "app" }]
+    });
+    writeFile(path.join(replyPath, "target-sensor.json"), {
+      name: "sensor",
+      type: "SHARED_LIBRARY",
+      artifacts: [{ path: "lib/libsensor.so" }]
+    });
+    writeFile(path.join(replyPath, "target-c.json"), {
+      name: "c",
+      type: "STATIC_LIBRARY",
+      artifacts: [{ path: "c.a" }]
+    });
+    writeFile(path.join(replyPath, "directory-.json"), {
+      installers: [
+        { type: "file", destination: "etc", paths: ["config/app.json"] },
+        { type: "target", destination: "bin", paths: [] }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    fs.removeSync(projectPath);
+  });
+
+  test("list files from CMake file API", () => {
+    const config = { layout: { ...defaultDeployLayout, sharedLibraries: "lib" }, assets: ["certs"] };
+    const files = createDeployManifest(projectPath, buildPath, config);
+    expect(files.map(file => [file.kind, file.remotePath])).toEqual([
+      [DeployFileKind.Executable, "app"],
+      [DeployFileKind.SharedLibrary, "lib/libsensor.so"],
+      [DeployFileKind.Asset, "etc/app.json"],
+      [DeployFileKind.Asset, "certs/root.pem"]
+    ]);
+    expect(files[0].localPath).toBe(path.join(buildPath, "app"));
+  });
+
+  test("ask to compile without reply of CMake file API", () => {
+    fs.removeSync(path.join(buildPath, ".cmake"));
+    expect(() => createDeployManifest(projectPath, buildPath, loadDeployConfig(projectPath))).toThrow(
+      OperationFailedError
+    );
+  });
+
+  test("validate deploy configuration", () => {
+    expect(loadDeployConfig(projectPath)).toEqual({ layout: defaultDeployLayout, assets: [] });
+    expect(parseDeployConfig({ layout: { assets: "share" } }, "deployconfig.json").layout).toEqual({
+      ...defaultDeployLayout,
+      assets: "share"
+    });
+    expect(() => parseDeployConfig({ layout: { executables: "/usr/bin" } }, "deployconfig.json")).toThrow(
+      /executables should be a folder/
+    );
+    expect(() => parseDeployConfig({ assets: ["../secret"] }, "deployconfig.json")).toThrow(/relative to project/);
+  });
+
+  test("upload changed files only", () => {
+    const files = createDeployManifest(projectPath, buildPath, loadDeployConfig(projectPath));
+    const localHashes = hashDeployFiles(files);
+    expect(localHashes.get(path.join(buildPath, "app"))).toBe(
+      crypto
+        .createHash("sha256")
+        .update("app")
+        .digest("hex")
+    );
+
+    const remoteHashes = parseRemoteHashes(
+      `${localHashes.get(path.join(buildPath, "app"))}  app\n` +
+        `${"0".repeat(64)}  libsensor.so\n` +
+        `sha256sum: app.json: No such file or directory\n`
+    );
+    expect(remoteHashes.size).toBe(2);
+    expect(getChangedFiles(files, localHashes, remoteHashes).map(file => file.remotePath)).toEqual([
+      "libsensor.so",
+      "etc/app.json"
+    ]);
+  });
+
+  test("build remote commands", () => {
+    const files: DeployFile[] = [
+      { kind: DeployFileKind.Executable, localPath: "/build/app", remotePath: "bin/app" },
+      { kind: DeployFileKind.Asset, localPath: "/src/it's.json", remotePath: "etc/it's.json" }
+    ];
+    expect(getRemoteHashCommand("IoTProject", files)).toBe(
+      `cd 'IoTProject' 2>/dev/null && sha256sum -- 'bin/app' 'etc/it'\\''s.json' 2>/dev/null; true`
+    );
+    expect(getRemoteInstallCommand("IoTProject", files[0])).toBe(`cd 'IoTProject' && chmod +x -- 'bin/app'`);
+    expect(getRemoteInstallCommand("IoTProject", files[1])).toBeUndefined();
+    expect(
+      getRemoteInstallCommand("IoTProject", {
+        kind: DeployFileKind.Asset,
+        localPath: "/src/a.json",
+        remotePath: "b.json"
+      })
+    ).toBe(`cd 'IoTProject' && mv -f -- 'a.json' 'b.json'`);
+    expect(getRemoteFoldersCommand("my project; rm -rf ~", files)).toBe(
+      `mkdir -p -- 'my project; rm -rf ~' && cd 'my project; rm -rf ~' && mkdir -p -- 'bin' 'etc'`
+    );
+  });
+});
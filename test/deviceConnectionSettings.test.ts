@@ -0,0 +1,81 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-plus";
+import * as os from "os";
+import * as path from "path";
+
+import { ScaffoldType } from "../src/constants";
+import { DeviceConnectionSettings } from "../src/DigitalTwin/DigitalTwinCodeGen/DeviceConnectionSettings";
+import { DeviceConnectionType } from "../src/DigitalTwin/DigitalTwinCodeGen/Interfaces/CodeGenerator";
+import { AzureConfigFileHandler } from "../src/Models/AzureComponentConfig";
+import { ComponentType } from "../src/Models/Interfaces/Component";
+
+describe("device connection settings", () => {
+  const devConnectionString = "HostName=dev-hub.azure-devices.net;DeviceId=device;SharedAccessKey=dev";
+  const prodConnectionString = "HostName=prod-hub.azure-devices.net;DeviceId=device;SharedAccessKey=prod";
+  const iotHubConnectionString = "HostName=hub.azure-devices.net;SharedAccessKeyName=owner;SharedAccessKey=key";
+  let projectRootPath: string;
+
+  beforeEach(async () => {
+    projectRootPath = fs.mkdtempSync(path.join(os.tmpdir(), "codegen-"));
+    const devHandler = new AzureConfigFileHandler(projectRootPath, "dev");
+    await devHandler.createIfNotExists(ScaffoldType.Workspace);
+    await devHandler.appendComponent(ScaffoldType.Workspace, {
+      id: "device",
+      type: ComponentType.IoTHubDevice,
+      name: "IoT Hub Device",
+      folder: "",
+      dependencies: [],
+      componentInfo: { values: { iotHubConnectionString, iotHubDeviceConnectionString: devConnectionString } }
+    });
+    const prodHandler = new AzureConfigFileHandler(projectRootPath, "prod");
+    await prodHandler.updateComponent(ScaffoldType.Workspace, 0, {
+      values: { iotHubConnectionString, iotHubDeviceConnectionString: prodConnectionString }
+    });
+  });
+
+  afterEach(() => {
+    fs.removeSync(projectRootPath);
+  });
+
+  test("connect generated code to device of each environment", async () => {
+    const outputs: string[] = [];
+    for (const environment of ["dev", "prod"]) {
+      const projectPath = path.join(projectRootPath, "Device", environment);
+      const args = await DeviceConnectionSettings.getConnectionArguments(
+        projectRootPath,
+        environment,
+        DeviceConnectionType.ConnectionString
+      );
+      await DeviceConnectionSettings.save(projectPath, args);
+      outputs.push(fs.readFileSync(path.join(projectPath, ".vscode", "settings.json"), "utf8"));
+    }
+    expect(JSON.parse(outputs[0])).toEqual({ "cmake.debugConfig": { args: [devConnectionString] } });
+    expect(JSON.parse(outputs[1])).toEqual({ "cmake.debugConfig": { args: [prodConnectionString] } });
+  });
+
+  test("skip environments without device connection string", async () => {
+    expect(
+      await DeviceConnectionSettings.getConnectionArguments(
+        projectRootPath,
+        "test",
+        DeviceConnectionType.ConnectionString
+      )
+    ).toEqual([]);
+    expect(
+      await DeviceConnectionSettings.getConnectionArguments(projectRootPath, "dev", DeviceConnectionType.DpsSasKey)
+    ).toEqual([]);
+  });
+
+  test("keep other settings of generated project", async () => {
+    const settingsPath = path.join(projectRootPath, ".vscode", "settings.json");
+    fs.makeTreeSync(path.dirname(settingsPath));
+    fs.writeFileSync(settingsPath, JSON.stringify({ "cmake.debugConfig": { cwd: "/tmp" }, "editor.tabSize": 2 }));
+    await DeviceConnectionSettings.save(projectRootPath, ["connection"]);
+    expect(JSON.parse(fs.readFileSync(settingsPath, "utf8"))).toEqual({
+      "cmake.debugConfig": { cwd: "/tmp", args: ["connection"] },
+      "editor.tabSize": 2
+    });
+  });
+});
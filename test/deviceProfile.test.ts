@@ -0,0 +1,92 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-plus";
+import * as os from "os";
+import * as path from "path";
+
+import { OperationFailedError } from "../src/common/Error/OperationFailedErrors/OperationFailedError";
+import { ResourceNotFoundError } from "../src/common/Error/OperationFailedErrors/ResourceNotFoundError";
+import {
+  deleteDeviceSecrets,
+  DeviceProfiles,
+  getActiveProfiles,
+  loadDeviceProfiles,
+  parseDeviceProfiles,
+  protectDeviceSecrets,
+  removeDeviceProfile,
+  resolveDeviceSecrets,
+  saveDeviceProfiles,
+  setDeviceProfile,
+  SshAuthenticationType,
+  SshDeviceProfile
+} from "../src/Models/DeviceProfile";
+
+describe("device profile", () => {
+  const kitchen: SshDeviceProfile = {
+    id: "kitchen-id",
+    name: "kitchen",
+    host: "192.168.1.10",
+    port: 22,
+    user: "pi",
+    projectPath: "IoTProject",
+    authentication: SshAuthenticationType.Password
+  };
+  const garage: SshDeviceProfile = {
+    ...kitchen,
+    id: "garage-id",
+    name: "garage",
+    host: "192.168.1.11",
+    authentication: SshAuthenticationType.PrivateKey
+  };
+
+  test("return no profile without profiles file", () => {
+    const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "profile-"));
+    expect(loadDeviceProfiles(projectPath)).toEqual({ activeTargets: [], profiles: [] });
+
+    const deviceProfiles: DeviceProfiles = { activeTargets: ["garage"], profiles: [kitchen, garage] };
+    saveDeviceProfiles(projectPath, deviceProfiles);
+    expect(loadDeviceProfiles(projectPath)).toEqual(deviceProfiles);
+    fs.removeSync(projectPath);
+  });
+
+  test("validate profiles", () => {
+    expect(() => parseDeviceProfiles({ profiles: [] }, "deviceprofiles.json")).toThrow(OperationFailedError);
+    expect(() =>
+      parseDeviceProfiles(
+        { activeTargets: [], profiles: [kitchen, { ...kitchen, id: "other" }] },
+        "deviceprofiles.json"
+      )
+    ).toThrow(/kitchen is duplicated/);
+    expect(() =>
+      parseDeviceProfiles({ activeTargets: [], profiles: [{ ...kitchen, port: "22" }] }, "deviceprofiles.json")
+    ).toThrow(/positive integer/);
+  });
+
+  test("add, rename and remove profiles", () => {
+    let deviceProfiles = setDeviceProfile({ activeTargets: [], profiles: [] }, kitchen);
+    expect(deviceProfiles.activeTargets).toEqual(["kitchen"]);
+
+    deviceProfiles = setDeviceProfile(deviceProfiles, garage);
+    deviceProfiles = { ...deviceProfiles, activeTargets: ["garage", "kitchen"] };
+    expect(getActiveProfiles(deviceProfiles).map(profile => profile.host)).toEqual(["192.168.1.11", "192.168.1.10"]);
+
+    deviceProfiles = setDeviceProfile(deviceProfiles, { ...kitchen, name: "living room" }, "kitchen");
+    expect(deviceProfiles.profiles.map(profile => profile.name)).toEqual(["living room", "garage"]);
+    expect(deviceProfiles.activeTargets).toEqual(["garage", "living room"]);
+
+    deviceProfiles = removeDeviceProfile(deviceProfiles, "garage");
+    expect(deviceProfiles.activeTargets).toEqual(["living room"]);
+    expect(getActiveProfiles({ ...deviceProfiles, activeTargets: ["garage"] })).toEqual([]);
+  });
+
+  test("keep secrets in keychain", async () => {
+    const protectedProfile = await protectDeviceSecrets(garage, { privateKey: "-----BEGIN KEY-----", passphrase: "" });
+    expect(protectedProfile.privateKey).toBe("secret:deviceProfile.garage-id.privateKey");
+    expect(protectedProfile.passphrase).toBeUndefined();
+    expect(await resolveDeviceSecrets(protectedProfile)).toEqual({ privateKey: "-----BEGIN KEY-----" });
+
+    await deleteDeviceSecrets(protectedProfile);
+    await expect(resolveDeviceSecrets(protectedProfile)).rejects.toThrow(ResourceNotFoundError);
+  });
+});
@@ -0,0 +1,127 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import { SystemResourceNotFoundError } from "../src/common/Error/SystemErrors/SystemResourceNotFoundError";
+import { TypeNotSupportedError } from "../src/common/Error/SystemErrors/TypeNotSupportedError";
+import { ConsoleUserInterface } from "../src/cli/ConsoleUserInterface";
+import { Device } from "../src/Models/Interfaces/Device";
+import { ProjectHostType } from "../src/Models/Interfaces/ProjectHostType";
+
+const vscode = require("../__mocks__/vscode");
+
+describe("device registry", () => {
+  let DeviceRegistryModule: typeof import("../src/Models/DeviceRegistry");
+  let HeadlessDevicesModule: typeof import("../src/Models/HeadlessDevices");
+  const context = vscode.ExtensionContext;
+  const channel = vscode.OutputChannel;
+  const telemetryContext = { properties: {}, measurements: {} };
+  const deviceRootPath = "device-root-path";
+  const fakeDevice = {} as Device;
+  const createDevice = jest.fn(() => fakeDevice);
+  context.asAbsolutePath.mockImplementation((relativePath: string) => path.join(__dirname, "..", relativePath));
+
+  beforeEach(() => {
+    // Reset registered providers of the singleton registry
+    jest.isolateModules(() => {
+      DeviceRegistryModule = require("../src/Models/DeviceRegistry");
+      HeadlessDevicesModule = require("../src/Models/HeadlessDevices");
+    });
+    createDevice.mockClear();
+  });
+
+  test("built-in boards are registered", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    expect(registry.getBoardIds(ProjectHostType.Workspace)).toEqual(["devkit", "esp32"]);
+    expect(registry.getBoardIds(ProjectHostType.Container)).toEqual(["raspberrypi"]);
+  });
+
+  test("create device with registered provider", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    registry.register({ boardId: "esp32", projectHostType: ProjectHostType.Workspace, createDevice });
+
+    const device = registry.createDevice(
+      context,
+      channel,
+      telemetryContext,
+      "esp32",
+      ProjectHostType.Workspace,
+      deviceRootPath
+    );
+
+    expect(device).toBe(fakeDevice);
+    expect(createDevice).toHaveBeenCalledWith(context, channel, telemetryContext, deviceRootPath, undefined);
+  });
+
+  test("create device of unregistered board", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    expect(() =>
+      registry.createDevice(context, channel, telemetryContext, "unknown", ProjectHostType.Workspace, deviceRootPath)
+    ).toThrow(TypeNotSupportedError);
+  });
+
+  test("create device of board with mismatched project host type", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    registry.register({ boardId: "esp32", projectHostType: ProjectHostType.Container, createDevice });
+    expect(() =>
+      registry.createDevice(context, channel, telemetryContext, "esp32", ProjectHostType.Container, deviceRootPath)
+    ).toThrow(TypeNotSupportedError);
+    expect(createDevice).not.toHaveBeenCalled();
+  });
+
+  test("create device of board missing in board list", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    registry.register({ boardId: "inhouse", projectHostType: ProjectHostType.Workspace, createDevice });
+    expect(() =>
+      registry.createDevice(context, channel, telemetryContext, "inhouse", ProjectHostType.Workspace, deviceRootPath)
+    ).toThrow(SystemResourceNotFoundError);
+  });
+
+  test("create headless device of built-in boards", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    const ui = new ConsoleUserInterface();
+    const arduinoDevice = registry.createHeadlessDevice(
+      "esp32",
+      ProjectHostType.Workspace,
+      "project-root-path",
+      deviceRootPath,
+      ui,
+      {}
+    );
+    const containerDevice = registry.createHeadlessDevice(
+      "raspberrypi",
+      ProjectHostType.Container,
+      "project-root-path",
+      "project-root-path",
+      ui,
+      {}
+    );
+    expect(arduinoDevice).toBeInstanceOf(HeadlessDevicesModule.ArduinoHeadlessDevice);
+    expect(containerDevice).toBeInstanceOf(HeadlessDevicesModule.ContainerHeadlessDevice);
+  });
+
+  test("create headless device of board without command line support", () => {
+    const registry = DeviceRegistryModule.DeviceRegistry;
+    registry.register({ boardId: "inhouse", projectHostType: ProjectHostType.Workspace, createDevice });
+    expect(() =>
+      registry.createHeadlessDevice(
+        "inhouse",
+        ProjectHostType.Workspace,
+        "",
+        deviceRootPath,
+        new ConsoleUserInterface(),
+        {}
+      )
+    ).toThrow(TypeNotSupportedError);
+    expect(() =>
+      registry.createHeadlessDevice(
+        "esp32",
+        ProjectHostType.Container,
+        "",
+        deviceRootPath,
+        new ConsoleUserInterface(),
+        {}
+      )
+    ).toThrow(TypeNotSupportedError);
+  });
+});
@@ -0,0 +1,68 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { DeviceRunMode } from "../src/Models/DeviceProfile";
+import { RemoteRunCommands } from "../src/Models/DeviceRunner";
+
+describe("device runner", () => {
+  test("start binary in background", () => {
+    const processCommand = RemoteRunCommands.start(DeviceRunMode.Process, "IoTProject", "app");
+    expect(processCommand).toMatch(/^cd 'IoTProject' && test -x '\.\/app' && /);
+    expect(processCommand).toContain(
+      `setsid sh -c '"$0" > "$1" 2>&1; echo $? > "$2"' './app' '.app.log' '.app.exitcode'`
+    );
+    expect(processCommand).toContain("echo $! > '.app.pid'; echo started;");
+
+    const unitCommand = RemoteRunCommands.start(DeviceRunMode.SystemdUnit, "IoTProject", "my app");
+    expect(unitCommand).toContain("systemd-run --user --unit=iotworkbench-my_app --remain-after-exit");
+    expect(unitCommand).toContain(`"$PWD"/'my app' > /dev/null`);
+  });
+
+  test("start gdbserver in background", () => {
+    const command = RemoteRunCommands.startGdbServer("IoTProject", "app", 2345);
+    expect(command).toMatch(/^cd 'IoTProject' && test -x '\.\/app' && /);
+    expect(command).toContain(`then echo "no gdbserver"`);
+    expect(command).toContain("setsid gdbserver :2345 './app' > '.app.gdbserver.log' 2>&1 < /dev/null & ");
+    expect(command).toContain("echo $! > '.app.gdbserver.pid';");
+  });
+
+  test("read log from offset", () => {
+    expect(RemoteRunCommands.readLog("IoTProject", "app", 0)).toBe(
+      "tail -c +1 'IoTProject/.app.log' 2>/dev/null; true"
+    );
+    expect(RemoteRunCommands.readLog("IoTProject", "app", 42)).toContain("tail -c +43 ");
+  });
+
+  test("parse status of process", () => {
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.Process, "running\n")).toEqual({ running: true });
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.Process, "exited 143\n")).toEqual({
+      running: false,
+      exitCode: 143
+    });
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.Process, "stopped\n")).toEqual({ running: false });
+  });
+
+  test("parse status of systemd unit", () => {
+    const show = (activeState: string, subState: string, code: number, status: number): string =>
+      `ActiveState=${activeState}\nSubState=${subState}\nExecMainCode=${code}\nExecMainStatus=${status}\n`;
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.SystemdUnit, show("active", "running", 0, 0))).toEqual({
+      running: true
+    });
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.SystemdUnit, show("active", "exited", 1, 0))).toEqual({
+      running: false,
+      exitCode: 0
+    });
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.SystemdUnit, show("failed", "failed", 1, 3))).toEqual({
+      running: false,
+      exitCode: 3
+    });
+    // killed by SIGKILL
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.SystemdUnit, show("failed", "failed", 2, 9))).toEqual({
+      running: false,
+      exitCode: 137
+    });
+    expect(RemoteRunCommands.parseStatus(DeviceRunMode.SystemdUnit, show("inactive", "dead", 0, 0))).toEqual({
+      running: false
+    });
+  });
+});
@@ -0,0 +1,59 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import { DiagnosticCode } from "../../src/DigitalTwin/pnp/src/intelliSense/digitalTwinConstants";
+import { DigitalTwinDiagnosticProvider } from "../../src/DigitalTwin/pnp/src/intelliSense/digitalTwinDiagnosticProvider";
+import { InterfaceInfo } from "../../src/DigitalTwin/pnp/src/intelliSense/digitalTwinInterfaceResolver";
+
+describe("DigitalTwin diagnostic provider", () => {
+  const capabilityModel = `{
+  "@id": "urn:test:model:1",
+  "@type": "CapabilityModel",
+  "implements": [
+    { "schema": "urn:test:sensor:1", "name": "sensor" },
+    { "schema": "urn:test:fan:1", "name": "fan" },
+    { "schema": "urn:test:remote:1", "name": "remote" },
+    { "schema": "urn:test:missing:1", "name": "missing" },
+    { "schema": { "@type": "Interface", "contents": [] }, "name": "inline" }
+  ],
+  "@context": "http://azureiot.com/v1/contexts/IoTModel.json"
+}`;
+  const interfaces = new Map<string, InterfaceInfo>([
+    ["urn:test:sensor:1", { id: "urn:test:sensor:1", filePath: "sensor.json", contentNames: ["temperature"] }],
+    ["urn:test:fan:1", { id: "urn:test:fan:1", filePath: "fan.json", contentNames: ["speed", "temperature"] }]
+  ]);
+
+  test("get implemented interfaces referred by id", () => {
+    const schemaNodes = DigitalTwinDiagnosticProvider.getImplementedInterfaceNodes(parser.parseTree(capabilityModel));
+    expect(schemaNodes.map(node => node.value)).toEqual([
+      "urn:test:sensor:1",
+      "urn:test:fan:1",
+      "urn:test:remote:1",
+      "urn:test:missing:1"
+    ]);
+    const interfaceModel = parser.parseTree('{ "@type": "Interface", "implements": [{ "schema": "urn:test:fan:1" }] }');
+    expect(DigitalTwinDiagnosticProvider.getImplementedInterfaceNodes(interfaceModel)).toEqual([]);
+  });
+
+  test("validate implemented interfaces against interface files", () => {
+    const schemaNodes = DigitalTwinDiagnosticProvider.getImplementedInterfaceNodes(parser.parseTree(capabilityModel));
+    const problems = DigitalTwinDiagnosticProvider.validateImplementedInterfaces(
+      schemaNodes,
+      interfaces,
+      new Set<string>(["urn:test:remote:1"])
+    );
+    expect(problems.map(p => [p.code, p.message])).toEqual([
+      [
+        DiagnosticCode.DuplicateNameAcrossInterfaces,
+        "temperature is also defined by implemented interface urn:test:sensor:1."
+      ],
+      [
+        DiagnosticCode.InterfaceOnlyInRepository,
+        "urn:test:remote:1 is not found in workspace but exists in model repository."
+      ],
+      [DiagnosticCode.UnresolvedInterface, "urn:test:missing:1 is not found in workspace or model repository."]
+    ]);
+    expect(capabilityModel.substr(problems[2].offset, problems[2].length)).toBe('"urn:test:missing:1"');
+  });
+});
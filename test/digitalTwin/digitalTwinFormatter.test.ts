@@ -0,0 +1,65 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import { DigitalTwinFormatter, FormatOptions } from "../../src/DigitalTwin/pnp/src/intelliSense/digitalTwinFormatter";
+
+describe("DigitalTwin formatter", () => {
+  const options: FormatOptions = { tabSize: 2, insertSpaces: true, eol: "\n" };
+
+  test("order properties canonically", () => {
+    const text =
+      '{"@context": "http://azureiot.com/v1/contexts/IoTModel.json", "contents": [{"schema": "double", "name": "temp", ' +
+      '"@type": "Telemetry", "x-custom": 1.50}], "displayName": "Sensor", "@type": "Interface", "@id": "urn:test:sensor:1"}\n';
+    expect(DigitalTwinFormatter.format(text, options)).toBe(`{
+  "@id": "urn:test:sensor:1",
+  "@type": "Interface",
+  "displayName": "Sensor",
+  "contents": [
+    {
+      "@type": "Telemetry",
+      "name": "temp",
+      "schema": "double",
+      "x-custom": 1.50
+    }
+  ],
+  "@context": "http://azureiot.com/v1/contexts/IoTModel.json"
+}
+`);
+  });
+
+  test("skip invalid json or json with comments", () => {
+    expect(DigitalTwinFormatter.format('{"@id": ', options)).toBeUndefined();
+    expect(DigitalTwinFormatter.format('{"@id": "urn:test:sensor:1" // id\n}', options)).toBeUndefined();
+  });
+
+  test("add, remove and set properties", () => {
+    const text = '{\n  "@type": "Telemetry",\n  "unexpected": true,\n  "@context": "invalid"\n}';
+    const added: string = parser.applyEdits(
+      text,
+      DigitalTwinFormatter.addProperties(
+        text,
+        0,
+        new Map<string, string>([
+          ["name", ""],
+          ["schema", ""]
+        ]),
+        options
+      )
+    );
+    expect(Object.keys(JSON.parse(added))).toEqual(["@type", "name", "schema", "unexpected", "@context"]);
+
+    const removed: string = parser.applyEdits(
+      text,
+      DigitalTwinFormatter.removeProperty(text, text.indexOf('"unexpected"'), options)
+    );
+    expect(JSON.parse(removed)).toEqual({ "@type": "Telemetry", "@context": "invalid" });
+
+    const context = "http://azureiot.com/v1/contexts/IoTModel.json";
+    const fixed: string = parser.applyEdits(
+      text,
+      DigitalTwinFormatter.setValue(text, text.indexOf('"invalid"'), context, options)
+    );
+    expect(JSON.parse(fixed)["@context"]).toBe(context);
+  });
+});
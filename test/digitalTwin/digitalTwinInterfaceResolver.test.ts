@@ -0,0 +1,84 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { DigitalTwinInterfaceResolver } from "../../src/DigitalTwin/pnp/src/intelliSense/digitalTwinInterfaceResolver";
+import { ModelRepositoryManager } from "../../src/DigitalTwin/pnp/src/modelRepository/modelRepositoryManager";
+
+describe("DigitalTwin interface resolver", () => {
+  const context = "http://azureiot.com/v1/contexts/IoTModel.json";
+  let folder: string;
+  let modelExists: jest.Mock;
+  let resolver: DigitalTwinInterfaceResolver;
+  const findFiles = jest.fn();
+
+  async function writeInterface(fileName: string, id: string, names: string[]): Promise<string> {
+    const filePath = path.join(folder, fileName);
+    const contents = names.map(name => ({ "@type": "Telemetry", name, schema: "double" }));
+    await fs.writeJson(filePath, { "@id": id, "@type": "Interface", contents, "@context": context });
+    return filePath;
+  }
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "interfaces-"));
+    const sensorPath = await writeInterface("sensor.interface.json", "urn:test:sensor:1", ["temperature"]);
+    const modelPath = path.join(folder, "model.capabilitymodel.json");
+    await fs.writeJson(modelPath, { "@id": "urn:test:model:1", "@type": "CapabilityModel", "@context": context });
+    findFiles.mockReset();
+    findFiles.mockResolvedValue([{ fsPath: sensorPath }, { fsPath: modelPath }]);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (vscode.workspace as any).findFiles = findFiles;
+    modelExists = jest.fn();
+    resolver = new DigitalTwinInterfaceResolver(({ modelExists } as unknown) as ModelRepositoryManager);
+  });
+
+  afterEach(async () => {
+    await fs.remove(folder);
+  });
+
+  test("read invalidated files only after workspace is scanned", async () => {
+    let interfaces = await resolver.findWorkspaceInterfaces();
+    expect(Array.from(interfaces.keys())).toEqual(["urn:test:sensor:1"]);
+    expect(interfaces.get("urn:test:sensor:1")).toMatchObject({ contentNames: ["temperature"] });
+
+    const sensorPath = await writeInterface("sensor.interface.json", "urn:test:sensor:1", ["humidity"]);
+    const fanPath = await writeInterface("fan.interface.json", "urn:test:fan:1", ["speed"]);
+    // not reread before invalidated
+    interfaces = await resolver.findWorkspaceInterfaces();
+    expect(interfaces.get("urn:test:sensor:1")).toMatchObject({ contentNames: ["temperature"] });
+
+    resolver.invalidate(sensorPath);
+    resolver.invalidate(fanPath);
+    interfaces = await resolver.findWorkspaceInterfaces();
+    expect(interfaces.get("urn:test:sensor:1")).toMatchObject({ contentNames: ["humidity"] });
+    expect(interfaces.get("urn:test:fan:1")).toMatchObject({ filePath: fanPath });
+
+    await fs.remove(sensorPath);
+    resolver.invalidate(sensorPath);
+    interfaces = await resolver.findWorkspaceInterfaces();
+    expect(Array.from(interfaces.keys())).toEqual(["urn:test:fan:1"]);
+    expect(findFiles).toHaveBeenCalledTimes(1);
+  });
+
+  test("cache found, missing and failed repository lookups", async () => {
+    modelExists.mockImplementation(async (id: string) => {
+      if (id === "urn:test:offline:1") {
+        throw new Error("network is not available");
+      }
+      return id === "urn:test:sensor:1";
+    });
+    for (let i = 0; i < 2; i++) {
+      expect(await resolver.existsInRepository("urn:test:sensor:1")).toBe(true);
+      expect(await resolver.existsInRepository("urn:test:fan:1")).toBe(false);
+      expect(await resolver.existsInRepository("urn:test:offline:1")).toBe(false);
+    }
+    expect(modelExists).toHaveBeenCalledTimes(3);
+
+    resolver.clearCache();
+    expect(await resolver.existsInRepository("urn:test:offline:1")).toBe(false);
+    expect(modelExists).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,50 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as parser from "jsonc-parser";
+import { DigitalTwinReferenceProvider } from "../../src/DigitalTwin/pnp/src/intelliSense/digitalTwinReferenceProvider";
+
+describe("DigitalTwin reference provider", () => {
+  const capabilityModel = `{
+  "@id": "urn:test:model:1",
+  "@type": "CapabilityModel",
+  "displayName": "urn:test:sensor:1",
+  "implements": [
+    { "schema": "urn:test:sensor:1", "name": "sensor" },
+    { "schema": "urn:test:fan:1", "name": "fan" }
+  ],
+  "@context": "http://azureiot.com/v1/contexts/IoTModel.json"
+}`;
+  const jsonNode = parser.parseTree(capabilityModel);
+
+  test("find definition and references of model id", () => {
+    const modelIdNodes = DigitalTwinReferenceProvider.findIdNodes(jsonNode, "urn:test:model:1");
+    expect(modelIdNodes).toEqual([DigitalTwinReferenceProvider.getDefinitionNode(jsonNode)]);
+    const sensorNodes = DigitalTwinReferenceProvider.findIdNodes(jsonNode, "urn:test:sensor:1");
+    expect(sensorNodes.map(node => node.offset)).toEqual([capabilityModel.lastIndexOf('"urn:test:sensor:1"')]);
+  });
+
+  test("get model id at offset", () => {
+    const fanOffset = capabilityModel.indexOf("urn:test:fan:1") + 5;
+    const fanNode = DigitalTwinReferenceProvider.getIdNodeAtOffset(jsonNode, fanOffset);
+    expect(fanNode && fanNode.value).toBe("urn:test:fan:1");
+    // same text in other property is not a model id
+    const displayNameOffset = capabilityModel.indexOf("urn:test:sensor:1") + 5;
+    expect(DigitalTwinReferenceProvider.getIdNodeAtOffset(jsonNode, displayNameOffset)).toBeUndefined();
+  });
+
+  test("find references of interfaceSchema", () => {
+    const model = `{
+  "@id": "urn:test:gateway:1",
+  "@type": "Interface",
+  "contents": [
+    { "@type": "Property", "name": "child", "schema": { "interfaceSchema": "urn:test:sensor:1" } },
+    { "@type": "Property", "name": "inline", "schema": { "interfaceSchema": { "@type": "Interface" } } }
+  ]
+}`;
+    const modelNode = parser.parseTree(model);
+    const sensorNodes = DigitalTwinReferenceProvider.findIdNodes(modelNode, "urn:test:sensor:1");
+    expect(sensorNodes.map(node => node.offset)).toEqual([model.indexOf('"urn:test:sensor:1"')]);
+    expect(DigitalTwinReferenceProvider.getInterfaceSchemaNodes(modelNode)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { IntelliSenseUtility } from "../../src/DigitalTwin/pnp/src/intelliSense/intelliSenseUtility";
+
+describe("IntelliSense utility", () => {
+  const fixturePath = path.join(__dirname, "fixtures");
+  const context = { asAbsolutePath: (p: string) => path.join(fixturePath, p) } as vscode.ExtensionContext;
+
+  function getComment(text: string): string | undefined {
+    const model = IntelliSenseUtility.parseDigitalTwinModel(text);
+    const propertyNode = model && model.graph.getPropertyNode("displayName");
+    return propertyNode && propertyNode.comment;
+  }
+
+  beforeAll(async () => {
+    await IntelliSenseUtility.initGraph(context);
+  });
+
+  test("load all definition sets", () => {
+    expect(IntelliSenseUtility.getDefinitionSets().map(definitionSet => definitionSet.name)).toEqual([
+      "Version1",
+      "Version2"
+    ]);
+  });
+
+  test("select definition set by context of model", () => {
+    const v1 = `{ "@context": "http://example.com/v1/contexts/Model.json" }`;
+    const v2 = `{ "@context": ["http://example.com/v2/contexts/Model.json"] }`;
+    expect(getComment(v1)).toBe("Display name of version 1.");
+    expect(getComment(v2)).toBe("Display name of version 2.");
+    // parsing one model does not change the graph of another
+    expect(getComment(v1)).toBe("Display name of version 1.");
+  });
+
+  test("skip model of unknown context", () => {
+    expect(IntelliSenseUtility.parseDigitalTwinModel(`{ "@context": "http://example.com/v3/Model.json" }`)).toBe(
+      undefined
+    );
+    expect(IntelliSenseUtility.parseDigitalTwinModel(`{ "displayName": "model" }`)).toBe(undefined);
+  });
+});
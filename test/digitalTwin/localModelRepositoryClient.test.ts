@@ -0,0 +1,84 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ModelConflictError } from "../../src/DigitalTwin/pnp/src/common/modelConflictError";
+import { ModelNotFoundError } from "../../src/DigitalTwin/pnp/src/common/modelNotFoundError";
+import { ModelType } from "../../src/DigitalTwin/pnp/src/deviceModel/deviceModelManager";
+import { LocalModelRepositoryClient } from "../../src/DigitalTwin/pnp/src/modelRepository/localModelRepositoryClient";
+import { RepositoryInfo } from "../../src/DigitalTwin/pnp/src/modelRepository/modelRepositoryManager";
+
+describe("Local model repository client", () => {
+  const context = "http://azureiot.com/v1/contexts/IoTModel.json";
+  const sensor = { "@id": "urn:test:sensor:1", "@type": "Interface", displayName: "Sensor", "@context": context };
+  const fan = { "@id": "urn:test:fan:2", "@type": "Interface", displayName: { en: "Fan" }, "@context": context };
+  const model = { "@id": "urn:test:model:1", "@type": "CapabilityModel", implements: [], "@context": context };
+  let repoInfo: RepositoryInfo;
+
+  beforeEach(async () => {
+    const localPath: string = await fs.mkdtemp(path.join(os.tmpdir(), "repository-"));
+    repoInfo = { hostname: localPath, apiVersion: "", localPath };
+    await fs.outputJson(path.join(localPath, "interfaces", "sensor.json"), sensor);
+    await fs.outputJson(path.join(localPath, "interfaces", "fan.json"), fan);
+    await fs.outputJson(path.join(localPath, "model.json"), model);
+    await fs.outputFile(path.join(localPath, "README.md"), "models");
+  });
+
+  afterEach(async () => {
+    await fs.remove(repoInfo.localPath as string);
+  });
+
+  test("get model by id", async () => {
+    const result = await LocalModelRepositoryClient.getModel(repoInfo, "urn:test:sensor:1");
+    expect(result.content).toEqual(sensor);
+    await expect(LocalModelRepositoryClient.getModel(repoInfo, "urn:test:missing:1")).rejects.toThrow(
+      ModelNotFoundError
+    );
+  });
+
+  test("search model by type and keyword in pages", async () => {
+    const firstPage = await LocalModelRepositoryClient.searchModel(repoInfo, ModelType.Interface, "", 1, null);
+    expect(firstPage.results.map(r => [r.urnId, r.displayName, r.version])).toEqual([["urn:test:fan:2", "Fan", 2]]);
+    const secondPage = await LocalModelRepositoryClient.searchModel(
+      repoInfo,
+      ModelType.Interface,
+      "",
+      1,
+      firstPage.continuationToken as string
+    );
+    expect(secondPage.results.map(r => r.urnId)).toEqual(["urn:test:sensor:1"]);
+    expect(secondPage.continuationToken).toBeUndefined();
+
+    const byKeyword = await LocalModelRepositoryClient.searchModel(repoInfo, ModelType.Interface, "SENSOR", 10, null);
+    expect(byKeyword.results.map(r => r.urnId)).toEqual(["urn:test:sensor:1"]);
+  });
+
+  test("update and delete model", async () => {
+    const updated = { ...sensor, displayName: "Sensor v1" };
+    await LocalModelRepositoryClient.updateModel(repoInfo, "urn:test:sensor:1", updated);
+    expect(await fs.readJson(path.join(repoInfo.localPath as string, "interfaces", "sensor.json"))).toEqual(updated);
+
+    const created = { ...sensor, "@id": "urn:test:light:1" };
+    await LocalModelRepositoryClient.updateModel(repoInfo, "urn:test:light:1", created);
+    expect((await LocalModelRepositoryClient.getModel(repoInfo, "urn:test:light:1")).content).toEqual(created);
+
+    await LocalModelRepositoryClient.deleteModel(repoInfo, "urn:test:fan:2");
+    await expect(LocalModelRepositoryClient.getModel(repoInfo, "urn:test:fan:2")).rejects.toThrow(ModelNotFoundError);
+  });
+
+  test("update model with etag", async () => {
+    const { etag } = await LocalModelRepositoryClient.getModel(repoInfo, "urn:test:sensor:1");
+    const updated = { ...sensor, displayName: "Sensor v1" };
+    const newEtag: string = await LocalModelRepositoryClient.updateModel(repoInfo, "urn:test:sensor:1", updated, etag);
+    expect(newEtag).not.toBe(etag);
+    // model is changed since etag
+    await expect(LocalModelRepositoryClient.updateModel(repoInfo, "urn:test:sensor:1", sensor, etag)).rejects.toThrow(
+      ModelConflictError
+    );
+    await expect(LocalModelRepositoryClient.updateModel(repoInfo, "urn:test:light:1", sensor, etag)).rejects.toThrow(
+      ModelConflictError
+    );
+  });
+});
@@ -0,0 +1,44 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ModelBaseStore } from "../../src/DigitalTwin/pnp/src/modelRepository/modelBaseStore";
+import { RepositoryInfo } from "../../src/DigitalTwin/pnp/src/modelRepository/modelRepositoryManager";
+
+describe("Model base store", () => {
+  const companyRepository: RepositoryInfo = { hostname: "https://company", apiVersion: "v1", repositoryId: "repo" };
+  const otherRepository: RepositoryInfo = { hostname: "https://company", apiVersion: "v1", repositoryId: "other" };
+  const result = { etag: '"1"', modelId: "urn:test:sensor:1", content: { "@id": "urn:test:sensor:1" } };
+  let folder: string;
+  let store: ModelBaseStore;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "base-"));
+    store = new ModelBaseStore(path.join(folder, "modelBase"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(folder);
+  });
+
+  test("record base version by repository and file path", async () => {
+    const filePath: string = path.join(folder, "sensor.interface.json");
+    await store.set(companyRepository, filePath, result);
+    const entry = await store.get(companyRepository, filePath);
+    expect(entry && [entry.filePath, entry.repository, entry.etag]).toEqual([filePath, "https://company/repo", '"1"']);
+    expect(await store.get(otherRepository, filePath)).toBeUndefined();
+    expect(await store.get(companyRepository, path.join(folder, "other.interface.json"))).toBeUndefined();
+
+    await store.set(companyRepository, filePath, { ...result, etag: '"2"' });
+    const updated = await store.get(companyRepository, filePath);
+    expect(updated && updated.etag).toBe('"2"');
+  });
+
+  test("skip model without etag", async () => {
+    const filePath: string = path.join(folder, "sensor.interface.json");
+    await store.set(companyRepository, filePath, { ...result, etag: "" });
+    expect(await store.get(companyRepository, filePath)).toBeUndefined();
+  });
+});
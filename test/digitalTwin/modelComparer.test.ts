@@ -0,0 +1,101 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ChangeSeverity, ModelComparer } from "../../src/DigitalTwin/pnp/src/deviceModel/modelComparer";
+
+describe("Model comparer", () => {
+  const oldModel = {
+    "@id": "urn:test:sensor:1",
+    "@type": "Interface",
+    contents: [
+      {
+        "@type": ["Telemetry", "SemanticType/Temperature"],
+        name: "temp",
+        schema: "double",
+        unit: "Units/Temperature/celsius"
+      },
+      { "@type": "Property", name: "interval", schema: "integer", writable: true },
+      {
+        "@type": "Property",
+        name: "state",
+        schema: {
+          "@type": "Enum",
+          valueSchema: "integer",
+          enumValues: [
+            { name: "on", enumValue: 1 },
+            { name: "off", enumValue: 0 }
+          ]
+        }
+      },
+      { "@type": "Command", name: "reboot", commandType: "synchronous" },
+      { "@type": "Command", name: "reset", commandType: "synchronous" }
+    ],
+    schemas: [{ "@id": "urn:test:sensor:point:1", "@type": "Object", fields: [{ name: "x", schema: "double" }] }]
+  };
+
+  test("report no change for same model", () => {
+    expect(ModelComparer.compare(oldModel, oldModel)).toEqual([]);
+  });
+
+  test("classify compatible and breaking changes", () => {
+    const newModel = {
+      ...oldModel,
+      "@id": "urn:test:sensor:2",
+      contents: [
+        { "@type": "Telemetry", name: "temp", schema: "float", unit: "Units/Temperature/celsius", displayName: "Temp" },
+        { "@type": "Property", name: "interval", schema: "integer" },
+        {
+          "@type": "Property",
+          name: "state",
+          schema: {
+            "@type": "Enum",
+            valueSchema: "integer",
+            enumValues: [
+              { name: "on", enumValue: 1 },
+              { name: "off", enumValue: 0 },
+              { name: "standby", enumValue: 2 }
+            ]
+          }
+        },
+        { "@type": "Command", name: "reboot", commandType: "synchronous", response: { name: "ok", schema: "boolean" } },
+        { "@type": "Telemetry", name: "humidity", schema: "double" }
+      ],
+      schemas: [
+        {
+          "@id": "urn:test:sensor:point:1",
+          "@type": "Object",
+          fields: [
+            { name: "x", schema: "string" },
+            { name: "y", schema: "double" }
+          ]
+        }
+      ]
+    };
+    const changes = ModelComparer.compare(oldModel, newModel);
+    const describe = (severity: ChangeSeverity): string[] =>
+      changes.filter(c => c.severity === severity).map(c => `${c.target} ${c.message}`);
+    expect(describe(ChangeSeverity.Breaking)).toEqual([
+      'Telemetry "temp" schema is changed from double to float',
+      'Property "interval" is no longer writable',
+      'Command "reset" is removed',
+      'Schema "urn:test:sensor:point:1" field "x" schema is changed from double to string'
+    ]);
+    expect(describe(ChangeSeverity.Compatible)).toEqual([
+      'Telemetry "temp" semantic type is changed',
+      'Telemetry "temp" displayName is changed',
+      'Property "state" enum value "standby" is added',
+      'Command "reboot" response is added',
+      'Telemetry "humidity" is added',
+      'Schema "urn:test:sensor:point:1" field "y" is added'
+    ]);
+  });
+
+  test("format report", () => {
+    const changes = [{ severity: ChangeSeverity.Breaking, target: 'Command "reset"', message: "is removed" }];
+    const report: string = ModelComparer.formatReport("urn:test:sensor:1", "urn:test:sensor:1", changes);
+    expect(report).toContain("1 breaking change(s), 0 compatible change(s).");
+    expect(report).toContain("new version of interface id");
+    expect(report).toContain('## Breaking changes\n\n- Command "reset" is removed\n');
+    expect(report).not.toContain("## Compatible changes");
+  });
+});
@@ -0,0 +1,49 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ModelRepositoryCache } from "../../src/DigitalTwin/pnp/src/modelRepository/modelRepositoryCache";
+import { RepositoryInfo } from "../../src/DigitalTwin/pnp/src/modelRepository/modelRepositoryManager";
+
+describe("Model repository cache", () => {
+  const publicRepository: RepositoryInfo = { hostname: "https://public", apiVersion: "v1" };
+  const companyRepository: RepositoryInfo = { hostname: "https://company", apiVersion: "v1", repositoryId: "repo" };
+  const result = { etag: '"1"', modelId: "urn:test:sensor:1", content: { "@id": "urn:test:sensor:1" } };
+  let folder: string;
+  let cache: ModelRepositoryCache;
+
+  beforeEach(async () => {
+    folder = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "cache-")), "modelCache");
+    cache = new ModelRepositoryCache(folder);
+  });
+
+  afterEach(async () => {
+    await fs.remove(path.dirname(folder));
+  });
+
+  test("cache model by repository and model id", async () => {
+    await cache.set(publicRepository, result);
+    const entry = await cache.get(publicRepository, result.modelId);
+    expect(entry && [entry.repository, entry.etag, entry.content]).toEqual(["https://public", '"1"', result.content]);
+    expect(await cache.get(companyRepository, result.modelId)).toBeUndefined();
+
+    await cache.set(companyRepository, { ...result, etag: '"2"' });
+    expect((await cache.list()).map(e => e.repository).sort()).toEqual(["https://company/repo", "https://public"]);
+  });
+
+  test("skip model without etag", async () => {
+    await cache.set(publicRepository, { ...result, etag: "" });
+    expect(await cache.get(publicRepository, result.modelId)).toBeUndefined();
+  });
+
+  test("delete and clear cache", async () => {
+    await cache.set(publicRepository, result);
+    await cache.set(companyRepository, result);
+    await cache.delete(publicRepository, result.modelId);
+    expect((await cache.list()).map(e => e.repository)).toEqual(["https://company/repo"]);
+    await cache.clear();
+    expect(await cache.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,148 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import {
+  ModelSource,
+  ModelTreeBuilder,
+  ModelTreeNode
+} from "../../src/DigitalTwin/pnp/src/deviceModel/modelTreeBuilder";
+
+describe("Model tree builder", () => {
+  const sensor = {
+    "@id": "urn:test:sensor:1",
+    "@type": "Interface",
+    contents: [
+      { "@type": ["Telemetry", "SemanticType/Temperature"], name: "temp", schema: "double" },
+      {
+        "@type": "Property",
+        name: "mode",
+        writable: true,
+        schema: {
+          "@type": "Enum",
+          valueSchema: "integer",
+          enumValues: [
+            { name: "auto", enumValue: 1 },
+            { name: "manual", enumValue: 2 }
+          ]
+        }
+      },
+      {
+        "@type": "Command",
+        name: "reset",
+        request: { name: "delay", schema: "urn:test:sensor:point:1" },
+        response: { name: "result", schema: { "@type": "Array", elementSchema: "string" } }
+      },
+      {
+        "@type": "Telemetry",
+        name: "tags",
+        schema: {
+          "@type": "Map",
+          mapKey: { name: "tag", schema: "string" },
+          mapValue: { name: "value", schema: "boolean" }
+        }
+      }
+    ],
+    schemas: [
+      {
+        "@id": "urn:test:sensor:point:1",
+        "@type": "Object",
+        fields: [
+          { name: "x", schema: "float" },
+          { name: "next", schema: "urn:test:sensor:point:1" }
+        ]
+      }
+    ],
+    "@context": "http://azureiot.com/v1/contexts/IoTModel.json"
+  };
+  const capabilityModel = {
+    "@id": "urn:test:device:1",
+    "@type": "CapabilityModel",
+    implements: [
+      { name: "sensor", schema: "urn:test:sensor:1" },
+      {
+        name: "info",
+        schema: {
+          "@id": "urn:test:info:1",
+          "@type": "Interface",
+          contents: [{ "@type": "Property", name: "version", schema: "string" }]
+        }
+      },
+      { name: "missing", schema: "urn:test:missing:1" }
+    ],
+    "@context": "http://azureiot.com/v1/contexts/IoTModel.json"
+  };
+  const sensorSource: ModelSource = { filePath: "sensor.interface.json", text: JSON.stringify(sensor, null, 2) };
+  const cmSource: ModelSource = {
+    filePath: "device.capabilitymodel.json",
+    text: JSON.stringify(capabilityModel, null, 2)
+  };
+  const interfaces = new Map<string, ModelSource>([[sensor["@id"], sensorSource]]);
+
+  const findChild = (node: ModelTreeNode, label: string): ModelTreeNode => {
+    const child: ModelTreeNode | undefined = node.children.find(c => c.label === label);
+    if (!child) {
+      throw new Error(`${label} is not found`);
+    }
+    return child;
+  };
+
+  test("build capability model with implemented interfaces", () => {
+    const tree = ModelTreeBuilder.build(cmSource, interfaces) as ModelTreeNode;
+    expect(tree.kind).toBe("CapabilityModel");
+    expect(tree.label).toBe("urn:test:device:1");
+    expect(tree.children.map(c => c.label)).toEqual(["sensor", "info", "missing"]);
+
+    const resolved: ModelTreeNode = findChild(tree, "sensor");
+    expect(resolved.filePath).toBe(sensorSource.filePath);
+    expect(resolved.schema).toBe("urn:test:sensor:1");
+    expect(resolved.children.map(c => c.kind)).toEqual(["Telemetry", "Property", "Command", "Telemetry"]);
+
+    const inline: ModelTreeNode = findChild(tree, "info");
+    expect(inline.filePath).toBe(cmSource.filePath);
+    expect(findChild(inline, "version").schema).toBe("string");
+
+    const unresolved: ModelTreeNode = findChild(tree, "missing");
+    expect(unresolved.unresolved).toBe(true);
+    expect(unresolved.schema).toBe("urn:test:missing:1");
+    expect(unresolved.children).toEqual([]);
+  });
+
+  test("locate node to source range of name", () => {
+    const tree = ModelTreeBuilder.build(cmSource, interfaces) as ModelTreeNode;
+    const temp: ModelTreeNode = findChild(findChild(tree, "sensor"), "temp");
+    expect(sensorSource.text.substr(temp.offset, temp.length)).toBe('"temp"');
+    const missing: ModelTreeNode = findChild(tree, "missing");
+    expect(cmSource.text.substr(missing.offset, missing.length)).toBe('"missing"');
+    expect(cmSource.text.substr(tree.offset, tree.length)).toBe('"urn:test:device:1"');
+  });
+
+  test("expand schemas of contents", () => {
+    const tree = ModelTreeBuilder.build(sensorSource, new Map()) as ModelTreeNode;
+    expect(tree.kind).toBe("Interface");
+
+    const mode: ModelTreeNode = findChild(tree, "mode");
+    expect(mode.schema).toBe("Enum<integer>");
+    expect(mode.children.map(c => [c.kind, c.label, c.schema])).toEqual([
+      ["Enum value", "auto", "1"],
+      ["Enum value", "manual", "2"]
+    ]);
+
+    const tags: ModelTreeNode = findChild(tree, "tags");
+    expect(tags.schema).toBe("Map<string, boolean>");
+    expect(tags.children.map(c => c.kind)).toEqual(["Map key", "Map value"]);
+
+    const reset: ModelTreeNode = findChild(tree, "reset");
+    const request: ModelTreeNode = findChild(reset, "delay");
+    expect(request.kind).toBe("Request");
+    expect(request.schema).toBe("urn:test:sensor:point:1");
+    expect(request.children.map(c => c.label)).toEqual(["x", "next"]);
+    // recursive schema is not expanded again
+    expect(findChild(request, "next").children).toEqual([]);
+    expect(findChild(reset, "result").schema).toBe("Array<string>");
+  });
+
+  test("return undefined for other files", () => {
+    expect(ModelTreeBuilder.build({ filePath: "a.json", text: "[]" }, new Map())).toBeUndefined();
+    expect(ModelTreeBuilder.build({ filePath: "a.json", text: '{"@type": "Telemetry"}' }, new Map())).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { TelemetryGenerator } from "../../src/DigitalTwin/pnp/src/simulator/telemetryGenerator";
+
+describe("Telemetry generator", () => {
+  const sensor = {
+    "@id": "urn:test:sensor:1",
+    "@type": "Interface",
+    contents: [
+      {
+        "@type": ["Telemetry", "SemanticType/Temperature"],
+        name: "temp",
+        schema: "double",
+        unit: "Units/Temperature/celsius"
+      },
+      { "@type": "Telemetry", name: "count", schema: "integer" },
+      { "@type": "Telemetry", name: "time", schema: "dateTime" },
+      {
+        "@type": "Telemetry",
+        name: "state",
+        schema: {
+          "@type": "Enum",
+          valueSchema: "integer",
+          enumValues: [
+            { name: "on", enumValue: 1 },
+            { name: "off", enumValue: 0 }
+          ]
+        }
+      },
+      { "@type": "Telemetry", name: "location", schema: "urn:test:sensor:point:1" },
+      {
+        "@type": "Telemetry",
+        name: "tags",
+        schema: {
+          "@type": "Map",
+          mapKey: { name: "tag", schema: "string" },
+          mapValue: { name: "v", schema: "boolean" }
+        }
+      },
+      { "@type": "Telemetry", name: "history", schema: { "@type": "Array", elementSchema: "float" } },
+      { "@type": "Property", name: "interval", schema: "integer" },
+      {
+        "@type": "Command",
+        name: "reboot",
+        commandType: "synchronous",
+        request: { name: "delay", schema: "duration" },
+        response: { name: "ok", schema: "boolean" }
+      },
+      { "@type": "Command", name: "reset", commandType: "synchronous" }
+    ],
+    schemas: [{ "@id": "urn:test:sensor:point:1", "@type": "Object", fields: [{ name: "x", schema: "long" }] }]
+  };
+
+  test("generate telemetry conforming to schema", () => {
+    const generator = new TelemetryGenerator(sensor);
+    const values = generator.generateTelemetry();
+    expect(Object.keys(values)).toEqual(["temp", "count", "time", "state", "location", "tags", "history"]);
+    expect(values.temp).toBeGreaterThanOrEqual(15);
+    expect(values.temp).toBeLessThanOrEqual(35);
+    expect(Number.isInteger(values.count)).toBe(true);
+    expect(new Date(values.time).toISOString()).toBe(values.time);
+    expect([0, 1]).toContain(values.state);
+    expect(Number.isInteger(values.location.x)).toBe(true);
+    expect(Object.keys(values.tags)).toEqual(["tag1", "tag2"]);
+    expect(typeof values.tags.tag1).toBe("boolean");
+    expect(values.history).toHaveLength(2);
+  });
+
+  test("change numeric value gradually", () => {
+    const generator = new TelemetryGenerator(sensor);
+    let last: number = generator.generateTelemetry().temp;
+    for (let i = 0; i < 20; i++) {
+      const value: number = generator.generateTelemetry().temp;
+      // step is at most 10% of range
+      expect(Math.abs(value - last)).toBeLessThanOrEqual(2 + 0.01);
+      last = value;
+    }
+  });
+
+  test("answer command with response schema", () => {
+    const generator = new TelemetryGenerator(sensor, () => 0.2);
+    expect(generator.getCommandNames()).toEqual(["reboot", "reset"]);
+    expect(generator.generateRequest("reboot")).toBe("PT13S");
+    expect(generator.generateRequest("reset")).toBeUndefined();
+    expect(generator.invokeCommand("reboot")).toEqual({ status: 200, payload: true });
+    expect(generator.invokeCommand("reset")).toEqual({ status: 200 });
+    expect(generator.invokeCommand("unknown")).toEqual({ status: 404 });
+  });
+
+  test("reject unsupported schema", () => {
+    const generator = new TelemetryGenerator({
+      contents: [{ "@type": "Telemetry", name: "shape", schema: "urn:test:unknown:1" }]
+    });
+    expect(() => generator.generateTelemetry()).toThrow("schema urn:test:unknown:1 of shape is not supported");
+  });
+});
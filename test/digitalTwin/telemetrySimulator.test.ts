@@ -0,0 +1,86 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ColorizedChannel } from "../../src/DigitalTwin/pnp/src/common/colorizedChannel";
+import { MqttSink } from "../../src/DigitalTwin/pnp/src/simulator/telemetrySink";
+import { TelemetrySimulator } from "../../src/DigitalTwin/pnp/src/simulator/telemetrySimulator";
+
+jest.mock("../../src/DigitalTwin/pnp/src/common/configuration", () => ({
+  Configuration: {
+    getProperty: (name: string): string | undefined =>
+      name === "simulatorBrokerUrl" ? "mqtt://localhost:1883" : undefined
+  }
+}));
+
+describe("Telemetry simulator", () => {
+  const sensor = {
+    "@id": "urn:test:sensor:1",
+    "@type": "Interface",
+    contents: [
+      { "@type": "Telemetry", name: "temp", schema: "double" },
+      { "@type": "Command", name: "reset", commandType: "synchronous" }
+    ],
+    "@context": "http://azureiot.com/v1/contexts/IoTModel.json"
+  };
+  const channel = ({ info: jest.fn(), warn: jest.fn() } as unknown) as ColorizedChannel;
+  let folder: string;
+  let modelFile: string;
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "simulator-"));
+    modelFile = path.join(folder, "sensor.interface.json");
+    await fs.writeJson(modelFile, sensor);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(folder);
+  });
+
+  test("answer request received as soon as subscribed", async () => {
+    const published: Array<[string, string]> = [];
+    const sink = {
+      description: "MQTT broker",
+      publish: async (topic: string, payload: string): Promise<void> => {
+        published.push([topic, payload]);
+      },
+      close: jest.fn(async () => undefined),
+      onClose: jest.fn(),
+      subscribe: async (_topic: string, onMessage: (topic: string, payload: string) => void): Promise<void> => {
+        onMessage("simulator/sensor/commands/reset", "null");
+      }
+    };
+    jest.spyOn(MqttSink, "connect").mockResolvedValue((sink as unknown) as MqttSink);
+    const simulator = new TelemetrySimulator(channel);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (simulator as any).doStart(modelFile);
+    expect(published).toEqual([["simulator/sensor/commands/reset/response", JSON.stringify({ status: 200 })]]);
+    simulator.dispose();
+    expect(sink.close).toHaveBeenCalled();
+  });
+
+  test("report failure to close sink on dispose", async () => {
+    const sink = {
+      description: "MQTT broker",
+      publish: async (): Promise<void> => undefined,
+      close: async (): Promise<void> => {
+        throw new Error("socket hang up");
+      },
+      onClose: jest.fn(),
+      subscribe: async (): Promise<void> => undefined
+    };
+    jest.spyOn(MqttSink, "connect").mockResolvedValue((sink as unknown) as MqttSink);
+    const simulator = new TelemetrySimulator(channel);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (simulator as any).doStart(modelFile);
+    simulator.dispose();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(channel.warn).toHaveBeenCalledWith(
+      "Fail to stop telemetry simulator: socket hang up",
+      "Telemetry Simulator"
+    );
+  });
+});
@@ -0,0 +1,75 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import * as fs from "fs-plus";
+import * as os from "os";
+import * as path from "path";
+
+import { AzureConfigSchemaError } from "../src/common/Error/SystemErrors/AzureConfigSchemaError";
+import { AzureConfigs } from "../src/Models/AzureComponentConfig";
+import { parseEnvironmentConfig } from "../src/Models/AzureConfigSchema";
+import { ComponentType } from "../src/Models/Interfaces/Component";
+import {
+  applyEnvironmentConfig,
+  getEnvironmentConfigPath,
+  getSecretScope,
+  isValidEnvironmentName,
+  listEnvironments
+} from "../src/Models/ProjectEnvironment";
+
+describe("project environment", () => {
+  const azureConfigs: AzureConfigs = {
+    schemaVersion: 3,
+    componentConfigs: [
+      {
+        id: "hub",
+        type: ComponentType.IoTHub,
+        name: "IoT Hub",
+        folder: "",
+        dependencies: [],
+        componentInfo: {
+          values: {
+            iotHubConnectionString: "secret:hub.iotHubConnectionString",
+            eventHubConnectionString: "secret:hub.eventHubConnectionString",
+            eventHubConnectionPath: "dev-hub"
+          }
+        }
+      },
+      { id: "functions", type: ComponentType.AzureFunctions, name: "Azure Functions", folder: "", dependencies: [] }
+    ]
+  };
+
+  test("apply component info of environment", () => {
+    const prodInfo = { values: { functionLanguage: "C#", functionAppId: "prod-app" } };
+    const prodConfigs = applyEnvironmentConfig(azureConfigs, { componentInfos: { functions: prodInfo } });
+    expect(prodConfigs.componentConfigs.map(config => config.componentInfo)).toEqual([undefined, prodInfo]);
+    expect(azureConfigs.componentConfigs[0].componentInfo).toBeDefined();
+  });
+
+  test("validate environment config against component types", () => {
+    expect(() =>
+      parseEnvironmentConfig(
+        { componentInfos: { hub: { values: { eventHubConnectionPath: "prod-hub" } }, device: { values: {} } } },
+        "prod.json",
+        azureConfigs
+      )
+    ).toThrow(AzureConfigSchemaError);
+  });
+
+  test("list environments with default first", () => {
+    const projectRootPath = fs.mkdtempSync(path.join(os.tmpdir(), "environment-"));
+    fs.makeTreeSync(path.dirname(getEnvironmentConfigPath(projectRootPath, "prod")));
+    ["prod", "dev", "default"].forEach(environment =>
+      fs.writeFileSync(getEnvironmentConfigPath(projectRootPath, environment), "{}")
+    );
+    expect(listEnvironments(projectRootPath)).toEqual(["default", "dev", "prod"]);
+    fs.removeSync(projectRootPath);
+  });
+
+  test("check environment name and secret scope", () => {
+    expect(isValidEnvironmentName("test_1")).toBe(true);
+    expect(isValidEnvironmentName("../prod")).toBe(false);
+    expect(getSecretScope("hub", "default")).toBe("hub");
+    expect(getSecretScope("hub", "prod")).toBe("prod.hub");
+  });
+});
@@ -0,0 +1,41 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { OperationFailedError } from "../src/common/Error/OperationFailedErrors/OperationFailedError";
+import { ProjectConfigNotFoundError } from "../src/common/Error/SystemErrors/ProjectConfigNotFoundError";
+import { getManifestSection, parseProvisionManifest } from "../src/Models/ProvisionManifest";
+
+describe("provision manifest", () => {
+  const filePath = "provision.json";
+  const manifestJson = {
+    subscriptionId: "subscription",
+    resourceGroup: "group",
+    location: "westus",
+    iotHub: { choice: "new", name: "hub" },
+    device: { choice: "existing", deviceId: "device" },
+    functionApp: { name: "app", appSettings: { key: "value" } }
+  };
+
+  test("parse valid manifest", () => {
+    const manifest = parseProvisionManifest(manifestJson, filePath);
+    expect(getManifestSection(manifest, "iotHub")).toEqual({ choice: "new", name: "hub" });
+    expect(getManifestSection(manifest, "functionApp").appSettings).toEqual({ key: "value" });
+  });
+
+  test("reject invalid choice", () => {
+    expect(() =>
+      parseProvisionManifest({ ...manifestJson, device: { choice: "select", deviceId: "device" } }, filePath)
+    ).toThrow(/"device.choice" should be one of "existing", "new"/);
+  });
+
+  test("reject new IoT Hub without location", () => {
+    expect(() => parseProvisionManifest({ ...manifestJson, location: undefined }, filePath)).toThrow(
+      OperationFailedError
+    );
+  });
+
+  test("report missing section", () => {
+    const manifest = parseProvisionManifest({ subscriptionId: "subscription", resourceGroup: "group" }, filePath);
+    expect(() => getManifestSection(manifest, "device")).toThrow(ProjectConfigNotFoundError);
+  });
+});
@@ -0,0 +1,50 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { diffSettings, formatProvisionPlan } from "../src/Models/ProvisionPlan";
+
+describe("provision plan", () => {
+  test("diff settings without showing secrets", () => {
+    const changes = diffSettings(
+      { FUNCTIONS_EXTENSION_VERSION: "~1", iotHubConnectionString: "HostName=old", unrelated: "kept" },
+      { FUNCTIONS_EXTENSION_VERSION: "~1", iotHubConnectionString: "HostName=new", eventHubConnectionPath: "hub" }
+    );
+    expect(changes).toEqual([
+      { property: "iotHubConnectionString", before: "(secret)", after: "(secret)" },
+      { property: "eventHubConnectionPath", before: undefined, after: "hub" }
+    ]);
+  });
+
+  test("format plan as diff", () => {
+    const lines = formatProvisionPlan([
+      {
+        component: "IoT Hub",
+        resource: "IoT Hub hub",
+        action: "create",
+        changes: [{ property: "sku", after: "S1" }]
+      },
+      {
+        component: "Azure Functions",
+        resource: "function app app",
+        action: "change",
+        changes: [{ property: "eventHubConnectionPath", before: "old", after: "hub" }]
+      },
+      {
+        component: "IoT Hub Device",
+        resource: "device dev",
+        action: "reuse",
+        changes: [],
+        error: "Device does not exist."
+      }
+    ]);
+    expect(lines).toEqual([
+      "+ IoT Hub: IoT Hub hub (create)",
+      "    + sku: S1",
+      "~ Azure Functions: function app app (change)",
+      "    ~ eventHubConnectionPath: old -> hub",
+      "= IoT Hub Device: device dev (reuse)",
+      "    ! Device does not exist.",
+      "Plan: 1 to create, 1 to change, 1 to reuse, 0 to choose in wizard, 1 problem(s) found."
+    ]);
+  });
+});
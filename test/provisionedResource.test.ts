@@ -0,0 +1,28 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { keepOwnership, partitionByOwnership } from "../src/Models/ProvisionedResource";
+
+describe("provisioned resource", () => {
+  const iotHubId = "/subscriptions/sub/resourceGroups/rg/providers/Microsoft.Devices/IotHubs/hub";
+  const functionAppId = "/subscriptions/sub/resourceGroups/rg/providers/Microsoft.Web/sites/app";
+
+  test("delete created resources only", () => {
+    const items = [
+      { description: "IoT Hub device device1", resource: { id: "device1", created: true } },
+      { description: "function app app", resource: { id: functionAppId, created: false } },
+      { description: "IoT Hub hub" }
+    ];
+    const { created, selected } = partitionByOwnership(items);
+    expect(created.map(item => item.resource.id)).toEqual(["device1"]);
+    expect(selected.map(item => item.description)).toEqual(["function app app", "IoT Hub hub"]);
+  });
+
+  test("keep ownership of resource provisioned again", () => {
+    const createdHub = { id: iotHubId, created: true };
+    expect(keepOwnership(createdHub, { id: iotHubId, created: false })).toEqual(createdHub);
+    expect(keepOwnership(createdHub, { id: `${iotHubId}2`, created: false }).created).toBe(false);
+    expect(keepOwnership({ id: iotHubId, created: false }, { id: iotHubId, created: false }).created).toBe(false);
+    expect(keepOwnership(undefined, createdHub)).toEqual(createdHub);
+  });
+});
@@ -0,0 +1,36 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { ResourceNotFoundError } from "../src/common/Error/OperationFailedErrors/ResourceNotFoundError";
+import { SecretStore } from "../src/Models/SecretStore";
+
+describe("secret store", () => {
+  const componentInfo = {
+    values: {
+      iotHubConnectionString: "HostName=hub.azure-devices.net;SharedAccessKey=key",
+      eventHubConnectionPath: "hub"
+    }
+  };
+
+  test("keep only references of secret values", async () => {
+    const protectedInfo = await SecretStore.protectComponentInfo("hub-id", componentInfo);
+    expect(protectedInfo.values).toEqual({
+      iotHubConnectionString: "secret:hub-id.iotHubConnectionString",
+      eventHubConnectionPath: "hub"
+    });
+
+    const resolvedInfo = await SecretStore.resolveComponentInfo(protectedInfo);
+    expect(resolvedInfo).toEqual(componentInfo);
+  });
+
+  test("keep existing references", async () => {
+    const protectedInfo = await SecretStore.protectComponentInfo("hub-id", componentInfo);
+    expect(await SecretStore.protectComponentInfo("other-id", protectedInfo)).toEqual(protectedInfo);
+  });
+
+  test("report missing secret", async () => {
+    const protectedInfo = await SecretStore.protectComponentInfo("device-id", componentInfo);
+    await SecretStore.delete(protectedInfo.values.iotHubConnectionString as string);
+    await expect(SecretStore.resolveComponentInfo(protectedInfo)).rejects.toThrow(ResourceNotFoundError);
+  });
+});
@@ -0,0 +1,102 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+import { OperationCanceledError } from "../src/common/Error/OperationCanceledError";
+import { OperationFailedError } from "../src/common/Error/OperationFailedErrors/OperationFailedError";
+import {
+  SerialConfigDescriptor,
+  SerialConfigPort,
+  SerialConfigProtocol,
+  SerialConfigSetting
+} from "../src/Models/SerialConfigProtocol";
+
+const descriptor: SerialConfigDescriptor = {
+  probeCommand: "help",
+  configModePattern: "set_",
+  configModePrompt: "Push reset button.",
+  commands: { [SerialConfigSetting.DeviceConnectionString]: "set_az_iothub" },
+  chunkSize: 10,
+  chunkDelay: 0,
+  successPattern: "successfully",
+  failurePattern: "^ERROR:?(.*)$",
+  responseTimeout: 50
+};
+
+/**
+ * Serial port of a fake device which lists configuration commands only in
+ * configuration mode and answers configuration command with the reply.
+ */
+class FakeDevicePort implements SerialConfigPort {
+  written = "";
+  private dataListener: ((data: string) => void) | undefined;
+
+  constructor(public configMode: boolean, private reply: string) {}
+
+  write(data: string, callback: (error?: Error | null) => void): void {
+    this.written += data;
+    callback();
+    if (data.includes(descriptor.probeCommand)) {
+      this.emit(this.configMode ? "set_az_iothub\r\n" : "unknown command\r\n");
+    } else if (this.written.endsWith("\r\n")) {
+      this.emit(this.reply);
+    }
+  }
+
+  drain(callback: () => void): void {
+    callback();
+  }
+
+  on(event: "data", listener: (data: string) => void): void;
+  on(event: "error", listener: (error: Error) => void): void;
+  on(event: string, listener: ((data: string) => void) | ((error: Error) => void)): void {
+    if (event === "data") {
+      this.dataListener = listener as (data: string) => void;
+    }
+  }
+
+  private emit(data: string): void {
+    setImmediate(() => {
+      if (this.dataListener) {
+        this.dataListener(data);
+      }
+    });
+  }
+}
+
+describe("serial config protocol", () => {
+  test("write configuration command in chunks", async () => {
+    const port = new FakeDevicePort(true, "INFO: Set connection string successfully.\r\n");
+    const protocol = new SerialConfigProtocol(port, descriptor, () => Promise.resolve(true));
+    const response = await protocol.configure(SerialConfigSetting.DeviceConnectionString, "HostName=hub");
+    expect(response).toBe("successfully");
+    expect(port.written).toBe('\r\nhelp\r\nset_az_iothub "HostName=hub"\r\n');
+  });
+
+  test("report failure message of device", async () => {
+    const port = new FakeDevicePort(true, "ERROR: Invalid connection string\r\n");
+    const protocol = new SerialConfigProtocol(port, descriptor, () => Promise.resolve(true));
+    await expect(protocol.configure(SerialConfigSetting.DeviceConnectionString, "bad")).rejects.toThrow(
+      OperationFailedError
+    );
+    await expect(protocol.configure(SerialConfigSetting.DeviceConnectionString, "bad")).rejects.toThrow(
+      "Invalid connection string"
+    );
+  });
+
+  test("prompt user to enter configuration mode", async () => {
+    const port = new FakeDevicePort(false, "successfully\r\n");
+    const prompts: string[] = [];
+    const protocol = new SerialConfigProtocol(port, descriptor, prompt => {
+      prompts.push(prompt);
+      port.configMode = true;
+      return Promise.resolve(true);
+    });
+    await protocol.configure(SerialConfigSetting.DeviceConnectionString, "HostName=hub");
+    expect(prompts).toEqual([descriptor.configModePrompt]);
+
+    const cancelled = new SerialConfigProtocol(new FakeDevicePort(false, ""), descriptor, () => Promise.resolve(false));
+    await expect(cancelled.configure(SerialConfigSetting.DeviceConnectionString, "HostName=hub")).rejects.toThrow(
+      OperationCanceledError
+    );
+  });
+});